@@ -0,0 +1,202 @@
+import { describe, expect, test } from "vitest";
+import { z } from "zod";
+import { AbiItemSchema } from "@/solc-artifacts/v0.8.33/output-json";
+import { computeSelector, diffAbis } from "./abi-diff";
+
+type AbiItem = z.infer<typeof AbiItemSchema>;
+
+function fn(
+  name: string,
+  inputs: string[],
+  stateMutability: "pure" | "view" | "nonpayable" | "payable" = "nonpayable",
+  outputs: string[] = [],
+): AbiItem {
+  return {
+    type: "function",
+    name,
+    inputs: inputs.map((type) => ({ name: "", type })),
+    outputs: outputs.map((type) => ({ name: "", type })),
+    stateMutability,
+  };
+}
+
+describe("diffAbis", () => {
+  test("reports no change for identical ABIs", () => {
+    const abi = [fn("increment", []), fn("number", [], "view", ["uint256"])];
+    expect(diffAbis(abi, abi)).toEqual([]);
+  });
+
+  test("classifies a removed function as breaking and an added one as non breaking", () => {
+    const changes = diffAbis(
+      [fn("increment", [])],
+      [fn("decrement", ["uint256", "address"])],
+    );
+    expect(changes).toEqual([
+      {
+        kind: "function",
+        signature: "increment()",
+        change: "removed",
+        detail: "removed",
+        breaking: true,
+      },
+      {
+        kind: "function",
+        signature: "decrement(uint256,address)",
+        change: "added",
+        detail: "added",
+        breaking: false,
+      },
+    ]);
+  });
+
+  test("reports a change of the inputs of a single overload", () => {
+    const changes = diffAbis(
+      [fn("setNumber", ["uint256"])],
+      [fn("setNumber", ["uint128"])],
+    );
+    expect(changes).toEqual([
+      {
+        kind: "function",
+        signature: "setNumber(uint256)",
+        change: "inputs-changed",
+        detail: "setNumber(uint256) → setNumber(uint128)",
+        breaking: true,
+      },
+    ]);
+  });
+
+  test("expands tuples in signatures", () => {
+    const changes = diffAbis(
+      [],
+      [
+        {
+          type: "function",
+          name: "submit",
+          inputs: [
+            {
+              name: "order",
+              type: "tuple[]",
+              components: [
+                { name: "amount", type: "uint256" },
+                { name: "to", type: "address" },
+              ],
+            },
+          ],
+          outputs: [],
+          stateMutability: "nonpayable",
+        },
+      ],
+    );
+    expect(changes).toEqual([
+      expect.objectContaining({
+        signature: "submit((uint256,address)[])",
+        change: "added",
+      }),
+    ]);
+  });
+
+  test("reports a change of outputs as breaking", () => {
+    const changes = diffAbis(
+      [fn("number", [], "view", ["uint256"])],
+      [fn("number", [], "view", ["uint128"])],
+    );
+    expect(changes).toEqual([
+      {
+        kind: "function",
+        signature: "number()",
+        change: "outputs-changed",
+        detail: "returns (uint256) → (uint128)",
+        breaking: true,
+      },
+    ]);
+  });
+
+  test.for([
+    ["view", "nonpayable", true],
+    ["pure", "payable", true],
+    ["payable", "nonpayable", true],
+    ["nonpayable", "payable", false],
+    ["nonpayable", "view", false],
+    ["view", "pure", false],
+  ] as const)(
+    "classifies the state mutability change %s → %s as breaking: %s",
+    ([from, to, breaking]) => {
+      const changes = diffAbis([fn("run", [], from)], [fn("run", [], to)]);
+      expect(changes).toEqual([
+        {
+          kind: "function",
+          signature: "run()",
+          change: "state-mutability-changed",
+          detail: `${from} → ${to}`,
+          breaking,
+        },
+      ]);
+    },
+  );
+
+  test("reports a change of the indexed parameters of an event", () => {
+    const event = (indexed: boolean): AbiItem => ({
+      type: "event",
+      name: "Transfer",
+      inputs: [
+        { name: "from", type: "address", indexed: true },
+        { name: "value", type: "uint256", indexed },
+      ],
+      anonymous: false,
+    });
+    expect(diffAbis([event(false)], [event(true)])).toEqual([
+      {
+        kind: "event",
+        signature: "Transfer(address,uint256)",
+        change: "indexed-changed",
+        detail: "indexed (address) → indexed (address,uint256)",
+        breaking: true,
+      },
+    ]);
+  });
+
+  test("reports a new function sharing the selector of a removed one", () => {
+    expect(computeSelector("transfer(address,uint256)")).toBe("0xa9059cbb");
+    const changes = diffAbis(
+      [fn("transfer", ["address", "uint256"])],
+      [fn("many_msg_babbage", ["bytes1"])],
+    );
+    expect(changes).toContainEqual({
+      kind: "function",
+      signature: "many_msg_babbage(bytes1)",
+      change: "selector-collision",
+      detail: "selector 0xa9059cbb is shared with transfer(address,uint256)",
+      breaking: true,
+    });
+  });
+
+  test("treats a missing constructor as a non payable one without inputs", () => {
+    const changes = diffAbis(
+      [],
+      [
+        {
+          type: "constructor",
+          inputs: [{ name: "owner", type: "address" }],
+          stateMutability: "nonpayable",
+        },
+        { type: "receive", stateMutability: "payable" },
+      ],
+    );
+    expect(changes).toEqual([
+      {
+        kind: "constructor",
+        signature: "constructor()",
+        change: "inputs-changed",
+        detail: "constructor() → constructor(address)",
+        breaking: true,
+      },
+      {
+        kind: "receive",
+        signature: "receive",
+        change: "added",
+        detail: "added",
+        breaking: false,
+      },
+    ]);
+  });
+});
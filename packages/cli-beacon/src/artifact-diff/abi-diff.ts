@@ -0,0 +1,371 @@
+import { z } from "zod";
+import { keccak256 } from "@ethersproject/keccak256";
+import { toUtf8Bytes } from "@ethersproject/strings";
+import { AbiItemSchema } from "@/solc-artifacts/v0.8.33/output-json";
+
+type AbiItem = z.infer<typeof AbiItemSchema>;
+type StateMutability = "pure" | "view" | "nonpayable" | "payable";
+
+/**
+ * Change of the ABI of a contract between two artifacts
+ */
+export type AbiChange = {
+  kind: "function" | "event" | "error" | "constructor" | "fallback" | "receive";
+  // Signature of the item in the first artifact, e.g. "transfer(address,uint256)", of the second artifact for an added item
+  signature: string;
+  change:
+    | "added"
+    | "removed"
+    | "inputs-changed"
+    | "outputs-changed"
+    | "state-mutability-changed"
+    | "indexed-changed"
+    | "selector-collision";
+  // Human readable description of the change, e.g. "view → nonpayable"
+  detail: string;
+  // Whether the change breaks the existing integrations of the contract, e.g. callers, indexers or deployment scripts
+  breaking: boolean;
+};
+
+type AbiParameter = {
+  type: string;
+  components?: AbiParameter[] | undefined;
+};
+const AbiParameterSchema: z.ZodType<AbiParameter> = z.lazy(() =>
+  z.object({
+    type: z.string(),
+    components: z.array(AbiParameterSchema).optional(),
+  }),
+);
+
+/**
+ * Compares the ABIs of a contract in two artifacts.
+ *
+ * Functions, events and errors are matched by signature. When a single overload of a name is removed and a single one is added, it is reported as a change of its inputs.
+ * Each change is classified as breaking or not for the integrators of the contract:
+ * - a removed item, a change of inputs, outputs or indexed parameters is breaking,
+ * - an added item is not breaking,
+ * - a state mutability change is breaking if existing calls may revert, e.g. `payable` → `nonpayable` or `view` → `nonpayable`,
+ * - a function of the second ABI whose selector is the one of another function of the first ABI is breaking, existing calls would silently reach it.
+ * @param fromAbi The ABI of the contract in the first artifact
+ * @param toAbi The ABI of the contract in the second artifact
+ * @returns The changes from the first ABI to the second one
+ */
+export function diffAbis(fromAbi: AbiItem[], toAbi: AbiItem[]): AbiChange[] {
+  return [
+    ...diffSignedItems("function", fromAbi, toAbi),
+    ...diffSignedItems("event", fromAbi, toAbi),
+    ...diffSignedItems("error", fromAbi, toAbi),
+    ...diffSelectorCollisions(fromAbi, toAbi),
+    ...diffConstructors(fromAbi, toAbi),
+    ...diffSpecialFunctions("fallback", fromAbi, toAbi),
+    ...diffSpecialFunctions("receive", fromAbi, toAbi),
+  ];
+}
+
+/**
+ * Function selector of a signature, e.g. "0xa9059cbb" for "transfer(address,uint256)"
+ */
+export function computeSelector(signature: string): string {
+  return keccak256(toUtf8Bytes(signature)).slice(0, 10);
+}
+
+type SignedItem = Extract<AbiItem, { type: "function" | "event" | "error" }>;
+
+function diffSignedItems(
+  kind: SignedItem["type"],
+  fromAbi: AbiItem[],
+  toAbi: AbiItem[],
+): AbiChange[] {
+  const fromItems = toSignatureMap(kind, fromAbi);
+  const toItems = toSignatureMap(kind, toAbi);
+
+  const removedSignatures = [...fromItems.keys()].filter(
+    (signature) => !toItems.has(signature),
+  );
+  const addedSignatures = [...toItems.keys()].filter(
+    (signature) => !fromItems.has(signature),
+  );
+
+  const changes: AbiChange[] = [];
+  for (const removedSignature of [...removedSignatures]) {
+    const name = fromItems.get(removedSignature)?.name;
+    const removedOverloads = removedSignatures.filter(
+      (signature) => fromItems.get(signature)?.name === name,
+    );
+    const addedOverloads = addedSignatures.filter(
+      (signature) => toItems.get(signature)?.name === name,
+    );
+    const [addedSignature] = addedOverloads;
+    if (
+      removedOverloads.length !== 1 ||
+      addedOverloads.length !== 1 ||
+      !addedSignature
+    ) {
+      continue;
+    }
+    changes.push({
+      kind,
+      signature: removedSignature,
+      change: "inputs-changed",
+      detail: `${removedSignature} → ${addedSignature}`,
+      breaking: true,
+    });
+    removedSignatures.splice(removedSignatures.indexOf(removedSignature), 1);
+    addedSignatures.splice(addedSignatures.indexOf(addedSignature), 1);
+  }
+  for (const signature of removedSignatures) {
+    changes.push({
+      kind,
+      signature,
+      change: "removed",
+      detail: "removed",
+      breaking: true,
+    });
+  }
+  for (const signature of addedSignatures) {
+    changes.push({
+      kind,
+      signature,
+      change: "added",
+      detail: "added",
+      breaking: false,
+    });
+  }
+
+  for (const [signature, fromItem] of fromItems) {
+    const toItem = toItems.get(signature);
+    if (!toItem) {
+      continue;
+    }
+    if (fromItem.type === "function" && toItem.type === "function") {
+      const fromOutputs = toTypeList(fromItem.outputs ?? []);
+      const toOutputs = toTypeList(toItem.outputs ?? []);
+      if (fromOutputs !== toOutputs) {
+        changes.push({
+          kind,
+          signature,
+          change: "outputs-changed",
+          detail: `returns (${fromOutputs}) → (${toOutputs})`,
+          breaking: true,
+        });
+      }
+      if (fromItem.stateMutability !== toItem.stateMutability) {
+        changes.push(
+          toStateMutabilityChange(
+            kind,
+            signature,
+            fromItem.stateMutability,
+            toItem.stateMutability,
+          ),
+        );
+      }
+    }
+    if (fromItem.type === "event" && toItem.type === "event") {
+      const fromIndexed = toIndexedLabel(fromItem);
+      const toIndexed = toIndexedLabel(toItem);
+      if (fromIndexed !== toIndexed) {
+        changes.push({
+          kind,
+          signature,
+          change: "indexed-changed",
+          detail: `${fromIndexed} → ${toIndexed}`,
+          breaking: true,
+        });
+      }
+    }
+  }
+  return changes;
+}
+
+function diffSelectorCollisions(
+  fromAbi: AbiItem[],
+  toAbi: AbiItem[],
+): AbiChange[] {
+  const fromSignatures = [...toSignatureMap("function", fromAbi).keys()];
+  const toSignatures = [...toSignatureMap("function", toAbi).keys()];
+
+  const removedSignatures = fromSignatures.filter(
+    (signature) => !toSignatures.includes(signature),
+  );
+  const changes: AbiChange[] = [];
+  toSignatures.forEach((toSignature, index) => {
+    const selector = computeSelector(toSignature);
+    // A pair of functions of the second ABI is reported once
+    const collidingSignatures = [
+      ...removedSignatures,
+      ...toSignatures.slice(index + 1),
+    ].filter((signature) => computeSelector(signature) === selector);
+    for (const collidingSignature of collidingSignatures) {
+      changes.push({
+        kind: "function",
+        signature: toSignature,
+        change: "selector-collision",
+        detail: `selector ${selector} is shared with ${collidingSignature}`,
+        breaking: true,
+      });
+    }
+  });
+  return changes;
+}
+
+function diffConstructors(fromAbi: AbiItem[], toAbi: AbiItem[]): AbiChange[] {
+  const fromConstructor = findItem(fromAbi, "constructor");
+  const toConstructor = findItem(toAbi, "constructor");
+  // A contract without an explicit constructor has an implicit non payable one without inputs
+  const fromInputs = toTypeList(fromConstructor?.inputs ?? []);
+  const toInputs = toTypeList(toConstructor?.inputs ?? []);
+  const fromStateMutability = fromConstructor?.stateMutability ?? "nonpayable";
+  const toStateMutability = toConstructor?.stateMutability ?? "nonpayable";
+
+  const changes: AbiChange[] = [];
+  if (fromInputs !== toInputs) {
+    changes.push({
+      kind: "constructor",
+      signature: `constructor(${fromInputs})`,
+      change: "inputs-changed",
+      detail: `constructor(${fromInputs}) → constructor(${toInputs})`,
+      breaking: true,
+    });
+  }
+  if (fromStateMutability !== toStateMutability) {
+    changes.push(
+      toStateMutabilityChange(
+        "constructor",
+        `constructor(${fromInputs})`,
+        fromStateMutability,
+        toStateMutability,
+      ),
+    );
+  }
+  return changes;
+}
+
+function diffSpecialFunctions(
+  kind: "fallback" | "receive",
+  fromAbi: AbiItem[],
+  toAbi: AbiItem[],
+): AbiChange[] {
+  const fromItem = findItem(fromAbi, kind);
+  const toItem = findItem(toAbi, kind);
+  if (fromItem && !toItem) {
+    return [
+      {
+        kind,
+        signature: kind,
+        change: "removed",
+        detail: "removed",
+        breaking: true,
+      },
+    ];
+  }
+  if (!fromItem && toItem) {
+    return [
+      {
+        kind,
+        signature: kind,
+        change: "added",
+        detail: "added",
+        breaking: false,
+      },
+    ];
+  }
+  if (
+    fromItem &&
+    toItem &&
+    fromItem.stateMutability !== toItem.stateMutability
+  ) {
+    return [
+      toStateMutabilityChange(
+        kind,
+        kind,
+        fromItem.stateMutability,
+        toItem.stateMutability,
+      ),
+    ];
+  }
+  return [];
+}
+
+function toStateMutabilityChange(
+  kind: AbiChange["kind"],
+  signature: string,
+  from: StateMutability,
+  to: StateMutability,
+): AbiChange {
+  return {
+    kind,
+    signature,
+    change: "state-mutability-changed",
+    detail: `${from} → ${to}`,
+    breaking: isBreakingStateMutabilityChange(from, to),
+  };
+}
+
+/**
+ * A state mutability change is breaking if existing calls may revert:
+ * - a `payable` item no longer accepts the value sent by callers,
+ * - a `view` or `pure` function may modify the state, static calls revert.
+ */
+function isBreakingStateMutabilityChange(
+  from: StateMutability,
+  to: StateMutability,
+): boolean {
+  if (from === "payable") {
+    return true;
+  }
+  if (from === "view" || from === "pure") {
+    return to === "nonpayable" || to === "payable";
+  }
+  return false;
+}
+
+function findItem<T extends AbiItem["type"]>(
+  abi: AbiItem[],
+  type: T,
+): Extract<AbiItem, { type: T }> | undefined {
+  return abi.find(
+    (item): item is Extract<AbiItem, { type: T }> => item.type === type,
+  );
+}
+
+function toSignatureMap(
+  kind: SignedItem["type"],
+  abi: AbiItem[],
+): Map<string, SignedItem> {
+  const items = new Map<string, SignedItem>();
+  for (const item of abi) {
+    if (item.type === kind) {
+      items.set(`${item.name}(${toTypeList(item.inputs)})`, item);
+    }
+  }
+  return items;
+}
+
+function toIndexedLabel(event: Extract<AbiItem, { type: "event" }>): string {
+  const indexedTypes = event.inputs
+    .filter((input) => input.indexed)
+    .map((input) => toCanonicalType(input));
+  return `${event.anonymous ? "anonymous, " : ""}indexed (${indexedTypes.join(",")})`;
+}
+
+function toTypeList(parameters: { type: string; components?: unknown }[]) {
+  return parameters.map((parameter) => toCanonicalType(parameter)).join(",");
+}
+
+/**
+ * Canonical type of a parameter as used in signatures, tuples are expanded to their components, e.g. "(uint256,address)[]"
+ */
+function toCanonicalType(parameter: {
+  type: string;
+  components?: unknown;
+}): string {
+  if (!parameter.type.startsWith("tuple")) {
+    return parameter.type;
+  }
+  const components = z
+    .array(AbiParameterSchema)
+    .catch([])
+    .parse(parameter.components ?? []);
+  return `(${components.map((component) => toCanonicalType(component)).join(",")})${parameter.type.slice("tuple".length)}`;
+}
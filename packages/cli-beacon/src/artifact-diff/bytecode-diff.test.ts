@@ -0,0 +1,118 @@
+import { describe, expect, test } from "vitest";
+import { z } from "zod";
+import { SolcContractSchema } from "@/solc-artifacts/v0.8.33/output-json";
+import { compareBytecodes } from "./bytecode-diff";
+
+const CODE = "6080604052348015600e575f5ffd5b50";
+
+// CBOR encoded metadata with an IPFS hash and the solc version 0.8.20, followed by its length
+function metadataSuffix(hashByte: string): string {
+  return `a2646970667358221220${hashByte.repeat(32)}64736f6c63430008140033`;
+}
+
+function contract(
+  code: string,
+  opts: {
+    metadata?: string;
+    deployedCode?: string;
+    immutableReferences?: Record<
+      string,
+      Array<{ start: number; length: number }>
+    >;
+    linkReferences?: Record<
+      string,
+      Record<string, Array<{ start: number; length: number }>>
+    >;
+  } = {},
+): z.infer<typeof SolcContractSchema> {
+  return {
+    abi: [],
+    metadata: opts.metadata ?? '{"version":1}',
+    evm: {
+      bytecode: {
+        object: code,
+        linkReferences: opts.linkReferences ?? {},
+      },
+      deployedBytecode: {
+        object: opts.deployedCode ?? code,
+        linkReferences: opts.linkReferences ?? {},
+        immutableReferences: opts.immutableReferences,
+      },
+    },
+  };
+}
+
+describe("compareBytecodes", () => {
+  test("classifies the same bytecodes and metadata as identical", () => {
+    const bytecode = `${CODE}${metadataSuffix("aa")}`;
+    expect(
+      compareBytecodes(contract(bytecode), contract(`0x${bytecode}`)),
+    ).toBe("identical");
+  });
+
+  test("ignores the metadata hash", () => {
+    expect(
+      compareBytecodes(
+        contract(`${CODE}${metadataSuffix("aa")}`),
+        contract(`${CODE}${metadataSuffix("bb")}`, {
+          metadata: '{"version":1,"comment":true}',
+        }),
+      ),
+    ).toBe("metadata-only");
+  });
+
+  test("ignores the metadata hash of a contract created by the contract", () => {
+    expect(
+      compareBytecodes(
+        contract(
+          `${CODE}${metadataSuffix("01")}${CODE}${metadataSuffix("aa")}`,
+        ),
+        contract(
+          `${CODE}${metadataSuffix("02")}${CODE}${metadataSuffix("bb")}`,
+        ),
+      ),
+    ).toBe("metadata-only");
+  });
+
+  test("masks the immutable values of the deployed bytecode", () => {
+    const immutableReferences = { "12": [{ start: 2, length: 4 }] };
+    expect(
+      compareBytecodes(
+        contract(CODE, {
+          deployedCode: `6080000000005b50${metadataSuffix("aa")}`,
+          immutableReferences,
+        }),
+        contract(CODE, {
+          deployedCode: `60801234abcd5b50${metadataSuffix("aa")}`,
+          immutableReferences,
+        }),
+      ),
+    ).toBe("metadata-only");
+  });
+
+  test("masks the placeholders of the linked libraries", () => {
+    expect(
+      compareBytecodes(
+        contract(`73__$${"1".repeat(34)}$__5b50`, {
+          linkReferences: {
+            "src/Math.sol": { Math: [{ start: 1, length: 20 }] },
+          },
+        }),
+        contract(`73__$${"2".repeat(34)}$__5b50`, {
+          linkReferences: {
+            "src/math/Math.sol": { Math: [{ start: 1, length: 20 }] },
+          },
+        }),
+      ),
+    ).toBe("metadata-only");
+  });
+
+  test("reports a change of the executable bytecode", () => {
+    expect(
+      compareBytecodes(
+        contract(`${CODE}${metadataSuffix("aa")}`),
+        contract(`${CODE}00${metadataSuffix("aa")}`),
+      ),
+    ).toBe("code-changed");
+  });
+});
@@ -0,0 +1,111 @@
+import { z } from "zod";
+import { SolcContractSchema } from "@/solc-artifacts/v0.8.33/output-json";
+
+type SolcContract = z.infer<typeof SolcContractSchema>;
+
+/**
+ * Classification of the change of a contract based on its executable bytecode:
+ * - "identical": the bytecodes and the metadata are the same,
+ * - "metadata-only": only the metadata differs, e.g. a comment or a source path changed, the executable bytecode is the same,
+ * - "code-changed": the executable bytecode differs.
+ */
+export type BytecodeChange = "identical" | "metadata-only" | "code-changed";
+
+const ReferencesSchema = z.record(
+  z.string(),
+  z.array(z.object({ start: z.number(), length: z.number() })),
+);
+
+/**
+ * Compares the creation and deployed bytecodes of a contract in two artifacts, without the parts that do not change the executed code:
+ * - the CBOR encoded metadata appended by solc, and the metadata hashes of the contracts created by the contract,
+ * - the immutable values of the deployed bytecode,
+ * - the placeholders of the linked libraries.
+ * @param fromContract The contract output in the first artifact
+ * @param toContract The contract output in the second artifact
+ * @returns The classification of the change
+ */
+export function compareBytecodes(
+  fromContract: SolcContract,
+  toContract: SolcContract,
+): BytecodeChange {
+  const sameCode =
+    normalizeBytecode(fromContract.evm.bytecode) ===
+      normalizeBytecode(toContract.evm.bytecode) &&
+    normalizeBytecode(fromContract.evm.deployedBytecode) ===
+      normalizeBytecode(toContract.evm.deployedBytecode);
+  if (!sameCode) {
+    return "code-changed";
+  }
+  const sameBytecodes =
+    stripHexPrefix(fromContract.evm.bytecode.object) ===
+      stripHexPrefix(toContract.evm.bytecode.object) &&
+    stripHexPrefix(fromContract.evm.deployedBytecode.object) ===
+      stripHexPrefix(toContract.evm.deployedBytecode.object);
+  if (sameBytecodes && fromContract.metadata === toContract.metadata) {
+    return "identical";
+  }
+  return "metadata-only";
+}
+
+/**
+ * Executable part of a bytecode, the metadata is removed and the immutable values and library addresses are replaced by zeros
+ */
+function normalizeBytecode(bytecode: {
+  object: string;
+  linkReferences: unknown;
+  immutableReferences?: unknown;
+}): string {
+  let code = stripHexPrefix(bytecode.object);
+
+  const references = Object.values(
+    ReferencesSchema.catch({}).parse(bytecode.immutableReferences ?? {}),
+  ).flat();
+  const linkReferences = z
+    .record(z.string(), ReferencesSchema)
+    .catch({})
+    .parse(bytecode.linkReferences);
+  for (const fileReferences of Object.values(linkReferences)) {
+    references.push(...Object.values(fileReferences).flat());
+  }
+  for (const { start, length } of references) {
+    code =
+      code.slice(0, start * 2) +
+      "0".repeat(length * 2) +
+      code.slice((start + length) * 2);
+  }
+  // Placeholders of unlinked libraries, in case the link references are not given
+  code = code.replace(/__\$[0-9a-f]{34}\$__/g, "0".repeat(40));
+
+  code = stripMetadata(code);
+  // The metadata of the contracts created by the contract, e.g. with `new`, is embedded in its bytecode
+  return code
+    .replace(/a2646970667358221220[0-9a-f]{64}/g, "")
+    .replace(/a265627a7a72(30|31)5820[0-9a-f]{64}/g, "");
+}
+
+/**
+ * Removes the CBOR encoded metadata at the end of a bytecode, its length is given by the last two bytes
+ */
+function stripMetadata(code: string): string {
+  if (code.length < 4) {
+    return code;
+  }
+  const metadataLength = parseInt(code.slice(-4), 16);
+  const metadataStart = code.length - 4 - metadataLength * 2;
+  if (metadataStart < 0) {
+    return code;
+  }
+  // A CBOR map with one to five entries
+  const firstByte = code.slice(metadataStart, metadataStart + 2);
+  if (!/^a[1-5]$/.test(firstByte)) {
+    return code;
+  }
+  return code.slice(0, metadataStart);
+}
+
+function stripHexPrefix(bytecode: string): string {
+  return (
+    bytecode.startsWith("0x") ? bytecode.slice(2) : bytecode
+  ).toLowerCase();
+}
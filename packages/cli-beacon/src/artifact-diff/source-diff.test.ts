@@ -0,0 +1,104 @@
+import { describe, expect, test } from "vitest";
+import { createUnifiedPatch, diffSources } from "./source-diff";
+
+const COUNTER = `// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+contract Counter {
+  uint256 public counter;
+
+  function increment() public {
+    counter++;
+  }
+
+  function reset() public {
+    counter = 0;
+  }
+}
+`;
+
+describe("createUnifiedPatch", () => {
+  test("generates hunks with three lines of context", () => {
+    const patch = createUnifiedPatch(
+      "src/Counter.sol",
+      COUNTER,
+      COUNTER.replace("counter++;", "counter += 2;").replace(
+        "counter = 0;",
+        "counter = 1;",
+      ),
+    );
+    expect(patch).toBe(
+      [
+        "--- a/src/Counter.sol",
+        "+++ b/src/Counter.sol",
+        "@@ -5,10 +5,10 @@",
+        "   uint256 public counter;",
+        " ",
+        "   function increment() public {",
+        "-    counter++;",
+        "+    counter += 2;",
+        "   }",
+        " ",
+        "   function reset() public {",
+        "-    counter = 0;",
+        "+    counter = 1;",
+        "   }",
+        " }",
+      ].join("\n"),
+    );
+  });
+
+  test("splits distant changes in several hunks", () => {
+    const fromContent = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`);
+    const toContent = [...fromContent];
+    toContent[1] = "line two";
+    toContent[17] = "line eighteen";
+    const patch = createUnifiedPatch(
+      "notes.txt",
+      fromContent.join("\n"),
+      toContent.join("\n"),
+    );
+    expect(patch.split("\n").filter((line) => line.startsWith("@@"))).toEqual([
+      "@@ -1,5 +1,5 @@",
+      "@@ -15,6 +15,6 @@",
+    ]);
+  });
+
+  test("diffs an added source against /dev/null", () => {
+    expect(
+      createUnifiedPatch("src/Oracle.sol", null, "contract Oracle {}\n"),
+    ).toBe(
+      [
+        "--- /dev/null",
+        "+++ b/src/Oracle.sol",
+        "@@ -0,0 +1 @@",
+        "+contract Oracle {}",
+      ].join("\n"),
+    );
+  });
+});
+
+describe("diffSources", () => {
+  test("reports the added, removed and changed sources, sorted by path", () => {
+    const sourceDiffs = diffSources(
+      new Map([
+        ["src/Counter.sol", COUNTER],
+        ["src/Math.sol", "library Math {}\n"],
+        ["src/Ownable.sol", "contract Ownable {}\n"],
+      ]),
+      new Map([
+        ["src/Counter.sol", COUNTER.replace("^0.8.28", "^0.8.30")],
+        ["src/Math.sol", "library Math {}\n"],
+        ["src/Oracle.sol", "contract Oracle {}\n"],
+      ]),
+    );
+    expect(sourceDiffs.map(({ path, status }) => ({ path, status }))).toEqual([
+      { path: "src/Counter.sol", status: "changed" },
+      { path: "src/Oracle.sol", status: "added" },
+      { path: "src/Ownable.sol", status: "removed" },
+    ]);
+    expect(sourceDiffs[0]?.patch).toContain(
+      "-pragma solidity ^0.8.28;\n+pragma solidity ^0.8.30;",
+    );
+  });
+});
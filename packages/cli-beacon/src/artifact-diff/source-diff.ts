@@ -0,0 +1,274 @@
+/**
+ * Unified diff of a source between two artifacts
+ */
+export type SourceDiff = {
+  // The source path, e.g. "src/Counter.sol"
+  path: string;
+  status: "added" | "removed" | "changed";
+  // The unified diff of the source, with the "---" and "+++" headers
+  patch: string;
+};
+
+const CONTEXT_LINES = 3;
+// Above this number of edits, a source is diffed as entirely replaced in order to bound the memory used by the diff
+const MAX_EDIT_DISTANCE = 2_000;
+
+/**
+ * Compares the contents of sources in two artifacts and generates the unified diffs of the ones that differ.
+ * @param fromSources The content of the sources in the first artifact, by path
+ * @param toSources The content of the sources in the second artifact, by path
+ * @returns The diffs of the sources, sorted by path, a source in only one of the artifacts is added or removed
+ */
+export function diffSources(
+  fromSources: Map<string, string>,
+  toSources: Map<string, string>,
+): SourceDiff[] {
+  const paths = [...new Set([...fromSources.keys(), ...toSources.keys()])];
+  paths.sort();
+
+  const sourceDiffs: SourceDiff[] = [];
+  for (const path of paths) {
+    const fromContent = fromSources.get(path);
+    const toContent = toSources.get(path);
+    if (fromContent === toContent) {
+      continue;
+    }
+    sourceDiffs.push({
+      path,
+      status:
+        fromContent === undefined
+          ? "added"
+          : toContent === undefined
+            ? "removed"
+            : "changed",
+      patch: createUnifiedPatch(path, fromContent ?? null, toContent ?? null),
+    });
+  }
+  return sourceDiffs;
+}
+
+/**
+ * Unified diff between two contents of a source, a null content is a missing source
+ */
+export function createUnifiedPatch(
+  path: string,
+  fromContent: string | null,
+  toContent: string | null,
+): string {
+  const edits = diffLines(splitLines(fromContent), splitLines(toContent));
+
+  const lines = [
+    fromContent === null ? "--- /dev/null" : `--- a/${path}`,
+    toContent === null ? "+++ /dev/null" : `+++ b/${path}`,
+  ];
+  for (const hunk of toHunks(edits)) {
+    lines.push(
+      `@@ -${toRange(hunk.fromStart, hunk.fromCount)} +${toRange(hunk.toStart, hunk.toCount)} @@`,
+      ...hunk.lines,
+    );
+  }
+  return lines.join("\n");
+}
+
+type Edit = { type: "equal" | "delete" | "insert"; line: string };
+
+/**
+ * Shortest edit script between two lists of lines, following the Myers diff algorithm
+ */
+function diffLines(fromLines: string[], toLines: string[]): Edit[] {
+  let prefixLength = 0;
+  while (
+    prefixLength < fromLines.length &&
+    prefixLength < toLines.length &&
+    fromLines[prefixLength] === toLines[prefixLength]
+  ) {
+    prefixLength++;
+  }
+  let suffixLength = 0;
+  while (
+    suffixLength < fromLines.length - prefixLength &&
+    suffixLength < toLines.length - prefixLength &&
+    fromLines[fromLines.length - 1 - suffixLength] ===
+      toLines[toLines.length - 1 - suffixLength]
+  ) {
+    suffixLength++;
+  }
+  const equal = (line: string): Edit => ({ type: "equal", line });
+  const a = fromLines.slice(prefixLength, fromLines.length - suffixLength);
+  const b = toLines.slice(prefixLength, toLines.length - suffixLength);
+  return [
+    ...fromLines.slice(0, prefixLength).map(equal),
+    ...myersDiff(a, b),
+    ...fromLines.slice(fromLines.length - suffixLength).map(equal),
+  ];
+}
+
+function myersDiff(a: string[], b: string[]): Edit[] {
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+  // The furthest x reached on each diagonal k = x - y, with an offset of max + 1 for the negative diagonals
+  const offset = max + 1;
+  const v = new Array<number>(2 * max + 2).fill(0);
+  const trace: number[][] = [];
+
+  for (let d = 0; d <= max; d++) {
+    trace.push([...v]);
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d ||
+        (k !== d && (v[k - 1 + offset] ?? 0) < (v[k + 1 + offset] ?? 0))
+          ? (v[k + 1 + offset] ?? 0)
+          : (v[k - 1 + offset] ?? 0) + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[k + offset] = x;
+      if (x >= n && y >= m) {
+        return backtrack(a, b, trace, offset);
+      }
+    }
+  }
+
+  return [
+    ...a.map((line): Edit => ({ type: "delete", line })),
+    ...b.map((line): Edit => ({ type: "insert", line })),
+  ];
+}
+
+function backtrack(
+  a: string[],
+  b: string[],
+  trace: number[][],
+  offset: number,
+): Edit[] {
+  const edits: Edit[] = [];
+  let x = a.length;
+  let y = b.length;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const v = trace[d] ?? [];
+    const k = x - y;
+    const previousK =
+      k === -d ||
+      (k !== d && (v[k - 1 + offset] ?? 0) < (v[k + 1 + offset] ?? 0))
+        ? k + 1
+        : k - 1;
+    const previousX = v[previousK + offset] ?? 0;
+    const previousY = previousX - previousK;
+    while (x > previousX && y > previousY) {
+      edits.push({ type: "equal", line: a[x - 1] ?? "" });
+      x--;
+      y--;
+    }
+    if (d > 0) {
+      if (x === previousX) {
+        edits.push({ type: "insert", line: b[y - 1] ?? "" });
+      } else {
+        edits.push({ type: "delete", line: a[x - 1] ?? "" });
+      }
+    }
+    x = previousX;
+    y = previousY;
+  }
+  return edits.reverse();
+}
+
+type Hunk = {
+  fromStart: number;
+  fromCount: number;
+  toStart: number;
+  toCount: number;
+  lines: string[];
+};
+
+/**
+ * Groups the edits in hunks, the changes separated by at most twice the context lines are in the same hunk
+ */
+function toHunks(edits: Edit[]): Hunk[] {
+  const hunks: Hunk[] = [];
+  let current: (Hunk & { lastChangeIndex: number }) | null = null;
+  let fromLine = 0;
+  let toLine = 0;
+
+  for (const [index, edit] of edits.entries()) {
+    if (edit.type !== "equal") {
+      if (!current || index - current.lastChangeIndex - 1 > 2 * CONTEXT_LINES) {
+        if (current) {
+          hunks.push(closeHunk(current, edits));
+        }
+        const contextStart = Math.max(0, index - CONTEXT_LINES);
+        const context = edits.slice(contextStart, index);
+        current = {
+          fromStart: fromLine - context.length,
+          fromCount: context.length,
+          toStart: toLine - context.length,
+          toCount: context.length,
+          lines: context.map((e) => ` ${e.line}`),
+          lastChangeIndex: index,
+        };
+      } else {
+        // The equal lines between the two changes
+        for (const e of edits.slice(current.lastChangeIndex + 1, index)) {
+          current.lines.push(` ${e.line}`);
+          current.fromCount++;
+          current.toCount++;
+        }
+        current.lastChangeIndex = index;
+      }
+      if (edit.type === "delete") {
+        current.lines.push(`-${edit.line}`);
+        current.fromCount++;
+      } else {
+        current.lines.push(`+${edit.line}`);
+        current.toCount++;
+      }
+    }
+    if (edit.type !== "insert") {
+      fromLine++;
+    }
+    if (edit.type !== "delete") {
+      toLine++;
+    }
+  }
+  if (current) {
+    hunks.push(closeHunk(current, edits));
+  }
+  return hunks;
+}
+
+function closeHunk(
+  hunk: Hunk & { lastChangeIndex: number },
+  edits: Edit[],
+): Hunk {
+  const context = edits
+    .slice(hunk.lastChangeIndex + 1, hunk.lastChangeIndex + 1 + CONTEXT_LINES)
+    .filter((edit) => edit.type === "equal");
+  return {
+    fromStart: hunk.fromStart,
+    fromCount: hunk.fromCount + context.length,
+    toStart: hunk.toStart,
+    toCount: hunk.toCount + context.length,
+    lines: [...hunk.lines, ...context.map((edit) => ` ${edit.line}`)],
+  };
+}
+
+/**
+ * Range of a hunk header, the start is 1-based, or the line before the hunk for an empty range
+ */
+function toRange(start: number, count: number): string {
+  const displayedStart = count === 0 ? start : start + 1;
+  return count === 1 ? `${displayedStart}` : `${displayedStart},${count}`;
+}
+
+function splitLines(content: string | null): string[] {
+  if (content === null || content === "") {
+    return [];
+  }
+  const lines = content.split("\n");
+  if (lines[lines.length - 1] === "") {
+    lines.pop();
+  }
+  return lines;
+}
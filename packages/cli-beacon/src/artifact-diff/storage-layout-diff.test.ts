@@ -0,0 +1,292 @@
+import { describe, expect, test } from "vitest";
+import { EthokoContractOutputArtifact } from "@/ethoko-artifacts/v0";
+import {
+  computeNamespaceSlot,
+  diffStorageLayouts,
+} from "./storage-layout-diff";
+
+const TYPES = {
+  t_uint256: { encoding: "inplace", label: "uint256", numberOfBytes: "32" },
+  t_uint128: { encoding: "inplace", label: "uint128", numberOfBytes: "16" },
+  t_address: { encoding: "inplace", label: "address", numberOfBytes: "20" },
+  t_bool: { encoding: "inplace", label: "bool", numberOfBytes: "1" },
+  "t_mapping(t_address,t_uint256)": {
+    encoding: "mapping",
+    label: "mapping(address => uint256)",
+    numberOfBytes: "32",
+    key: "t_address",
+    value: "t_uint256",
+  },
+  "t_mapping(t_address,t_uint128)": {
+    encoding: "mapping",
+    label: "mapping(address => uint128)",
+    numberOfBytes: "32",
+    key: "t_address",
+    value: "t_uint128",
+  },
+};
+
+function variable(label: string, slot: number, type: string, offset = 0) {
+  return {
+    astId: 0,
+    contract: "src/Vault.sol:Vault",
+    label,
+    offset,
+    slot: String(slot),
+    type,
+  };
+}
+
+function contractArtifact(
+  storageLayout: unknown,
+  namespaces: Array<{ id: string; members: Array<[string, string]> }> = [],
+): EthokoContractOutputArtifact {
+  return {
+    id: "artifact",
+    sourceName: "src/Vault.sol",
+    contract: "Vault",
+    _format: "ethoko-output-v0",
+    output: {
+      contract: {
+        abi: [],
+        metadata: "{}",
+        storageLayout:
+          storageLayout as EthokoContractOutputArtifact["output"]["contract"]["storageLayout"],
+        evm: {
+          bytecode: { object: "", linkReferences: {} },
+          deployedBytecode: { object: "", linkReferences: {} },
+        },
+      },
+      source: {
+        id: 0,
+        ast: {
+          nodeType: "SourceUnit",
+          nodes: [
+            {
+              nodeType: "ContractDefinition",
+              id: 1,
+              name: "Vault",
+              linearizedBaseContracts: [1],
+              nodes: namespaces.map((namespace, index) => ({
+                nodeType: "StructDefinition",
+                name: `Storage${index}`,
+                documentation: {
+                  nodeType: "StructuredDocumentation",
+                  text: ` @custom:storage-location erc7201:${namespace.id}`,
+                },
+                members: namespace.members.map(([name, typeString]) => ({
+                  nodeType: "VariableDeclaration",
+                  name,
+                  typeDescriptions: { typeString },
+                })),
+              })),
+            },
+          ],
+        },
+      },
+    },
+  };
+}
+
+function diff(
+  fromContract: EthokoContractOutputArtifact,
+  toContract: EthokoContractOutputArtifact,
+) {
+  return diffStorageLayouts(
+    { contract: fromContract, contracts: [fromContract] },
+    { contract: toContract, contracts: [toContract] },
+  );
+}
+
+describe("diffStorageLayouts", () => {
+  test("appended and renamed variables are upgrade safe", () => {
+    const result = diff(
+      contractArtifact({
+        storage: [variable("owner", 0, "t_address")],
+        types: TYPES,
+      }),
+      contractArtifact({
+        storage: [
+          variable("admin", 0, "t_address"),
+          variable("paused", 0, "t_bool", 20),
+          variable("balances", 1, "t_mapping(t_address,t_uint256)"),
+        ],
+        types: TYPES,
+      }),
+    );
+    expect(result).toEqual({
+      verdict: "safe",
+      missingLayouts: [],
+      namespacesChecked: true,
+      changes: [
+        {
+          variable: "owner",
+          change: "renamed",
+          detail: "owner → admin",
+          safe: true,
+        },
+        {
+          variable: "paused",
+          change: "added",
+          detail: "slot 0 offset 20",
+          safe: true,
+        },
+        {
+          variable: "balances",
+          change: "added",
+          detail: "slot 1",
+          safe: true,
+        },
+      ],
+    });
+  });
+
+  test("reordered, retyped, shrunk and removed variables are upgrade unsafe", () => {
+    const result = diff(
+      contractArtifact({
+        storage: [
+          variable("owner", 0, "t_address"),
+          variable("total", 1, "t_uint256"),
+          variable("balances", 2, "t_mapping(t_address,t_uint256)"),
+          variable("fee", 3, "t_uint256"),
+          variable("legacy", 4, "t_uint256"),
+        ],
+        types: TYPES,
+      }),
+      contractArtifact({
+        storage: [
+          variable("total", 0, "t_uint256"),
+          variable("owner", 1, "t_address"),
+          variable("balances", 2, "t_mapping(t_address,t_uint128)"),
+          variable("fee", 3, "t_uint128"),
+          variable("cap", 4, "t_bool"),
+        ],
+        types: TYPES,
+      }),
+    );
+    expect(result.verdict).toBe("unsafe");
+    expect(result.changes).toEqual([
+      {
+        variable: "owner",
+        change: "reordered",
+        detail: "slot 0 → slot 1",
+        safe: false,
+      },
+      {
+        variable: "total",
+        change: "reordered",
+        detail: "slot 1 → slot 0",
+        safe: false,
+      },
+      {
+        variable: "balances[]",
+        change: "shrunk",
+        detail: "uint256 (32 bytes) → uint128 (16 bytes)",
+        safe: false,
+      },
+      {
+        variable: "fee",
+        change: "shrunk",
+        detail: "uint256 (32 bytes) → uint128 (16 bytes)",
+        safe: false,
+      },
+      {
+        variable: "legacy",
+        change: "removed",
+        detail: "slot 4 is no longer used",
+        safe: false,
+      },
+      {
+        variable: "cap",
+        change: "inserted",
+        detail: "slot 4 overlaps the storage of the previous layout",
+        safe: false,
+      },
+    ]);
+  });
+
+  test("reports a missing storage layout with an unknown verdict", () => {
+    const result = diff(
+      contractArtifact(undefined),
+      contractArtifact({
+        storage: [variable("owner", 0, "t_address")],
+        types: TYPES,
+      }),
+    );
+    expect(result).toEqual({
+      verdict: "unknown",
+      missingLayouts: ["from"],
+      namespacesChecked: true,
+      changes: [],
+    });
+  });
+
+  test("compares the members of the ERC-7201 namespaces", () => {
+    const empty = { storage: [], types: null };
+    const result = diff(
+      contractArtifact(empty, [
+        {
+          id: "example.main",
+          members: [
+            ["owner", "address"],
+            ["fee", "uint256"],
+          ],
+        },
+        { id: "example.legacy", members: [["value", "uint256"]] },
+      ]),
+      contractArtifact(empty, [
+        {
+          id: "example.main",
+          members: [
+            ["owner", "address"],
+            ["fee", "uint128"],
+            ["cap", "uint256"],
+          ],
+        },
+        { id: "example.other", members: [["value", "uint256"]] },
+        { id: "example.other", members: [["flag", "bool"]] },
+      ]),
+    );
+    expect(result.verdict).toBe("unsafe");
+    expect(result.changes).toEqual([
+      {
+        variable: "erc7201:example.other",
+        change: "namespace-conflict",
+        detail: `the namespace is declared by several structs, they share the slot ${computeNamespaceSlot("example.other")}`,
+        safe: false,
+      },
+      {
+        variable: "erc7201:example.main.fee",
+        change: "retyped",
+        detail: "uint256 → uint128",
+        safe: false,
+      },
+      {
+        variable: "erc7201:example.main.cap",
+        change: "added",
+        detail: "member 2",
+        safe: true,
+      },
+      {
+        variable: "erc7201:example.legacy",
+        change: "namespace-removed",
+        detail: `Vault.Storage1 at slot ${computeNamespaceSlot("example.legacy")} is no longer declared`,
+        safe: false,
+      },
+      {
+        variable: "erc7201:example.other",
+        change: "namespace-added",
+        detail: `Vault.Storage1 at slot ${computeNamespaceSlot("example.other")}`,
+        safe: true,
+      },
+    ]);
+  });
+});
+
+describe("computeNamespaceSlot", () => {
+  test("derives the slot of the ERC-7201 example namespace", () => {
+    expect(computeNamespaceSlot("example.main")).toBe(
+      "0x183a6125c38840424c4a85fa12bab2ab606c4b6d0e7cc73c0c06ba5300eab500",
+    );
+  });
+});
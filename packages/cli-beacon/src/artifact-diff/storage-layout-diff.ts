@@ -0,0 +1,550 @@
+import { z } from "zod";
+import { keccak256 } from "@ethersproject/keccak256";
+import { toUtf8Bytes } from "@ethersproject/strings";
+import { EthokoContractOutputArtifact } from "@/ethoko-artifacts/v0";
+
+/**
+ * Change of the storage layout of a contract between two artifacts
+ */
+export type StorageLayoutChange = {
+  // The variable, e.g. "owner", "config.fee" for a struct member or "erc7201:example.main.fee" for a member of an ERC-7201 namespace
+  variable: string;
+  change:
+    | "added"
+    | "removed"
+    | "renamed"
+    | "reordered"
+    | "retyped"
+    | "shrunk"
+    | "inserted"
+    | "namespace-added"
+    | "namespace-removed"
+    | "namespace-conflict";
+  // Human readable description of the change, e.g. "slot 0 → slot 1"
+  detail: string;
+  // Whether a proxy can be upgraded from the first implementation to the second one with this change
+  safe: boolean;
+};
+
+/**
+ * Comparison of the storage layouts of a contract in two artifacts
+ */
+export type StorageLayoutDiff = {
+  // "unknown" if a storage layout is missing and no unsafe change has been found
+  verdict: "safe" | "unsafe" | "unknown";
+  // The artifacts whose contract output does not contain the storage layout, i.e. `storageLayout` was not in the solc output selection
+  missingLayouts: Array<"from" | "to">;
+  // Whether the ERC-7201 namespaces have been compared, it requires the source ASTs of both artifacts
+  namespacesChecked: boolean;
+  changes: StorageLayoutChange[];
+};
+
+type StorageEntry = {
+  label: string;
+  contract: string;
+  slot: string;
+  offset: number;
+  type: string;
+};
+const StorageEntrySchema = z.object({
+  label: z.string(),
+  contract: z.string(),
+  slot: z.string(),
+  offset: z.number(),
+  type: z.string(),
+});
+const StorageTypeSchema = z.object({
+  encoding: z.string(),
+  label: z.string(),
+  numberOfBytes: z.string(),
+  key: z.string().optional(),
+  value: z.string().optional(),
+  base: z.string().optional(),
+  members: z.array(StorageEntrySchema).optional(),
+});
+type StorageTypes = Record<string, z.infer<typeof StorageTypeSchema>>;
+// See https://docs.soliditylang.org/en/latest/internals/layout_in_storage.html#json-output
+const StorageLayoutSchema = z.object({
+  storage: z.array(StorageEntrySchema),
+  // Null for a contract without state variables
+  types: z.record(z.string(), StorageTypeSchema).nullable(),
+});
+
+/**
+ * Compares the storage layouts of a contract in two artifacts, as the implementations of a proxy before and after an upgrade.
+ *
+ * State variables are matched by name:
+ * - a removed, moved or retyped variable is unsafe, as is a type with fewer bytes, the members of structs, mappings and arrays are compared recursively,
+ * - a variable renamed in place with the same type is safe,
+ * - a new variable is safe only if it is stored after the storage of the first layout.
+ *
+ * The ERC-7201 namespaces, i.e. the structs annotated with `@custom:storage-location erc7201:<id>` in the contract and its bases, are found in the source ASTs.
+ * Their members are compared in order, a removed namespace or a namespace declared twice is unsafe.
+ * @param from The contract in the first artifact and all the contracts of this artifact, used to find the ASTs of the base contracts
+ * @param to The contract in the second artifact and all the contracts of this artifact
+ * @returns The storage layout changes and the upgrade-safety verdict
+ */
+export function diffStorageLayouts(
+  from: {
+    contract: EthokoContractOutputArtifact;
+    contracts: EthokoContractOutputArtifact[];
+  },
+  to: {
+    contract: EthokoContractOutputArtifact;
+    contracts: EthokoContractOutputArtifact[];
+  },
+): StorageLayoutDiff {
+  const fromLayout = StorageLayoutSchema.safeParse(
+    from.contract.output.contract.storageLayout,
+  );
+  const toLayout = StorageLayoutSchema.safeParse(
+    to.contract.output.contract.storageLayout,
+  );
+  const missingLayouts: StorageLayoutDiff["missingLayouts"] = [];
+  if (!fromLayout.success) {
+    missingLayouts.push("from");
+  }
+  if (!toLayout.success) {
+    missingLayouts.push("to");
+  }
+
+  const changes: StorageLayoutChange[] = [];
+  if (fromLayout.success && toLayout.success) {
+    changes.push(
+      ...diffStorageEntries(
+        fromLayout.data.storage,
+        toLayout.data.storage,
+        {
+          from: fromLayout.data.types ?? {},
+          to: toLayout.data.types ?? {},
+        },
+        "",
+      ),
+    );
+  }
+
+  const fromNamespaces = collectNamespaces(from.contract, from.contracts);
+  const toNamespaces = collectNamespaces(to.contract, to.contracts);
+  if (fromNamespaces && toNamespaces) {
+    changes.push(...diffNamespaces(fromNamespaces, toNamespaces));
+  }
+
+  let verdict: StorageLayoutDiff["verdict"] = "safe";
+  if (changes.some((change) => !change.safe)) {
+    verdict = "unsafe";
+  } else if (missingLayouts.length > 0) {
+    verdict = "unknown";
+  }
+  return {
+    verdict,
+    missingLayouts,
+    namespacesChecked: fromNamespaces !== null && toNamespaces !== null,
+    changes,
+  };
+}
+
+/**
+ * Storage slot of an ERC-7201 namespace, `keccak256(abi.encode(uint256(keccak256(id)) - 1)) & ~bytes32(uint256(0xff))`
+ */
+export function computeNamespaceSlot(namespaceId: string): string {
+  const idHash = BigInt(keccak256(toUtf8Bytes(namespaceId)));
+  const encoded = `0x${(idHash - 1n).toString(16).padStart(64, "0")}`;
+  const slot = BigInt(keccak256(encoded)) & ~0xffn;
+  return `0x${slot.toString(16).padStart(64, "0")}`;
+}
+
+function diffStorageEntries(
+  fromEntries: StorageEntry[],
+  toEntries: StorageEntry[],
+  types: { from: StorageTypes; to: StorageTypes },
+  prefix: string,
+): StorageLayoutChange[] {
+  const changes: StorageLayoutChange[] = [];
+  const matchedToEntries = new Set<StorageEntry>();
+  const fromLabels = new Set(fromEntries.map((entry) => entry.label));
+
+  for (const fromEntry of fromEntries) {
+    const variable = `${prefix}${fromEntry.label}`;
+    const toEntry =
+      toEntries.find(
+        (entry) =>
+          entry.label === fromEntry.label &&
+          entry.contract === fromEntry.contract,
+      ) ?? toEntries.find((entry) => entry.label === fromEntry.label);
+    if (toEntry) {
+      matchedToEntries.add(toEntry);
+      if (toPosition(fromEntry) !== toPosition(toEntry)) {
+        changes.push({
+          variable,
+          change: "reordered",
+          detail: `${toLocationLabel(fromEntry)} → ${toLocationLabel(toEntry)}`,
+          safe: false,
+        });
+        continue;
+      }
+      changes.push(
+        ...diffStorageTypes(fromEntry.type, toEntry.type, types, variable),
+      );
+      continue;
+    }
+
+    const renamedEntry = toEntries.find(
+      (entry) =>
+        !fromLabels.has(entry.label) &&
+        toPosition(entry) === toPosition(fromEntry) &&
+        (types.to[entry.type]?.label ?? entry.type) ===
+          (types.from[fromEntry.type]?.label ?? fromEntry.type),
+    );
+    if (renamedEntry) {
+      matchedToEntries.add(renamedEntry);
+      changes.push({
+        variable,
+        change: "renamed",
+        detail: `${fromEntry.label} → ${renamedEntry.label}`,
+        safe: true,
+      });
+      continue;
+    }
+    changes.push({
+      variable,
+      change: "removed",
+      detail: `${toLocationLabel(fromEntry)} is no longer used`,
+      safe: false,
+    });
+  }
+
+  // A new variable must not use the storage of the first layout, it may contain the values of removed variables
+  const fromEnd = fromEntries.reduce((end, entry) => {
+    const entryEnd =
+      toPosition(entry) + BigInt(types.from[entry.type]?.numberOfBytes ?? 32);
+    return entryEnd > end ? entryEnd : end;
+  }, 0n);
+  for (const toEntry of toEntries) {
+    if (matchedToEntries.has(toEntry)) {
+      continue;
+    }
+    const safe = toPosition(toEntry) >= fromEnd;
+    changes.push({
+      variable: `${prefix}${toEntry.label}`,
+      change: safe ? "added" : "inserted",
+      detail: safe
+        ? toLocationLabel(toEntry)
+        : `${toLocationLabel(toEntry)} overlaps the storage of the previous layout`,
+      safe,
+    });
+  }
+  return changes;
+}
+
+function diffStorageTypes(
+  fromTypeId: string,
+  toTypeId: string,
+  types: { from: StorageTypes; to: StorageTypes },
+  variable: string,
+): StorageLayoutChange[] {
+  const fromType = types.from[fromTypeId];
+  const toType = types.to[toTypeId];
+  if (!fromType || !toType) {
+    return fromTypeId === toTypeId
+      ? []
+      : [
+          {
+            variable,
+            change: "retyped",
+            detail: `${fromTypeId} → ${toTypeId}`,
+            safe: false,
+          },
+        ];
+  }
+
+  const retyped: StorageLayoutChange = {
+    variable,
+    change: "retyped",
+    detail: `${fromType.label} → ${toType.label}`,
+    safe: false,
+  };
+  if (fromType.encoding !== toType.encoding) {
+    return [retyped];
+  }
+  const fromBytes = BigInt(fromType.numberOfBytes);
+  const toBytes = BigInt(toType.numberOfBytes);
+  if (toBytes < fromBytes) {
+    return [
+      {
+        variable,
+        change: "shrunk",
+        detail: `${fromType.label} (${fromBytes} bytes) → ${toType.label} (${toBytes} bytes)`,
+        safe: false,
+      },
+    ];
+  }
+
+  if (fromType.members && toType.members) {
+    return diffStorageEntries(
+      fromType.members,
+      toType.members,
+      types,
+      `${variable}.`,
+    );
+  }
+  if (fromType.encoding === "mapping" && fromType.value && toType.value) {
+    if (
+      fromType.key &&
+      toType.key &&
+      types.from[fromType.key]?.label !== types.to[toType.key]?.label
+    ) {
+      return [retyped];
+    }
+    return diffStorageTypes(
+      fromType.value,
+      toType.value,
+      types,
+      `${variable}[]`,
+    );
+  }
+  if (fromType.base && toType.base) {
+    // The length of a static array is part of its label, a longer static array only shifts the next variables
+    if (fromType.encoding === "inplace" && fromBytes !== toBytes) {
+      return [];
+    }
+    return diffStorageTypes(fromType.base, toType.base, types, `${variable}[]`);
+  }
+  if (fromType.label !== toType.label) {
+    return [retyped];
+  }
+  return [];
+}
+
+type Namespace = {
+  struct: string;
+  members: Array<{ name: string; type: string }>;
+};
+
+const StructDefinitionSchema = z.object({
+  nodeType: z.literal("StructDefinition"),
+  name: z.string(),
+  documentation: z
+    .union([z.string(), z.object({ text: z.string() })])
+    .nullable()
+    .optional(),
+  members: z.array(
+    z.object({
+      name: z.string(),
+      typeDescriptions: z.object({ typeString: z.string() }),
+    }),
+  ),
+});
+const ContractDefinitionSchema = z.object({
+  nodeType: z.literal("ContractDefinition"),
+  id: z.number(),
+  name: z.string(),
+  linearizedBaseContracts: z.array(z.number()),
+  nodes: z.array(z.unknown()),
+});
+const SourceUnitSchema = z.object({
+  nodes: z.array(z.unknown()),
+});
+
+/**
+ * Collects the ERC-7201 namespaces declared by a contract and its bases, by namespace ID
+ * @returns The namespaces, the namespaces declared several times under the same ID, or null if the source ASTs are not available
+ */
+function collectNamespaces(
+  contract: EthokoContractOutputArtifact,
+  contracts: EthokoContractOutputArtifact[],
+): { namespaces: Map<string, Namespace>; conflicts: string[] } | null {
+  const contractDefinition = listContractDefinitions(contract).find(
+    (definition) => definition.name === contract.contract,
+  );
+  if (!contractDefinition) {
+    return null;
+  }
+  // The IDs of the AST nodes are shared by the sources of a compilation
+  const contractDefinitions = new Map<
+    number,
+    z.infer<typeof ContractDefinitionSchema>
+  >();
+  for (const c of contracts) {
+    if (c.compilation !== contract.compilation) {
+      continue;
+    }
+    for (const definition of listContractDefinitions(c)) {
+      contractDefinitions.set(definition.id, definition);
+    }
+  }
+
+  const namespaces = new Map<string, Namespace>();
+  const conflicts: string[] = [];
+  for (const baseId of contractDefinition.linearizedBaseContracts) {
+    const base = contractDefinitions.get(baseId);
+    if (!base) {
+      // A base of another source without contract artifact, its namespaces can not be found
+      return null;
+    }
+    for (const node of base.nodes) {
+      const struct = StructDefinitionSchema.safeParse(node);
+      if (!struct.success) {
+        continue;
+      }
+      const documentation =
+        typeof struct.data.documentation === "string"
+          ? struct.data.documentation
+          : (struct.data.documentation?.text ?? "");
+      const namespaceId = documentation.match(
+        /@custom:storage-location\s+erc7201:(\S+)/,
+      )?.[1];
+      if (!namespaceId) {
+        continue;
+      }
+      if (namespaces.has(namespaceId)) {
+        conflicts.push(namespaceId);
+        continue;
+      }
+      namespaces.set(namespaceId, {
+        struct: `${base.name}.${struct.data.name}`,
+        members: struct.data.members.map((member) => ({
+          name: member.name,
+          type: member.typeDescriptions.typeString,
+        })),
+      });
+    }
+  }
+  return { namespaces, conflicts };
+}
+
+function listContractDefinitions(
+  contract: EthokoContractOutputArtifact,
+): z.infer<typeof ContractDefinitionSchema>[] {
+  const sourceUnit = SourceUnitSchema.safeParse(contract.output.source?.ast);
+  if (!sourceUnit.success) {
+    return [];
+  }
+  return sourceUnit.data.nodes.flatMap((node) => {
+    const definition = ContractDefinitionSchema.safeParse(node);
+    return definition.success ? [definition.data] : [];
+  });
+}
+
+function diffNamespaces(
+  from: { namespaces: Map<string, Namespace> },
+  to: { namespaces: Map<string, Namespace>; conflicts: string[] },
+): StorageLayoutChange[] {
+  const changes: StorageLayoutChange[] = [];
+  for (const namespaceId of new Set(to.conflicts)) {
+    changes.push({
+      variable: `erc7201:${namespaceId}`,
+      change: "namespace-conflict",
+      detail: `the namespace is declared by several structs, they share the slot ${computeNamespaceSlot(namespaceId)}`,
+      safe: false,
+    });
+  }
+  for (const [namespaceId, fromNamespace] of from.namespaces) {
+    const toNamespace = to.namespaces.get(namespaceId);
+    if (!toNamespace) {
+      changes.push({
+        variable: `erc7201:${namespaceId}`,
+        change: "namespace-removed",
+        detail: `${fromNamespace.struct} at slot ${computeNamespaceSlot(namespaceId)} is no longer declared`,
+        safe: false,
+      });
+      continue;
+    }
+    changes.push(
+      ...diffNamespaceMembers(
+        fromNamespace.members,
+        toNamespace.members,
+        `erc7201:${namespaceId}.`,
+      ),
+    );
+  }
+  for (const [namespaceId, toNamespace] of to.namespaces) {
+    if (!from.namespaces.has(namespaceId)) {
+      changes.push({
+        variable: `erc7201:${namespaceId}`,
+        change: "namespace-added",
+        detail: `${toNamespace.struct} at slot ${computeNamespaceSlot(namespaceId)}`,
+        safe: true,
+      });
+    }
+  }
+  return changes;
+}
+
+/**
+ * The members of a namespace struct are compared in order, their sizes are not known from the AST
+ */
+function diffNamespaceMembers(
+  fromMembers: Namespace["members"],
+  toMembers: Namespace["members"],
+  prefix: string,
+): StorageLayoutChange[] {
+  const changes: StorageLayoutChange[] = [];
+  fromMembers.forEach((fromMember, index) => {
+    const variable = `${prefix}${fromMember.name}`;
+    const toMember = toMembers[index];
+    if (toMember?.name === fromMember.name) {
+      if (toMember.type !== fromMember.type) {
+        changes.push({
+          variable,
+          change: "retyped",
+          detail: `${fromMember.type} → ${toMember.type}`,
+          safe: false,
+        });
+      }
+      return;
+    }
+    const toIndex = toMembers.findIndex(
+      (member) => member.name === fromMember.name,
+    );
+    if (toIndex !== -1) {
+      changes.push({
+        variable,
+        change: "reordered",
+        detail: `member ${index} → member ${toIndex}`,
+        safe: false,
+      });
+      return;
+    }
+    if (
+      toMember &&
+      toMember.type === fromMember.type &&
+      !fromMembers.some((member) => member.name === toMember.name)
+    ) {
+      changes.push({
+        variable,
+        change: "renamed",
+        detail: `${fromMember.name} → ${toMember.name}`,
+        safe: true,
+      });
+      return;
+    }
+    changes.push({
+      variable,
+      change: "removed",
+      detail: `member ${index} is no longer used`,
+      safe: false,
+    });
+  });
+  toMembers.slice(fromMembers.length).forEach((toMember, offset) => {
+    if (fromMembers.some((member) => member.name === toMember.name)) {
+      return;
+    }
+    changes.push({
+      variable: `${prefix}${toMember.name}`,
+      change: "added",
+      detail: `member ${fromMembers.length + offset}`,
+      safe: true,
+    });
+  });
+  return changes;
+}
+
+function toPosition(entry: StorageEntry): bigint {
+  return BigInt(entry.slot) * 32n + BigInt(entry.offset);
+}
+
+function toLocationLabel(entry: StorageEntry): string {
+  return entry.offset === 0
+    ? `slot ${entry.slot}`
+    : `slot ${entry.slot} offset ${entry.offset}`;
+}
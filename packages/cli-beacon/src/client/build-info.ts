@@ -1,4 +1,5 @@
 import fs from "fs/promises";
+import path from "path";
 import { toAsyncResult } from "@/utils/result";
 import { CliError } from "./error";
 import {
@@ -12,9 +13,10 @@ import {
 import { AbsolutePath, RelativePath } from "@/utils/path";
 import {
   EthokoContractOutputArtifact,
-  EthokoInputArtifact,
+  EthokoCompilationInputArtifact,
 } from "@/ethoko-artifacts/v0";
 import { DebugLogger } from "@/utils/debug-logger";
+import { findFilesMatchingGlob } from "@/utils/glob";
 
 /**
  * Map a Build Info to the Ethoko format, based on its format.
@@ -29,7 +31,7 @@ export async function mapBuildInfoToEthokoArtifact(
   dependencies: { logger: DebugLogger },
   opts: { debug: boolean },
 ): Promise<{
-  inputArtifact: EthokoInputArtifact;
+  inputArtifact: EthokoCompilationInputArtifact;
   outputContractArtifacts: EthokoContractOutputArtifact[];
   originalContent: {
     rootPath: AbsolutePath;
@@ -65,8 +67,28 @@ const FORMAT_TO_ERROR_MESSAGE: Record<BuildInfoPaths["format"], string> = {
 type BuildInfoOption = {
   label: string;
   value: BuildInfoPaths;
+  // Modification time of the Build Info, the start of the creation window for Hardhat v3 groups
+  mtime: Date;
 };
 
+/**
+ * Derive the IDs of a Build Info, i.e. the names of its JSON files without extension.
+ * For Hardhat v3, the ID of each input file of the compilation.
+ * @param buildInfoPaths The paths to the Build Info
+ * @returns The IDs of the Build Info
+ */
+export function deriveBuildInfoIds(buildInfoPaths: BuildInfoPaths): string[] {
+  const filePaths =
+    buildInfoPaths.format === "hardhat-v3"
+      ? buildInfoPaths.buildInfoPaths.map((pair) => pair.input)
+      : buildInfoPaths.format === "hardhat-v3-non-isolated-build"
+        ? [buildInfoPaths.buildInfoPaths.input]
+        : [buildInfoPaths.buildInfoPath];
+  return filePaths.map((filePath) =>
+    path.basename(filePath.resolvedPath, ".json"),
+  );
+}
+
 /**
  * Given the input path, look for Build Info files.
  *
@@ -125,6 +147,7 @@ export async function lookForBuildInfos(
   if (!statResult.success) {
     throw new CliError(
       `The provided path "${inputPath.resolvedPath}" does not exist or is not accessible. Please provide a valid path to a Build Info or a directory containing it.`,
+      { code: "NO_BUILD_INFO" },
     );
   }
 
@@ -298,12 +321,115 @@ export async function lookForBuildInfos(
     (entry) => entry.isFile() && entry.name.endsWith(".json"),
   );
 
+  const { files, ignoredFilesCount } = await summarizeJsonFiles(
+    jsonFiles.map((file) => finalFolderPath.join(file.name)),
+    dependencies,
+    opts,
+  );
+
+  const options = filesToOptions(files);
+
+  const firstOption = options[0];
+  if (!firstOption) {
+    throw new CliError(
+      "No valid Build Info files were found in the provided path. Please provide a valid path to a Build Info or a directory containing it.",
+      { code: "NO_BUILD_INFO" },
+    );
+  }
+
+  if (options.length === 1) {
+    return {
+      buildInfos: {
+        type: "single",
+        buildInfoPaths: firstOption.value,
+      },
+      ignoredFilesCount,
+      finalFolderPath,
+    };
+  }
+
+  return {
+    buildInfos: {
+      type: "multiple",
+      options,
+    },
+    ignoredFilesCount,
+    finalFolderPath,
+  };
+}
+
+/**
+ * Look for all the Build Infos of a path or matching a glob pattern, for pushing them at once.
+ *
+ * With a path, the Build Infos are the options `lookForBuildInfos` would offer for selection.
+ * With a glob pattern, the matching JSON files are inferred and grouped the same way, Hardhat v3 input files are only kept if their output file matches the pattern as well.
+ * @param source The path to look into, or the glob pattern of the Build Info JSON files with the directory it is relative to
+ * @param dependencies The dependencies for the function, including a logger
+ * @param opts Options for the function
+ * @param opts.debug Enable debug mode
+ * @returns The paths of every Build Info found and the count of ignored files
+ * @throws A CliError if no Build Info is found
+ */
+export async function lookForAllBuildInfos(
+  source:
+    | { type: "path"; path: AbsolutePath }
+    | { type: "glob"; pattern: string; cwd: AbsolutePath },
+  dependencies: { logger: DebugLogger },
+  opts: { debug: boolean },
+): Promise<{ buildInfos: BuildInfoPaths[]; ignoredFilesCount: number }> {
+  if (source.type === "path") {
+    const result = await lookForBuildInfos(source.path, dependencies, opts);
+    return {
+      buildInfos:
+        result.buildInfos.type === "single"
+          ? [result.buildInfos.buildInfoPaths]
+          : result.buildInfos.options.map((option) => option.value),
+      ignoredFilesCount: result.ignoredFilesCount,
+    };
+  }
+
+  const matchingFilesResult = await toAsyncResult(
+    findFilesMatchingGlob(source.pattern, source.cwd),
+    { debug: opts.debug },
+  );
+  if (!matchingFilesResult.success) {
+    throw new CliError(
+      `The files matching "${source.pattern}" could not be listed. Please check the pattern and the permissions and try again. Run with debug mode for more info.`,
+    );
+  }
+  const jsonFilePaths = matchingFilesResult.value.filter((filePath) =>
+    filePath.resolvedPath.endsWith(".json"),
+  );
+  const { files, ignoredFilesCount } = await summarizeJsonFiles(
+    jsonFilePaths,
+    dependencies,
+    opts,
+  );
+  const buildInfos = filesToOptions(files).map((option) => option.value);
+  if (buildInfos.length === 0) {
+    throw new CliError(
+      `No valid Build Info files match "${source.pattern}" (${jsonFilePaths.length} JSON files found). Please provide a pattern matching Build Info JSON files.`,
+      { code: "NO_BUILD_INFO" },
+    );
+  }
+  return { buildInfos, ignoredFilesCount };
+}
+
+/**
+ * Infers the format of JSON files, the files that can not be read or are not in a supported Build Info format are ignored.
+ * @returns The summaries of the recognized files, sorted from the most recent, and the count of ignored files
+ */
+async function summarizeJsonFiles(
+  filePaths: AbsolutePath[],
+  dependencies: { logger: DebugLogger },
+  opts: { debug: boolean },
+): Promise<{ files: FileSummary[]; ignoredFilesCount: number }> {
+  const { debug } = opts;
   const jsonFilesWithStats: (
     | { ignored: false; summary: FileSummary }
     | { ignored: true; name: string }
   )[] = await Promise.all(
-    jsonFiles.map(async (file) => {
-      const filePath = finalFolderPath.join(file.name);
+    filePaths.map(async (filePath) => {
       const statsResult = await toAsyncResult(fs.stat(filePath.resolvedPath), {
         debug,
       });
@@ -315,7 +441,7 @@ export async function lookForBuildInfos(
         }
         return {
           ignored: true as const,
-          name: file.name,
+          name: path.basename(filePath.resolvedPath),
         };
       }
 
@@ -334,7 +460,7 @@ export async function lookForBuildInfos(
         }
         return {
           ignored: true as const,
-          name: file.name,
+          name: path.basename(filePath.resolvedPath),
         };
       }
       if (!inferrenceResult.value.recognized) {
@@ -345,14 +471,14 @@ export async function lookForBuildInfos(
         }
         return {
           ignored: true as const,
-          name: file.name,
+          name: path.basename(filePath.resolvedPath),
         };
       }
 
       return {
         ignored: false as const,
         summary: {
-          name: file.name,
+          name: path.basename(filePath.resolvedPath),
           filePath,
           mtime: statsResult.value.mtime,
           size: statsResult.value.size,
@@ -374,34 +500,7 @@ export async function lookForBuildInfos(
 
   files.sort((a, b) => b.mtime.getTime() - a.mtime.getTime());
 
-  const options = filesToOptions(files);
-
-  const firstOption = options[0];
-  if (!firstOption) {
-    throw new CliError(
-      "No valid Build Info files were found in the provided path. Please provide a valid path to a Build Info or a directory containing it.",
-    );
-  }
-
-  if (options.length === 1) {
-    return {
-      buildInfos: {
-        type: "single",
-        buildInfoPaths: firstOption.value,
-      },
-      ignoredFilesCount,
-      finalFolderPath,
-    };
-  }
-
-  return {
-    buildInfos: {
-      type: "multiple",
-      options,
-    },
-    ignoredFilesCount,
-    finalFolderPath,
-  };
+  return { files, ignoredFilesCount };
 }
 
 type FileSummary = {
@@ -439,6 +538,7 @@ function filesToOptions(files: FileSummary[]): BuildInfoOption[] {
         continue;
       }
       options.push({
+        mtime: file.mtime,
         label: `${truncateFilename(file.name)} (Hardhat v3, Solc ${file.artifact.data.solcLongVersion}, ${formatTimeAgo(file.mtime)})`,
         value: {
           format: "hardhat-v3-non-isolated-build",
@@ -476,6 +576,7 @@ function filesToOptions(files: FileSummary[]): BuildInfoOption[] {
       // Hardhat V3 output files are ignored as they will be handled together with their corresponding input file
     } else {
       options.push({
+        mtime: file.mtime,
         label: `${truncateFilename(file.name)} (${BUILD_INFO_FORMAT_TO_HUMAN_READABLE[file.artifact.origin]}, ${formatTimeAgo(file.mtime)}, ${formatFileSize(file.size)})`,
         value: {
           buildInfoPath: file.filePath,
@@ -522,6 +623,7 @@ function filesToOptions(files: FileSummary[]): BuildInfoOption[] {
       return {
         label,
         value,
+        mtime: group.startWindow,
       };
     },
   );
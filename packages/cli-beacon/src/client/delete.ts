@@ -0,0 +1,180 @@
+import { LocalArtifactStore } from "@/local-artifact-store";
+import { StorageProvider } from "@/storage-provider";
+import { ArtifactReference } from "@/utils/artifact-reference";
+import { DebugLogger } from "@/utils/debug-logger";
+import { toAsyncResult } from "@/utils/result";
+import { findMatchingTagPattern } from "@/utils/tag-pattern";
+import { CliError } from "./error";
+import { recordTagHistory } from "./tag-history";
+import { resolveRemoteArtifactId } from "./resolve-remote-artifact";
+
+export type DeleteResult = {
+  project: string;
+  id: string;
+  // Tags pointing to the artifact ID, removed along with it
+  tags: string[];
+  // Number of original content files stored with the artifact
+  originalContentFiles: number;
+  dryRun: boolean;
+  // False if the removal of one of the tags could not be recorded in its history
+  historyRecorded: boolean;
+  // False if the tags and the artifact are deleted but the project index could not be updated
+  indexUpdated: boolean;
+};
+
+/**
+ * Delete an artifact from the storage, including its original content.
+ *
+ * An artifact ID still referenced by tags is only deleted if these tags are removed too: the targeted tag when the artifact is referenced by tag, any other tag when `removeTags` is enabled.
+ * The tags are removed first, so that a failure never leaves a tag pointing to a partially deleted artifact. Removed tags are recorded in the tag history and removed from the Local Artifact Store, the pulled artifact itself is kept locally and can be removed with the prune command.
+ * @throws CliError if the artifact does not exist, if it is referenced by tags that are not removed, if one of the tags is protected, or if the storage can not be reached. The error messages are meant to be user-friendly and can be directly shown to the user.
+ * @param artifactRef The artifact reference, by tag or ID
+ * @param dependencies.storageProvider The storage provider to delete from
+ * @param dependencies.localArtifactStore The Local Artifact Store to keep in sync
+ * @param dependencies.logger The DebugLogger instance to use for debug logging
+ * @param opts.dryRun Only compute what would be deleted
+ * @param opts.removeTags Remove every tag pointing to the artifact ID
+ * @param opts.protectedTags Glob patterns of tags that can not be removed
+ * @param opts.debug Enable debug mode
+ * @returns The deleted, or to be deleted in dry run mode, artifact and tags
+ */
+export async function deleteRemoteArtifact(
+  artifactRef: ArtifactReference,
+  dependencies: {
+    storageProvider: StorageProvider;
+    localArtifactStore: LocalArtifactStore;
+    logger: DebugLogger;
+  },
+  opts: {
+    dryRun: boolean;
+    removeTags: boolean;
+    protectedTags?: string[];
+    debug: boolean;
+  },
+): Promise<DeleteResult> {
+  const { project } = artifactRef;
+  const id = await resolveRemoteArtifactId(artifactRef, dependencies, opts);
+
+  const referencingTagsResult = await toAsyncResult(
+    listReferencingTags(project, id, dependencies.storageProvider),
+    { debug: opts.debug },
+  );
+  if (!referencingTagsResult.success) {
+    throw new CliError(
+      "Error listing the tags of the project on the storage, please check the storage configuration or run with debug mode for more info",
+    );
+  }
+  const referencingTags = referencingTagsResult.value;
+  if (opts.debug) {
+    dependencies.logger.debug(
+      `Artifact ${project}@${id} is referenced by ${referencingTags.length} tag(s)`,
+    );
+  }
+
+  const remainingTags = referencingTags.filter(
+    (tag) => artifactRef.type !== "tag" || tag !== artifactRef.tag,
+  );
+  if (remainingTags.length > 0 && !opts.removeTags) {
+    throw new CliError(
+      `The artifact ID "${id}" is still referenced by the tag(s) ${remainingTags.map((tag) => `"${tag}"`).join(", ")}. Remove these tags first with "ethoko tag rm" or use the --remove-tags option to remove them along with the artifact.`,
+    );
+  }
+  for (const tag of referencingTags) {
+    const protectedPattern = findMatchingTagPattern(
+      tag,
+      opts.protectedTags ?? [],
+    );
+    if (protectedPattern) {
+      throw new CliError(
+        `The artifact ID "${id}" is referenced by the tag "${tag}", protected by the "${protectedPattern}" pattern of the project configuration. Protected tags can not be removed, the artifact can not be deleted.`,
+      );
+    }
+  }
+
+  const originalContentResult = await toAsyncResult(
+    dependencies.storageProvider.listOriginalContent(project, id),
+    { debug: opts.debug },
+  );
+  if (!originalContentResult.success) {
+    throw new CliError(
+      `Error listing the original content of the artifact ID "${id}", please check the storage configuration or run with debug mode for more info`,
+    );
+  }
+
+  const result: DeleteResult = {
+    project,
+    id,
+    tags: referencingTags,
+    originalContentFiles: originalContentResult.value.length,
+    dryRun: opts.dryRun,
+    historyRecorded: true,
+    indexUpdated: true,
+  };
+  if (opts.dryRun) {
+    return result;
+  }
+
+  for (const tag of referencingTags) {
+    const deleteTagResult = await toAsyncResult(
+      dependencies.storageProvider.deleteTag(project, tag),
+      { debug: opts.debug },
+    );
+    if (!deleteTagResult.success) {
+      throw new CliError(
+        `Error removing the tag "${tag}" from the storage, the artifact has not been deleted. Please check the storage configuration or run with debug mode for more info`,
+      );
+    }
+    if (!deleteTagResult.value.indexUpdated) {
+      result.indexUpdated = false;
+    }
+    const historyResult = await toAsyncResult(
+      recordTagHistory(
+        project,
+        tag,
+        { id: null, previousId: id },
+        dependencies,
+        opts,
+      ),
+      { debug: opts.debug },
+    );
+    if (!historyResult.success) {
+      result.historyRecorded = false;
+    }
+    const localTagResult = await toAsyncResult(
+      dependencies.localArtifactStore.deleteTag(project, tag),
+      { debug: opts.debug },
+    );
+    if (!localTagResult.success) {
+      throw new CliError(
+        `The tag "${tag}" has been removed from the storage but the Local Artifact Store could not be updated, is the script not allowed to write to the filesystem? Run with debug mode for more info`,
+      );
+    }
+  }
+
+  const deleteResult = await toAsyncResult(
+    dependencies.storageProvider.deleteArtifact(project, id),
+    { debug: opts.debug },
+  );
+  if (!deleteResult.success) {
+    throw new CliError(
+      `Error deleting the artifact ID "${id}" from the storage, the deletion may be partial and can be retried. Please check the storage configuration or run with debug mode for more info`,
+    );
+  }
+  if (!deleteResult.value.indexUpdated) {
+    result.indexUpdated = false;
+  }
+
+  return result;
+}
+
+async function listReferencingTags(
+  project: string,
+  id: string,
+  storageProvider: StorageProvider,
+): Promise<string[]> {
+  const tags = await storageProvider.listTags(project);
+  const tagIds = await Promise.all(
+    tags.map((tag) => storageProvider.resolveTagId(project, tag)),
+  );
+  return tags.filter((_, index) => tagIds[index] === id).sort();
+}
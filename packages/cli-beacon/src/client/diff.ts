@@ -1,13 +1,28 @@
 import { createHash } from "node:crypto";
+import { z } from "zod";
 import { LocalArtifactStore } from "@/local-artifact-store";
 import { toAsyncResult, toResult } from "@/utils/result";
 import { ResolvedArtifactReference } from "@/utils/artifact-reference";
-import { EthokoContractOutputArtifact } from "@/ethoko-artifacts/v0";
+import {
+  EthokoContractOutputArtifact,
+  EthokoInputArtifact,
+} from "@/ethoko-artifacts/v0";
+import { listCompilations } from "@/ethoko-artifacts/compilations";
 import { CliError } from "./error";
 import { DebugLogger } from "@/utils/debug-logger";
+import { AbiChange, diffAbis } from "@/artifact-diff/abi-diff";
+import {
+  BytecodeChange,
+  compareBytecodes,
+} from "@/artifact-diff/bytecode-diff";
+import {
+  diffStorageLayouts,
+  StorageLayoutDiff,
+} from "@/artifact-diff/storage-layout-diff";
+import { diffSources, SourceDiff } from "@/artifact-diff/source-diff";
 
 /**
- * This script generates the differences between the given artifact and an already pushed artifact.
+ * This script generates the differences between the given artifact and an already pushed artifact, or between two already pushed artifacts.
  *
  * For each artifact, the script will work on the differences on the contracts object.
  * This object contains as keys the path of a contract file and as values the contracts within it, i.e.
@@ -66,11 +81,27 @@ import { DebugLogger } from "@/utils/debug-logger";
  * This hash is stored in a map with the `<file path><separator constant><contract name>` as key.
  *
  * Comparing the two maps, the script will output the differences between the two sets of contracts.
+ * The ABIs of a changed contract are compared item by item, each change is classified as breaking or not for the integrators of the contract.
+ * On demand, the storage layouts of a changed contract are compared to assess whether a proxy can be upgraded from one implementation to the other.
+ * On demand, the bytecodes of a changed contract are compared without their metadata, immutable values and library addresses, in order to tell the code changes from the metadata only changes, e.g. a modified comment.
  */
 export type Difference = {
   path: string;
   name: string;
   status: "added" | "removed" | "changed";
+  // ABI changes of a changed contract, empty for an added or removed contract
+  abiChanges: AbiChange[];
+  // Bytecode comparison of a changed contract, null if not requested or for an added or removed contract
+  bytecodeChange: BytecodeChange | null;
+  // Storage layout comparison of a changed contract, null if not requested or for an added or removed contract
+  storageLayout: StorageLayoutDiff | null;
+  // A removed contract or a changed contract with a breaking ABI change or an unsafe storage layout breaks its integrations
+  breaking: boolean;
+};
+
+type ContractDigest = {
+  hash: string;
+  artifact: EthokoContractOutputArtifact;
 };
 
 /**
@@ -87,6 +118,8 @@ export type Difference = {
  * @param dependencies The dependencies
  * @param opts Options for the diff command
  * @param opts.debug Enable debug mode for more verbose logging
+ * @param opts.storageLayout Compare the storage layouts of the changed contracts
+ * @param opts.bytecode Compare the executable bytecodes of the changed contracts
  * @returns The array of differences between the Build Info and the target artifact
  */
 export async function generateDiffWithTargetRelease(
@@ -98,47 +131,304 @@ export async function generateDiffWithTargetRelease(
     localArtifactStore: LocalArtifactStore;
     logger: DebugLogger;
   },
-  opts: { debug: boolean },
+  opts: { debug: boolean; storageLayout?: boolean; bytecode?: boolean },
 ): Promise<Difference[]> {
-  const ensureResult = await toAsyncResult(
-    dependencies.localArtifactStore.ensureProjectSetup(
-      targetArtifactReference.project,
-    ),
+  const buildInfoContractDigestsResult = toResult(
+    () => generateContractDigests(buildInfo.outputContractArtifacts),
     { debug: opts.debug },
   );
-  if (!ensureResult.success) {
+  if (!buildInfoContractDigestsResult.success) {
     throw new CliError(
-      "Error setting up Local Artifact Store, is the script not allowed to write to the filesystem? Run with debug mode for more info",
+      "Error generating contract hashes from the Build Info. Run with debug mode for more info",
+    );
+  }
+  if (opts.debug) {
+    dependencies.logger.debug(
+      `Build Info contract hashes generated successfully: ${[...buildInfoContractDigestsResult.value.entries()].map(([key, digest]) => `\n${key}: ${digest.hash}`).join("")}`,
+    );
+  }
+
+  const targetContractDigests = await retrieveLocalContractDigests(
+    targetArtifactReference,
+    dependencies,
+    opts,
+  );
+
+  const differences = compareContractDigests(
+    targetContractDigests,
+    buildInfoContractDigestsResult.value,
+    opts,
+  );
+  if (opts.debug) {
+    dependencies.logger.debug(
+      `Differences calculated successfully: ${differences.map((d) => `\n${d.path} - ${d.name}: ${d.status}`).join("")}`,
+    );
+  }
+
+  return differences;
+}
+
+/**
+ * Generates the differences between two artifacts already pulled, possibly of different projects.
+ *
+ * The contract artifacts of both artifacts are retrieved from the Local Artifact Store, a digest map is generated for each of them and the two maps are compared.
+ * The differences are expressed from the first artifact to the second one, i.e. an "added" contract is only in the second artifact.
+ *
+ * @throws CliError if one of the artifacts can not be read from the Local Artifact Store, with user-friendly messages that can be directly shown to the user
+ * @param fromArtifactReference The reference to the artifact to compare from, e.g. the previous release
+ * @param toArtifactReference The reference to the artifact to compare to, e.g. the next release
+ * @param dependencies The dependencies
+ * @param opts Options for the diff command
+ * @param opts.debug Enable debug mode for more verbose logging
+ * @param opts.storageLayout Compare the storage layouts of the changed contracts
+ * @param opts.bytecode Compare the executable bytecodes of the changed contracts
+ * @returns The array of differences from the first artifact to the second one
+ */
+export async function generateDiffBetweenArtifacts(
+  fromArtifactReference: ResolvedArtifactReference,
+  toArtifactReference: ResolvedArtifactReference,
+  dependencies: {
+    localArtifactStore: LocalArtifactStore;
+    logger: DebugLogger;
+  },
+  opts: { debug: boolean; storageLayout?: boolean; bytecode?: boolean },
+): Promise<Difference[]> {
+  const fromContractDigests = await retrieveLocalContractDigests(
+    fromArtifactReference,
+    dependencies,
+    opts,
+  );
+  const toContractDigests = await retrieveLocalContractDigests(
+    toArtifactReference,
+    dependencies,
+    opts,
+  );
+
+  const differences = compareContractDigests(
+    fromContractDigests,
+    toContractDigests,
+    opts,
+  );
+  if (opts.debug) {
+    dependencies.logger.debug(
+      `Differences calculated successfully: ${differences.map((d) => `\n${d.path} - ${d.name}: ${d.status}`).join("")}`,
     );
   }
 
-  const buildInfoContractHashesResult = toResult(
-    () => generateContractHashes(buildInfo.outputContractArtifacts),
+  return differences;
+}
+
+/**
+ * Generates the unified diffs of the sources between the Build Info and a target artifact already pulled, see `generateSourceDiffsBetweenArtifacts`.
+ * @throws CliError if the target artifact can not be read from the Local Artifact Store
+ * @param targetArtifactReference The reference to the target artifact
+ * @param buildInfo The Build Info compared with the target artifact
+ * @param differences The differences between the Build Info and the target artifact
+ * @param dependencies The dependencies
+ * @param opts.debug Enable debug mode for more verbose logging
+ * @returns The diffs of the sources, from the target artifact to the Build Info
+ */
+export async function generateSourceDiffsWithTargetRelease(
+  targetArtifactReference: ResolvedArtifactReference,
+  buildInfo: {
+    inputArtifact: EthokoInputArtifact;
+    outputContractArtifacts: EthokoContractOutputArtifact[];
+  },
+  differences: Difference[],
+  dependencies: {
+    localArtifactStore: LocalArtifactStore;
+    logger: DebugLogger;
+  },
+  opts: { debug: boolean },
+): Promise<SourceDiff[]> {
+  const changedContracts = differences.filter((d) => d.status === "changed");
+  const targetSources = await retrieveLocalSources(
+    targetArtifactReference,
+    changedContracts,
+    dependencies,
+    opts,
+  );
+  const buildInfoSourcesResult = toResult(
+    () =>
+      collectSources(
+        buildInfo.inputArtifact,
+        buildInfo.outputContractArtifacts.filter((contractArtifact) =>
+          changedContracts.some(
+            (d) =>
+              d.path === contractArtifact.sourceName &&
+              d.name === contractArtifact.contract,
+          ),
+        ),
+      ),
     { debug: opts.debug },
   );
-  if (!buildInfoContractHashesResult.success) {
+  if (!buildInfoSourcesResult.success) {
     throw new CliError(
-      "Error generating contract hashes from the Build Info. Run with debug mode for more info",
+      "Error retrieving the sources of the Build Info. Run with debug mode for more info",
+    );
+  }
+  return diffSources(targetSources, buildInfoSourcesResult.value);
+}
+
+/**
+ * Generates the unified diffs of the sources between two artifacts already pulled.
+ *
+ * Only the sources of the changed contracts and their dependencies are compared, the dependencies are the sources listed in the metadata of the contracts.
+ * The contents are taken from the input artifacts, a source without content is ignored.
+ * @throws CliError if one of the artifacts can not be read from the Local Artifact Store
+ * @param fromArtifactReference The reference to the artifact to compare from
+ * @param toArtifactReference The reference to the artifact to compare to
+ * @param differences The differences between the two artifacts
+ * @param dependencies The dependencies
+ * @param opts.debug Enable debug mode for more verbose logging
+ * @returns The diffs of the sources, from the first artifact to the second one
+ */
+export async function generateSourceDiffsBetweenArtifacts(
+  fromArtifactReference: ResolvedArtifactReference,
+  toArtifactReference: ResolvedArtifactReference,
+  differences: Difference[],
+  dependencies: {
+    localArtifactStore: LocalArtifactStore;
+    logger: DebugLogger;
+  },
+  opts: { debug: boolean },
+): Promise<SourceDiff[]> {
+  const changedContracts = differences.filter((d) => d.status === "changed");
+  const fromSources = await retrieveLocalSources(
+    fromArtifactReference,
+    changedContracts,
+    dependencies,
+    opts,
+  );
+  const toSources = await retrieveLocalSources(
+    toArtifactReference,
+    changedContracts,
+    dependencies,
+    opts,
+  );
+  return diffSources(fromSources, toSources);
+}
+
+async function retrieveLocalSources(
+  artifactReference: ResolvedArtifactReference,
+  contracts: Difference[],
+  dependencies: {
+    localArtifactStore: LocalArtifactStore;
+    logger: DebugLogger;
+  },
+  opts: { debug: boolean },
+): Promise<Map<string, string>> {
+  const sourcesResult = await toAsyncResult(
+    Promise.all([
+      dependencies.localArtifactStore.retrieveInputArtifact(
+        artifactReference.project,
+        artifactReference.id,
+      ),
+      Promise.all(
+        contracts.map((c) =>
+          dependencies.localArtifactStore.retrieveContractOutputArtifact(
+            artifactReference.project,
+            artifactReference.id,
+            c.path,
+            c.name,
+          ),
+        ),
+      ),
+    ]).then(([inputArtifact, contractArtifacts]) =>
+      collectSources(inputArtifact, contractArtifacts),
+    ),
+    { debug: opts.debug },
+  );
+  if (!sourcesResult.success) {
+    throw new CliError(
+      `Unable to retrieve the sources of the artifact "${artifactReference.project}@${artifactReference.id}", please ensure it exists locally. Run with debug mode for more info`,
     );
   }
   if (opts.debug) {
     dependencies.logger.debug(
-      `Build Info contract hashes generated successfully: ${[...buildInfoContractHashesResult.value.entries()].map(([key, hash]) => `\n${key}: ${hash}`).join("")}`,
+      `Sources of "${artifactReference.project}@${artifactReference.id}" retrieved successfully: ${[...sourcesResult.value.keys()].map((path) => `\n${path}`).join("")}`,
     );
   }
+  return sourcesResult.value;
+}
 
-  const targetContractsResult = await toAsyncResult(
+/**
+ * Collects the content of the sources of the contracts and of their dependencies, by path.
+ * The dependencies of a contract are the sources of its metadata, the contents are taken from the input of its compilation.
+ */
+function collectSources(
+  inputArtifact: EthokoInputArtifact,
+  contractArtifacts: EthokoContractOutputArtifact[],
+): Map<string, string> {
+  const compilations = listCompilations(inputArtifact);
+  const sources = new Map<string, string>();
+  for (const contractArtifact of contractArtifacts) {
+    const compilation =
+      compilations.find((c) => c.id === contractArtifact.compilation) ??
+      compilations[0];
+    if (!compilation) {
+      continue;
+    }
+    for (const path of listSourceDependencies(contractArtifact)) {
+      const source = compilation.input.sources[path];
+      if (
+        !sources.has(path) &&
+        source &&
+        "content" in source &&
+        source.content !== undefined
+      ) {
+        sources.set(path, source.content);
+      }
+    }
+  }
+  return sources;
+}
+
+/**
+ * Paths of the sources needed to compile a contract, as listed in its metadata, only its own source if the metadata can not be parsed
+ */
+function listSourceDependencies(
+  contractArtifact: EthokoContractOutputArtifact,
+): string[] {
+  const metadataResult = toResult(() =>
+    z
+      .object({ sources: z.record(z.string(), z.unknown()) })
+      .parse(JSON.parse(contractArtifact.output.contract.metadata)),
+  );
+  return metadataResult.success
+    ? Object.keys(metadataResult.value.sources)
+    : [contractArtifact.sourceName];
+}
+
+async function retrieveLocalContractDigests(
+  artifactReference: ResolvedArtifactReference,
+  dependencies: {
+    localArtifactStore: LocalArtifactStore;
+    logger: DebugLogger;
+  },
+  opts: { debug: boolean },
+): Promise<Map<string, ContractDigest>> {
+  const ensureResult = await toAsyncResult(
+    dependencies.localArtifactStore.ensureProjectSetup(
+      artifactReference.project,
+    ),
+    { debug: opts.debug },
+  );
+  if (!ensureResult.success) {
+    throw new CliError(
+      "Error setting up Local Artifact Store, is the script not allowed to write to the filesystem? Run with debug mode for more info",
+    );
+  }
+
+  const contractsResult = await toAsyncResult(
     dependencies.localArtifactStore
-      .listContractArtifacts(
-        targetArtifactReference.project,
-        targetArtifactReference.id,
-      )
+      .listContractArtifacts(artifactReference.project, artifactReference.id)
       .then((commonContracts) =>
         Promise.all(
           commonContracts.map((c) =>
             dependencies.localArtifactStore.retrieveContractOutputArtifact(
-              targetArtifactReference.project,
-              targetArtifactReference.id,
+              artifactReference.project,
+              artifactReference.id,
               c.sourceName,
               c.contractName,
             ),
@@ -147,87 +437,123 @@ export async function generateDiffWithTargetRelease(
       ),
     { debug: opts.debug },
   );
-  if (!targetContractsResult.success) {
+  if (!contractsResult.success) {
     throw new CliError(
-      "Unable to retrieve the target artifact content, please ensure it exists locally. Run with debug mode for more info",
+      `Unable to retrieve the content of the artifact "${artifactReference.project}@${artifactReference.id}", please ensure it exists locally. Run with debug mode for more info`,
     );
   }
   if (opts.debug) {
     dependencies.logger.debug(
-      `Target contract artifacts retrieved successfully: ${targetContractsResult.value.map((c) => `\n${c.sourceName} - ${c.contract}`).join("")}`,
+      `Contract artifacts of "${artifactReference.project}@${artifactReference.id}" retrieved successfully: ${contractsResult.value.map((c) => `\n${c.sourceName} - ${c.contract}`).join("")}`,
     );
   }
 
-  const targetContractHashesResult = toResult(
-    () => generateContractHashes(targetContractsResult.value),
+  const contractDigestsResult = toResult(
+    () => generateContractDigests(contractsResult.value),
     { debug: opts.debug },
   );
-  if (!targetContractHashesResult.success) {
+  if (!contractDigestsResult.success) {
     throw new CliError(
-      "Error generating contract hashes for the target artifact. Run with debug mode for more info",
+      `Error generating contract hashes for the artifact "${artifactReference.project}@${artifactReference.id}". Run with debug mode for more info`,
     );
   }
   if (opts.debug) {
     dependencies.logger.debug(
-      `Target contract hashes generated successfully: ${[...targetContractHashesResult.value.entries()].map(([key, hash]) => `\n${key}: ${hash}`).join("")}`,
+      `Contract hashes of "${artifactReference.project}@${artifactReference.id}" generated successfully: ${[...contractDigestsResult.value.entries()].map(([key, digest]) => `\n${key}: ${digest.hash}`).join("")}`,
     );
   }
+  return contractDigestsResult.value;
+}
 
+/**
+ * Compares two digest maps, the differences are expressed from the first map to the second one
+ */
+function compareContractDigests(
+  fromContractDigests: Map<string, ContractDigest>,
+  toContractDigests: Map<string, ContractDigest>,
+  opts: { storageLayout?: boolean; bytecode?: boolean },
+): Difference[] {
+  const fromContracts = [...fromContractDigests.values()].map(
+    (digest) => digest.artifact,
+  );
+  const toContracts = [...toContractDigests.values()].map(
+    (digest) => digest.artifact,
+  );
   const differences: Difference[] = [];
-  for (const [
-    contractKey,
-    contractHash,
-  ] of buildInfoContractHashesResult.value.entries()) {
+  for (const [contractKey, contractDigest] of toContractDigests.entries()) {
     const { contractPath, contractName } = parseKey(contractKey);
-    const targetReleaseHash = targetContractHashesResult.value.get(contractKey);
-    if (!targetReleaseHash) {
+    const fromDigest = fromContractDigests.get(contractKey);
+    if (!fromDigest) {
       differences.push({
         path: contractPath,
         name: contractName,
         status: "added",
+        abiChanges: [],
+        bytecodeChange: null,
+        storageLayout: null,
+        breaking: false,
       });
-    } else if (targetReleaseHash !== contractHash) {
+    } else if (fromDigest.hash !== contractDigest.hash) {
+      const abiChanges = diffAbis(
+        fromDigest.artifact.output.contract.abi,
+        contractDigest.artifact.output.contract.abi,
+      );
+      const storageLayout = opts.storageLayout
+        ? diffStorageLayouts(
+            { contract: fromDigest.artifact, contracts: fromContracts },
+            { contract: contractDigest.artifact, contracts: toContracts },
+          )
+        : null;
       differences.push({
         path: contractPath,
         name: contractName,
         status: "changed",
+        abiChanges,
+        bytecodeChange: opts.bytecode
+          ? compareBytecodes(
+              fromDigest.artifact.output.contract,
+              contractDigest.artifact.output.contract,
+            )
+          : null,
+        storageLayout,
+        breaking:
+          abiChanges.some((change) => change.breaking) ||
+          storageLayout?.verdict === "unsafe",
       });
     }
   }
 
-  for (const contractKey of targetContractHashesResult.value.keys()) {
-    if (!buildInfoContractHashesResult.value.has(contractKey)) {
+  for (const contractKey of fromContractDigests.keys()) {
+    if (!toContractDigests.has(contractKey)) {
       const { contractPath, contractName } = parseKey(contractKey);
       differences.push({
         path: contractPath,
         name: contractName,
         status: "removed",
+        abiChanges: [],
+        bytecodeChange: null,
+        storageLayout: null,
+        breaking: true,
       });
     }
   }
 
-  if (opts.debug) {
-    dependencies.logger.debug(
-      `Differences calculated successfully: ${differences.map((d) => `\n${d.path} - ${d.name}: ${d.status}`).join("")}`,
-    );
-  }
-
   return differences;
 }
 
-function generateContractHashes(
+function generateContractDigests(
   contractArtifacts: EthokoContractOutputArtifact[],
-): Map<string, string> {
-  const contractHashes = new Map<string, string>();
+): Map<string, ContractDigest> {
+  const contractDigests = new Map<string, ContractDigest>();
   for (const contractArtifact of contractArtifacts) {
     const hash = hashContract(contractArtifact.output.contract);
-    contractHashes.set(
+    contractDigests.set(
       formKey(contractArtifact.sourceName, contractArtifact.contract),
-      hash,
+      { hash, artifact: contractArtifact },
     );
   }
 
-  return contractHashes;
+  return contractDigests;
 }
 
 type Contract = EthokoContractOutputArtifact["output"]["contract"];
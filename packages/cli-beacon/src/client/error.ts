@@ -1,9 +1,25 @@
+/**
+ * Reasons of failure that scripts may want to branch on, each one is mapped to a distinct exit code by the commands.
+ * - `ARTIFACT_ALREADY_EXISTS`: nothing to push, the artifact is already stored and the tag, if any, already points to it,
+ * - `TAG_CONFLICT`: the tag points to another artifact and can not be overwritten,
+ * - `NO_BUILD_INFO`: no Build Info matches the provided path, pattern or ID,
+ * - `NOT_REPRODUCIBLE`: the recompiled compilation input does not reproduce the contract outputs.
+ */
+export type CliErrorCode =
+  | "ARTIFACT_ALREADY_EXISTS"
+  | "TAG_CONFLICT"
+  | "NO_BUILD_INFO"
+  | "NOT_REPRODUCIBLE";
+
 /**
  * Custom error class for CLI errors.
  * Message is meant to be user-friendly and can be directly shown to the user.
  */
 export class CliError extends Error {
-  constructor(message: string) {
+  public readonly code: CliErrorCode | undefined;
+
+  constructor(message: string, opts?: { code?: CliErrorCode }) {
     super(message);
+    this.code = opts?.code;
   }
 }
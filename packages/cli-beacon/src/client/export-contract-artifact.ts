@@ -5,6 +5,7 @@ import { ContractMetadataSchema } from "@/solc-artifacts/v0.8.33/contract-metada
 import z from "zod";
 import { ResolvedArtifactReference } from "@/utils/artifact-reference";
 import { DebugLogger } from "@/utils/debug-logger";
+import { findContractCompilation } from "@/ethoko-artifacts/compilations";
 
 type ContractBytecode = {
   functionDebugData?: unknown;
@@ -210,10 +211,21 @@ export async function exportContractArtifact(
         `Failed to retrieve the artifact input for artifact ${deriveDisplayArtifactName(artifactRef)}, which is required to resolve the contract metadata sources content. Please ensure the artifact input exists locally. Run with debug mode for more info.`,
       );
     }
-    const inputArtifact = inputArtifactResult.value;
+    // The sources of a multi-compilation artifact are looked for in the compilation of the contract
+    const compilationResult = toResult(
+      () =>
+        findContractCompilation(inputArtifactResult.value, contractArtifact),
+      { debug: opts.debug },
+    );
+    if (!compilationResult.success || !compilationResult.value) {
+      throw new CliError(
+        `The compilation of the contract ${targetContract.sourceName}:${targetContract.contractName} could not be found in the artifact input for artifact ${deriveDisplayArtifactName(artifactRef)}, which is required to resolve the contract metadata sources content. Please ensure the artifact input is correct. Run with debug mode for more info.`,
+      );
+    }
+    const compilationInput = compilationResult.value.input;
 
     for (const sourcePath of sourcesWithMissingContent) {
-      const inputSource = inputArtifact.input.sources[sourcePath];
+      const inputSource = compilationInput.sources[sourcePath];
       if (!inputSource || !("content" in inputSource) || !inputSource.content) {
         finalSourcesWithMissingContent.push(sourcePath);
       } else {
@@ -1,5 +1,11 @@
-export { CliError } from "./error";
-export { generateDiffWithTargetRelease, type Difference } from "./diff";
+export { CliError, type CliErrorCode } from "./error";
+export {
+  generateDiffWithTargetRelease,
+  generateDiffBetweenArtifacts,
+  generateSourceDiffsWithTargetRelease,
+  generateSourceDiffsBetweenArtifacts,
+  type Difference,
+} from "./diff";
 export {
   generateEmptyTypings,
   generateProjectTypings,
@@ -13,6 +19,12 @@ export {
   type ListArtifactsResult,
   type ArtifactItem,
 } from "./list-local-artifacts";
+export {
+  listRemoteArtifacts,
+  type ListRemoteArtifactsResult,
+  type RemoteArtifactItem,
+} from "./list-remote-artifacts";
+export { rebuildRemoteIndex, type RebuildIndexResult } from "./project-index";
 export {
   exportContractArtifact,
   type ExportContractArtifactResult,
@@ -24,5 +36,31 @@ export {
   pruneOrphanedAndUntaggedArtifacts,
   type PruneResult,
 } from "./prune";
+export { deleteRemoteArtifact, type DeleteResult } from "./delete";
 export { resolveLocalArtifact } from "./resolve-local-artifact";
-export { lookForBuildInfos, mapBuildInfoToEthokoArtifact } from "./build-info";
+export {
+  recordTagHistory,
+  getTagHistory,
+  type TagHistoryResult,
+} from "./tag-history";
+export {
+  addTag,
+  moveTag,
+  removeTag,
+  listRemoteTags,
+  type TagChangeResult,
+  type RemoteTagsResult,
+} from "./tags";
+export {
+  deriveBuildInfoIds,
+  lookForBuildInfos,
+  lookForAllBuildInfos,
+  mapBuildInfoToEthokoArtifact,
+} from "./build-info";
+export { verifyArtifact, type VerifyResult } from "./verify";
+export {
+  reproduceArtifact,
+  reproduceCompilation,
+  type ReproduceResult,
+  type CompilationReproduction,
+} from "./reproduce";
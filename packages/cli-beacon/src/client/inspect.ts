@@ -1,41 +1,68 @@
 import { LocalArtifactStore } from "../local-artifact-store";
-import { toAsyncResult } from "@/utils/result";
+import { toAsyncResult, toResult } from "@/utils/result";
 import { CliError } from "./error";
-import type { EthokoInputArtifact } from "@/ethoko-artifacts/v0";
+import type {
+  EthokoCompilationOrigin,
+  PushMetadata,
+} from "@/ethoko-artifacts/v0";
+import {
+  EthokoCompilation,
+  listCompilations,
+} from "@/ethoko-artifacts/compilations";
 import { ResolvedArtifactReference } from "@/utils/artifact-reference";
 import { DebugLogger } from "@/utils/debug-logger";
 
+type InspectOrigin =
+  | {
+      id: string;
+      kind:
+        | "forge-v1-default"
+        | "forge-v1-with-build-info-option"
+        | "hardhat-v2"
+        | "hardhat-v3-non-isolated-build";
+    }
+  | {
+      kind: "hardhat-v3";
+      ids: string[];
+    };
+
+type InspectCompiler = {
+  solcLongVersion: string;
+  evmVersion: string;
+  optimizer: {
+    enabled: boolean;
+    runs: number;
+  };
+  remappings: string[];
+};
+
 export type InspectResult = {
   project: string;
   tag: string | null;
   id: string;
   origin:
+    | InspectOrigin
     | {
-        id: string;
-        kind:
-          | "forge-v1-default"
-          | "forge-v1-with-build-info-option"
-          | "hardhat-v2"
-          | "hardhat-v3-non-isolated-build";
-      }
-    | {
-        kind: "hardhat-v3";
+        kind: "multi-compilation";
         ids: string[];
       };
-  compiler: {
-    solcLongVersion: string;
-    evmVersion: string;
-    optimizer: {
-      enabled: boolean;
-      runs: number;
-    };
-    remappings: string[];
-  };
+  // Compiler of the first compilation, the compiler of each compilation is in `compilations`
+  compiler: InspectCompiler;
+  // A single compilation artifact has exactly one compilation
+  compilations: Array<{
+    id: string;
+    origin: InspectOrigin;
+    compiler: InspectCompiler;
+    sourceFiles: string[];
+  }>;
+  // Source files of all the compilations
   sourceFiles: string[];
   contractsBySource: Array<{
     sourcePath: string;
     contracts: string[];
   }>;
+  // Git state and labels captured at push time, null if the artifact was pushed before push metadata existed
+  metadata: PushMetadata | null;
 };
 
 /**
@@ -86,38 +113,66 @@ export async function inspectArtifact(
     );
   }
 
-  const compilerSettings = deriveCompilerSettings(inputArtifact);
-
-  const origin: InspectResult["origin"] =
-    inputArtifact.origin.type === "hardhat-v3"
-      ? {
-          kind: "hardhat-v3",
-          ids: inputArtifact.origin.pairs.map((pair) => pair.id),
-        }
-      : {
-          kind: inputArtifact.origin.type,
-          id: inputArtifact.origin.id,
-        };
+  const compilationsResult = toResult(() => listCompilations(inputArtifact), {
+    debug: opts.debug,
+  });
+  if (!compilationsResult.success) {
+    throw new CliError(
+      "The input artifact is invalid, the input of a compilation is missing. Run with debug mode for more info",
+    );
+  }
+  const compilations = compilationsResult.value.map((compilation) => ({
+    id: compilation.id,
+    origin: deriveInspectOrigin(compilation.origin),
+    compiler: deriveCompilerSettings(compilation),
+    sourceFiles: Object.keys(compilation.input.sources).sort(),
+  }));
+  const firstCompilation = compilations[0];
+  if (!firstCompilation) {
+    throw new CliError("The input artifact has no compilation");
+  }
 
   return {
     project: artifactRef.project,
     tag: artifactRef.tag,
     id: inputArtifact.id,
-    origin,
-    compiler: compilerSettings,
-    sourceFiles: Object.keys(inputArtifact.input.sources).sort(),
+    origin:
+      inputArtifact.origin.type === "multi-compilation"
+        ? {
+            kind: "multi-compilation",
+            ids: compilations.map((compilation) => compilation.id),
+          }
+        : firstCompilation.origin,
+    compiler: firstCompilation.compiler,
+    compilations,
+    sourceFiles: Array.from(
+      new Set(compilations.flatMap((compilation) => compilation.sourceFiles)),
+    ).sort(),
     contractsBySource: deriveContractsBySource(contractList),
+    metadata: inputArtifact.metadata ?? null,
   };
 }
 
+function deriveInspectOrigin(origin: EthokoCompilationOrigin): InspectOrigin {
+  return origin.type === "hardhat-v3"
+    ? {
+        kind: "hardhat-v3",
+        ids: origin.pairs.map((pair) => pair.id),
+      }
+    : {
+        kind: origin.type,
+        id: origin.id,
+      };
+}
+
 function deriveCompilerSettings(
-  artifact: EthokoInputArtifact,
-): InspectResult["compiler"] {
-  const settings = artifact.input.settings;
+  compilation: EthokoCompilation,
+): InspectCompiler {
+  const settings = compilation.input.settings;
   const optimizer = settings?.optimizer;
 
   return {
-    solcLongVersion: artifact.solcLongVersion,
+    solcLongVersion: compilation.solcLongVersion,
     evmVersion: settings?.evmVersion ?? "default",
     optimizer: {
       enabled: optimizer?.enabled ?? false,
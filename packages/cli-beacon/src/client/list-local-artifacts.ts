@@ -1,4 +1,5 @@
 import { LocalArtifactStore } from "@/local-artifact-store";
+import { PushMetadata } from "@/ethoko-artifacts/v0";
 import { toAsyncResult } from "@/utils/result";
 import { CliError } from "./error";
 import { DebugLogger } from "@/utils/debug-logger";
@@ -10,6 +11,8 @@ export type ArtifactItem = {
   id: string;
   tag: string | null;
   lastModifiedAt: string;
+  // Git state and labels captured at push time, null if the artifact was pushed before push metadata existed
+  metadata: PushMetadata | null;
 };
 
 /**
@@ -17,13 +20,13 @@ export type ArtifactItem = {
  * 1. Fetch the list of projects, tags, and IDs from the Local Artifact Store
  * 2. Structure the data in a user-friendly format for display
  *
- * The method returns an array of artifact items containing the project, tag, ID, and last modified date.
+ * The method returns an array of artifact items containing the project, tag, ID, last modified date and push metadata.
  *
  * @throws CliError if there is an error fetching the data from the Local Artifact Store. The error messages are meant to be user-friendly and can be directly shown to the user.
  * @param dependencies The dependencies
  * @param opts Options for the listing
  * @param opts.debug Enable debug mode
- * @returns The list of artifacts in the Local Artifact Store with their project, tag, ID, and last modified date
+ * @returns The list of artifacts in the Local Artifact Store with their project, tag, ID, last modified date and push metadata
  */
 export async function listLocalArtifacts(
   dependencies: {
@@ -77,12 +80,30 @@ export async function listLocalArtifacts(
       );
     }
 
+    const metadataById = new Map<string, PushMetadata | null>();
+    const retrievePushMetadata = async (id: string) => {
+      if (!metadataById.has(id)) {
+        const metadataResult = await toAsyncResult(
+          dependencies.localArtifactStore.retrievePushMetadata(project, id),
+          { debug: opts.debug },
+        );
+        if (!metadataResult.success) {
+          throw new CliError(
+            `Error reading the artifact "${project}@${id}", please force pull the project to restore it or run with debug mode for more info`,
+          );
+        }
+        metadataById.set(id, metadataResult.value);
+      }
+      return metadataById.get(id) ?? null;
+    };
+
     for (const { lastModifiedAt, id, tag } of tagsResult.value) {
       items.push({
         project,
         id,
         tag,
         lastModifiedAt,
+        metadata: await retrievePushMetadata(id),
       });
       idsAlreadyVisited.add(id);
     }
@@ -117,6 +138,7 @@ export async function listLocalArtifacts(
         id: metadata.id,
         tag: null,
         lastModifiedAt: metadata.lastModifiedAt,
+        metadata: await retrievePushMetadata(metadata.id),
       });
       idsAlreadyVisited.add(metadata.id);
     }
@@ -0,0 +1,123 @@
+import { ArtifactSummary, PushMetadata } from "@/ethoko-artifacts/v0";
+import { StorageProvider } from "@/storage-provider";
+import { DebugLogger } from "@/utils/debug-logger";
+import { toAsyncResult } from "@/utils/result";
+import { CliError } from "./error";
+
+export type ListRemoteArtifactsResult = {
+  project: string;
+  artifacts: RemoteArtifactItem[];
+};
+
+export type RemoteArtifactItem = {
+  id: string;
+  // Tags pointing to the artifact ID, sorted by name
+  tags: string[];
+  origin: ArtifactSummary["origin"]["type"];
+  solcLongVersion: string;
+  contractCount: number;
+  // Date of the push, ISO 8601 format, null if unknown
+  pushedAt: string | null;
+  // Git state and labels captured at push time, null if unknown
+  metadata: PushMetadata | null;
+};
+
+/**
+ * List the artifacts of a project on the storage, without pulling them.
+ *
+ * The project index is used when it exists, so that a single file is downloaded. Otherwise, the metadata of the artifacts is retrieved with `StorageProvider.listArtifactSummaries` and the tags are resolved to their artifact IDs.
+ * Tags pointing to an artifact ID that is not on the storage are ignored.
+ * @throws CliError if the storage can not be reached. The error message is meant to be user-friendly and can be directly shown to the user.
+ * @param project The project
+ * @param dependencies.storageProvider The storage provider to list from
+ * @param dependencies.logger The DebugLogger instance to use for debug logging
+ * @param opts.debug Enable debug mode
+ * @returns The artifacts of the project, most recently pushed first
+ */
+export async function listRemoteArtifacts(
+  project: string,
+  dependencies: {
+    storageProvider: StorageProvider;
+    logger: DebugLogger;
+  },
+  opts: { debug: boolean },
+): Promise<ListRemoteArtifactsResult> {
+  const indexResult = await toAsyncResult(
+    dependencies.storageProvider.getProjectIndex(project),
+    { debug: opts.debug },
+  );
+  if (!indexResult.success) {
+    throw new CliError(
+      `Error reading the index of the project "${project}" on the storage, please check the storage configuration or run with debug mode for more info`,
+    );
+  }
+  if (opts.debug) {
+    dependencies.logger.debug(
+      indexResult.value
+        ? `Using the index of project ${project}`
+        : `No index found for project ${project}, listing the artifacts one by one`,
+    );
+  }
+
+  const listingResult = await toAsyncResult(
+    indexResult.value
+      ? Promise.resolve(indexResult.value)
+      : Promise.all([
+          dependencies.storageProvider.listArtifactSummaries(project),
+          resolveRemoteTags(project, dependencies.storageProvider),
+        ]).then(([artifacts, tags]) => ({ artifacts, tags })),
+    { debug: opts.debug },
+  );
+  if (!listingResult.success) {
+    throw new CliError(
+      `Error listing the artifacts of the project "${project}" on the storage, please check the storage configuration or run with debug mode for more info`,
+    );
+  }
+  const { artifacts: summaries, tags } = listingResult.value;
+  if (opts.debug) {
+    dependencies.logger.debug(
+      `Retrieved ${summaries.length} artifact summaries for project ${project}`,
+    );
+  }
+
+  const tagsById = new Map<string, string[]>();
+  for (const [tag, id] of Object.entries(tags)) {
+    tagsById.set(id, [...(tagsById.get(id) ?? []), tag]);
+  }
+
+  const artifacts = summaries.map((summary) => ({
+    id: summary.id,
+    tags: (tagsById.get(summary.id) ?? []).sort(),
+    origin: summary.origin.type,
+    solcLongVersion: summary.solcLongVersion,
+    contractCount: summary.contracts.length,
+    pushedAt: summary.pushedAt,
+    metadata: summary.metadata ?? null,
+  }));
+  artifacts.sort((a, b) => {
+    if (a.pushedAt === b.pushedAt) return a.id.localeCompare(b.id);
+    if (a.pushedAt === null) return 1;
+    if (b.pushedAt === null) return -1;
+    return b.pushedAt.localeCompare(a.pushedAt);
+  });
+
+  return { project, artifacts };
+}
+
+async function resolveRemoteTags(
+  project: string,
+  storageProvider: StorageProvider,
+): Promise<Record<string, string>> {
+  const tags = await storageProvider.listTags(project);
+  const tagIds = await Promise.all(
+    tags.map((tag) => storageProvider.resolveTagId(project, tag)),
+  );
+  const resolvedTags: Record<string, string> = {};
+  tags.forEach((tag, index) => {
+    const id = tagIds[index];
+    if (id) {
+      resolvedTags[tag] = id;
+    }
+  });
+  return resolvedTags;
+}
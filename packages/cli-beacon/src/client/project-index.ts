@@ -0,0 +1,61 @@
+import { StorageProvider } from "@/storage-provider";
+import { DebugLogger } from "@/utils/debug-logger";
+import { toAsyncResult } from "@/utils/result";
+import { CliError } from "./error";
+
+export type RebuildIndexResult = {
+  project: string;
+  artifactCount: number;
+  tagCount: number;
+  // Number of artifacts in the index before the rebuild, null if the project had no index
+  previousArtifactCount: number | null;
+};
+
+/**
+ * Rebuild the index of a project on the storage from the stored artifacts and tags.
+ *
+ * Needed for projects pushed before the index existed, the index is then maintained by every write of the CLI.
+ * @throws CliError if the storage can not be reached. The error message is meant to be user-friendly and can be directly shown to the user.
+ * @param project The project
+ * @param dependencies.storageProvider The storage provider holding the project
+ * @param dependencies.logger The DebugLogger instance to use for debug logging
+ * @param opts.debug Enable debug mode
+ * @returns The size of the rebuilt index
+ */
+export async function rebuildRemoteIndex(
+  project: string,
+  dependencies: {
+    storageProvider: StorageProvider;
+    logger: DebugLogger;
+  },
+  opts: { debug: boolean },
+): Promise<RebuildIndexResult> {
+  const previousIndexResult = await toAsyncResult(
+    dependencies.storageProvider.getProjectIndex(project),
+    { debug: opts.debug },
+  );
+  if (!previousIndexResult.success) {
+    throw new CliError(
+      `Error reading the index of the project "${project}" on the storage, please check the storage configuration or run with debug mode for more info`,
+    );
+  }
+
+  const rebuildResult = await toAsyncResult(
+    dependencies.storageProvider.rebuildProjectIndex(project),
+    { debug: opts.debug },
+  );
+  if (!rebuildResult.success) {
+    throw new CliError(
+      `Error rebuilding the index of the project "${project}" on the storage, please check the storage configuration or run with debug mode for more info`,
+    );
+  }
+
+  return {
+    project,
+    artifactCount: rebuildResult.value.artifacts.length,
+    tagCount: Object.keys(rebuildResult.value.tags).length,
+    previousArtifactCount: previousIndexResult.value
+      ? previousIndexResult.value.artifacts.length
+      : null,
+  };
+}
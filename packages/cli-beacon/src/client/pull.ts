@@ -4,6 +4,7 @@ import { StorageProvider } from "../storage-provider";
 import { toAsyncResult } from "../utils/result";
 import { CliError } from "./error";
 import { ArtifactReference } from "@/utils/artifact-reference";
+import { ChecksumManifest } from "@/ethoko-artifacts/v0";
 
 export type PullResult = {
   remoteTags: string[];
@@ -158,10 +159,23 @@ export async function pullProject(
   const tagsPromises: Promise<{ tag: string; id: string }>[] =
     filteredTagsToDownload.map(async (tag) => {
       const downloadResult = await toAsyncResult(
-        dependencies.storageProvider.downloadArtifactByTag(project, tag),
+        dependencies.storageProvider
+          .downloadArtifactByTag(project, tag)
+          .then((artifact) =>
+            withChecksumManifest(
+              dependencies.storageProvider,
+              project,
+              artifact.id,
+              artifact,
+            ),
+          ),
         { debug: opts.debug },
       );
       if (!downloadResult.success) {
+        // An artifact that can not be read with this Node.js version fails the pull with its own message
+        if (downloadResult.error instanceof CliError) {
+          throw downloadResult.error;
+        }
         throw new PullTagError(tag);
       }
 
@@ -173,6 +187,7 @@ export async function pullProject(
           {
             input: downloadResult.value.input,
             outputs: downloadResult.value.contractOutputArtifacts,
+            checksums: downloadResult.value.checksums,
           },
         ),
         { debug: opts.debug },
@@ -198,7 +213,10 @@ export async function pullProject(
       pulledTags.push(settlement.value.tag);
       pulledIds.push(settlement.value.id);
     } else {
-      // We know that the only possible error is PullTagError, we check for safety but we don't want any other error to be silently ignored
+      // We know that the only possible errors are PullTagError and CliError, we check for safety but we don't want any other error to be silently ignored
+      if (settlement.reason instanceof CliError) {
+        throw settlement.reason;
+      }
       if (settlement.reason instanceof PullTagError) {
         if (opts.debug) {
           dependencies.logger.debug(
@@ -229,10 +247,22 @@ export async function pullProject(
   const idsPromises: Promise<{ id: string }>[] = filteredIdsToDownload.map(
     async (id) => {
       const downloadResult = await toAsyncResult(
-        dependencies.storageProvider.downloadArtifactById(project, id),
+        dependencies.storageProvider
+          .downloadArtifactById(project, id)
+          .then((artifact) =>
+            withChecksumManifest(
+              dependencies.storageProvider,
+              project,
+              id,
+              artifact,
+            ),
+          ),
         { debug: opts.debug },
       );
       if (!downloadResult.success) {
+        if (downloadResult.error instanceof CliError) {
+          throw downloadResult.error;
+        }
         throw new PullIdError(id);
       }
 
@@ -240,6 +270,7 @@ export async function pullProject(
         dependencies.localArtifactStore.createArtifact(project, id, null, {
           input: downloadResult.value.input,
           outputs: downloadResult.value.contractOutputArtifacts,
+          checksums: downloadResult.value.checksums,
         }),
         { debug: opts.debug },
       );
@@ -267,7 +298,10 @@ export async function pullProject(
           `Failed to pull ID "${settlement.reason.id}".`,
         );
       }
-      // We know that the only possible error is PullIdError, we check for safety but we don't want any other error to be silently ignored
+      // We know that the only possible errors are PullIdError and CliError, we check for safety but we don't want any other error to be silently ignored
+      if (settlement.reason instanceof CliError) {
+        throw settlement.reason;
+      }
       if (settlement.reason instanceof PullIdError) {
         failedIds.push(settlement.reason.id);
       } else {
@@ -415,10 +449,22 @@ async function pullArtifactById(
 
   // Download artifact
   const downloadResult = await toAsyncResult(
-    dependencies.storageProvider.downloadArtifactById(project, id),
+    dependencies.storageProvider
+      .downloadArtifactById(project, id)
+      .then((artifact) =>
+        withChecksumManifest(
+          dependencies.storageProvider,
+          project,
+          id,
+          artifact,
+        ),
+      ),
     { debug: opts.debug },
   );
   if (!downloadResult.success) {
+    if (downloadResult.error instanceof CliError) {
+      throw downloadResult.error;
+    }
     throw new CliError(
       `Error downloading the artifact "${project}@${id}", please check the configuration or run with debug mode for more info`,
     );
@@ -434,6 +480,7 @@ async function pullArtifactById(
     dependencies.localArtifactStore.createArtifact(project, id, null, {
       input: downloadResult.value.input,
       outputs: downloadResult.value.contractOutputArtifacts,
+      checksums: downloadResult.value.checksums,
     }),
     { debug: opts.debug },
   );
@@ -533,10 +580,22 @@ async function pullArtifactByTag(
 
   // Download artifact
   const downloadResult = await toAsyncResult(
-    dependencies.storageProvider.downloadArtifactByTag(project, tag),
+    dependencies.storageProvider
+      .downloadArtifactByTag(project, tag)
+      .then((artifact) =>
+        withChecksumManifest(
+          dependencies.storageProvider,
+          project,
+          artifact.id,
+          artifact,
+        ),
+      ),
     { debug: opts.debug },
   );
   if (!downloadResult.success) {
+    if (downloadResult.error instanceof CliError) {
+      throw downloadResult.error;
+    }
     throw new CliError(
       `Error downloading the artifact "${project}:${tag}", please check the configuration or run with debug mode for more info`,
     );
@@ -550,6 +609,7 @@ async function pullArtifactByTag(
       {
         input: downloadResult.value.input,
         outputs: downloadResult.value.contractOutputArtifacts,
+        checksums: downloadResult.value.checksums,
       },
     ),
     { debug: opts.debug },
@@ -573,6 +633,19 @@ async function pullArtifactByTag(
   };
 }
 
+/**
+ * Downloads the checksum manifest of a downloaded artifact, it is kept in the Local Artifact Store for `ethoko verify`.
+ */
+async function withChecksumManifest<TArtifact>(
+  storageProvider: StorageProvider,
+  project: string,
+  id: string,
+  artifact: TArtifact,
+): Promise<TArtifact & { checksums: ChecksumManifest | undefined }> {
+  const checksums = await storageProvider.getChecksumManifest(project, id);
+  return { ...artifact, checksums };
+}
+
 class PullTagError extends Error {
   public tag: string;
   constructor(tag: string) {
@@ -0,0 +1,241 @@
+import { StorageProvider } from "@/storage-provider";
+import {
+  EthokoContractOutputArtifact,
+  EthokoContractOutputArtifactSchema,
+  EthokoInputArtifact,
+  EthokoInputArtifactSchema,
+} from "@/ethoko-artifacts/v0";
+import {
+  EthokoCompilation,
+  listCompilations,
+} from "@/ethoko-artifacts/compilations";
+import {
+  compileStandardJson,
+  ensureSolcBinary,
+} from "@/solc-compiler/solc-binaries";
+import {
+  compareContractOutput,
+  parseRecompiledOutput,
+  RecompiledOutput,
+  ReproductionStatus,
+} from "@/solc-compiler/compare-compilation-outputs";
+import { ArtifactReference } from "@/utils/artifact-reference";
+import { DebugLogger } from "@/utils/debug-logger";
+import { AbsolutePath } from "@/utils/path";
+import { toAsyncResult, toResult } from "@/utils/result";
+import { readStream } from "@/utils/stream";
+import { CliError } from "./error";
+import { resolveRemoteArtifactId } from "./resolve-remote-artifact";
+
+export type CompilationReproduction = {
+  reproducible: boolean;
+  compilations: Array<{
+    id: string;
+    solcLongVersion: string;
+    // Reason why the compilation could not be run, null if it was recompiled
+    error: string | null;
+  }>;
+  contracts: Array<{
+    sourceName: string;
+    contractName: string;
+    // The ID of the compilation the contract comes from
+    compilation: string;
+    bytecode: ReproductionStatus;
+    deployedBytecode: ReproductionStatus;
+    metadata: ReproductionStatus;
+  }>;
+};
+
+export type ReproduceResult = CompilationReproduction & {
+  project: string;
+  tag: string | null;
+  id: string;
+};
+
+/**
+ * Recompile the compilations of an artifact with their exact solc version and compare the outputs with the contract output artifacts.
+ *
+ * The solc binaries are taken from the cache, a missing binary is downloaded once in the cache.
+ * A compilation that can not be run, e.g. a source without content or a compiler error, is reported in the result and its contracts are reported as missing.
+ * @param artifact.inputArtifact The input artifact
+ * @param artifact.outputContractArtifacts The contract output artifacts
+ * @param dependencies.logger The DebugLogger instance to use for debug logging
+ * @param opts.solcCachePath The solc binaries cache directory
+ * @param opts.debug Enable debug mode
+ * @returns The reproduction of each compilation and contract
+ */
+export async function reproduceCompilation(
+  artifact: {
+    inputArtifact: EthokoInputArtifact;
+    outputContractArtifacts: EthokoContractOutputArtifact[];
+  },
+  dependencies: { logger: DebugLogger },
+  opts: { solcCachePath: AbsolutePath; debug: boolean },
+): Promise<CompilationReproduction> {
+  const compilationsResult = toResult(
+    () => listCompilations(artifact.inputArtifact),
+    { debug: opts.debug },
+  );
+  if (!compilationsResult.success) {
+    throw new CliError(
+      `The input artifact "${artifact.inputArtifact.id}" is invalid, run with debug mode for more info`,
+    );
+  }
+  const compilations = compilationsResult.value;
+
+  const recompiledOutputs = new Map<string, RecompiledOutput>();
+  const compilationReproductions: CompilationReproduction["compilations"] = [];
+  for (const compilation of compilations) {
+    const recompileResult = await toAsyncResult(
+      recompile(compilation, dependencies, opts),
+      { debug: opts.debug },
+    );
+    if (!recompileResult.success) {
+      compilationReproductions.push({
+        id: compilation.id,
+        solcLongVersion: compilation.solcLongVersion,
+        error:
+          recompileResult.error instanceof Error
+            ? recompileResult.error.message
+            : String(recompileResult.error),
+      });
+      continue;
+    }
+    recompiledOutputs.set(compilation.id, recompileResult.value);
+    compilationReproductions.push({
+      id: compilation.id,
+      solcLongVersion: compilation.solcLongVersion,
+      error: null,
+    });
+  }
+
+  const contracts: CompilationReproduction["contracts"] = [];
+  for (const contractArtifact of artifact.outputContractArtifacts) {
+    const compilationId = contractArtifact.compilation ?? compilations[0]?.id;
+    const recompiledOutput = compilationId
+      ? recompiledOutputs.get(compilationId)
+      : undefined;
+    const contract = {
+      sourceName: contractArtifact.sourceName,
+      contractName: contractArtifact.contract,
+    };
+    contracts.push({
+      ...contract,
+      compilation: compilationId ?? artifact.inputArtifact.id,
+      ...compareContractOutput(
+        contractArtifact.output.contract,
+        recompiledOutput ?? { errors: [], contracts: {} },
+        contract,
+      ),
+    });
+  }
+
+  return {
+    reproducible:
+      compilationReproductions.every((c) => c.error === null) &&
+      contracts.every(
+        (c) =>
+          c.bytecode === "match" &&
+          c.deployedBytecode === "match" &&
+          c.metadata === "match",
+      ),
+    compilations: compilationReproductions,
+    contracts,
+  };
+}
+
+async function recompile(
+  compilation: EthokoCompilation,
+  dependencies: { logger: DebugLogger },
+  opts: { solcCachePath: AbsolutePath; debug: boolean },
+): Promise<RecompiledOutput> {
+  const sourcesWithoutContent = Object.entries(compilation.input.sources)
+    .filter(
+      ([, source]) =>
+        !("content" in source && source.content !== undefined) &&
+        !("ast" in source) &&
+        !("assemblyJson" in source),
+    )
+    .map(([sourceName]) => sourceName);
+  if (sourcesWithoutContent.length > 0) {
+    throw new Error(
+      `The content of the sources ${sourcesWithoutContent.join(", ")} is not in the input`,
+    );
+  }
+
+  const binaryPath = await ensureSolcBinary(
+    opts.solcCachePath,
+    compilation.solcLongVersion,
+  );
+  if (opts.debug) {
+    dependencies.logger.debug(
+      `Recompiling the compilation "${compilation.id}" with the solc binary at ${binaryPath.resolvedPath}`,
+    );
+  }
+  const output = parseRecompiledOutput(
+    await compileStandardJson(binaryPath, compilation.input),
+  );
+  if (output.errors.length > 0) {
+    throw new Error(`Compilation failed:\n${output.errors.join("\n")}`);
+  }
+  return output;
+}
+
+/**
+ * Recompile an artifact of the storage and compare the outputs with its contract output artifacts, see `reproduceCompilation`.
+ * @throws CliError if the artifact does not exist or can not be read. A non reproducible artifact is reported in the result, not thrown.
+ * @param artifactRef The artifact reference, by tag or ID
+ * @param dependencies.storageProvider The storage provider
+ * @param dependencies.logger The DebugLogger instance to use for debug logging
+ * @param opts.solcCachePath The solc binaries cache directory
+ * @param opts.debug Enable debug mode
+ * @returns The reproduction result
+ */
+export async function reproduceArtifact(
+  artifactRef: ArtifactReference,
+  dependencies: { storageProvider: StorageProvider; logger: DebugLogger },
+  opts: { solcCachePath: AbsolutePath; debug: boolean },
+): Promise<ReproduceResult> {
+  const id = await resolveRemoteArtifactId(artifactRef, dependencies, opts);
+
+  const downloadResult = await toAsyncResult(
+    dependencies.storageProvider
+      .downloadArtifactById(artifactRef.project, id)
+      .then(async (artifact) => {
+        const inputArtifact = EthokoInputArtifactSchema.parse(
+          JSON.parse((await readStream(artifact.input)).toString("utf-8")),
+        );
+        const outputContractArtifacts: EthokoContractOutputArtifact[] = [];
+        for (const output of artifact.contractOutputArtifacts) {
+          outputContractArtifacts.push(
+            EthokoContractOutputArtifactSchema.parse(
+              JSON.parse((await readStream(output.stream)).toString("utf-8")),
+            ),
+          );
+        }
+        return { inputArtifact, outputContractArtifacts };
+      }),
+    { debug: opts.debug },
+  );
+  if (!downloadResult.success) {
+    if (downloadResult.error instanceof CliError) {
+      throw downloadResult.error;
+    }
+    throw new CliError(
+      `Error downloading the artifact "${artifactRef.project}@${id}", please check the storage configuration or run with debug mode for more info`,
+    );
+  }
+
+  const reproduction = await reproduceCompilation(
+    downloadResult.value,
+    dependencies,
+    opts,
+  );
+
+  return {
+    project: artifactRef.project,
+    tag: artifactRef.type === "tag" ? artifactRef.tag : null,
+    id,
+    ...reproduction,
+  };
+}
@@ -0,0 +1,58 @@
+import { StorageProvider } from "@/storage-provider";
+import { ArtifactReference } from "@/utils/artifact-reference";
+import { toAsyncResult } from "@/utils/result";
+import { CliError } from "./error";
+
+/**
+ * Resolve an artifact ID on the storage, the tag is resolved to the ID it points to.
+ * @throws CliError if the tag or the ID does not exist on the storage, or if the storage can not be reached.
+ * @param artifactRef The artifact reference to resolve, either by tag or by ID.
+ * @param dependencies.storageProvider The storage provider
+ * @param opts Options for resolving the artifact ID, such as debug mode.
+ * @returns The artifact ID
+ */
+export async function resolveRemoteArtifactId(
+  artifactRef: ArtifactReference,
+  dependencies: { storageProvider: StorageProvider },
+  opts: { debug: boolean },
+): Promise<string> {
+  if (artifactRef.type === "tag") {
+    const tagIdResult = await toAsyncResult(
+      dependencies.storageProvider.resolveTagId(
+        artifactRef.project,
+        artifactRef.tag,
+      ),
+      { debug: opts.debug },
+    );
+    if (!tagIdResult.success) {
+      throw new CliError(
+        `Error checking if the tag "${artifactRef.tag}" exists on the storage, please check the storage configuration or run with debug mode for more info`,
+      );
+    }
+    if (!tagIdResult.value) {
+      throw new CliError(
+        `The tag "${artifactRef.tag}" does not exist on the storage for the project "${artifactRef.project}"`,
+      );
+    }
+    return tagIdResult.value;
+  }
+
+  const hasIdResult = await toAsyncResult(
+    dependencies.storageProvider.hasArtifactById(
+      artifactRef.project,
+      artifactRef.id,
+    ),
+    { debug: opts.debug },
+  );
+  if (!hasIdResult.success) {
+    throw new CliError(
+      `Error checking if the artifact ID "${artifactRef.id}" exists on the storage, please check the storage configuration or run with debug mode for more info`,
+    );
+  }
+  if (!hasIdResult.value) {
+    throw new CliError(
+      `The artifact ID "${artifactRef.id}" does not exist on the storage for the project "${artifactRef.project}"`,
+    );
+  }
+  return artifactRef.id;
+}
@@ -0,0 +1,133 @@
+import { DebugLogger } from "@/utils/debug-logger";
+import { TagHistoryEntry } from "@/ethoko-artifacts/v0";
+import { StorageProvider } from "../storage-provider";
+import { toAsyncResult } from "../utils/result";
+import { getGitUser } from "../utils/git";
+import { VERSION } from "../version";
+import { CliError } from "./error";
+
+export type TagHistoryResult = {
+  project: string;
+  tag: string;
+  // The artifact ID the tag currently points to, null if the tag does not exist
+  currentId: string | null;
+  // Recorded history entries, from the oldest to the most recent
+  entries: TagHistoryEntry[];
+};
+
+/**
+ * Record a write of a tag manifest in the tag history.
+ *
+ * The entry contains the new and previous artifact IDs, the date, the identity of the pusher and the CLI version.
+ * The pusher identity is derived from the git user and from the storage caller identity (e.g. the AWS caller ARN), both are optional.
+ * @throws CliError if the entry can not be stored. The error message is meant to be user-friendly and can be directly shown to the user.
+ * @param project The project of the tag
+ * @param tag The written tag
+ * @param change.id The artifact ID the tag points to after the write, null if the tag is removed
+ * @param change.previousId The artifact ID the tag pointed to before the write, null if the tag did not exist
+ * @param dependencies.storageProvider The storage provider used to store the history
+ * @param dependencies.logger The DebugLogger instance to use for debug logging
+ * @param opts.debug Enable debug mode
+ * @returns The recorded entry
+ */
+export async function recordTagHistory(
+  project: string,
+  tag: string,
+  change: { id: string | null; previousId: string | null },
+  dependencies: {
+    storageProvider: StorageProvider;
+    logger: DebugLogger;
+  },
+  opts: { debug: boolean },
+): Promise<TagHistoryEntry> {
+  const [gitUser, storageIdentityResult] = await Promise.all([
+    getGitUser(),
+    toAsyncResult(dependencies.storageProvider.getCallerIdentity(), {
+      debug: opts.debug,
+    }),
+  ]);
+  if (!storageIdentityResult.success && opts.debug) {
+    dependencies.logger.debug(
+      "Unable to resolve the caller identity from the storage, it is omitted from the tag history",
+    );
+  }
+
+  const entry: TagHistoryEntry = {
+    id: change.id,
+    previousId: change.previousId,
+    timestamp: new Date().toISOString(),
+    pushedBy: {
+      gitUser,
+      storageIdentity: storageIdentityResult.success
+        ? (storageIdentityResult.value ?? null)
+        : null,
+    },
+    cliVersion: VERSION,
+  };
+
+  const appendResult = await toAsyncResult(
+    dependencies.storageProvider.appendTagHistory(project, tag, entry),
+    { debug: opts.debug },
+  );
+  if (!appendResult.success) {
+    throw new CliError(
+      `Error recording the history of the tag "${tag}" on the storage, please check the storage configuration or run with debug mode for more info`,
+    );
+  }
+  if (opts.debug) {
+    dependencies.logger.debug(
+      `Recorded tag history entry for ${project}:${tag} (${change.previousId ?? "none"} -> ${change.id ?? "removed"})`,
+    );
+  }
+  return entry;
+}
+
+/**
+ * Retrieve the history of a tag from the storage, along with the artifact ID it currently points to.
+ * @throws CliError if the tag and its history do not exist, or if the storage can not be reached. The error messages are meant to be user-friendly and can be directly shown to the user.
+ * @param project The project of the tag
+ * @param tag The tag
+ * @param dependencies.storageProvider The storage provider used to read the history
+ * @param dependencies.logger The DebugLogger instance to use for debug logging
+ * @param opts.debug Enable debug mode
+ * @returns The current artifact ID of the tag and its history entries
+ */
+export async function getTagHistory(
+  project: string,
+  tag: string,
+  dependencies: {
+    storageProvider: StorageProvider;
+    logger: DebugLogger;
+  },
+  opts: { debug: boolean },
+): Promise<TagHistoryResult> {
+  const historyResult = await toAsyncResult(
+    Promise.all([
+      dependencies.storageProvider.resolveTagId(project, tag),
+      dependencies.storageProvider.getTagHistory(project, tag),
+    ]),
+    { debug: opts.debug },
+  );
+  if (!historyResult.success) {
+    throw new CliError(
+      "Error interacting with the storage, please check the configuration or run with debug mode for more info",
+    );
+  }
+  const [currentId, entries] = historyResult.value;
+  if (currentId === undefined && entries.length === 0) {
+    throw new CliError(
+      `The tag "${tag}" does not exist on the storage for the project "${project}"`,
+    );
+  }
+  if (opts.debug) {
+    dependencies.logger.debug(
+      `Found ${entries.length} history entries for ${project}:${tag}`,
+    );
+  }
+  return {
+    project,
+    tag,
+    currentId: currentId ?? null,
+    entries,
+  };
+}
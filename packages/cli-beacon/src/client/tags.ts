@@ -0,0 +1,336 @@
+import { DebugLogger } from "@/utils/debug-logger";
+import { findMatchingTagPattern } from "@/utils/tag-pattern";
+import { LocalArtifactStore } from "../local-artifact-store";
+import { StorageProvider } from "../storage-provider";
+import { toAsyncResult } from "../utils/result";
+import { CliError } from "./error";
+import { recordTagHistory } from "./tag-history";
+
+export type TagChangeResult = {
+  project: string;
+  tag: string;
+  // The artifact ID the tag points to after the change, null if the tag was removed
+  id: string | null;
+  // The artifact ID the tag pointed to before the change, null if the tag was created
+  previousId: string | null;
+  // False if the change could not be recorded in the tag history
+  historyRecorded: boolean;
+  // False if the change is stored but the project index could not be updated
+  indexUpdated: boolean;
+};
+
+export type RemoteTagsResult = {
+  tag: string;
+  id: string;
+}[];
+
+type TagDependencies = {
+  storageProvider: StorageProvider;
+  localArtifactStore: LocalArtifactStore;
+  logger: DebugLogger;
+};
+
+/**
+ * Create a tag on the storage, pointing to an existing artifact ID.
+ *
+ * The change is recorded in the tag history and the Local Artifact Store is kept in sync: the tag is created locally if the artifact ID has been pulled.
+ * @throws CliError if the artifact ID does not exist, if the tag already exists, or if the storage can not be reached. The error messages are meant to be user-friendly and can be directly shown to the user.
+ * @param project The project of the artifact
+ * @param id The artifact ID to tag
+ * @param tag The tag to create
+ * @param dependencies.storageProvider The storage provider used to write the tag
+ * @param dependencies.localArtifactStore The Local Artifact Store to keep in sync
+ * @param dependencies.logger The DebugLogger instance to use for debug logging
+ * @param opts.debug Enable debug mode
+ * @returns The applied change
+ */
+export async function addTag(
+  project: string,
+  id: string,
+  tag: string,
+  dependencies: TagDependencies,
+  opts: { debug: boolean },
+): Promise<TagChangeResult> {
+  await ensureRemoteArtifactId(project, id, dependencies, opts);
+  const previousId = await resolveRemoteTagId(project, tag, dependencies, opts);
+  if (previousId) {
+    throw new CliError(
+      `The tag "${tag}" already exists on the storage and points to the artifact ID "${previousId}". Use "ethoko tag move" to move it to another artifact.`,
+    );
+  }
+
+  const indexUpdated = await writeRemoteTag(
+    project,
+    tag,
+    id,
+    dependencies,
+    opts,
+  );
+  return finalizeTagChange(
+    project,
+    tag,
+    { id, previousId: null },
+    indexUpdated,
+    dependencies,
+    opts,
+  );
+}
+
+/**
+ * Move an existing tag on the storage to another artifact ID.
+ *
+ * The change is recorded in the tag history and the Local Artifact Store is kept in sync: the tag is moved locally if the artifact ID has been pulled, removed otherwise.
+ * @throws CliError if the artifact ID or the tag does not exist, if the tag is protected, or if the storage can not be reached. The error messages are meant to be user-friendly and can be directly shown to the user.
+ * @param project The project of the artifact
+ * @param id The artifact ID the tag should point to
+ * @param tag The tag to move
+ * @param dependencies.storageProvider The storage provider used to write the tag
+ * @param dependencies.localArtifactStore The Local Artifact Store to keep in sync
+ * @param dependencies.logger The DebugLogger instance to use for debug logging
+ * @param opts.debug Enable debug mode
+ * @param opts.protectedTags Glob patterns of tags that can not be moved
+ * @returns The applied change
+ */
+export async function moveTag(
+  project: string,
+  id: string,
+  tag: string,
+  dependencies: TagDependencies,
+  opts: { debug: boolean; protectedTags?: string[] },
+): Promise<TagChangeResult> {
+  await ensureRemoteArtifactId(project, id, dependencies, opts);
+  const previousId = await resolveRemoteTagId(project, tag, dependencies, opts);
+  if (!previousId) {
+    throw new CliError(
+      `The tag "${tag}" does not exist on the storage for the project "${project}". Use "ethoko tag add" to create it.`,
+    );
+  }
+  if (previousId === id) {
+    throw new CliError(
+      `The tag "${tag}" already points to the artifact ID "${id}"`,
+    );
+  }
+  ensureNotProtected(tag, opts.protectedTags, "moved");
+
+  const indexUpdated = await writeRemoteTag(
+    project,
+    tag,
+    id,
+    dependencies,
+    opts,
+  );
+  return finalizeTagChange(
+    project,
+    tag,
+    { id, previousId },
+    indexUpdated,
+    dependencies,
+    opts,
+  );
+}
+
+/**
+ * Remove a tag from the storage, the tagged artifact is kept.
+ *
+ * The change is recorded in the tag history and the tag is removed from the Local Artifact Store as well.
+ * @throws CliError if the tag does not exist, if the tag is protected, or if the storage can not be reached. The error messages are meant to be user-friendly and can be directly shown to the user.
+ * @param project The project of the tag
+ * @param tag The tag to remove
+ * @param dependencies.storageProvider The storage provider used to delete the tag
+ * @param dependencies.localArtifactStore The Local Artifact Store to keep in sync
+ * @param dependencies.logger The DebugLogger instance to use for debug logging
+ * @param opts.debug Enable debug mode
+ * @param opts.protectedTags Glob patterns of tags that can not be removed
+ * @returns The applied change
+ */
+export async function removeTag(
+  project: string,
+  tag: string,
+  dependencies: TagDependencies,
+  opts: { debug: boolean; protectedTags?: string[] },
+): Promise<TagChangeResult> {
+  const previousId = await resolveRemoteTagId(project, tag, dependencies, opts);
+  if (!previousId) {
+    throw new CliError(
+      `The tag "${tag}" does not exist on the storage for the project "${project}"`,
+    );
+  }
+  ensureNotProtected(tag, opts.protectedTags, "removed");
+
+  const deleteResult = await toAsyncResult(
+    dependencies.storageProvider.deleteTag(project, tag),
+    { debug: opts.debug },
+  );
+  if (!deleteResult.success) {
+    throw new CliError(
+      `Error removing the tag "${tag}" from the storage, please check the storage configuration or run with debug mode for more info`,
+    );
+  }
+  return finalizeTagChange(
+    project,
+    tag,
+    { id: null, previousId },
+    deleteResult.value.indexUpdated,
+    dependencies,
+    opts,
+  );
+}
+
+/**
+ * List the tags of a project on the storage, along with the artifact ID they point to.
+ * @throws CliError if the storage can not be reached. The error message is meant to be user-friendly and can be directly shown to the user.
+ * @param project The project
+ * @param dependencies.storageProvider The storage provider used to list the tags
+ * @param dependencies.logger The DebugLogger instance to use for debug logging
+ * @param opts.debug Enable debug mode
+ * @returns The tags sorted by name, with their artifact ID
+ */
+export async function listRemoteTags(
+  project: string,
+  dependencies: {
+    storageProvider: StorageProvider;
+    logger: DebugLogger;
+  },
+  opts: { debug: boolean },
+): Promise<RemoteTagsResult> {
+  const listingResult = await toAsyncResult(
+    dependencies.storageProvider.listTags(project).then((tags) =>
+      Promise.all(
+        tags.map(async (tag) => ({
+          tag,
+          id: await dependencies.storageProvider.resolveTagId(project, tag),
+        })),
+      ),
+    ),
+    { debug: opts.debug },
+  );
+  if (!listingResult.success) {
+    throw new CliError(
+      "Error interacting with the storage, please check the configuration or run with debug mode for more info",
+    );
+  }
+  if (opts.debug) {
+    dependencies.logger.debug(
+      `Found ${listingResult.value.length} remote tags for project ${project}`,
+    );
+  }
+  return listingResult.value
+    .filter((item): item is { tag: string; id: string } => Boolean(item.id))
+    .sort((a, b) => a.tag.localeCompare(b.tag));
+}
+
+async function ensureRemoteArtifactId(
+  project: string,
+  id: string,
+  dependencies: TagDependencies,
+  opts: { debug: boolean },
+): Promise<void> {
+  const hasIdResult = await toAsyncResult(
+    dependencies.storageProvider.hasArtifactById(project, id),
+    { debug: opts.debug },
+  );
+  if (!hasIdResult.success) {
+    throw new CliError(
+      `Error checking if the artifact ID "${id}" exists on the storage, please check the storage configuration or run with debug mode for more info`,
+    );
+  }
+  if (!hasIdResult.value) {
+    throw new CliError(
+      `The artifact ID "${id}" does not exist on the storage for the project "${project}"`,
+    );
+  }
+}
+
+async function resolveRemoteTagId(
+  project: string,
+  tag: string,
+  dependencies: TagDependencies,
+  opts: { debug: boolean },
+): Promise<string | undefined> {
+  const tagIdResult = await toAsyncResult(
+    dependencies.storageProvider.resolveTagId(project, tag),
+    { debug: opts.debug },
+  );
+  if (!tagIdResult.success) {
+    throw new CliError(
+      `Error checking if the tag "${tag}" exists on the storage, please check the storage configuration or run with debug mode for more info`,
+    );
+  }
+  return tagIdResult.value;
+}
+
+async function writeRemoteTag(
+  project: string,
+  tag: string,
+  id: string,
+  dependencies: TagDependencies,
+  opts: { debug: boolean },
+): Promise<boolean> {
+  const writeResult = await toAsyncResult(
+    dependencies.storageProvider.writeTag(project, tag, id),
+    { debug: opts.debug },
+  );
+  if (!writeResult.success) {
+    throw new CliError(
+      `Error writing the tag "${tag}" on the storage, please check the storage configuration or run with debug mode for more info`,
+    );
+  }
+  return writeResult.value.indexUpdated;
+}
+
+function ensureNotProtected(
+  tag: string,
+  protectedTags: string[] | undefined,
+  action: "moved" | "removed",
+): void {
+  const protectedPattern = findMatchingTagPattern(tag, protectedTags ?? []);
+  if (protectedPattern) {
+    throw new CliError(
+      `The tag "${tag}" is protected by the "${protectedPattern}" pattern of the project configuration and can not be ${action}`,
+    );
+  }
+}
+
+/**
+ * Records the change in the tag history and syncs the Local Artifact Store.
+ * The tag is kept locally only if its artifact ID has been pulled.
+ */
+async function finalizeTagChange(
+  project: string,
+  tag: string,
+  change: { id: string | null; previousId: string | null },
+  indexUpdated: boolean,
+  dependencies: TagDependencies,
+  opts: { debug: boolean },
+): Promise<TagChangeResult> {
+  const historyResult = await toAsyncResult(
+    recordTagHistory(project, tag, change, dependencies, opts),
+    { debug: opts.debug },
+  );
+
+  const syncResult = await toAsyncResult(
+    (async () => {
+      const id = change.id;
+      if (id && (await dependencies.localArtifactStore.hasId(project, id))) {
+        await dependencies.localArtifactStore.createTag(project, tag, id);
+      } else {
+        await dependencies.localArtifactStore.deleteTag(project, tag);
+      }
+    })(),
+    { debug: opts.debug },
+  );
+  if (!syncResult.success) {
+    throw new CliError(
+      `The tag "${tag}" has been updated on the storage but the Local Artifact Store could not be updated, is the script not allowed to write to the filesystem? Run with debug mode for more info`,
+    );
+  }
+
+  return {
+    project,
+    tag,
+    id: change.id,
+    previousId: change.previousId,
+    historyRecorded: historyResult.success,
+    indexUpdated,
+  };
+}
@@ -0,0 +1,267 @@
+import { Stream } from "stream";
+import { LocalArtifactStore } from "@/local-artifact-store";
+import { StorageProvider } from "@/storage-provider";
+import {
+  ChecksumManifest,
+  EthokoInputArtifactSchema,
+} from "@/ethoko-artifacts/v0";
+import {
+  ChecksumMismatch,
+  compareChecksumManifests,
+  computeChecksum,
+  computeStreamChecksum,
+  toChecksumPath,
+} from "@/ethoko-artifacts/checksum-manifest";
+import {
+  deriveEthokoArtifactId,
+  deriveMultiCompilationEthokoArtifactId,
+} from "@/ethoko-artifacts/derive-ethoko-artifact-id";
+import { ArtifactReference } from "@/utils/artifact-reference";
+import { DebugLogger } from "@/utils/debug-logger";
+import { toAsyncResult } from "@/utils/result";
+import { readStream } from "@/utils/stream";
+import { CliError } from "./error";
+import { resolveLocalArtifact } from "./resolve-local-artifact";
+import { resolveRemoteArtifactId } from "./resolve-remote-artifact";
+
+export type VerifyResult = {
+  project: string;
+  tag: string | null;
+  id: string;
+  // "local" for the Local Artifact Store, "remote" for the storage
+  location: "local" | "remote";
+  // ID re-derived from the compilation input of the stored input artifact, null if the input artifact can not be parsed
+  derivedId: string | null;
+  // False if the artifact was pushed before checksums existed, only its ID is verified
+  hasChecksumManifest: boolean;
+  // Number of hashed files
+  checkedFiles: number;
+  mismatches: ChecksumMismatch[];
+  valid: boolean;
+};
+
+type StoredArtifact = {
+  input: Stream;
+  contractOutputArtifacts: {
+    sourceName: string;
+    contractName: string;
+    stream: Stream;
+  }[];
+  // Original content files, only kept on the storage, downloaded one by one when hashed
+  original: { path: string; download: () => Promise<Stream> }[] | null;
+  checksums: ChecksumManifest | undefined;
+};
+
+/**
+ * Verify the integrity of an artifact, in the Local Artifact Store or on the storage.
+ *
+ * The stored files are re-hashed and compared with the checksum manifest written at push time, the artifact ID is re-derived from the compilation input of the stored input artifact.
+ * The Local Artifact Store does not keep the original content, it is only verified on the storage.
+ * @throws CliError if the artifact does not exist or can not be read. A tampered artifact is reported in the result, not thrown.
+ * @param artifactRef The artifact reference, by tag or ID
+ * @param dependencies.storageProvider The storage provider, used with the remote option
+ * @param dependencies.localArtifactStore The Local Artifact Store, used without the remote option
+ * @param dependencies.logger The DebugLogger instance to use for debug logging
+ * @param opts.remote Verify the copy on the storage instead of the Local Artifact Store
+ * @param opts.debug Enable debug mode
+ * @returns The verification result
+ */
+export async function verifyArtifact(
+  artifactRef: ArtifactReference,
+  dependencies: {
+    storageProvider: StorageProvider;
+    localArtifactStore: LocalArtifactStore;
+    logger: DebugLogger;
+  },
+  opts: { remote: boolean; debug: boolean },
+): Promise<VerifyResult> {
+  const id = opts.remote
+    ? await resolveRemoteArtifactId(artifactRef, dependencies, opts)
+    : await resolveLocalArtifactId(artifactRef, dependencies, opts);
+
+  const storedArtifact = opts.remote
+    ? await readRemoteArtifact(artifactRef.project, id, dependencies, opts)
+    : await readLocalArtifact(artifactRef.project, id, dependencies, opts);
+
+  const hashResult = await toAsyncResult(hashStoredArtifact(storedArtifact), {
+    debug: opts.debug,
+  });
+  if (!hashResult.success) {
+    throw new CliError(
+      `Error reading the files of the artifact "${artifactRef.project}@${id}", run with debug mode for more info`,
+    );
+  }
+  const { inputContent, checksums } = hashResult.value;
+
+  const derivedId = deriveIdFromInput(inputContent, id);
+  if (opts.debug) {
+    dependencies.logger.debug(
+      `Artifact "${artifactRef.project}@${id}" re-derived ID: ${derivedId ?? "none"}`,
+    );
+  }
+
+  const mismatches = storedArtifact.checksums
+    ? compareChecksumManifests(storedArtifact.checksums, checksums, {
+        original: storedArtifact.original !== null,
+      })
+    : [];
+
+  return {
+    project: artifactRef.project,
+    tag: artifactRef.type === "tag" ? artifactRef.tag : null,
+    id,
+    location: opts.remote ? "remote" : "local",
+    derivedId,
+    hasChecksumManifest: storedArtifact.checksums !== undefined,
+    checkedFiles:
+      1 + checksums.outputs.length + (storedArtifact.original?.length ?? 0),
+    mismatches,
+    valid: derivedId === id && mismatches.length === 0,
+  };
+}
+
+async function resolveLocalArtifactId(
+  artifactRef: ArtifactReference,
+  dependencies: { localArtifactStore: LocalArtifactStore },
+  opts: { debug: boolean },
+): Promise<string> {
+  const resolvedArtifactRef = await resolveLocalArtifact(
+    artifactRef,
+    dependencies.localArtifactStore,
+    opts,
+  );
+  if (!resolvedArtifactRef) {
+    const artifactLabel = `${artifactRef.project}${
+      artifactRef.type === "id" ? `@${artifactRef.id}` : `:${artifactRef.tag}`
+    }`;
+    throw new CliError(
+      `The artifact "${artifactLabel}" is not in the Local Artifact Store. Pull it first, or use --remote to verify the copy on the storage.`,
+    );
+  }
+  return resolvedArtifactRef.id;
+}
+
+async function readLocalArtifact(
+  project: string,
+  id: string,
+  dependencies: { localArtifactStore: LocalArtifactStore },
+  opts: { debug: boolean },
+): Promise<StoredArtifact> {
+  const readResult = await toAsyncResult(
+    Promise.all([
+      dependencies.localArtifactStore.streamArtifact(project, id),
+      dependencies.localArtifactStore.retrieveChecksumManifest(project, id),
+    ]),
+    { debug: opts.debug },
+  );
+  if (!readResult.success) {
+    throw new CliError(
+      `Unable to read the artifact "${project}@${id}" from the Local Artifact Store, is the script not allowed to read from the filesystem? Run with debug mode for more info`,
+    );
+  }
+  const [artifact, checksums] = readResult.value;
+  return { ...artifact, original: null, checksums };
+}
+
+async function readRemoteArtifact(
+  project: string,
+  id: string,
+  dependencies: { storageProvider: StorageProvider },
+  opts: { debug: boolean },
+): Promise<StoredArtifact> {
+  const downloadResult = await toAsyncResult(
+    Promise.all([
+      dependencies.storageProvider.downloadArtifactById(project, id),
+      dependencies.storageProvider.getChecksumManifest(project, id),
+      dependencies.storageProvider.listOriginalContent(project, id),
+    ]),
+    { debug: opts.debug },
+  );
+  if (!downloadResult.success) {
+    if (downloadResult.error instanceof CliError) {
+      throw downloadResult.error;
+    }
+    throw new CliError(
+      `Error downloading the artifact "${project}@${id}", please check the storage configuration or run with debug mode for more info`,
+    );
+  }
+  const [artifact, checksums, originalContentPaths] = downloadResult.value;
+  return {
+    ...artifact,
+    original: originalContentPaths.map((relativePath) => ({
+      path: toChecksumPath(relativePath),
+      download: () =>
+        dependencies.storageProvider.downloadOriginalContent(
+          project,
+          id,
+          relativePath,
+        ),
+    })),
+    checksums,
+  };
+}
+
+async function hashStoredArtifact(storedArtifact: StoredArtifact): Promise<{
+  inputContent: Buffer;
+  checksums: Pick<ChecksumManifest, "input" | "outputs" | "original">;
+}> {
+  const inputContent = await readStream(storedArtifact.input);
+  const outputs: ChecksumManifest["outputs"] = [];
+  for (const output of storedArtifact.contractOutputArtifacts) {
+    outputs.push({
+      sourceName: output.sourceName,
+      contractName: output.contractName,
+      checksum: await computeStreamChecksum(output.stream),
+    });
+  }
+  const original: ChecksumManifest["original"] = [];
+  for (const originalFile of storedArtifact.original ?? []) {
+    original.push({
+      path: originalFile.path,
+      checksum: await computeStreamChecksum(await originalFile.download()),
+    });
+  }
+  return {
+    inputContent,
+    checksums: { input: computeChecksum(inputContent), outputs, original },
+  };
+}
+
+/**
+ * Re-derives the artifact ID from the compilation input, the `id` field of the input artifact must match it as well.
+ * For a multi-compilation artifact, the ID of each compilation must match its input as well.
+ * @returns The derived ID, null if the input artifact can not be parsed or if its `id` field is not the expected ID
+ */
+function deriveIdFromInput(
+  inputContent: Buffer,
+  expectedId: string,
+): string | null {
+  let rawInput: unknown;
+  try {
+    rawInput = JSON.parse(inputContent.toString("utf-8"));
+  } catch {
+    return null;
+  }
+  const parsingResult = EthokoInputArtifactSchema.safeParse(rawInput);
+  if (!parsingResult.success || parsingResult.data.id !== expectedId) {
+    return null;
+  }
+  const inputArtifact = parsingResult.data;
+  if (!("inputs" in inputArtifact)) {
+    return deriveEthokoArtifactId(inputArtifact.input);
+  }
+  // Each compilation ID is re-derived from its input, the artifact ID is derived from the compilation IDs
+  const compilationIds = inputArtifact.origin.compilations.map(
+    (compilation) => compilation.id,
+  );
+  if (
+    Object.keys(inputArtifact.inputs).length !== compilationIds.length ||
+    compilationIds.some((compilationId) => {
+      const input = inputArtifact.inputs[compilationId];
+      return !input || deriveEthokoArtifactId(input) !== compilationId;
+    })
+  ) {
+    return null;
+  }
+  return deriveMultiCompilationEthokoArtifactId(compilationIds);
+}
@@ -46,6 +46,7 @@ export function registerConfigCommand(
         "",
         `  Local Artifact Store Path: ${config.localArtifactStorePath} ${styleText("dim", `(from ${config.localArtifactStorePathSource})`)}`,
         `  Typings Path: ${config.typingsPath}`,
+        `  Solc Cache Path: ${config.solcCachePath}`,
         `  Compilation Output Path: ${config.compilationOutputPath ?? styleText("dim", "(not set)")}`,
         `  Debug: ${config.debug}`,
         "",
@@ -99,5 +100,14 @@ function storageLabel(project: ProjectConfig): string {
   if (storage.type === "aws") {
     return `AWS S3 (${storage.region}, bucket: ${storage.bucketName})`;
   }
+  if (storage.type === "gcs") {
+    return `Google Cloud Storage (bucket: ${storage.bucketName})`;
+  }
+  if (storage.type === "azure") {
+    return `Azure Blob Storage (container: ${storage.containerName})`;
+  }
+  if (storage.type === "http") {
+    return `HTTP (${storage.url})`;
+  }
   return `Filesystem (${storage.path})`;
 }
@@ -0,0 +1,205 @@
+import { styleText } from "node:util";
+import { Command } from "commander";
+import { z } from "zod";
+import { CommandLogger, LOG_COLORS } from "@/ui";
+import { CliError, deleteRemoteArtifact, DeleteResult } from "@/client";
+import type { EthokoCliConfig } from "@/config";
+import { LocalArtifactStore } from "@/local-artifact-store";
+import { StorageProvider } from "@/storage-provider";
+import { ArtifactReference } from "@/utils/artifact-reference";
+import { toAsyncResult } from "@/utils/result";
+import { ProjectOrArtifactReferenceSchema } from "./utils/parse-project-or-artifact-ref";
+import { createStorageProvider } from "./utils/storage-provider";
+
+type GetConfig = (configPath?: string) => Promise<EthokoCliConfig>;
+
+export function registerDeleteCommand(
+  program: Command,
+  getConfig: GetConfig,
+): void {
+  program
+    .command("delete")
+    .description("Delete an artifact from the storage")
+    .argument("<PROJECT:TAG|PROJECT@ID>", "Target artifact tag or ID")
+    .option(
+      "--dry-run",
+      "Preview what would be deleted without deleting",
+      false,
+    )
+    .option(
+      "--remove-tags",
+      "Remove the tags still pointing to the artifact ID",
+      false,
+    )
+    .option("--debug", "Enable debug logging", false)
+    .option("--silent", "Suppress output", false)
+    .action(async (artifactArg, options) => {
+      const logger = new CommandLogger(options.silent);
+
+      const configResult = await toAsyncResult(getConfig());
+      if (!configResult.success) {
+        logger.error(
+          configResult.error instanceof Error
+            ? configResult.error.message
+            : String(configResult.error),
+        );
+        process.exitCode = 1;
+        return;
+      }
+      const config = configResult.value;
+
+      const artifactRefParsingResult =
+        ProjectOrArtifactReferenceSchema.transform((projectOrArtifactRef) => {
+          if (projectOrArtifactRef.type === "project") {
+            return z.NEVER;
+          }
+          return projectOrArtifactRef;
+        }).safeParse(artifactArg);
+      if (!artifactRefParsingResult.success) {
+        logger.error(
+          `Invalid artifact argument:\nThe artifact argument must be a string in the format PROJECT:TAG or PROJECT@ID`,
+        );
+        process.exitCode = 1;
+        return;
+      }
+      const projectConfig = config.getProjectConfig(
+        artifactRefParsingResult.data.project,
+      );
+      if (!projectConfig) {
+        logger.error(
+          `Project "${artifactRefParsingResult.data.project}" not found in configuration`,
+        );
+        process.exitCode = 1;
+        return;
+      }
+
+      const optsParsingResult = z
+        .object({
+          dryRun: z
+            .boolean('The "dry-run" option must be a boolean')
+            .default(false),
+          removeTags: z
+            .boolean('The "remove-tags" option must be a boolean')
+            .default(false),
+          debug: z
+            .boolean('The "debug" option must be a boolean')
+            .default(config.debug),
+        })
+        .safeParse(options);
+      if (!optsParsingResult.success) {
+        logger.error(
+          `Invalid command arguments:\n${z.prettifyError(optsParsingResult.error)}`,
+        );
+        process.exitCode = 1;
+        return;
+      }
+
+      const storageProvider = createStorageProvider(
+        projectConfig,
+        logger.toDebugLogger(),
+        optsParsingResult.data.debug,
+      );
+      const localArtifactStore = new LocalArtifactStore(
+        config.localArtifactStorePath,
+      );
+
+      await runDeleteCommand(
+        artifactRefParsingResult.data,
+        { storageProvider, localArtifactStore, logger },
+        {
+          dryRun: optsParsingResult.data.dryRun,
+          removeTags: optsParsingResult.data.removeTags,
+          protectedTags: projectConfig.protectedTags,
+          debug: optsParsingResult.data.debug,
+        },
+      ).catch((err) => {
+        if (err instanceof CliError) {
+          logger.error(err.message);
+        } else {
+          logger.error(
+            "An unexpected error occurred, please fill an issue with the error details if the problem persists",
+          );
+          console.error(err);
+        }
+        process.exitCode = 1;
+      });
+    });
+}
+
+export async function runDeleteCommand(
+  artifactRef: ArtifactReference,
+  dependencies: {
+    storageProvider: StorageProvider;
+    localArtifactStore: LocalArtifactStore;
+    logger: CommandLogger;
+  },
+  opts: {
+    dryRun: boolean;
+    removeTags: boolean;
+    protectedTags?: string[];
+    debug: boolean;
+  },
+): Promise<DeleteResult> {
+  dependencies.logger.intro(
+    `${opts.dryRun ? "Previewing deletion of" : "Deleting"} artifact "${artifactRef.project}${
+      artifactRef.type === "tag" ? `:${artifactRef.tag}` : `@${artifactRef.id}`
+    }"`,
+  );
+
+  const spinner = dependencies.logger.createSpinner(
+    opts.dryRun ? "Checking artifact..." : "Deleting artifact...",
+  );
+  const result = await deleteRemoteArtifact(
+    artifactRef,
+    {
+      storageProvider: dependencies.storageProvider,
+      localArtifactStore: dependencies.localArtifactStore,
+      logger: dependencies.logger.toDebugLogger(),
+    },
+    opts,
+  ).catch((err) => {
+    spinner.fail(
+      opts.dryRun ? "Artifact can not be deleted" : "Failed to delete artifact",
+    );
+    throw err;
+  });
+  spinner.succeed(opts.dryRun ? "Artifact can be deleted" : "Artifact deleted");
+
+  displayDeleteResult(dependencies.logger, result);
+  return result;
+}
+
+function displayDeleteResult(
+  logger: CommandLogger,
+  result: DeleteResult,
+): void {
+  if (!result.historyRecorded) {
+    logger.warn(
+      "The removal of the tags could not be recorded in their history, run with debug mode for more info",
+    );
+  }
+  if (!result.indexUpdated) {
+    logger.warn(
+      `The artifact is deleted but the index of the project "${result.project}" could not be updated, run "ethoko remote reindex ${result.project}" to rebuild it`,
+    );
+  }
+  const lines = [
+    `• ${styleText(LOG_COLORS.log, "ID:")} ${styleText(LOG_COLORS.warn, result.id)} (input, outputs and ${result.originalContentFiles} original content file(s))`,
+    `• ${styleText(LOG_COLORS.log, "Tags:")} ${
+      result.tags.length > 0
+        ? result.tags.map((tag) => styleText(LOG_COLORS.warn, tag)).join(", ")
+        : "none"
+    }`,
+  ];
+  logger.note(
+    lines.join("\n"),
+    result.dryRun
+      ? "Would be deleted from the storage"
+      : "Deleted from the storage",
+  );
+  logger.outro(
+    result.dryRun
+      ? "Run without --dry-run to delete the artifact"
+      : "The artifact is kept in the Local Artifact Store if it was pulled, use ethoko prune to remove it",
+  );
+}
@@ -5,7 +5,10 @@ import { CommandLogger, LOG_COLORS } from "@/ui";
 import {
   CliError,
   Difference,
+  generateDiffBetweenArtifacts,
   generateDiffWithTargetRelease,
+  generateSourceDiffsBetweenArtifacts,
+  generateSourceDiffsWithTargetRelease,
   resolveLocalArtifact,
   lookForBuildInfos,
   mapBuildInfoToEthokoArtifact,
@@ -24,30 +27,69 @@ import {
 import { createStorageProvider } from "./utils/storage-provider";
 import {
   EthokoContractOutputArtifact,
-  EthokoInputArtifact,
+  EthokoCompilationInputArtifact,
 } from "@/ethoko-artifacts/v0";
 import { StorageProvider } from "@/storage-provider";
-import { ArtifactReference } from "@/utils/artifact-reference";
+import {
+  ArtifactReference,
+  ResolvedArtifactReference,
+} from "@/utils/artifact-reference";
 import { BuildInfoPaths } from "@/supported-origins/map-build-info-to-ethoko-artifact";
+import { StorageLayoutDiff } from "@/artifact-diff/storage-layout-diff";
+import { SourceDiff } from "@/artifact-diff/source-diff";
 import { promptUserSelection } from "./utils/prompt-select";
 
 type GetConfig = (configPath?: string) => Promise<EthokoCliConfig>;
 
+const ArtifactReferenceArgumentSchema =
+  ProjectOrArtifactReferenceSchema.transform((artifactRef) => {
+    if (artifactRef.type === "project") {
+      return z.NEVER;
+    }
+    return artifactRef;
+  });
+
 export function registerDiffCommand(
   program: Command,
   getConfig: GetConfig,
 ): void {
   program
     .command("diff")
-    .description("Compare local artifacts with a pulled artifact")
+    .description(
+      "Compare local artifacts with a pulled artifact, or two artifacts with each other",
+    )
     .argument(
       "<PROJECT[:TAG|@ID]>",
       "Target project and artifact identifier (tag or ID)",
     )
+    .argument(
+      "[PROJECT[:TAG|@ID]]",
+      "Artifact to compare the target artifact with instead of the local compilation artifacts, possibly of another project",
+    )
     .option("--artifact-path <path>", "Path to compilation artifacts")
+    .option(
+      "--fail-on <level>",
+      'Exit with a non-zero code if differences are found, "breaking" for breaking changes only or "any" for any difference',
+    )
+    .option(
+      "--storage-layout",
+      "Compare the storage layouts of the changed contracts and report whether a proxy can be upgraded from one to the other",
+      false,
+    )
+    .option(
+      "--bytecode",
+      "Compare the executable bytecodes of the changed contracts, ignoring the metadata, the immutable values and the library addresses",
+      false,
+    )
+    .option(
+      "--sources",
+      "Print the unified diffs of the sources of the changed contracts and of their dependencies",
+      false,
+    )
+    .option("--json", "Output JSON", false)
     .option("--debug", "Enable debug logging", false)
     .option("--silent", "Suppress output", false)
-    .action(async (projectArg, options) => {
+    .action(async (projectArg, otherProjectArg, options) => {
       const logger = new CommandLogger(options.silent);
 
       const configResult = await toAsyncResult(getConfig());
@@ -63,12 +105,7 @@ export function registerDiffCommand(
       const config = configResult.value;
 
       const artifactRefParsingResult =
-        ProjectOrArtifactReferenceSchema.transform((artifactRef) => {
-          if (artifactRef.type === "project") {
-            return z.NEVER;
-          }
-          return artifactRef;
-        }).safeParse(projectArg);
+        ArtifactReferenceArgumentSchema.safeParse(projectArg);
       if (!artifactRefParsingResult.success) {
         logger.error(
           `Invalid artifact argument:\nThe artifact argument must be a string in the format PROJECT[:TAG|@ID]`,
@@ -86,13 +123,31 @@ export function registerDiffCommand(
         process.exitCode = 1;
         return;
       }
-      logger.intro(
-        `Comparing with artifact "${artifactRefParsingResult.data.project}:${
-          artifactRefParsingResult.data.type === "id"
-            ? artifactRefParsingResult.data.id
-            : artifactRefParsingResult.data.tag
-        }"`,
-      );
+
+      const otherArtifactRefParsingResult =
+        otherProjectArg === undefined
+          ? undefined
+          : ArtifactReferenceArgumentSchema.safeParse(otherProjectArg);
+      if (
+        otherArtifactRefParsingResult &&
+        !otherArtifactRefParsingResult.success
+      ) {
+        logger.error(
+          `Invalid artifact argument:\nThe artifact argument must be a string in the format PROJECT[:TAG|@ID]`,
+        );
+        process.exitCode = 1;
+        return;
+      }
+      const otherArtifactRef = otherArtifactRefParsingResult?.data;
+      const otherProjectConfig =
+        otherArtifactRef && config.getProjectConfig(otherArtifactRef.project);
+      if (otherArtifactRef && !otherProjectConfig) {
+        logger.error(
+          `Project "${otherArtifactRef.project}" not found in configuration`,
+        );
+        process.exitCode = 1;
+        return;
+      }
 
       const paramParsingResult = z
         .object({
@@ -106,10 +161,30 @@ export function registerDiffCommand(
               generateAbsolutePathSchema(() => new AbsolutePath(process.cwd())),
             )
             .optional(),
+          failOn: z
+            .enum(
+              ["breaking", "any"],
+              'The "failOn" option must be "breaking" or "any"',
+            )
+            .optional(),
+          storageLayout: z
+            .boolean('The "storageLayout" option must be a boolean')
+            .default(false),
+          bytecode: z
+            .boolean('The "bytecode" option must be a boolean')
+            .default(false),
+          sources: z
+            .boolean('The "sources" option must be a boolean')
+            .default(false),
+          json: z.boolean('The "json" option must be a boolean').default(false),
           debug: z
             .boolean('The "debug" option must be a boolean')
             .default(config.debug),
         })
+        .refine((opts) => !otherArtifactRef || !opts.artifactPath, {
+          message:
+            'The "artifactPath" option cannot be used when comparing two artifacts',
+        })
         .safeParse(options);
       if (!paramParsingResult.success) {
         logger.error(
@@ -119,48 +194,108 @@ export function registerDiffCommand(
         return;
       }
 
-      const finalArtifactPath =
-        paramParsingResult.data.artifactPath || config.compilationOutputPath;
+      const localArtifactStore = new LocalArtifactStore(
+        config.localArtifactStorePath,
+      );
+      const storageProvider = createStorageProvider(
+        projectConfig,
+        logger.toDebugLogger(),
+        paramParsingResult.data.debug,
+      );
 
-      if (!finalArtifactPath) {
-        logger.error(
-          "Artifact path is required. Provide --artifact-path or set compilationOutputPath in ethoko.config.json",
+      let diffPromise: Promise<DiffResult>;
+      if (otherArtifactRef && otherProjectConfig) {
+        if (!paramParsingResult.data.json) {
+          logger.intro(
+            `Comparing artifact "${toArtifactLabel(artifactRefParsingResult.data)}" with artifact "${toArtifactLabel(otherArtifactRef)}"`,
+          );
+        }
+        diffPromise = runDiffArtifactsCommand(
+          artifactRefParsingResult.data,
+          otherArtifactRef,
+          {
+            logger,
+            localArtifactStore,
+            storageProviders: {
+              from: storageProvider,
+              to: createStorageProvider(
+                otherProjectConfig,
+                logger.toDebugLogger(),
+                paramParsingResult.data.debug,
+              ),
+            },
+          },
+          {
+            debug: paramParsingResult.data.debug,
+            storageLayout: paramParsingResult.data.storageLayout,
+            bytecode: paramParsingResult.data.bytecode,
+            sources: paramParsingResult.data.sources,
+            json: paramParsingResult.data.json,
+          },
         );
-        process.exitCode = 1;
-        return;
-      }
+      } else {
+        if (!paramParsingResult.data.json) {
+          logger.intro(
+            `Comparing with artifact "${artifactRefParsingResult.data.project}:${
+              artifactRefParsingResult.data.type === "id"
+                ? artifactRefParsingResult.data.id
+                : artifactRefParsingResult.data.tag
+            }"`,
+          );
+        }
 
-      await runDiffCommand(
-        finalArtifactPath,
-        artifactRefParsingResult.data,
-        {
-          logger,
-          localArtifactStore: new LocalArtifactStore(
-            config.localArtifactStorePath,
-          ),
-          storageProvider: createStorageProvider(
-            projectConfig.storage,
-            logger.toDebugLogger(),
-            paramParsingResult.data.debug,
-          ),
-        },
-        {
-          debug: paramParsingResult.data.debug,
-        },
-      ).catch((err) => {
-        if (err instanceof CliError) {
-          logger.error(err.message);
-        } else {
+        const finalArtifactPath =
+          paramParsingResult.data.artifactPath || config.compilationOutputPath;
+        if (!finalArtifactPath) {
           logger.error(
-            "An unexpected error occurred, please fill an issue with the error details if the problem persists",
+            "Artifact path is required. Provide --artifact-path or set compilationOutputPath in ethoko.config.json",
           );
-          console.error(err);
+          process.exitCode = 1;
+          return;
         }
-        process.exitCode = 1;
-      });
+
+        diffPromise = runDiffCommand(
+          finalArtifactPath,
+          artifactRefParsingResult.data,
+          { logger, localArtifactStore, storageProvider },
+          {
+            debug: paramParsingResult.data.debug,
+            storageLayout: paramParsingResult.data.storageLayout,
+            bytecode: paramParsingResult.data.bytecode,
+            sources: paramParsingResult.data.sources,
+            json: paramParsingResult.data.json,
+          },
+        );
+      }
+
+      await diffPromise
+        .then(({ differences }) => {
+          if (
+            shouldFailOnDifferences(differences, paramParsingResult.data.failOn)
+          ) {
+            process.exitCode = 1;
+          }
+        })
+        .catch((err) => {
+          if (err instanceof CliError) {
+            logger.error(err.message);
+          } else {
+            logger.error(
+              "An unexpected error occurred, please fill an issue with the error details if the problem persists",
+            );
+            console.error(err);
+          }
+          process.exitCode = 1;
+        });
     });
 }
 
+export type DiffResult = {
+  differences: Difference[];
+  // The unified diffs of the sources of the changed contracts, null if not requested
+  sourceDiffs: SourceDiff[] | null;
+};
+
 async function runDiffCommand(
   artifactPath: AbsolutePath,
   artifactRef: ArtifactReference,
@@ -171,8 +306,12 @@ async function runDiffCommand(
   },
   opts: {
     debug: boolean;
+    storageLayout?: boolean;
+    bytecode?: boolean;
+    sources?: boolean;
+    json?: boolean;
   },
-): Promise<void> {
+): Promise<DiffResult> {
   const spinner1 = dependencies.logger.createSpinner(
     "Looking for compilation artifacts...",
   );
@@ -188,57 +327,210 @@ async function runDiffCommand(
     artifactOriginToSuccessText(buildInfo.inputArtifact.origin.type),
   );
 
-  let resolvedArtifactRef = await resolveLocalArtifact(
+  const resolvedArtifactRef = await ensurePulledArtifact(
     artifactRef,
-    dependencies.localArtifactStore,
-    { debug: opts.debug },
+    dependencies,
+    opts,
   );
-  if (!resolvedArtifactRef) {
-    const artifactLabel = `${artifactRef.project}${
-      artifactRef.type === "id" ? `@${artifactRef.id}` : `:${artifactRef.tag}`
-    }`;
-    const pullSpinner = dependencies.logger.createSpinner(
-      `Artifact "${artifactLabel}" not found locally, pulling...`,
-    );
-    const pulledArtifact = await pullArtifact(
-      artifactRef,
-      {
-        storageProvider: dependencies.storageProvider,
-        localArtifactStore: dependencies.localArtifactStore,
-        logger: dependencies.logger.toDebugLogger(),
-      },
-      {
-        force: false,
-        debug: opts.debug,
-      },
-    ).catch((err) => {
-      pullSpinner.fail("Failed to pull artifact");
-      throw err;
-    });
-    pullSpinner.succeed(`Artifact "${artifactLabel}" pulled successfully`);
-    resolvedArtifactRef = {
-      project: artifactRef.project,
-      id: pulledArtifact.id,
-      tag: artifactRef.type === "tag" ? "tag" : null,
-    };
-  }
 
-  const diffResult = await generateDiffWithTargetRelease(
+  const differences = await generateDiffWithTargetRelease(
     resolvedArtifactRef,
     buildInfo,
     {
       localArtifactStore: dependencies.localArtifactStore,
       logger: dependencies.logger.toDebugLogger(),
     },
+    opts,
+  );
+  const sourceDiffs = opts.sources
+    ? await generateSourceDiffsWithTargetRelease(
+        resolvedArtifactRef,
+        buildInfo,
+        differences,
+        {
+          localArtifactStore: dependencies.localArtifactStore,
+          logger: dependencies.logger.toDebugLogger(),
+        },
+        opts,
+      )
+    : null;
+  const result = { differences, sourceDiffs };
+
+  if (opts.json && !dependencies.logger.silent) {
+    console.log(JSON.stringify(result, null, 2));
+  } else {
+    displayDifferences(dependencies.logger, result, {
+      from: toArtifactLabel(artifactRef),
+      to: "the local compilation artifacts",
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Compares two artifacts of the storage, possibly of different projects. The artifacts missing in the Local Artifact Store are pulled first.
+ * @throws CliError if an artifact can not be pulled or read
+ * @param fromArtifactRef The artifact to compare from, e.g. the previous release
+ * @param toArtifactRef The artifact to compare to, e.g. the next release
+ * @param dependencies.storageProviders The storage provider of the project of each artifact
+ * @param opts.sources Generate the unified diffs of the sources of the changed contracts
+ * @param opts.json Print the result as JSON
+ * @returns The differences from the first artifact to the second one, and the diffs of the sources if requested
+ */
+export async function runDiffArtifactsCommand(
+  fromArtifactRef: ArtifactReference,
+  toArtifactRef: ArtifactReference,
+  dependencies: {
+    localArtifactStore: LocalArtifactStore;
+    storageProviders: { from: StorageProvider; to: StorageProvider };
+    logger: CommandLogger;
+  },
+  opts: {
+    debug: boolean;
+    storageLayout?: boolean;
+    bytecode?: boolean;
+    sources?: boolean;
+    json?: boolean;
+  },
+): Promise<DiffResult> {
+  const resolvedFromArtifactRef = await ensurePulledArtifact(
+    fromArtifactRef,
+    {
+      ...dependencies,
+      storageProvider: dependencies.storageProviders.from,
+    },
+    opts,
+  );
+  const resolvedToArtifactRef = await ensurePulledArtifact(
+    toArtifactRef,
+    {
+      ...dependencies,
+      storageProvider: dependencies.storageProviders.to,
+    },
+    opts,
+  );
+
+  const differences = await generateDiffBetweenArtifacts(
+    resolvedFromArtifactRef,
+    resolvedToArtifactRef,
+    {
+      localArtifactStore: dependencies.localArtifactStore,
+      logger: dependencies.logger.toDebugLogger(),
+    },
+    opts,
+  );
+  const sourceDiffs = opts.sources
+    ? await generateSourceDiffsBetweenArtifacts(
+        resolvedFromArtifactRef,
+        resolvedToArtifactRef,
+        differences,
+        {
+          localArtifactStore: dependencies.localArtifactStore,
+          logger: dependencies.logger.toDebugLogger(),
+        },
+        opts,
+      )
+    : null;
+  const result = { differences, sourceDiffs };
+
+  if (opts.json && !dependencies.logger.silent) {
+    console.log(JSON.stringify(result, null, 2));
+  } else {
+    displayDifferences(dependencies.logger, result, {
+      from: toArtifactLabel(fromArtifactRef),
+      to: toArtifactLabel(toArtifactRef),
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Resolves an artifact in the Local Artifact Store, the artifact is pulled if it is not there yet
+ */
+async function ensurePulledArtifact(
+  artifactRef: ArtifactReference,
+  dependencies: {
+    localArtifactStore: LocalArtifactStore;
+    storageProvider: StorageProvider;
+    logger: CommandLogger;
+  },
+  opts: { debug: boolean },
+): Promise<ResolvedArtifactReference> {
+  const resolvedArtifactRef = await resolveLocalArtifact(
+    artifactRef,
+    dependencies.localArtifactStore,
     { debug: opts.debug },
   );
+  if (resolvedArtifactRef) {
+    return resolvedArtifactRef;
+  }
+  const artifactLabel = toArtifactLabel(artifactRef);
+  const pullSpinner = dependencies.logger.createSpinner(
+    `Artifact "${artifactLabel}" not found locally, pulling...`,
+  );
+  const pulledArtifact = await pullArtifact(
+    artifactRef,
+    {
+      storageProvider: dependencies.storageProvider,
+      localArtifactStore: dependencies.localArtifactStore,
+      logger: dependencies.logger.toDebugLogger(),
+    },
+    {
+      force: false,
+      debug: opts.debug,
+    },
+  ).catch((err) => {
+    pullSpinner.fail("Failed to pull artifact");
+    throw err;
+  });
+  pullSpinner.succeed(`Artifact "${artifactLabel}" pulled successfully`);
+  return {
+    project: artifactRef.project,
+    id: pulledArtifact.id,
+    tag: artifactRef.type === "tag" ? artifactRef.tag : null,
+  };
+}
+
+function toArtifactLabel(artifactRef: ArtifactReference): string {
+  return `${artifactRef.project}${
+    artifactRef.type === "id" ? `@${artifactRef.id}` : `:${artifactRef.tag}`
+  }`;
+}
+
+/**
+ * Whether the differences must fail the command, with `breaking` only a removed contract, a breaking ABI change or an unsafe storage layout fails it.
+ * With `any`, a contract whose changes are limited to its metadata does not fail it.
+ */
+function shouldFailOnDifferences(
+  differences: Difference[],
+  failOn: "breaking" | "any" | undefined,
+): boolean {
+  if (failOn === "any") {
+    return differences.some((difference) => !isMetadataOnly(difference));
+  }
+  if (failOn === "breaking") {
+    return differences.some((difference) => difference.breaking);
+  }
+  return false;
+}
 
-  displayDifferences(dependencies.logger, diffResult);
+/**
+ * Whether a changed contract has the same executable bytecode and ABI, only known with the bytecode comparison
+ */
+function isMetadataOnly(difference: Difference): boolean {
+  return (
+    (difference.bytecodeChange === "metadata-only" ||
+      difference.bytecodeChange === "identical") &&
+    difference.abiChanges.length === 0
+  );
 }
 
 function displayDifferences(
   logger: CommandLogger,
-  differences: Difference[],
+  { differences, sourceDiffs }: DiffResult,
+  labels: { from: string; to: string },
 ): void {
   if (differences.length === 0) {
     logger.success("No differences found");
@@ -247,7 +539,12 @@ function displayDifferences(
 
   const added = differences.filter((d) => d.status === "added");
   const removed = differences.filter((d) => d.status === "removed");
-  const changed = differences.filter((d) => d.status === "changed");
+  const changed = differences.filter(
+    (d) => d.status === "changed" && !isMetadataOnly(d),
+  );
+  const metadataOnly = differences.filter(
+    (d) => d.status === "changed" && isMetadataOnly(d),
+  );
 
   const summaryLines: string[] = [];
 
@@ -255,8 +552,22 @@ function displayDifferences(
     summaryLines.push(styleText(["bold", LOG_COLORS.warn], "Changed:"));
     changed.forEach((diff) => {
       summaryLines.push(
-        styleText(LOG_COLORS.warn, `  • ${diff.name} (${diff.path})`),
+        styleText(
+          LOG_COLORS.warn,
+          `  • ${diff.name} (${diff.path})${diff.bytecodeChange === "code-changed" ? " - code changed" : ""}`,
+        ),
       );
+      diff.abiChanges.forEach((abiChange) => {
+        summaryLines.push(
+          styleText(
+            abiChange.breaking ? LOG_COLORS.error : LOG_COLORS.log,
+            `      ${abiChange.kind} ${abiChange.signature}: ${abiChange.detail}${abiChange.breaking ? " (breaking)" : ""}`,
+          ),
+        );
+      });
+      if (diff.storageLayout) {
+        summaryLines.push(...storageLayoutToLines(diff.storageLayout, labels));
+      }
     });
   }
 
@@ -280,12 +591,109 @@ function displayDifferences(
     });
   }
 
-  logger.note("Differences Found", summaryLines.join("\n"));
+  if (metadataOnly.length > 0) {
+    if (summaryLines.length > 0) summaryLines.push("");
+    summaryLines.push(
+      styleText(["bold", LOG_COLORS.log], "Metadata only (same code):"),
+    );
+    metadataOnly.forEach((diff) => {
+      summaryLines.push(
+        styleText(LOG_COLORS.log, `  • ${diff.name} (${diff.path})`),
+      );
+    });
+  }
+
+  logger.note(summaryLines.join("\n"), "Differences Found");
+  if (sourceDiffs) {
+    displaySourceDiffs(logger, sourceDiffs);
+  }
+  const breakingCount = differences.filter((d) => d.breaking).length;
+  if (breakingCount > 0) {
+    logger.warn(
+      `${breakingCount} ${breakingCount === 1 ? "contract has" : "contracts have"} breaking changes for integrators`,
+    );
+  }
   logger.outro(undefined);
 }
 
+function displaySourceDiffs(
+  logger: CommandLogger,
+  sourceDiffs: SourceDiff[],
+): void {
+  if (sourceDiffs.length === 0) {
+    logger.info("No source differences found for the changed contracts");
+    return;
+  }
+  for (const sourceDiff of sourceDiffs) {
+    const lines = sourceDiff.patch.split("\n").map((line) => {
+      if (line.startsWith("---") || line.startsWith("+++")) {
+        return styleText("bold", line);
+      }
+      if (line.startsWith("@@")) {
+        return styleText(LOG_COLORS.log, line);
+      }
+      if (line.startsWith("+")) {
+        return styleText(LOG_COLORS.success, line);
+      }
+      if (line.startsWith("-")) {
+        return styleText(LOG_COLORS.error, line);
+      }
+      return line;
+    });
+    logger.message(lines.join("\n"));
+  }
+}
+
+function storageLayoutToLines(
+  storageLayout: StorageLayoutDiff,
+  labels: { from: string; to: string },
+): string[] {
+  const lines: string[] = [];
+  if (storageLayout.verdict === "safe") {
+    lines.push(
+      styleText(LOG_COLORS.success, "      storage layout: upgrade safe"),
+    );
+  } else if (storageLayout.verdict === "unsafe") {
+    lines.push(
+      styleText(LOG_COLORS.error, "      storage layout: upgrade unsafe"),
+    );
+  } else {
+    lines.push(
+      styleText(
+        LOG_COLORS.warn,
+        "      storage layout: upgrade safety unknown",
+      ),
+    );
+  }
+  for (const missing of storageLayout.missingLayouts) {
+    lines.push(
+      styleText(
+        LOG_COLORS.warn,
+        `      the storage layout is missing in the output of ${labels[missing]}, add "storageLayout" to the solc output selection`,
+      ),
+    );
+  }
+  if (!storageLayout.namespacesChecked) {
+    lines.push(
+      styleText(
+        LOG_COLORS.warn,
+        "      the ERC-7201 namespaces are not checked, the source AST is missing",
+      ),
+    );
+  }
+  for (const change of storageLayout.changes) {
+    lines.push(
+      styleText(
+        change.safe ? LOG_COLORS.log : LOG_COLORS.error,
+        `      storage ${change.variable}: ${change.change}, ${change.detail}${change.safe ? "" : " (unsafe)"}`,
+      ),
+    );
+  }
+  return lines;
+}
+
 function artifactOriginToSuccessText(
-  origin: EthokoInputArtifact["origin"]["type"],
+  origin: EthokoCompilationInputArtifact["origin"]["type"],
 ): string {
   if (origin === "hardhat-v3") {
     return `Hardhat v3 compilation artifact found`;
@@ -311,7 +719,7 @@ async function parseBuildInfo(
   artifactPath: AbsolutePath,
   opts: { debug: boolean; logger: CommandLogger; isCI?: boolean },
 ): Promise<{
-  inputArtifact: EthokoInputArtifact;
+  inputArtifact: EthokoCompilationInputArtifact;
   outputContractArtifacts: EthokoContractOutputArtifact[];
   originalContent: {
     rootPath: AbsolutePath;
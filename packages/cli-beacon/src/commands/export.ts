@@ -119,7 +119,7 @@ export function registerExportCommand(
         config.localArtifactStorePath,
       );
       const storageProvider = createStorageProvider(
-        projectConfig.storage,
+        projectConfig,
         logger.toDebugLogger(),
         optsParsingResult.data.debug,
       );
@@ -51,7 +51,7 @@ type ProjectConfigInput = NonNullable<
  * 2. Load global and local config if they exist
  * 3. Look at projects
  *  3.A. If no project exists, ask if user wants to add a first project
- *    3.A.A. If yes, use `promptProject` to ask for project name, storage configuration (AWS S3 or filesystem),
+ *    3.A.A. If yes, use `promptProject` to ask for project name, storage configuration (AWS S3, Google Cloud Storage, Azure Blob Storage, HTTP or filesystem),
  *           and scope (global saved to ~/.ethoko/config.json, or local saved to ./ethoko.config.json)
  *    3.A.B. If no, go to step 4
  *  3.B. If projects exist, show summary of existing projects and ask if user wants to add a new project
@@ -318,7 +318,7 @@ async function handleProject(
   projectLines.push(
     "",
     `New project: "${promptResult.project.name}" (${promptResult.scope})`,
-    ` Storage type: ${promptResult.project.storage.type === "aws" ? "AWS S3" : "Filesystem"}`,
+    ` Storage type: ${storageTypeLabel(promptResult.project.storage.type)}`,
   );
   if (promptResult.project.storage.type === "aws") {
     projectLines.push(` AWS region: ${promptResult.project.storage.awsRegion}`);
@@ -342,6 +342,38 @@ async function handleProject(
     } else {
       projectLines.push(` Authentication: environment (default)`);
     }
+  } else if (promptResult.project.storage.type === "gcs") {
+    projectLines.push(
+      ` GCS bucket: ${promptResult.project.storage.gcsBucketName}`,
+    );
+    if (promptResult.project.storage.gcsKeyFilename) {
+      projectLines.push(
+        ` Service account key file: ${promptResult.project.storage.gcsKeyFilename}`,
+      );
+    } else {
+      projectLines.push(
+        ` Authentication: Application Default Credentials (default)`,
+      );
+    }
+  } else if (promptResult.project.storage.type === "azure") {
+    projectLines.push(
+      ` Azure container: ${promptResult.project.storage.azureContainerName}`,
+    );
+    if (promptResult.project.storage.azureConnectionString) {
+      projectLines.push(` Authentication: connection string (****)`);
+    } else {
+      projectLines.push(
+        ` Azure account: ${promptResult.project.storage.azureAccountName}`,
+      );
+      projectLines.push(
+        ` Authentication: ${promptResult.project.storage.azureAccountKey ? "account key" : "SAS token"} (****)`,
+      );
+    }
+  } else if (promptResult.project.storage.type === "http") {
+    projectLines.push(` API URL: ${promptResult.project.storage.httpUrl}`);
+    projectLines.push(
+      ` Authentication: ${promptResult.project.storage.httpToken ? "bearer token (****)" : "none"}`,
+    );
   } else {
     projectLines.push(
       ` Storage path: ${promptResult.project.storage.path ?? (promptResult.scope === "global" ? "~/.ethoko/storage" : ".ethoko-storage (relative to project)")} `,
@@ -360,10 +392,13 @@ async function handleProject(
  *
  * Flow is as follows:
  * 1. Ask for project name with validation (non-empty, not already in use).
- * 2. Ask user to select storage type (AWS S3 or filesystem).
+ * 2. Ask user to select storage type (AWS S3, Google Cloud Storage, Azure Blob Storage, HTTP or filesystem).
  * 3. Ask if project is global (saved to ~/.ethoko/config.json, recommended) or local (saved to ./ethoko.config.json).
  *  3.A. AWS S3 selected: use `promptAwsS3Config` to gather AWS-specific configuration details.
- *  3.B. Filesystem selected: ask for the storage path, with default value based on scope:
+ *  3.B. Google Cloud Storage selected: use `promptGcsConfig` to gather GCS-specific configuration details.
+ *  3.C. Azure Blob Storage selected: use `promptAzureConfig` to gather Azure-specific configuration details.
+ *  3.D. HTTP selected: use `promptHttpConfig` to gather the API URL and token.
+ *  3.E. Filesystem selected: ask for the storage path, with default value based on scope:
  *       global: "storage" (resolves to ~/.ethoko/storage), local: ".ethoko-storage" (relative to cwd).
  * @returns An object containing the scope, configured project, or a cancellation flag if the user cancels at any point.
  */
@@ -407,6 +442,21 @@ async function promptProject(
         label: "AWS S3",
         hint: "Store artifacts in an S3 bucket",
       },
+      {
+        value: "gcs",
+        label: "Google Cloud Storage",
+        hint: "Store artifacts in a GCS bucket",
+      },
+      {
+        value: "azure",
+        label: "Azure Blob Storage",
+        hint: "Store artifacts in an Azure Blob Storage container",
+      },
+      {
+        value: "http",
+        label: "HTTP",
+        hint: "Store artifacts on Ethoko Central or a compatible server",
+      },
       {
         value: "filesystem",
         label: "Filesystem",
@@ -426,6 +476,21 @@ async function promptProject(
         "Recommended as project will be accessible from any location on your machine",
       local: "Project will be accessible only from the directory",
     },
+    gcs: {
+      global:
+        "Recommended as project will be accessible from any location on your machine",
+      local: "Project will be accessible only from the directory",
+    },
+    azure: {
+      global:
+        "Recommended as project will be accessible from any location on your machine",
+      local: "Project will be accessible only from the directory",
+    },
+    http: {
+      global:
+        "Recommended as project will be accessible from any location on your machine",
+      local: "Project will be accessible only from the directory",
+    },
     filesystem: {
       global:
         "The project will be accessible from any location on your machine, most suited for personal projects",
@@ -471,6 +536,54 @@ async function promptProject(
     };
   }
 
+  if (storageType === "gcs") {
+    const gcsConfigResult = await promptGcsConfig(logger, projectName);
+    if (gcsConfigResult.cancelled) {
+      return { cancelled: true };
+    }
+
+    return {
+      cancelled: false,
+      scope: resolvedScope,
+      project: {
+        name: projectName,
+        storage: gcsConfigResult.storageConfig,
+      },
+    };
+  }
+
+  if (storageType === "azure") {
+    const azureConfigResult = await promptAzureConfig(logger, projectName);
+    if (azureConfigResult.cancelled) {
+      return { cancelled: true };
+    }
+
+    return {
+      cancelled: false,
+      scope: resolvedScope,
+      project: {
+        name: projectName,
+        storage: azureConfigResult.storageConfig,
+      },
+    };
+  }
+
+  if (storageType === "http") {
+    const httpConfigResult = await promptHttpConfig(logger, projectName);
+    if (httpConfigResult.cancelled) {
+      return { cancelled: true };
+    }
+
+    return {
+      cancelled: false,
+      scope: resolvedScope,
+      project: {
+        name: projectName,
+        storage: httpConfigResult.storageConfig,
+      },
+    };
+  }
+
   if (storageType === "filesystem") {
     const defaultPath =
       resolvedScope === "global" ? "storage" : ".ethoko-storage";
@@ -505,6 +618,322 @@ async function promptProject(
   throw new Error(`Unsupported storage type: ${storageType satisfies never}`);
 }
 
+function storageTypeLabel(
+  storageType: ProjectConfigInput["storage"]["type"],
+): string {
+  if (storageType === "aws") return "AWS S3";
+  if (storageType === "gcs") return "Google Cloud Storage";
+  if (storageType === "azure") return "Azure Blob Storage";
+  if (storageType === "http") return "HTTP";
+  return "Filesystem";
+}
+
+/**
+ * Prompt the user for Google Cloud Storage configuration details, including bucket name and authentication method.
+ * Supports Application Default Credentials or a service account key file.
+ * @param projectName Project name for contextualizing the prompts
+ * @returns The GCS storage configuration or a cancellation flag if the user cancels at any point.
+ */
+async function promptGcsConfig(
+  logger: CommandLogger,
+  projectName: string,
+): Promise<
+  | {
+      cancelled: false;
+      storageConfig: Extract<
+        NonNullable<LocalEthokoConfigInput["projects"]>[number]["storage"],
+        { type: "gcs" }
+      >;
+    }
+  | { cancelled: true }
+> {
+  const gcsBucketNameInput = await logger.prompts.text({
+    message: `Project "${projectName}" ~ Enter GCS Bucket Name:`,
+    validate: (value) => {
+      if (!value || value.trim().length === 0) {
+        return "GCS Bucket Name is required";
+      }
+      return undefined;
+    },
+  });
+
+  if (logger.prompts.isCancel(gcsBucketNameInput)) {
+    return { cancelled: true };
+  }
+  const gcsBucketName = gcsBucketNameInput.trim();
+
+  const authMethod = await logger.prompts.select({
+    message: `Project "${projectName}" ~ Select Google Cloud Authentication method:`,
+    options: [
+      {
+        value: "default",
+        label: "Application Default Credentials",
+        hint: "Use credentials from gcloud, GOOGLE_APPLICATION_CREDENTIALS or the attached service account",
+      },
+      {
+        value: "key-file",
+        label: "Service Account Key File",
+        hint: "Provide the path to a service account JSON key file",
+      },
+    ],
+  });
+
+  if (logger.prompts.isCancel(authMethod)) {
+    return { cancelled: true };
+  }
+
+  if (authMethod === "default") {
+    return {
+      cancelled: false,
+      storageConfig: {
+        type: "gcs",
+        gcsBucketName,
+      },
+    };
+  }
+
+  if (authMethod === "key-file") {
+    const gcsKeyFilenameInput = await logger.prompts.text({
+      message: `Project "${projectName}" ~ Enter the path to the service account key file:`,
+      validate: (value) => {
+        if (!value || value.trim().length === 0) {
+          return "Key file path is required";
+        }
+        return undefined;
+      },
+    });
+
+    if (logger.prompts.isCancel(gcsKeyFilenameInput)) {
+      return { cancelled: true };
+    }
+
+    return {
+      cancelled: false,
+      storageConfig: {
+        type: "gcs",
+        gcsBucketName,
+        gcsKeyFilename: gcsKeyFilenameInput.trim(),
+      },
+    };
+  }
+
+  throw new Error(
+    `Unsupported authentication method: ${authMethod satisfies never}`,
+  );
+}
+
+/**
+ * Prompt the user for Azure Blob Storage configuration details, including container name and authentication method.
+ * Supports a connection string, or an account name with either an account key or a SAS token.
+ * @param projectName Project name for contextualizing the prompts
+ * @returns The Azure storage configuration or a cancellation flag if the user cancels at any point.
+ */
+async function promptAzureConfig(
+  logger: CommandLogger,
+  projectName: string,
+): Promise<
+  | {
+      cancelled: false;
+      storageConfig: Extract<
+        NonNullable<LocalEthokoConfigInput["projects"]>[number]["storage"],
+        { type: "azure" }
+      >;
+    }
+  | { cancelled: true }
+> {
+  const azureContainerNameInput = await logger.prompts.text({
+    message: `Project "${projectName}" ~ Enter Azure Container Name:`,
+    validate: (value) => {
+      if (!value || value.trim().length === 0) {
+        return "Azure Container Name is required";
+      }
+      return undefined;
+    },
+  });
+
+  if (logger.prompts.isCancel(azureContainerNameInput)) {
+    return { cancelled: true };
+  }
+  const azureContainerName = azureContainerNameInput.trim();
+
+  const authMethod = await logger.prompts.select({
+    message: `Project "${projectName}" ~ Select Azure Authentication method:`,
+    options: [
+      {
+        value: "connection-string",
+        label: "Connection String",
+        hint: "Provide the storage account connection string",
+      },
+      {
+        value: "account-key",
+        label: "Account Key",
+        hint: "Provide the storage account name and key",
+      },
+      {
+        value: "sas",
+        label: "SAS Token",
+        hint: "Provide the storage account name and a SAS token",
+      },
+    ],
+  });
+
+  if (logger.prompts.isCancel(authMethod)) {
+    return { cancelled: true };
+  }
+
+  if (authMethod === "connection-string") {
+    const azureConnectionStringInput = await logger.prompts.password({
+      message: `Project "${projectName}" ~ Enter Azure Storage Connection String:`,
+      validate: (value) => {
+        if (!value || value.trim().length === 0) {
+          return "Connection String is required";
+        }
+        return undefined;
+      },
+    });
+
+    if (logger.prompts.isCancel(azureConnectionStringInput)) {
+      return { cancelled: true };
+    }
+
+    return {
+      cancelled: false,
+      storageConfig: {
+        type: "azure",
+        azureContainerName,
+        azureConnectionString: azureConnectionStringInput.trim(),
+      },
+    };
+  }
+
+  const azureAccountNameInput = await logger.prompts.text({
+    message: `Project "${projectName}" ~ Enter Azure Storage Account Name:`,
+    validate: (value) => {
+      if (!value || value.trim().length === 0) {
+        return "Account Name is required";
+      }
+      return undefined;
+    },
+  });
+
+  if (logger.prompts.isCancel(azureAccountNameInput)) {
+    return { cancelled: true };
+  }
+  const azureAccountName = azureAccountNameInput.trim();
+
+  if (authMethod === "account-key") {
+    const azureAccountKeyInput = await logger.prompts.password({
+      message: `Project "${projectName}" ~ Enter Azure Storage Account Key:`,
+      validate: (value) => {
+        if (!value || value.trim().length === 0) {
+          return "Account Key is required";
+        }
+        return undefined;
+      },
+    });
+
+    if (logger.prompts.isCancel(azureAccountKeyInput)) {
+      return { cancelled: true };
+    }
+
+    return {
+      cancelled: false,
+      storageConfig: {
+        type: "azure",
+        azureContainerName,
+        azureAccountName,
+        azureAccountKey: azureAccountKeyInput.trim(),
+      },
+    };
+  }
+
+  if (authMethod === "sas") {
+    const azureSasTokenInput = await logger.prompts.password({
+      message: `Project "${projectName}" ~ Enter SAS Token:`,
+      validate: (value) => {
+        if (!value || value.trim().length === 0) {
+          return "SAS Token is required";
+        }
+        return undefined;
+      },
+    });
+
+    if (logger.prompts.isCancel(azureSasTokenInput)) {
+      return { cancelled: true };
+    }
+
+    return {
+      cancelled: false,
+      storageConfig: {
+        type: "azure",
+        azureContainerName,
+        azureAccountName,
+        azureSasToken: azureSasTokenInput.trim(),
+      },
+    };
+  }
+
+  throw new Error(
+    `Unsupported authentication method: ${authMethod satisfies never}`,
+  );
+}
+
+/**
+ * Prompt the user for HTTP storage configuration details, i.e. the API base URL and an optional bearer token.
+ * @param projectName Project name for contextualizing the prompts
+ * @returns The HTTP storage configuration or a cancellation flag if the user cancels at any point.
+ */
+async function promptHttpConfig(
+  logger: CommandLogger,
+  projectName: string,
+): Promise<
+  | {
+      cancelled: false;
+      storageConfig: Extract<
+        NonNullable<LocalEthokoConfigInput["projects"]>[number]["storage"],
+        { type: "http" }
+      >;
+    }
+  | { cancelled: true }
+> {
+  const httpUrlInput = await logger.prompts.text({
+    message: `Project "${projectName}" ~ Enter the API base URL:`,
+    placeholder: "e.g., https://central.example.com/api/v1",
+    validate: (value) => {
+      if (!value || value.trim().length === 0) {
+        return "API base URL is required";
+      }
+      if (!URL.canParse(value.trim())) {
+        return "API base URL must be a valid URL";
+      }
+      return undefined;
+    },
+  });
+
+  if (logger.prompts.isCancel(httpUrlInput)) {
+    return { cancelled: true };
+  }
+  const httpUrl = httpUrlInput.trim();
+
+  const httpTokenInput = await logger.prompts.password({
+    message: `Project "${projectName}" ~ Enter the API token (optional, press Enter to skip):`,
+  });
+
+  if (logger.prompts.isCancel(httpTokenInput)) {
+    return { cancelled: true };
+  }
+  const httpToken = httpTokenInput.trim();
+
+  return {
+    cancelled: false,
+    storageConfig: {
+      type: "http",
+      httpUrl,
+      httpToken: httpToken.length > 0 ? httpToken : undefined,
+    },
+  };
+}
+
 /**
  * Prompt the user for AWS S3 configuration details, including region, bucket name, and authentication method.
  * Supports multiple authentication methods: environment/default, AWS profile, or direct access keys with optional role assumption.
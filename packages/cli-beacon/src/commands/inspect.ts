@@ -100,7 +100,7 @@ export function registerInspectCommand(
       );
 
       const storageProvider = createStorageProvider(
-        projectConfig.storage,
+        projectConfig,
         logger.toDebugLogger(),
         optsParsingResult.data.debug,
       );
@@ -204,30 +204,28 @@ function displayInspectResult(
   summaryLines.push(
     styleText(LOG_COLORS.log, `Origin: ${originToLabel(result.origin)}`),
   );
-  summaryLines.push("");
-  summaryLines.push(styleText(["bold", LOG_COLORS.log], "Compiler Settings:"));
-  summaryLines.push(
-    styleText(
-      LOG_COLORS.log,
-      `  • Solidity: ${result.compiler.solcLongVersion}`,
-    ),
-  );
-  summaryLines.push(
-    styleText(
-      LOG_COLORS.log,
-      `  • Optimizer: ${result.compiler.optimizer.enabled ? "enabled" : "disabled"} (${result.compiler.optimizer.runs} runs)`,
-    ),
-  );
-  summaryLines.push(
-    styleText(LOG_COLORS.log, `  • EVM: ${result.compiler.evmVersion}`),
-  );
-  if (result.compiler.remappings.length > 0) {
+  if (result.metadata) {
+    summaryLines.push("");
+    summaryLines.push(styleText(["bold", LOG_COLORS.log], "Push Metadata:"));
+    summaryLines.push(...metadataToLines(result.metadata));
+  }
+  if (result.origin.kind === "multi-compilation") {
+    for (const compilation of result.compilations) {
+      summaryLines.push("");
+      summaryLines.push(
+        styleText(
+          ["bold", LOG_COLORS.log],
+          `Compilation ${compilation.id} (${originToLabel(compilation.origin)}):`,
+        ),
+      );
+      summaryLines.push(...compilerToLines(compilation.compiler));
+    }
+  } else {
+    summaryLines.push("");
     summaryLines.push(
-      styleText(
-        LOG_COLORS.log,
-        `  • Remappings: ${result.compiler.remappings.join(", ")}`,
-      ),
+      styleText(["bold", LOG_COLORS.log], "Compiler Settings:"),
     );
+    summaryLines.push(...compilerToLines(result.compiler));
   }
   summaryLines.push("");
   summaryLines.push(styleText(["bold", LOG_COLORS.log], "Source Files:"));
@@ -252,6 +250,63 @@ function displayInspectResult(
   logger.outro();
 }
 
+function compilerToLines(compiler: InspectResult["compiler"]): string[] {
+  const lines = [
+    styleText(LOG_COLORS.log, `  • Solidity: ${compiler.solcLongVersion}`),
+    styleText(
+      LOG_COLORS.log,
+      `  • Optimizer: ${compiler.optimizer.enabled ? "enabled" : "disabled"} (${compiler.optimizer.runs} runs)`,
+    ),
+    styleText(LOG_COLORS.log, `  • EVM: ${compiler.evmVersion}`),
+  ];
+  if (compiler.remappings.length > 0) {
+    lines.push(
+      styleText(
+        LOG_COLORS.log,
+        `  • Remappings: ${compiler.remappings.join(", ")}`,
+      ),
+    );
+  }
+  return lines;
+}
+
+function metadataToLines(
+  metadata: NonNullable<InspectResult["metadata"]>,
+): string[] {
+  const lines: string[] = [];
+  if (metadata.git) {
+    lines.push(
+      styleText(
+        LOG_COLORS.log,
+        `  • Commit: ${metadata.git.commit}${metadata.git.dirty ? " (uncommitted changes)" : ""}`,
+      ),
+      styleText(
+        LOG_COLORS.log,
+        `  • Branch: ${metadata.git.branch ?? "detached HEAD"}`,
+      ),
+    );
+    if (metadata.git.remoteUrl) {
+      lines.push(
+        styleText(LOG_COLORS.log, `  • Remote: ${metadata.git.remoteUrl}`),
+      );
+    }
+  } else {
+    lines.push(
+      styleText(LOG_COLORS.log, "  • Not pushed from a git repository"),
+    );
+  }
+  const labels = Object.entries(metadata.labels);
+  if (labels.length > 0) {
+    lines.push(
+      styleText(
+        LOG_COLORS.log,
+        `  • Labels: ${labels.map(([key, value]) => `${key}=${value}`).join(", ")}`,
+      ),
+    );
+  }
+  return lines;
+}
+
 function countContracts(result: InspectResult): number {
   return result.contractsBySource.reduce(
     (total, entry) => total + entry.contracts.length,
@@ -260,6 +315,9 @@ function countContracts(result: InspectResult): number {
 }
 
 function originToLabel(origin: InspectResult["origin"]): string {
+  if (origin.kind === "multi-compilation") {
+    return `Multi-compilation (${origin.ids.length} compilations)`;
+  }
   if (origin.kind === "hardhat-v3") {
     return `Hardhat v3 (${origin.ids.join(", ")})`;
   }
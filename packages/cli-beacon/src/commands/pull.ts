@@ -85,7 +85,7 @@ export function registerPullCommand(
       }
 
       const storageProvider = createStorageProvider(
-        projectConfig.storage,
+        projectConfig,
         logger.toDebugLogger(),
         optsParsingResult.data.debug,
       );
@@ -1,31 +1,79 @@
+import path from "path";
 import { Command } from "commander";
 import { z } from "zod";
 import { CommandLogger } from "@/ui";
 import {
   CliError,
+  CliErrorCode,
+  deriveBuildInfoIds,
+  lookForAllBuildInfos,
   lookForBuildInfos,
   mapBuildInfoToEthokoArtifact,
+  recordTagHistory,
+  reproduceCompilation,
 } from "@/client";
 
 import type { EthokoCliConfig } from "@/config";
 import { toAsyncResult } from "@/utils/result";
-import {
-  generateAbsolutePathSchema,
-  AbsolutePath,
-  RelativePath,
-} from "@/utils/path";
+import { generateAbsolutePathSchema, AbsolutePath } from "@/utils/path";
 import { createStorageProvider } from "./utils/storage-provider";
 import { ProjectOrArtifactReferenceSchema } from "./utils/parse-project-or-artifact-ref";
 import {
-  EthokoContractOutputArtifact,
+  EthokoCompilationInputArtifact,
   EthokoInputArtifact,
+  PushMetadata,
 } from "@/ethoko-artifacts/v0";
 import { StorageProvider } from "@/storage-provider";
+import {
+  isZstdSupported,
+  ZSTD_UNSUPPORTED_MESSAGE,
+} from "@/storage-provider/compression";
 import { BuildInfoPaths } from "@/supported-origins/map-build-info-to-ethoko-artifact";
+import { mergeEthokoArtifacts } from "@/supported-origins/merge-ethoko-artifacts";
 import { promptUserSelection } from "./utils/prompt-select";
+import { findMatchingTagPattern } from "@/utils/tag-pattern";
+import { resolveTagTemplate } from "@/utils/tag-template";
+import { colorTableHeaders } from "./utils/table";
+import {
+  errorCodesToExitCode,
+  errorToExitCode,
+  isCIEnvironment,
+} from "./utils/exit-codes";
+import { getGitMetadata } from "@/utils/git";
+import { reproductionToLines } from "./reproduce";
 
 type GetConfig = (configPath?: string) => Promise<EthokoCliConfig>;
 
+type MappedEthokoArtifact = Awaited<
+  ReturnType<typeof mapBuildInfoToEthokoArtifact>
+>;
+// A mapped artifact or the multi-compilation artifact merging several of them
+type EthokoArtifactToPush = ReturnType<typeof mergeEthokoArtifacts>;
+// Selection of a Build Info when several are found, without one the user is prompted
+type BuildInfoSelection = { type: "latest" } | { type: "id"; id: string };
+
+// A Build Info ID is a file name without extension, any other value of the "buildInfo" option is a glob pattern
+const BUILD_INFO_ID_REGEX = /^[\w-]+$/;
+const LABEL_KEY_REGEX = /^[\w.-]+$/;
+
+export type PushReport = {
+  project: string;
+  artifacts: {
+    // Path of the Build Info, relative to the working directory. For Hardhat v3, the path of the first input file of the compilation
+    buildInfo: string;
+    origin: EthokoInputArtifact["origin"]["type"];
+    solcLongVersion: string;
+    id: string;
+    tag: string | null;
+    status: "pushed" | "failed";
+    error: string | null;
+    // Reason of the failure, e.g. "TAG_CONFLICT", null for a push or an unexpected error
+    errorCode: CliErrorCode | null;
+  }[];
+  pushedCount: number;
+  failedCount: number;
+};
+
 export function registerPushCommand(
   program: Command,
   getConfig: GetConfig,
@@ -38,9 +86,53 @@ export function registerPushCommand(
       "Target project and optional tag to associate with the pushed artifact",
     )
     .option("--artifact-path <path>", "Path to compilation artifacts")
-    .option("--force", "Force push even if tag exists", false)
+    .option(
+      "--all",
+      "Push every Build Info found in the compilation artifacts, each as its own artifact",
+      false,
+    )
+    .option(
+      "--build-info <glob|id>",
+      "Push every Build Info matching the glob pattern, relative to the working directory, each as its own artifact. A Build Info ID, i.e. its file name without extension, selects this Build Info in the compilation artifacts",
+    )
+    .option(
+      "--latest",
+      "Select the most recent Build Info when several are found in the compilation artifacts",
+      false,
+    )
+    .option(
+      "--non-interactive",
+      "Never prompt, fail when several Build Infos are found without a selection. Enabled when the CI environment variable is set",
+      false,
+    )
+    .option(
+      "--merge",
+      "Merge the Build Infos found with --all or --build-info into a single artifact",
+      false,
+    )
+    .option(
+      "--label <key=value>",
+      "Label attached to the pushed artifacts, can be repeated",
+      (value: string, previous: string[]) => [...previous, value],
+      [],
+    )
+    .option(
+      "--verify-compilation",
+      "Recompile the compilation input with its exact solc version and fail if the outputs are not reproduced, before any upload",
+      false,
+    )
+    .option(
+      "--force",
+      "Force push even if tag exists, protected tags are never overwritten",
+      false,
+    )
     .option("--debug", "Enable debug logging", false)
     .option("--silent", "Suppress output", false)
+    .option(
+      "--json",
+      "Output the report as JSON, only with --all or --build-info",
+      false,
+    )
     .action(async (projectArg, options) => {
       const logger = new CommandLogger(options.silent);
 
@@ -89,10 +181,14 @@ export function registerPushCommand(
         process.exitCode = 1;
         return;
       }
-
-      logger.intro(
-        `Pushing artifact "${artifactRefParsingResult.data.project}${artifactRefParsingResult.data.tag ? `:${artifactRefParsingResult.data.tag}"` : '"'}`,
-      );
+      // Only the pushes of the project are rejected, the other commands still read its artifacts or fail with the same message
+      if (projectConfig.compression === "zstd" && !isZstdSupported()) {
+        logger.error(
+          `Project "${projectConfig.name}": ${ZSTD_UNSUPPORTED_MESSAGE}`,
+        );
+        process.exitCode = 1;
+        return;
+      }
 
       const optsParsingResult = z
         .object({
@@ -106,12 +202,97 @@ export function registerPushCommand(
               generateAbsolutePathSchema(() => new AbsolutePath(process.cwd())),
             )
             .optional(),
+          all: z.boolean('The "all" option must be a boolean').default(false),
+          buildInfo: z
+            .string('The "buildInfo" option must be a string')
+            .min(1, 'The "buildInfo" option cannot be empty')
+            .optional(),
+          latest: z
+            .boolean('The "latest" option must be a boolean')
+            .default(false),
+          nonInteractive: z
+            .boolean('The "nonInteractive" option must be a boolean')
+            .default(false),
           force: z
             .boolean('The "force" option must be a boolean')
             .default(false),
+          verifyCompilation: z
+            .boolean('The "verifyCompilation" option must be a boolean')
+            .default(false),
           debug: z
             .boolean('The "debug" option must be a boolean')
             .default(config.debug),
+          json: z.boolean('The "json" option must be a boolean').default(false),
+          merge: z
+            .boolean('The "merge" option must be a boolean')
+            .default(false),
+          label: z
+            .array(z.string('The "label" option must be a string'))
+            .default([])
+            .transform((labels, ctx) => {
+              const labelsByKey: Record<string, string> = {};
+              for (const label of labels) {
+                const separatorIndex = label.indexOf("=");
+                const key = label.slice(0, separatorIndex);
+                if (separatorIndex === -1 || !LABEL_KEY_REGEX.test(key)) {
+                  ctx.addIssue({
+                    code: "custom",
+                    message: `The label "${label}" must be in the format key=value, the key being made of letters, digits, ".", "_" or "-"`,
+                  });
+                  return z.NEVER;
+                }
+                if (key in labelsByKey) {
+                  ctx.addIssue({
+                    code: "custom",
+                    message: `The label "${key}" is provided several times`,
+                  });
+                  return z.NEVER;
+                }
+                labelsByKey[key] = label.slice(separatorIndex + 1);
+              }
+              return labelsByKey;
+            }),
+        })
+        .superRefine((opts, ctx) => {
+          const buildInfoPattern =
+            opts.buildInfo && !BUILD_INFO_ID_REGEX.test(opts.buildInfo)
+              ? opts.buildInfo
+              : undefined;
+          if (opts.all && opts.buildInfo) {
+            ctx.addIssue({
+              code: "custom",
+              message:
+                'The "all" and "buildInfo" options cannot be used together',
+            });
+          }
+          if (buildInfoPattern && opts.artifactPath) {
+            ctx.addIssue({
+              code: "custom",
+              message:
+                'The "buildInfo" option cannot be used with the "artifactPath" option, the glob pattern is relative to the working directory',
+            });
+          }
+          if (opts.latest && (opts.all || opts.buildInfo)) {
+            ctx.addIssue({
+              code: "custom",
+              message:
+                'The "latest" option cannot be used with the "all" or "buildInfo" options',
+            });
+          }
+          if (opts.merge && !opts.all && !buildInfoPattern) {
+            ctx.addIssue({
+              code: "custom",
+              message:
+                'The "merge" option can only be used with the "all" option or a "buildInfo" glob pattern',
+            });
+          }
+          if (opts.json && !opts.all && !buildInfoPattern) {
+            ctx.addIssue({
+              code: "custom",
+              message:
+                'The "json" option can only be used with the "all" option or a "buildInfo" glob pattern',
+            });
+          }
         })
         .safeParse(options);
 
@@ -125,8 +306,23 @@ export function registerPushCommand(
 
       const finalArtifactPath =
         optsParsingResult.data.artifactPath || config.compilationOutputPath;
+      const buildInfoId =
+        optsParsingResult.data.buildInfo &&
+        BUILD_INFO_ID_REGEX.test(optsParsingResult.data.buildInfo)
+          ? optsParsingResult.data.buildInfo
+          : undefined;
+      const source =
+        optsParsingResult.data.buildInfo && !buildInfoId
+          ? {
+              type: "glob" as const,
+              pattern: optsParsingResult.data.buildInfo,
+              cwd: new AbsolutePath(process.cwd()),
+            }
+          : finalArtifactPath
+            ? { type: "path" as const, path: finalArtifactPath }
+            : undefined;
 
-      if (!finalArtifactPath) {
+      if (!source) {
         logger.error(
           "Artifact path is required. Provide --artifact-path or set compilationOutputPath in ethoko.config.json",
         );
@@ -134,24 +330,60 @@ export function registerPushCommand(
         return;
       }
 
-      await runPushCommand(
-        finalArtifactPath,
-        {
-          project: artifactRefParsingResult.data.project,
-          tag: artifactRefParsingResult.data.tag,
-        },
-        {
-          storageProvider: createStorageProvider(
-            projectConfig.storage,
-            logger.toDebugLogger(),
-            optsParsingResult.data.debug,
-          ),
-          logger,
-        },
-        {
-          force: optsParsingResult.data.force,
-          debug: optsParsingResult.data.debug,
-        },
+      const pushAll = optsParsingResult.data.all || source.type === "glob";
+      if (!optsParsingResult.data.json) {
+        logger.intro(
+          `Pushing ${pushAll ? "artifacts" : "artifact"} "${artifactRefParsingResult.data.project}${artifactRefParsingResult.data.tag ? `:${artifactRefParsingResult.data.tag}"` : '"'}`,
+        );
+      }
+
+      const artifact = {
+        project: artifactRefParsingResult.data.project,
+        tag: artifactRefParsingResult.data.tag,
+      };
+      const dependencies = {
+        storageProvider: createStorageProvider(
+          projectConfig,
+          logger.toDebugLogger(),
+          optsParsingResult.data.debug,
+        ),
+        logger,
+      };
+      const pushOpts = {
+        force: optsParsingResult.data.force,
+        debug: optsParsingResult.data.debug,
+        protectedTags: projectConfig.protectedTags,
+        labels: optsParsingResult.data.label,
+        verifyCompilation: optsParsingResult.data.verifyCompilation
+          ? { solcCachePath: config.solcCachePath }
+          : undefined,
+      };
+      const selection: BuildInfoSelection | undefined = buildInfoId
+        ? { type: "id", id: buildInfoId }
+        : optsParsingResult.data.latest
+          ? { type: "latest" }
+          : undefined;
+
+      await (
+        pushAll
+          ? runPushAllCommand(source, artifact, dependencies, {
+              ...pushOpts,
+              json: optsParsingResult.data.json,
+              merge: optsParsingResult.data.merge,
+            }).then((report) => {
+              if (report.failedCount > 0) {
+                process.exitCode = errorCodesToExitCode(
+                  report.artifacts
+                    .filter((item) => item.status === "failed")
+                    .map((item) => item.errorCode),
+                );
+              }
+            })
+          : runPushCommand(source.path, artifact, dependencies, {
+              ...pushOpts,
+              selection,
+              nonInteractive: optsParsingResult.data.nonInteractive,
+            })
       ).catch((err) => {
         if (err instanceof CliError) {
           logger.error(err.message);
@@ -161,7 +393,7 @@ export function registerPushCommand(
           );
           console.error(err);
         }
-        process.exitCode = 1;
+        process.exitCode = errorToExitCode(err);
       });
     });
 }
@@ -179,6 +411,11 @@ export async function runPushCommand(
   opts: {
     force: boolean;
     debug: boolean;
+    protectedTags?: string[];
+    labels?: Record<string, string>;
+    verifyCompilation?: { solcCachePath: AbsolutePath };
+    selection?: BuildInfoSelection;
+    nonInteractive?: boolean;
   },
 ): Promise<string> {
   const spinner1 = dependencies.logger.createSpinner(
@@ -187,7 +424,8 @@ export async function runPushCommand(
   const buildInfo = await parseBuildInfo(artifactPath, {
     debug: opts.debug,
     logger: dependencies.logger,
-    isCI: process.env.CI === "true" || process.env.CI === "1",
+    selection: opts.selection,
+    nonInteractive: opts.nonInteractive || isCIEnvironment(),
   }).catch((err) => {
     spinner1.fail("Fail to parse compilation artifacts");
     throw err;
@@ -195,6 +433,9 @@ export async function runPushCommand(
   spinner1.succeed(
     artifactOriginToSuccessText(buildInfo.inputArtifact.origin.type),
   );
+  const tag = artifact.tag
+    ? resolveArtifactTag(artifact.tag, buildInfo.inputArtifact)
+    : undefined;
 
   // We verify that the input sources contain the `content` field.
   // It is not required for Ethoko but may ensure an easy verification later on.
@@ -218,32 +459,301 @@ export async function runPushCommand(
     }
   }
 
+  if (opts.verifyCompilation) {
+    await verifyCompilation(buildInfo, dependencies, {
+      solcCachePath: opts.verifyCompilation.solcCachePath,
+      debug: opts.debug,
+    });
+  }
+
+  await pushEthokoArtifact(
+    buildInfo,
+    { project: artifact.project, tag },
+    dependencies,
+    { ...opts, metadata: await derivePushMetadata(opts.labels) },
+  );
+
+  displayPushResult(
+    dependencies.logger,
+    artifact.project,
+    tag,
+    buildInfo.inputArtifact.id,
+  );
+
+  return buildInfo.inputArtifact.id;
+}
+
+/**
+ * Pushes every Build Info of a path or matching a glob pattern, each as its own artifact.
+ *
+ * All the Build Infos are mapped before the first upload, so that an invalid Build Info does not leave a partial push.
+ * The tag is resolved as a template for each artifact, e.g. `v1.2.3-{solc}`, two artifacts can not resolve to the same tag.
+ * A failed push does not stop the others, it is reported with its error.
+ * With the merge option, the Build Infos are merged into a single multi-compilation artifact instead.
+ * @throws CliError if no Build Info is found, if a Build Info can not be mapped or if the tag is invalid
+ * @returns The report of the pushes
+ */
+export async function runPushAllCommand(
+  source:
+    | { type: "path"; path: AbsolutePath }
+    | { type: "glob"; pattern: string; cwd: AbsolutePath },
+  artifact: {
+    project: string;
+    tag: string | undefined;
+  },
+  dependencies: {
+    storageProvider: StorageProvider;
+    logger: CommandLogger;
+  },
+  opts: {
+    force: boolean;
+    debug: boolean;
+    protectedTags?: string[];
+    labels?: Record<string, string>;
+    verifyCompilation?: { solcCachePath: AbsolutePath };
+    json?: boolean;
+    merge?: boolean;
+  },
+): Promise<PushReport> {
+  const lookupSpinner = dependencies.logger.createSpinner(
+    "Looking for compilation artifacts...",
+  );
+  const { buildInfos } = await lookForAllBuildInfos(
+    source,
+    { logger: dependencies.logger.toDebugLogger() },
+    { debug: opts.debug },
+  ).catch((err) => {
+    lookupSpinner.fail("Fail to find compilation artifacts");
+    throw err;
+  });
+  lookupSpinner.succeed(`${buildInfos.length} Build Infos found`);
+
+  const mappingSpinner = dependencies.logger.createSpinner(
+    "Parsing compilation artifacts...",
+  );
+  const mappedArtifacts: {
+    buildInfo: string;
+    ethokoArtifact: MappedEthokoArtifact;
+  }[] = [];
+  for (const buildInfoPaths of buildInfos) {
+    const ethokoArtifact = await mapBuildInfoToEthokoArtifact(
+      buildInfoPaths,
+      { logger: dependencies.logger.toDebugLogger() },
+      { debug: opts.debug },
+    ).catch((err) => {
+      mappingSpinner.fail("Fail to parse compilation artifacts");
+      throw err;
+    });
+    mappedArtifacts.push({
+      buildInfo: buildInfoPathsToDisplayPath(buildInfoPaths),
+      ethokoArtifact,
+    });
+  }
+  mappingSpinner.succeed(
+    `${mappedArtifacts.length} compilation artifacts parsed`,
+  );
+
+  const artifactsToPush: {
+    buildInfo: string;
+    ethokoArtifact: EthokoArtifactToPush;
+  }[] = opts.merge
+    ? [
+        {
+          buildInfo: mappedArtifacts.map((m) => m.buildInfo).join(", "),
+          ethokoArtifact: mergeEthokoArtifacts(
+            mappedArtifacts.map((m) => m.ethokoArtifact),
+          ),
+        },
+      ]
+    : mappedArtifacts;
+  const taggedArtifactsToPush = artifactsToPush.map((artifactToPush) => ({
+    ...artifactToPush,
+    tag: artifact.tag
+      ? resolveArtifactTag(
+          artifact.tag,
+          artifactToPush.ethokoArtifact.inputArtifact,
+        )
+      : undefined,
+  }));
+
+  const artifactIdsByTag = new Map<string, Set<string>>();
+  for (const { ethokoArtifact, tag } of taggedArtifactsToPush) {
+    if (!tag) continue;
+    const ids = artifactIdsByTag.get(tag) ?? new Set<string>();
+    ids.add(ethokoArtifact.inputArtifact.id);
+    artifactIdsByTag.set(tag, ids);
+  }
+  for (const [tag, ids] of artifactIdsByTag) {
+    if (ids.size > 1) {
+      throw new CliError(
+        `The tag "${tag}" would be associated with ${ids.size} different artifacts. Please use a tag template with a placeholder, e.g. "${artifact.tag}-{solc}" or "${artifact.tag}-{id}", to derive a distinct tag for each artifact.`,
+        { code: "TAG_CONFLICT" },
+      );
+    }
+  }
+
+  if (opts.verifyCompilation) {
+    for (const { ethokoArtifact } of taggedArtifactsToPush) {
+      await verifyCompilation(ethokoArtifact, dependencies, {
+        solcCachePath: opts.verifyCompilation.solcCachePath,
+        debug: opts.debug,
+      });
+    }
+  }
+
+  const metadata = await derivePushMetadata(opts.labels);
+  const report: PushReport = {
+    project: artifact.project,
+    artifacts: [],
+    pushedCount: 0,
+    failedCount: 0,
+  };
+  for (const { buildInfo, ethokoArtifact, tag } of taggedArtifactsToPush) {
+    const pushResult = await toAsyncResult(
+      pushEthokoArtifact(
+        ethokoArtifact,
+        { project: artifact.project, tag },
+        dependencies,
+        { ...opts, metadata },
+      ),
+      { debug: opts.debug },
+    );
+    report.artifacts.push({
+      buildInfo,
+      origin: ethokoArtifact.inputArtifact.origin.type,
+      solcLongVersion: ethokoArtifact.inputArtifact.solcLongVersion,
+      id: ethokoArtifact.inputArtifact.id,
+      tag: tag ?? null,
+      status: pushResult.success ? "pushed" : "failed",
+      error: pushResult.success
+        ? null
+        : pushResult.error instanceof CliError
+          ? pushResult.error.message
+          : "An unexpected error occurred",
+      errorCode:
+        !pushResult.success && pushResult.error instanceof CliError
+          ? (pushResult.error.code ?? null)
+          : null,
+    });
+    if (pushResult.success) {
+      report.pushedCount++;
+    } else {
+      report.failedCount++;
+    }
+  }
+
+  if (opts.json && !dependencies.logger.silent) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    displayPushReport(dependencies.logger, report);
+  }
+
+  return report;
+}
+
+/**
+ * Recompiles a mapped artifact and compares the outputs with its contract output artifacts.
+ * @throws CliError if the artifact is not reproduced by its compilation input
+ */
+async function verifyCompilation(
+  ethokoArtifact: EthokoArtifactToPush,
+  dependencies: { logger: CommandLogger },
+  opts: { solcCachePath: AbsolutePath; debug: boolean },
+): Promise<void> {
+  const spinner = dependencies.logger.createSpinner(
+    "Recompiling the artifact...",
+  );
+  const reproduction = await reproduceCompilation(
+    ethokoArtifact,
+    { logger: dependencies.logger.toDebugLogger() },
+    opts,
+  ).catch((err) => {
+    spinner.fail("Failed to recompile the artifact");
+    throw err;
+  });
+  if (!reproduction.reproducible) {
+    spinner.fail("Reproducibility check failed");
+    dependencies.logger.note(
+      reproductionToLines(reproduction).join("\n"),
+      "Contracts",
+    );
+    throw new CliError(
+      `The artifact "${ethokoArtifact.inputArtifact.id}" is not reproduced by its compilation input, nothing has been pushed`,
+      { code: "NOT_REPRODUCIBLE" },
+    );
+  }
+  spinner.succeed(
+    `${reproduction.contracts.length} contracts reproduced by the compilation input`,
+  );
+}
+
+/**
+ * Pushes a mapped artifact: checks that its tag can be used, uploads the artifact with the push metadata, or only writes the tag if the artifact is already stored, and records the tag history.
+ * @throws CliError if the tag exists and can not be overwritten, if the artifact is already stored without a new tag, or if the upload fails
+ */
+async function pushEthokoArtifact(
+  buildInfo: EthokoArtifactToPush,
+  artifact: {
+    project: string;
+    tag: string | undefined;
+  },
+  dependencies: {
+    storageProvider: StorageProvider;
+    logger: CommandLogger;
+  },
+  opts: {
+    force: boolean;
+    debug: boolean;
+    protectedTags?: string[];
+    metadata: PushMetadata;
+  },
+): Promise<void> {
   const tagExistenceSpinner = dependencies.logger.createSpinner(
     "Checking if tag exists...",
   );
+  // ID the tag points to before the push, recorded in the tag history
+  let previousTagId: string | null = null;
   if (!artifact.tag) {
     tagExistenceSpinner.succeed(
       "No tag provided, skipping tag existence check",
     );
   } else {
-    const hasTagResult = await toAsyncResult(
-      dependencies.storageProvider.hasArtifactByTag(
-        artifact.project,
-        artifact.tag,
-      ),
+    const tagIdResult = await toAsyncResult(
+      dependencies.storageProvider.resolveTagId(artifact.project, artifact.tag),
       { debug: opts.debug },
     );
-    if (!hasTagResult.success) {
+    if (!tagIdResult.success) {
       tagExistenceSpinner.fail("Failed to check tag existence");
       throw new CliError(
         `Error checking if the tag "${artifact.tag}" exists on the storage, please check the storage configuration or run with debug mode for more info`,
       );
     }
-    if (hasTagResult.value) {
+    previousTagId = tagIdResult.value ?? null;
+    if (previousTagId) {
+      // Protected tags are also enforced by the storage provider, this check only fails early with a clear message
+      const protectedPattern = findMatchingTagPattern(
+        artifact.tag,
+        opts.protectedTags ?? [],
+      );
+      // Pushing the artifact a tag already points to, e.g. when a pipeline is re-run, is reported distinctly from a conflict with another artifact
+      const code =
+        previousTagId === buildInfo.inputArtifact.id
+          ? "ARTIFACT_ALREADY_EXISTS"
+          : "TAG_CONFLICT";
+      if (protectedPattern) {
+        tagExistenceSpinner.fail("Tag already exists and is protected");
+        throw new CliError(
+          `The tag "${artifact.tag}" already exists on the storage and is protected by the "${protectedPattern}" pattern of the project configuration. Protected tags can not be overwritten, even with --force. Please, make sure to use a different tag.`,
+          { code },
+        );
+      }
       if (!opts.force) {
         tagExistenceSpinner.fail("Tag already exists");
         throw new CliError(
-          `The tag "${artifact.tag}" already exists on the storage. Please, make sure to use a different tag.`,
+          code === "ARTIFACT_ALREADY_EXISTS"
+            ? `The tag "${artifact.tag}" already exists on the storage and points to the same artifact (ID: ${previousTagId}). Nothing to push.`
+            : `The tag "${artifact.tag}" already exists on the storage. Please, make sure to use a different tag.`,
+          { code },
         );
       } else {
         tagExistenceSpinner.warn(
@@ -255,36 +765,120 @@ export async function runPushCommand(
     }
   }
 
-  const uploadSpinner = dependencies.logger.createSpinner(
-    "Uploading artifact...",
+  const artifactExistenceSpinner = dependencies.logger.createSpinner(
+    "Checking if artifact exists...",
   );
-  const pushResult = await toAsyncResult(
-    dependencies.storageProvider.uploadArtifact(
+  const artifactExistsResult = await toAsyncResult(
+    dependencies.storageProvider.hasArtifactById(
       artifact.project,
-      buildInfo.inputArtifact,
-      buildInfo.outputContractArtifacts,
-      artifact.tag,
-      buildInfo.originalContent,
+      buildInfo.inputArtifact.id,
     ),
     { debug: opts.debug },
   );
-
-  if (!pushResult.success) {
-    uploadSpinner.fail("Failed to upload artifact");
+  if (!artifactExistsResult.success) {
+    artifactExistenceSpinner.fail("Failed to check artifact existence");
     throw new CliError(
-      `Error pushing the artifact "${artifact.project}${artifact.tag ? `:${artifact.tag}` : `@:${buildInfo.inputArtifact.id}`}" to the storage, please check the storage configuration or run with debug mode for more info`,
+      `Error checking if the artifact ID "${buildInfo.inputArtifact.id}" exists on the storage, please check the storage configuration or run with debug mode for more info`,
+    );
+  }
+  if (artifactExistsResult.value) {
+    // A tag that already points to the artifact has been rejected above unless the push is forced
+    if (!artifact.tag) {
+      artifactExistenceSpinner.fail("Artifact already exists");
+      throw new CliError(
+        `The artifact ID "${buildInfo.inputArtifact.id}" already exists on the storage. Nothing to push.`,
+        { code: "ARTIFACT_ALREADY_EXISTS" },
+      );
+    }
+    // The stored artifact is the same compilation, only the tag is written
+    artifactExistenceSpinner.succeed(
+      "Artifact already exists, skipping the upload",
+    );
+    const tagSpinner = dependencies.logger.createSpinner("Writing tag...");
+    const writeTagResult = await toAsyncResult(
+      dependencies.storageProvider.writeTag(
+        artifact.project,
+        artifact.tag,
+        buildInfo.inputArtifact.id,
+      ),
+      { debug: opts.debug },
+    );
+    if (!writeTagResult.success) {
+      tagSpinner.fail("Failed to write tag");
+      throw new CliError(
+        `Error writing the tag "${artifact.tag}" of the artifact "${artifact.project}@${buildInfo.inputArtifact.id}" to the storage, please check the storage configuration or run with debug mode for more info`,
+      );
+    }
+    tagSpinner.succeed("Tag written successfully");
+    if (!writeTagResult.value.indexUpdated) {
+      dependencies.logger.warn(
+        `The tag is stored but the index of the project "${artifact.project}" could not be updated, run "ethoko remote reindex ${artifact.project}" to rebuild it`,
+      );
+    }
+  } else {
+    artifactExistenceSpinner.succeed("Artifact is not stored yet");
+    const uploadSpinner = dependencies.logger.createSpinner(
+      "Uploading artifact...",
+    );
+    const pushResult = await toAsyncResult(
+      dependencies.storageProvider.uploadArtifact(
+        artifact.project,
+        { ...buildInfo.inputArtifact, metadata: opts.metadata },
+        buildInfo.outputContractArtifacts,
+        artifact.tag,
+        buildInfo.originalContent,
+        {
+          onProgress: (progress) =>
+            uploadSpinner.update(
+              `Uploading original content (${progress.completedFiles}/${progress.totalFiles} files)...`,
+            ),
+        },
+      ),
+      { debug: opts.debug },
     );
+
+    if (!pushResult.success) {
+      uploadSpinner.fail("Failed to upload artifact");
+      throw new CliError(
+        `Error pushing the artifact "${artifact.project}${artifact.tag ? `:${artifact.tag}` : `@:${buildInfo.inputArtifact.id}`}" to the storage, please check the storage configuration or run with debug mode for more info`,
+      );
+    }
+    uploadSpinner.succeed("Artifact uploaded successfully");
+    if (!pushResult.value.indexUpdated) {
+      dependencies.logger.warn(
+        `The artifact is stored but the index of the project "${artifact.project}" could not be updated, run "ethoko remote reindex ${artifact.project}" to rebuild it`,
+      );
+    }
   }
-  uploadSpinner.succeed("Artifact uploaded successfully");
 
-  displayPushResult(
-    dependencies.logger,
-    artifact.project,
-    artifact.tag,
-    buildInfo.inputArtifact.id,
-  );
+  if (artifact.tag) {
+    // The artifact and its tag are stored at this point, a failure to record the history does not fail the push
+    await recordTagHistory(
+      artifact.project,
+      artifact.tag,
+      { id: buildInfo.inputArtifact.id, previousId: previousTagId },
+      {
+        storageProvider: dependencies.storageProvider,
+        logger: dependencies.logger.toDebugLogger(),
+      },
+      { debug: opts.debug },
+    ).catch((err) => {
+      dependencies.logger.warn(
+        err instanceof CliError
+          ? err.message
+          : `Failed to record the history of the tag "${artifact.tag}"`,
+      );
+    });
+  }
+}
 
-  return buildInfo.inputArtifact.id;
+/**
+ * Captures the git state of the working directory, the labels are attached as is
+ */
+async function derivePushMetadata(
+  labels: Record<string, string> | undefined,
+): Promise<PushMetadata> {
+  return { git: await getGitMetadata(), labels: labels ?? {} };
 }
 
 function displayPushResult(
@@ -302,8 +896,65 @@ function displayPushResult(
   }
 }
 
+function displayPushReport(logger: CommandLogger, report: PushReport): void {
+  for (const item of report.artifacts) {
+    if (item.error) {
+      logger.error(`${item.buildInfo}: ${item.error}`);
+    }
+  }
+  if (report.failedCount > 0) {
+    logger.warn(
+      `${report.pushedCount} artifacts pushed, ${report.failedCount} failed`,
+    );
+  } else {
+    logger.success(
+      `${report.pushedCount} artifacts pushed to the project "${report.project}"`,
+    );
+  }
+  colorTableHeaders(
+    logger,
+    report.artifacts.map((item) => ({
+      "Build Info": item.buildInfo,
+      Solc: item.solcLongVersion,
+      Origin: item.origin,
+      ID: item.id,
+      Tag: item.tag ?? "",
+      Status: item.status,
+    })),
+    ["Build Info", "Solc", "Origin", "ID", "Tag", "Status"],
+  );
+}
+
+function buildInfoPathsToDisplayPath(buildInfoPaths: BuildInfoPaths): string {
+  const buildInfoPath =
+    buildInfoPaths.format === "hardhat-v3"
+      ? buildInfoPaths.buildInfoPaths[0]?.input
+      : buildInfoPaths.format === "hardhat-v3-non-isolated-build"
+        ? buildInfoPaths.buildInfoPaths.input
+        : buildInfoPaths.buildInfoPath;
+  if (!buildInfoPath) {
+    return "";
+  }
+  return path.relative(process.cwd(), buildInfoPath.resolvedPath);
+}
+
+/**
+ * Resolves the placeholders of the tag for an artifact.
+ * @throws CliError if the tag contains an unknown placeholder
+ */
+function resolveArtifactTag(
+  tag: string,
+  inputArtifact: EthokoInputArtifact,
+): string {
+  try {
+    return resolveTagTemplate(tag, inputArtifact);
+  } catch (err) {
+    throw new CliError(err instanceof Error ? err.message : String(err));
+  }
+}
+
 function artifactOriginToSuccessText(
-  origin: EthokoInputArtifact["origin"]["type"],
+  origin: EthokoCompilationInputArtifact["origin"]["type"],
 ): string {
   if (origin === "hardhat-v3") {
     return `Hardhat v3 compilation artifact found`;
@@ -325,17 +976,22 @@ function artifactOriginToSuccessText(
   );
 }
 
+/**
+ * Looks for the Build Infos of the path and selects one of them.
+ *
+ * When several Build Infos are found, the selection picks the most recent one or the one with the given ID.
+ * Without a selection, the user is prompted, or in non-interactive mode the command fails with the list of Build Infos.
+ * @throws CliError if no Build Info is found, if the selected ID is not found or if a selection is needed in non-interactive mode
+ */
 async function parseBuildInfo(
   artifactPath: AbsolutePath,
-  opts: { debug: boolean; logger: CommandLogger; isCI?: boolean },
-): Promise<{
-  inputArtifact: EthokoInputArtifact;
-  outputContractArtifacts: EthokoContractOutputArtifact[];
-  originalContent: {
-    rootPath: AbsolutePath;
-    paths: RelativePath[];
-  };
-}> {
+  opts: {
+    debug: boolean;
+    logger: CommandLogger;
+    selection?: BuildInfoSelection;
+    nonInteractive: boolean;
+  },
+): Promise<MappedEthokoArtifact> {
   const buildInfos = await lookForBuildInfos(
     artifactPath,
     {
@@ -347,14 +1003,36 @@ async function parseBuildInfo(
   );
 
   let selectedBuildInfoPaths: BuildInfoPaths;
-  if (buildInfos.buildInfos.type === "single") {
-    selectedBuildInfoPaths = buildInfos.buildInfos.buildInfoPaths;
-  } else {
-    if (opts.isCI) {
+  if (opts.selection?.type === "id") {
+    const buildInfoId = opts.selection.id;
+    const candidates =
+      buildInfos.buildInfos.type === "single"
+        ? [buildInfos.buildInfos.buildInfoPaths]
+        : buildInfos.buildInfos.options.map((option) => option.value);
+    const matchingBuildInfoPaths = candidates.find((candidate) =>
+      deriveBuildInfoIds(candidate).includes(buildInfoId),
+    );
+    if (!matchingBuildInfoPaths) {
       throw new CliError(
-        "Multiple Build Info files were found in the provided path. Please provide a more specific path or run the command in interactive mode to select the desired Build Info.",
+        `No Build Info with the ID "${buildInfoId}" was found in "${buildInfos.finalFolderPath}". Available Build Infos:${formatBuildInfoCandidates(candidates)}`,
+        { code: "NO_BUILD_INFO" },
       );
     }
+    selectedBuildInfoPaths = matchingBuildInfoPaths;
+  } else if (buildInfos.buildInfos.type === "single") {
+    selectedBuildInfoPaths = buildInfos.buildInfos.buildInfoPaths;
+  } else if (opts.selection?.type === "latest") {
+    const latestOption = buildInfos.buildInfos.options.reduce(
+      (latest, option) =>
+        option.mtime.getTime() > latest.mtime.getTime() ? option : latest,
+    );
+    opts.logger.info(`Most recent Build Info selected: ${latestOption.label}`);
+    selectedBuildInfoPaths = latestOption.value;
+  } else if (opts.nonInteractive) {
+    throw new CliError(
+      `Multiple Build Info files were found in "${buildInfos.finalFolderPath}":${formatBuildInfoCandidates(buildInfos.buildInfos.options.map((option) => option.value))}\nUse --latest to select the most recent one or --build-info <id> to select one of them, or provide a more specific path.`,
+    );
+  } else {
     const selectedOption = await promptUserSelection(
       opts.logger,
       `Multiple JSON files found in "${buildInfos.finalFolderPath}" (${buildInfos.ignoredFilesCount} ignored). Please select which Build Info file to use:`,
@@ -372,3 +1050,12 @@ async function parseBuildInfo(
 
   return ethokoArtifact;
 }
+
+function formatBuildInfoCandidates(candidates: BuildInfoPaths[]): string {
+  return candidates
+    .map(
+      (candidate) =>
+        `\n- ${deriveBuildInfoIds(candidate).join(", ")} (${buildInfoPathsToDisplayPath(candidate)})`,
+    )
+    .join("");
+}
@@ -0,0 +1,268 @@
+import { Command } from "commander";
+import { z } from "zod";
+import { CommandLogger } from "@/ui";
+import {
+  CliError,
+  listRemoteArtifacts,
+  ListRemoteArtifactsResult,
+  rebuildRemoteIndex,
+  RebuildIndexResult,
+} from "@/client";
+import type { EthokoCliConfig } from "@/config";
+import { StorageProvider } from "@/storage-provider";
+import { toAsyncResult } from "@/utils/result";
+import { ProjectOrArtifactReferenceSchema } from "./utils/parse-project-or-artifact-ref";
+import { createStorageProvider } from "./utils/storage-provider";
+import {
+  colorTableHeaders,
+  deriveCommitLabel,
+  deriveTimeAgo,
+} from "./utils/table";
+
+type GetConfig = (configPath?: string) => Promise<EthokoCliConfig>;
+
+export function registerRemoteCommand(
+  program: Command,
+  getConfig: GetConfig,
+): void {
+  const remoteCommand = program
+    .command("remote")
+    .description("Explore the artifacts of a project on the storage");
+
+  remoteCommand
+    .command("ls")
+    .description("List the artifacts of a project on the storage")
+    .argument("<PROJECT>", "Target project")
+    .option("--json", "Output JSON", false)
+    .option("--debug", "Enable debug logging", false)
+    .option("--silent", "Suppress output", false)
+    .action(async (projectArg, options) => {
+      const logger = new CommandLogger(options.silent);
+      const context = await loadRemoteCommandContext(
+        getConfig,
+        logger,
+        projectArg,
+        options,
+      );
+      if (!context) return;
+
+      await runRemoteListCommand(
+        context.project,
+        { storageProvider: context.storageProvider, logger },
+        { debug: context.debug, json: context.json },
+      ).catch((err) => handleRemoteCommandError(logger, err));
+    });
+
+  remoteCommand
+    .command("reindex")
+    .description(
+      "Rebuild the index of a project on the storage, for projects pushed before the index existed",
+    )
+    .argument("<PROJECT>", "Target project")
+    .option("--debug", "Enable debug logging", false)
+    .option("--silent", "Suppress output", false)
+    .action(async (projectArg, options) => {
+      const logger = new CommandLogger(options.silent);
+      const context = await loadRemoteCommandContext(
+        getConfig,
+        logger,
+        projectArg,
+        options,
+      );
+      if (!context) return;
+
+      await runRemoteReindexCommand(
+        context.project,
+        { storageProvider: context.storageProvider, logger },
+        { debug: context.debug },
+      ).catch((err) => handleRemoteCommandError(logger, err));
+    });
+}
+
+/**
+ * Parses the configuration, the project argument and the common options of the remote subcommands.
+ * Errors are logged and the exit code is set, `undefined` is returned in that case.
+ */
+async function loadRemoteCommandContext(
+  getConfig: GetConfig,
+  logger: CommandLogger,
+  projectArg: string,
+  options: unknown,
+): Promise<
+  | {
+      project: string;
+      storageProvider: StorageProvider;
+      debug: boolean;
+      json: boolean;
+    }
+  | undefined
+> {
+  const configResult = await toAsyncResult(getConfig());
+  if (!configResult.success) {
+    logger.error(
+      configResult.error instanceof Error
+        ? configResult.error.message
+        : String(configResult.error),
+    );
+    process.exitCode = 1;
+    return undefined;
+  }
+  const config = configResult.value;
+
+  const projectRefParsingResult = ProjectOrArtifactReferenceSchema.transform(
+    (projectOrArtifactRef) => {
+      if (projectOrArtifactRef.type !== "project") {
+        return z.NEVER;
+      }
+      return projectOrArtifactRef;
+    },
+  ).safeParse(projectArg);
+  if (!projectRefParsingResult.success) {
+    logger.error(
+      `Invalid project argument:\nThe project argument must be a string in the format PROJECT`,
+    );
+    process.exitCode = 1;
+    return undefined;
+  }
+  const project = projectRefParsingResult.data.project;
+  const projectConfig = config.getProjectConfig(project);
+  if (!projectConfig) {
+    logger.error(`Project "${project}" not found in configuration`);
+    process.exitCode = 1;
+    return undefined;
+  }
+
+  const optsParsingResult = z
+    .object({
+      json: z.boolean('The "json" option must be a boolean').default(false),
+      debug: z
+        .boolean('The "debug" option must be a boolean')
+        .default(config.debug),
+    })
+    .safeParse(options);
+  if (!optsParsingResult.success) {
+    logger.error(
+      `Invalid command arguments:\n${z.prettifyError(optsParsingResult.error)}`,
+    );
+    process.exitCode = 1;
+    return undefined;
+  }
+
+  return {
+    project,
+    storageProvider: createStorageProvider(
+      projectConfig,
+      logger.toDebugLogger(),
+      optsParsingResult.data.debug,
+    ),
+    debug: optsParsingResult.data.debug,
+    json: optsParsingResult.data.json,
+  };
+}
+
+function handleRemoteCommandError(logger: CommandLogger, err: unknown): void {
+  if (err instanceof CliError) {
+    logger.error(err.message);
+  } else {
+    logger.error(
+      "An unexpected error occurred, please fill an issue with the error details if the problem persists",
+    );
+    console.error(err);
+  }
+  process.exitCode = 1;
+}
+
+export async function runRemoteListCommand(
+  project: string,
+  dependencies: {
+    storageProvider: StorageProvider;
+    logger: CommandLogger;
+  },
+  opts: { debug: boolean; json?: boolean },
+): Promise<ListRemoteArtifactsResult> {
+  if (!opts.json) {
+    dependencies.logger.intro(`Listing remote artifacts of "${project}"`);
+  }
+
+  const result = await listRemoteArtifacts(
+    project,
+    {
+      storageProvider: dependencies.storageProvider,
+      logger: dependencies.logger.toDebugLogger(),
+    },
+    { debug: opts.debug },
+  );
+
+  if (opts.json && !dependencies.logger.silent) {
+    console.log(JSON.stringify(result, null, 2));
+  } else {
+    displayRemoteArtifacts(dependencies.logger, result);
+  }
+  return result;
+}
+
+function displayRemoteArtifacts(
+  logger: CommandLogger,
+  result: ListRemoteArtifactsResult,
+): void {
+  if (result.artifacts.length === 0) {
+    logger.warn("No artifacts found on the storage");
+    return;
+  }
+
+  const structuredData = result.artifacts.map((item) => ({
+    Tags: item.tags.join(", "),
+    ID: item.id,
+    "Push date": item.pushedAt ? deriveTimeAgo(item.pushedAt) : "unknown",
+    Solc: item.solcLongVersion,
+    Contracts: item.contractCount,
+    Origin: item.origin,
+    Commit: deriveCommitLabel(item.metadata),
+  }));
+
+  colorTableHeaders(logger, structuredData, [
+    "Tags",
+    "ID",
+    "Push date",
+    "Solc",
+    "Contracts",
+    "Origin",
+    "Commit",
+  ]);
+}
+
+export async function runRemoteReindexCommand(
+  project: string,
+  dependencies: {
+    storageProvider: StorageProvider;
+    logger: CommandLogger;
+  },
+  opts: { debug: boolean },
+): Promise<RebuildIndexResult> {
+  dependencies.logger.intro(`Rebuilding the index of "${project}"`);
+
+  const spinner = dependencies.logger.createSpinner("Rebuilding index...");
+  const result = await rebuildRemoteIndex(
+    project,
+    {
+      storageProvider: dependencies.storageProvider,
+      logger: dependencies.logger.toDebugLogger(),
+    },
+    opts,
+  ).catch((err) => {
+    spinner.fail("Failed to rebuild index");
+    throw err;
+  });
+  spinner.succeed(
+    `Index rebuilt with ${result.artifactCount} artifact(s) and ${result.tagCount} tag(s)`,
+  );
+  if (result.previousArtifactCount === null) {
+    dependencies.logger.info("The project had no index");
+  } else if (result.previousArtifactCount !== result.artifactCount) {
+    dependencies.logger.warn(
+      `The previous index listed ${result.previousArtifactCount} artifact(s)`,
+    );
+  }
+  dependencies.logger.outro();
+  return result;
+}
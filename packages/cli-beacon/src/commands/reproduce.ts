@@ -0,0 +1,223 @@
+import { styleText } from "node:util";
+import { Command } from "commander";
+import { z } from "zod";
+import { LOG_COLORS, CommandLogger } from "@/ui";
+import { CliError, reproduceArtifact, ReproduceResult } from "@/client";
+import type { EthokoCliConfig } from "@/config";
+import { toAsyncResult } from "@/utils/result";
+import { AbsolutePath } from "@/utils/path";
+import { ProjectOrArtifactReferenceSchema } from "./utils/parse-project-or-artifact-ref";
+import { createStorageProvider } from "./utils/storage-provider";
+import { ArtifactReference } from "@/utils/artifact-reference";
+import { StorageProvider } from "@/storage-provider";
+
+type GetConfig = (configPath?: string) => Promise<EthokoCliConfig>;
+
+export function registerReproduceCommand(
+  program: Command,
+  getConfig: GetConfig,
+): void {
+  program
+    .command("reproduce")
+    .description(
+      "Recompile an artifact of the storage with its exact solc version and compare the outputs with the stored contract artifacts",
+    )
+    .argument(
+      "<PROJECT[:TAG|@ID]>",
+      "Target project and artifact identifier (tag or ID)",
+    )
+    .option("--json", "Output JSON", false)
+    .option("--debug", "Enable debug logging", false)
+    .option("--silent", "Suppress output", false)
+    .action(async (projectArg, options) => {
+      const logger = new CommandLogger(options.silent);
+
+      const configResult = await toAsyncResult(getConfig());
+      if (!configResult.success) {
+        logger.error(
+          configResult.error instanceof Error
+            ? configResult.error.message
+            : String(configResult.error),
+        );
+        process.exitCode = 1;
+        return;
+      }
+      const config = configResult.value;
+
+      const artifactRefParsingResult =
+        ProjectOrArtifactReferenceSchema.transform((projectOrArtifactRef) => {
+          if (projectOrArtifactRef.type === "project") {
+            return z.NEVER;
+          }
+          return projectOrArtifactRef;
+        }).safeParse(projectArg);
+      if (!artifactRefParsingResult.success) {
+        logger.error(
+          `Invalid artifact argument:\nThe artifact argument must be a string in the format PROJECT[:TAG|@ID]`,
+        );
+        process.exitCode = 1;
+        return;
+      }
+      const projectConfig = config.getProjectConfig(
+        artifactRefParsingResult.data.project,
+      );
+      if (!projectConfig) {
+        logger.error(
+          `Project "${artifactRefParsingResult.data.project}" not found in configuration`,
+        );
+        process.exitCode = 1;
+        return;
+      }
+
+      const optsParsingResult = z
+        .object({
+          json: z.boolean('The "json" option must be a boolean').default(false),
+          debug: z
+            .boolean('The "debug" option must be a boolean')
+            .default(config.debug),
+        })
+        .safeParse(options);
+      if (!optsParsingResult.success) {
+        logger.error(
+          `Invalid command arguments:\n${z.prettifyError(optsParsingResult.error)}`,
+        );
+        process.exitCode = 1;
+        return;
+      }
+
+      if (!optsParsingResult.data.json) {
+        logger.intro(
+          `Reproducing artifact "${projectConfig.name}${artifactRefParsingResult.data.type === "tag" ? `:${artifactRefParsingResult.data.tag}` : `@${artifactRefParsingResult.data.id}`}"`,
+        );
+      }
+
+      await runReproduceCommand(
+        artifactRefParsingResult.data,
+        {
+          storageProvider: createStorageProvider(
+            projectConfig,
+            logger.toDebugLogger(),
+            optsParsingResult.data.debug,
+          ),
+          logger,
+        },
+        {
+          solcCachePath: config.solcCachePath,
+          json: optsParsingResult.data.json,
+          debug: optsParsingResult.data.debug,
+        },
+      )
+        .then((result) => {
+          if (!result.reproducible) {
+            process.exitCode = 1;
+          }
+        })
+        .catch((err) => {
+          if (err instanceof CliError) {
+            logger.error(err.message);
+          } else {
+            logger.error(
+              "An unexpected error occurred, please fill an issue with the error details if the problem persists",
+            );
+            console.error(err);
+          }
+          process.exitCode = 1;
+        });
+    });
+}
+
+export async function runReproduceCommand(
+  artifactRef: ArtifactReference,
+  dependencies: {
+    storageProvider: StorageProvider;
+    logger: CommandLogger;
+  },
+  opts: { solcCachePath: AbsolutePath; debug: boolean; json?: boolean },
+): Promise<ReproduceResult> {
+  const spinner = dependencies.logger.createSpinner(
+    "Recompiling the artifact...",
+  );
+  const result = await reproduceArtifact(
+    artifactRef,
+    {
+      storageProvider: dependencies.storageProvider,
+      logger: dependencies.logger.toDebugLogger(),
+    },
+    { solcCachePath: opts.solcCachePath, debug: opts.debug },
+  ).catch((err) => {
+    spinner.fail("Failed to recompile the artifact");
+    throw err;
+  });
+  if (result.reproducible) {
+    spinner.succeed(`${result.contracts.length} contracts reproduced`);
+  } else {
+    spinner.fail("Reproducibility check failed");
+  }
+
+  if (opts.json && !dependencies.logger.silent) {
+    console.log(JSON.stringify(result, null, 2));
+  } else {
+    displayReproduceResult(dependencies.logger, result);
+  }
+
+  return result;
+}
+
+function displayReproduceResult(
+  logger: CommandLogger,
+  result: ReproduceResult,
+): void {
+  const artifactLabel = result.tag
+    ? `${result.project}:${result.tag}`
+    : `${result.project}@${result.id}`;
+
+  logger.note(reproductionToLines(result).join("\n"), "Contracts");
+
+  if (result.reproducible) {
+    logger.success(
+      `Artifact "${artifactLabel}" (ID: ${result.id}) is reproduced by its compilation input`,
+    );
+    logger.outro();
+    return;
+  }
+  logger.error(
+    `Artifact "${artifactLabel}" (ID: ${result.id}) is not reproduced by its compilation input`,
+  );
+}
+
+/**
+ * Lines of the reproduction of each contract, preceded by the compilations that could not be run
+ */
+export function reproductionToLines(
+  reproduction: Pick<ReproduceResult, "compilations" | "contracts">,
+): string[] {
+  const lines: string[] = [];
+  for (const compilation of reproduction.compilations) {
+    if (compilation.error !== null) {
+      lines.push(
+        styleText(
+          LOG_COLORS.error,
+          `  • Compilation ${compilation.id} (solc ${compilation.solcLongVersion}): ${compilation.error}`,
+        ),
+      );
+    }
+  }
+  for (const contract of reproduction.contracts) {
+    const statuses = [
+      `bytecode ${contract.bytecode}`,
+      `deployed bytecode ${contract.deployedBytecode}`,
+      `metadata ${contract.metadata}`,
+    ].join(", ");
+    const reproduced =
+      contract.bytecode === "match" &&
+      contract.deployedBytecode === "match" &&
+      contract.metadata === "match";
+    lines.push(
+      styleText(
+        reproduced ? LOG_COLORS.success : LOG_COLORS.error,
+        `  • ${contract.sourceName}:${contract.contractName}: ${statuses}`,
+      ),
+    );
+  }
+  return lines;
+}
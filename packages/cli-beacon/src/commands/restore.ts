@@ -107,7 +107,7 @@ export function registerRestoreCommand(
       }
 
       const storageProvider = createStorageProvider(
-        projectConfig.storage,
+        projectConfig,
         logger.toDebugLogger(),
         optsParsingResult.data.debug,
       );
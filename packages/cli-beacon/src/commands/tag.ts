@@ -0,0 +1,527 @@
+import { styleText } from "node:util";
+import { Command } from "commander";
+import { z } from "zod";
+import { CommandLogger, LOG_COLORS } from "@/ui";
+import {
+  addTag,
+  CliError,
+  getTagHistory,
+  listRemoteTags,
+  moveTag,
+  removeTag,
+  RemoteTagsResult,
+  TagChangeResult,
+  TagHistoryResult,
+} from "@/client";
+import type { EthokoCliConfig } from "@/config";
+import type { ProjectConfig } from "@/config/projects";
+import { LocalArtifactStore } from "@/local-artifact-store";
+import { toAsyncResult } from "@/utils/result";
+import { StorageProvider } from "@/storage-provider";
+import { ProjectOrArtifactReferenceSchema } from "./utils/parse-project-or-artifact-ref";
+import { createStorageProvider } from "./utils/storage-provider";
+
+type GetConfig = (configPath?: string) => Promise<EthokoCliConfig>;
+
+export function registerTagCommand(
+  program: Command,
+  getConfig: GetConfig,
+): void {
+  const tagCommand = program
+    .command("tag")
+    .description("Manage the tags of a project on the storage");
+
+  tagCommand
+    .command("add")
+    .description("Create a tag pointing to an existing artifact ID")
+    .argument("<PROJECT@ID>", "Target project and artifact ID")
+    .argument("<TAG>", "Tag to create")
+    .option("--debug", "Enable debug logging", false)
+    .option("--silent", "Suppress output", false)
+    .action(async (artifactArg, tagArg, options) => {
+      const logger = new CommandLogger(options.silent);
+      const context = await loadTagCommandContext(
+        getConfig,
+        logger,
+        artifactArg,
+        "id",
+        options,
+      );
+      if (!context) return;
+      const tag = parseTagArgument(logger, context.target.project, tagArg);
+      if (!tag) return;
+
+      await runTagAddCommand(
+        { project: context.target.project, id: context.target.id, tag },
+        context.dependencies,
+        { debug: context.debug },
+      ).catch((err) => handleTagCommandError(logger, err));
+    });
+
+  tagCommand
+    .command("move")
+    .description("Move an existing tag to another artifact ID")
+    .argument("<PROJECT@ID>", "Target project and artifact ID")
+    .argument("<TAG>", "Tag to move")
+    .option("--debug", "Enable debug logging", false)
+    .option("--silent", "Suppress output", false)
+    .action(async (artifactArg, tagArg, options) => {
+      const logger = new CommandLogger(options.silent);
+      const context = await loadTagCommandContext(
+        getConfig,
+        logger,
+        artifactArg,
+        "id",
+        options,
+      );
+      if (!context) return;
+      const tag = parseTagArgument(logger, context.target.project, tagArg);
+      if (!tag) return;
+
+      await runTagMoveCommand(
+        { project: context.target.project, id: context.target.id, tag },
+        context.dependencies,
+        {
+          debug: context.debug,
+          protectedTags: context.projectConfig.protectedTags,
+        },
+      ).catch((err) => handleTagCommandError(logger, err));
+    });
+
+  tagCommand
+    .command("rm")
+    .description("Remove a tag, the tagged artifact is kept")
+    .argument("<PROJECT:TAG>", "Target project and tag")
+    .option("--debug", "Enable debug logging", false)
+    .option("--silent", "Suppress output", false)
+    .action(async (artifactArg, options) => {
+      const logger = new CommandLogger(options.silent);
+      const context = await loadTagCommandContext(
+        getConfig,
+        logger,
+        artifactArg,
+        "tag",
+        options,
+      );
+      if (!context) return;
+
+      await runTagRemoveCommand(context.target, context.dependencies, {
+        debug: context.debug,
+        protectedTags: context.projectConfig.protectedTags,
+      }).catch((err) => handleTagCommandError(logger, err));
+    });
+
+  tagCommand
+    .command("ls")
+    .description("List the tags of a project on the storage")
+    .argument("<PROJECT>", "Target project")
+    .option("--json", "Output JSON", false)
+    .option("--debug", "Enable debug logging", false)
+    .option("--silent", "Suppress output", false)
+    .action(async (projectArg, options) => {
+      const logger = new CommandLogger(options.silent);
+      const context = await loadTagCommandContext(
+        getConfig,
+        logger,
+        projectArg,
+        "project",
+        options,
+      );
+      if (!context) return;
+
+      await runTagListCommand(context.target, context.dependencies, {
+        debug: context.debug,
+        json: context.json,
+      }).catch((err) => handleTagCommandError(logger, err));
+    });
+
+  tagCommand
+    .command("history")
+    .description("Show the history of a tag")
+    .argument("<PROJECT:TAG>", "Target project and tag")
+    .option("--json", "Output JSON", false)
+    .option("--debug", "Enable debug logging", false)
+    .option("--silent", "Suppress output", false)
+    .action(async (artifactArg, options) => {
+      const logger = new CommandLogger(options.silent);
+      const context = await loadTagCommandContext(
+        getConfig,
+        logger,
+        artifactArg,
+        "tag",
+        options,
+      );
+      if (!context) return;
+
+      await runTagHistoryCommand(context.target, context.dependencies, {
+        debug: context.debug,
+        json: context.json,
+      }).catch((err) => handleTagCommandError(logger, err));
+    });
+}
+
+type ArtifactReference = z.infer<typeof ProjectOrArtifactReferenceSchema>;
+
+const REFERENCE_FORMATS: Record<ArtifactReference["type"], string> = {
+  project: "PROJECT",
+  tag: "PROJECT:TAG",
+  id: "PROJECT@ID",
+};
+
+/**
+ * Parses the configuration, the target reference and the common options of the tag subcommands.
+ * Errors are logged and the exit code is set, `undefined` is returned in that case.
+ */
+async function loadTagCommandContext<TType extends ArtifactReference["type"]>(
+  getConfig: GetConfig,
+  logger: CommandLogger,
+  referenceArg: string,
+  referenceType: TType,
+  options: unknown,
+): Promise<
+  | {
+      target: Extract<ArtifactReference, { type: TType }>;
+      projectConfig: ProjectConfig;
+      dependencies: {
+        storageProvider: StorageProvider;
+        localArtifactStore: LocalArtifactStore;
+        logger: CommandLogger;
+      };
+      debug: boolean;
+      json: boolean;
+    }
+  | undefined
+> {
+  const configResult = await toAsyncResult(getConfig());
+  if (!configResult.success) {
+    logger.error(
+      configResult.error instanceof Error
+        ? configResult.error.message
+        : String(configResult.error),
+    );
+    process.exitCode = 1;
+    return undefined;
+  }
+  const config = configResult.value;
+
+  const referenceParsingResult =
+    ProjectOrArtifactReferenceSchema.safeParse(referenceArg);
+  if (
+    !referenceParsingResult.success ||
+    referenceParsingResult.data.type !== referenceType
+  ) {
+    logger.error(
+      `Invalid artifact argument:\nThe artifact argument must be a string in the format ${REFERENCE_FORMATS[referenceType]}`,
+    );
+    process.exitCode = 1;
+    return undefined;
+  }
+  const target = referenceParsingResult.data as Extract<
+    ArtifactReference,
+    { type: TType }
+  >;
+  const projectConfig = config.getProjectConfig(target.project);
+  if (!projectConfig) {
+    logger.error(`Project "${target.project}" not found in configuration`);
+    process.exitCode = 1;
+    return undefined;
+  }
+
+  const optsParsingResult = z
+    .object({
+      json: z.boolean('The "json" option must be a boolean').default(false),
+      debug: z
+        .boolean('The "debug" option must be a boolean')
+        .default(config.debug),
+    })
+    .safeParse(options);
+  if (!optsParsingResult.success) {
+    logger.error(
+      `Invalid command arguments:\n${z.prettifyError(optsParsingResult.error)}`,
+    );
+    process.exitCode = 1;
+    return undefined;
+  }
+
+  const storageProvider = createStorageProvider(
+    projectConfig,
+    logger.toDebugLogger(),
+    optsParsingResult.data.debug,
+  );
+  const localArtifactStore = new LocalArtifactStore(
+    config.localArtifactStorePath,
+  );
+
+  return {
+    target,
+    projectConfig,
+    dependencies: { storageProvider, localArtifactStore, logger },
+    debug: optsParsingResult.data.debug,
+    json: optsParsingResult.data.json,
+  };
+}
+
+/**
+ * Validates a tag argument with the same rules as the `PROJECT:TAG` references.
+ */
+function parseTagArgument(
+  logger: CommandLogger,
+  project: string,
+  tagArg: string,
+): string | undefined {
+  const parsingResult = ProjectOrArtifactReferenceSchema.safeParse(
+    `${project}:${tagArg}`,
+  );
+  if (!parsingResult.success || parsingResult.data.type !== "tag") {
+    logger.error(
+      `Invalid tag argument:\n${parsingResult.success ? `"${tagArg}" is not a valid tag` : z.prettifyError(parsingResult.error)}`,
+    );
+    process.exitCode = 1;
+    return undefined;
+  }
+  return parsingResult.data.tag;
+}
+
+function handleTagCommandError(logger: CommandLogger, err: unknown): void {
+  if (err instanceof CliError) {
+    logger.error(err.message);
+  } else {
+    logger.error(
+      "An unexpected error occurred, please fill an issue with the error details if the problem persists",
+    );
+    console.error(err);
+  }
+  process.exitCode = 1;
+}
+
+export async function runTagAddCommand(
+  target: { project: string; id: string; tag: string },
+  dependencies: {
+    storageProvider: StorageProvider;
+    localArtifactStore: LocalArtifactStore;
+    logger: CommandLogger;
+  },
+  opts: { debug: boolean },
+): Promise<TagChangeResult> {
+  dependencies.logger.intro(
+    `Tagging artifact "${target.project}@${target.id}" as "${target.tag}"`,
+  );
+  const spinner = dependencies.logger.createSpinner("Creating tag...");
+  const result = await addTag(
+    target.project,
+    target.id,
+    target.tag,
+    {
+      storageProvider: dependencies.storageProvider,
+      localArtifactStore: dependencies.localArtifactStore,
+      logger: dependencies.logger.toDebugLogger(),
+    },
+    opts,
+  ).catch((err) => {
+    spinner.fail("Failed to create tag");
+    throw err;
+  });
+  spinner.succeed("Tag created");
+  displayTagChangeResult(dependencies.logger, result);
+  return result;
+}
+
+export async function runTagMoveCommand(
+  target: { project: string; id: string; tag: string },
+  dependencies: {
+    storageProvider: StorageProvider;
+    localArtifactStore: LocalArtifactStore;
+    logger: CommandLogger;
+  },
+  opts: { debug: boolean; protectedTags?: string[] },
+): Promise<TagChangeResult> {
+  dependencies.logger.intro(
+    `Moving tag "${target.project}:${target.tag}" to the artifact ID "${target.id}"`,
+  );
+  const spinner = dependencies.logger.createSpinner("Moving tag...");
+  const result = await moveTag(
+    target.project,
+    target.id,
+    target.tag,
+    {
+      storageProvider: dependencies.storageProvider,
+      localArtifactStore: dependencies.localArtifactStore,
+      logger: dependencies.logger.toDebugLogger(),
+    },
+    opts,
+  ).catch((err) => {
+    spinner.fail("Failed to move tag");
+    throw err;
+  });
+  spinner.succeed("Tag moved");
+  displayTagChangeResult(dependencies.logger, result);
+  return result;
+}
+
+export async function runTagRemoveCommand(
+  target: { project: string; tag: string },
+  dependencies: {
+    storageProvider: StorageProvider;
+    localArtifactStore: LocalArtifactStore;
+    logger: CommandLogger;
+  },
+  opts: { debug: boolean; protectedTags?: string[] },
+): Promise<TagChangeResult> {
+  dependencies.logger.intro(`Removing tag "${target.project}:${target.tag}"`);
+  const spinner = dependencies.logger.createSpinner("Removing tag...");
+  const result = await removeTag(
+    target.project,
+    target.tag,
+    {
+      storageProvider: dependencies.storageProvider,
+      localArtifactStore: dependencies.localArtifactStore,
+      logger: dependencies.logger.toDebugLogger(),
+    },
+    opts,
+  ).catch((err) => {
+    spinner.fail("Failed to remove tag");
+    throw err;
+  });
+  spinner.succeed("Tag removed");
+  displayTagChangeResult(dependencies.logger, result);
+  return result;
+}
+
+export async function runTagListCommand(
+  target: { project: string },
+  dependencies: {
+    storageProvider: StorageProvider;
+    logger: CommandLogger;
+  },
+  opts: { debug: boolean; json?: boolean },
+): Promise<RemoteTagsResult> {
+  if (!opts.json) {
+    dependencies.logger.intro(`Tags of project "${target.project}"`);
+  }
+  const result = await listRemoteTags(
+    target.project,
+    {
+      storageProvider: dependencies.storageProvider,
+      logger: dependencies.logger.toDebugLogger(),
+    },
+    { debug: opts.debug },
+  );
+
+  if (opts.json && !dependencies.logger.silent) {
+    console.log(JSON.stringify(result, null, 2));
+  } else {
+    displayRemoteTags(dependencies.logger, result);
+  }
+  return result;
+}
+
+export async function runTagHistoryCommand(
+  artifact: { project: string; tag: string },
+  dependencies: {
+    storageProvider: StorageProvider;
+    logger: CommandLogger;
+  },
+  opts: { debug: boolean; json?: boolean },
+): Promise<TagHistoryResult> {
+  if (!opts.json) {
+    dependencies.logger.intro(
+      `Tag history of "${artifact.project}:${artifact.tag}"`,
+    );
+  }
+  const result = await getTagHistory(
+    artifact.project,
+    artifact.tag,
+    {
+      storageProvider: dependencies.storageProvider,
+      logger: dependencies.logger.toDebugLogger(),
+    },
+    { debug: opts.debug },
+  );
+
+  if (opts.json && !dependencies.logger.silent) {
+    console.log(JSON.stringify(result, null, 2));
+  } else {
+    displayTagHistoryResult(dependencies.logger, result);
+  }
+
+  return result;
+}
+
+function displayTagHistoryResult(
+  logger: CommandLogger,
+  result: TagHistoryResult,
+): void {
+  const lines: string[] = [];
+  lines.push(
+    styleText(LOG_COLORS.log, `Current ID: ${result.currentId ?? "none"}`),
+  );
+  lines.push("");
+  if (result.entries.length === 0) {
+    lines.push(
+      styleText(
+        LOG_COLORS.log,
+        "No history recorded, the tag was written before the history was introduced",
+      ),
+    );
+  } else {
+    lines.push(
+      styleText(
+        ["bold", LOG_COLORS.log],
+        `History (${result.entries.length}), most recent first:`,
+      ),
+    );
+    for (const entry of [...result.entries].reverse()) {
+      const pusher = [entry.pushedBy.gitUser, entry.pushedBy.storageIdentity]
+        .filter(Boolean)
+        .join(", ");
+      lines.push(
+        `  • ${styleText(LOG_COLORS.log, entry.timestamp)} ${styleText(LOG_COLORS.warn, entry.previousId ?? "(created)")} → ${styleText(LOG_COLORS.warn, entry.id ?? "(removed)")}`,
+      );
+      lines.push(
+        styleText(
+          LOG_COLORS.log,
+          `    by ${pusher || "unknown"} with Ethoko CLI ${entry.cliVersion}`,
+        ),
+      );
+    }
+  }
+  logger.note(lines.join("\n"), "Tag history");
+  logger.outro();
+}
+
+function displayTagChangeResult(
+  logger: CommandLogger,
+  result: TagChangeResult,
+): void {
+  if (!result.historyRecorded) {
+    logger.warn(
+      `The change could not be recorded in the history of the tag "${result.tag}", run with debug mode for more info`,
+    );
+  }
+  if (!result.indexUpdated) {
+    logger.warn(
+      `The tag is updated but the index of the project "${result.project}" could not be updated, run "ethoko remote reindex ${result.project}" to rebuild it`,
+    );
+  }
+  logger.success(
+    `Tag "${result.project}:${result.tag}" ${styleText(LOG_COLORS.warn, result.previousId ?? "(created)")} → ${styleText(LOG_COLORS.warn, result.id ?? "(removed)")}`,
+  );
+  logger.outro();
+}
+
+function displayRemoteTags(
+  logger: CommandLogger,
+  result: RemoteTagsResult,
+): void {
+  if (result.length === 0) {
+    logger.info("No tags found on the storage");
+    logger.outro();
+    return;
+  }
+  const lines = result.map(
+    ({ tag, id }) =>
+      `  • ${styleText(LOG_COLORS.log, tag)} → ${styleText(LOG_COLORS.warn, id)}`,
+  );
+  logger.note(lines.join("\n"), `Tags (${result.length})`);
+  logger.outro();
+}
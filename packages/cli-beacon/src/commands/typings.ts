@@ -157,7 +157,7 @@ export function registerTypingsCommand(
           return;
         }
         const storageProvider = createStorageProvider(
-          projectConfig.storage,
+          projectConfig,
           logger.toDebugLogger(),
           parsingResult.data.debug,
         );
@@ -0,0 +1,22 @@
+import { describe, expect, test } from "vitest";
+import { EXIT_CODES, errorCodesToExitCode } from "./exit-codes";
+
+describe("errorCodesToExitCode", () => {
+  test("uses the exit code of an artifact that already exists only without other failures", () => {
+    expect(
+      errorCodesToExitCode([
+        "ARTIFACT_ALREADY_EXISTS",
+        "ARTIFACT_ALREADY_EXISTS",
+      ]),
+    ).toBe(EXIT_CODES.ARTIFACT_ALREADY_EXISTS);
+    expect(errorCodesToExitCode(["ARTIFACT_ALREADY_EXISTS", null])).toBe(
+      EXIT_CODES.ERROR,
+    );
+  });
+
+  test("keeps the exit code of a tag conflict among other failures", () => {
+    expect(
+      errorCodesToExitCode([null, "TAG_CONFLICT", "ARTIFACT_ALREADY_EXISTS"]),
+    ).toBe(EXIT_CODES.TAG_CONFLICT);
+  });
+});
@@ -0,0 +1,46 @@
+import { CliError, CliErrorCode } from "@/client";
+
+/**
+ * Exit codes of the commands, a CliError with a code exits with its own exit code so that pipelines can branch on the outcome
+ */
+export const EXIT_CODES = {
+  ERROR: 1,
+  ARTIFACT_ALREADY_EXISTS: 2,
+  TAG_CONFLICT: 3,
+  NO_BUILD_INFO: 4,
+  NOT_REPRODUCIBLE: 5,
+} as const satisfies Record<CliErrorCode | "ERROR", number>;
+
+export function errorToExitCode(err: unknown): number {
+  if (err instanceof CliError && err.code) {
+    return EXIT_CODES[err.code];
+  }
+  return EXIT_CODES.ERROR;
+}
+
+/**
+ * Exit code of several failures, e.g. the failed pushes of `push --all`.
+ * An artifact that already exists only sets the exit code if it is the only reason of failure, otherwise the highest exit code is used.
+ * @param codes The codes of the failures, null for an error without code
+ */
+export function errorCodesToExitCode(codes: (CliErrorCode | null)[]): number {
+  const exitCodes = codes.map((code) =>
+    code ? EXIT_CODES[code] : EXIT_CODES.ERROR,
+  );
+  const otherExitCodes = exitCodes.filter(
+    (exitCode) => exitCode !== EXIT_CODES.ARTIFACT_ALREADY_EXISTS,
+  );
+  if (otherExitCodes.length === 0) {
+    return exitCodes.length > 0
+      ? EXIT_CODES.ARTIFACT_ALREADY_EXISTS
+      : EXIT_CODES.ERROR;
+  }
+  return Math.max(...otherExitCodes);
+}
+
+/**
+ * Whether the command runs in a CI environment, detected with the `CI` environment variable set by most CI providers
+ */
+export function isCIEnvironment(): boolean {
+  return process.env.CI === "true" || process.env.CI === "1";
+}
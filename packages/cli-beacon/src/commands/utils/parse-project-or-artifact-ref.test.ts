@@ -37,6 +37,46 @@ describe("ProjectOrArtifactReferenceSchema", () => {
     });
   });
 
+  test("should parse valid namespaced artifact key with tag", () => {
+    expect(
+      ProjectOrArtifactReferenceSchema.safeParse("vincent/my-project:v1.2.3"),
+    ).toEqual({
+      success: true,
+      data: {
+        project: "vincent/my-project",
+        type: "tag",
+        tag: "v1.2.3",
+      },
+    });
+  });
+
+  test("should parse valid namespaced artifact key with id", () => {
+    expect(
+      ProjectOrArtifactReferenceSchema.safeParse(
+        "vincent/my-project@b5e41181986a",
+      ),
+    ).toEqual({
+      success: true,
+      data: {
+        project: "vincent/my-project",
+        type: "id",
+        id: "b5e41181986a",
+      },
+    });
+  });
+
+  test("should parse valid namespaced artifact key with project only", () => {
+    expect(
+      ProjectOrArtifactReferenceSchema.safeParse("vincent/my-project"),
+    ).toEqual({
+      success: true,
+      data: {
+        project: "vincent/my-project",
+        type: "project",
+      },
+    });
+  });
+
   const INVALID_KEYS = [
     "", // Empty string
     null, // Null value
@@ -50,6 +90,9 @@ describe("ProjectOrArtifactReferenceSchema", () => {
     "my-project:my-tag/invalid", // Invalid characters in tag
     "my-project:my-tag\\invalid", // Invalid characters in tag
     "my-project:my-tag invalid", // Invalid characters in tag
+    "/my-project:latest", // Empty namespace
+    "vincent/:latest", // Empty project with namespace
+    "vincent/my/project", // Too many slashes
   ];
 
   INVALID_KEYS.forEach((key) => {
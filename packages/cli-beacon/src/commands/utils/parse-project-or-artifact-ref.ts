@@ -2,11 +2,11 @@ import z from "zod";
 
 export const ProjectOrArtifactReferenceSchema = z
   .string(
-    "The artifact argument must be a string in the format PROJECT or PROJECT[:TAG|@ID]",
+    "The artifact argument must be a string in the format [NAMESPACE/]PROJECT or [NAMESPACE/]PROJECT[:TAG|@ID]",
   )
   .min(
     1,
-    "The artifact argument cannot be empty. Provide a valid artifact key in the format PROJECT or PROJECT[:TAG|@ID]",
+    "The artifact argument cannot be empty. Provide a valid artifact key in the format [NAMESPACE/]PROJECT or [NAMESPACE/]PROJECT[:TAG|@ID]",
   )
   .transform((str, ctx) => {
     const result = parseProjectOrArtifactReference(str);
@@ -20,6 +20,10 @@ export const ProjectOrArtifactReferenceSchema = z
     return result.key;
   });
 
+/**
+ * Parsed artifact reference.
+ * The `project` field is the full project name, including the namespace when provided, e.g. `vincent/my-project`.
+ */
 type ProjectOrArtifactReference =
   | {
       project: string;
@@ -68,6 +72,13 @@ function parseProjectOrArtifactReference(key: string):
         error: `Invalid artifact key "${key}": project name cannot be empty`,
       };
     }
+    const projectValidation = validateProject(project);
+    if (!projectValidation.success) {
+      return {
+        success: false,
+        error: `Invalid artifact key "${key}": ${projectValidation.error}`,
+      };
+    }
     if (!tag) {
       return {
         success: false,
@@ -103,6 +114,13 @@ function parseProjectOrArtifactReference(key: string):
         error: `Invalid artifact key "${key}": project name cannot be empty`,
       };
     }
+    const projectValidation = validateProject(project);
+    if (!projectValidation.success) {
+      return {
+        success: false,
+        error: `Invalid artifact key "${key}": ${projectValidation.error}`,
+      };
+    }
     if (!id) {
       return {
         success: false,
@@ -122,12 +140,49 @@ function parseProjectOrArtifactReference(key: string):
       error: `Invalid artifact key "${key}": project name cannot be empty`,
     };
   }
+  const projectValidation = validateProject(project);
+  if (!projectValidation.success) {
+    return {
+      success: false,
+      error: `Invalid artifact key "${key}": ${projectValidation.error}`,
+    };
+  }
   return {
     success: true,
     key: { project, type: "project" },
   };
 }
 
+/**
+ * Validates a project name, optionally prefixed with a namespace: `project` or `namespace/project`.
+ */
+function validateProject(
+  value: string,
+): { success: true } | { success: false; error: string } {
+  const segments = value.split("/");
+  if (segments.length > 2) {
+    return {
+      success: false,
+      error: 'expected format "NAMESPACE/PROJECT", only one "/" is allowed',
+    };
+  }
+  if (segments.length === 2) {
+    if (!segments[0]) {
+      return {
+        success: false,
+        error: "namespace cannot be empty",
+      };
+    }
+    if (!segments[1]) {
+      return {
+        success: false,
+        error: "project name cannot be empty",
+      };
+    }
+  }
+  return { success: true };
+}
+
 function validateTag(
   value: string,
 ): { success: true } | { success: false; error: string } {
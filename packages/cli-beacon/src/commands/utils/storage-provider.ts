@@ -1,21 +1,67 @@
 import {
+  AzureBlobProvider,
   FilesystemStorageProvider,
+  GcsBucketProvider,
+  HttpStorageProvider,
   S3BucketProvider,
 } from "@/storage-provider";
 
-import type { EthokoStorageConfig } from "../../config";
+import type { ProjectConfig } from "../../config/projects";
 import { DebugLogger } from "@/utils/debug-logger";
 
 export function createStorageProvider(
-  storageConfig: EthokoStorageConfig,
+  projectConfig: ProjectConfig,
   logger: DebugLogger,
   debug?: boolean,
 ) {
+  const storageConfig = projectConfig.storage;
+  const protectedTags = projectConfig.protectedTags ?? [];
+  const originalContentLayout = projectConfig.originalContentLayout;
+  const compression = projectConfig.compression;
+  const encryption = projectConfig.encryption;
+
   if (storageConfig.type === "aws") {
     return new S3BucketProvider({
       bucketName: storageConfig.bucketName,
       bucketRegion: storageConfig.region,
       credentials: storageConfig.credentials,
+      protectedTags,
+      originalContentLayout,
+      compression,
+      encryption,
+      debug,
+      logger,
+    });
+  }
+
+  if (storageConfig.type === "gcs") {
+    return new GcsBucketProvider({
+      bucketName: storageConfig.bucketName,
+      projectId: storageConfig.projectId,
+      credentials: storageConfig.credentials,
+      protectedTags,
+      originalContentLayout,
+      debug,
+      logger,
+    });
+  }
+
+  if (storageConfig.type === "azure") {
+    return new AzureBlobProvider({
+      containerName: storageConfig.containerName,
+      credentials: storageConfig.credentials,
+      protectedTags,
+      originalContentLayout,
+      debug,
+      logger,
+    });
+  }
+
+  if (storageConfig.type === "http") {
+    return new HttpStorageProvider({
+      baseUrl: storageConfig.url,
+      token: storageConfig.token,
+      protectedTags,
       debug,
       logger,
     });
@@ -23,6 +69,10 @@ export function createStorageProvider(
 
   return new FilesystemStorageProvider({
     path: storageConfig.path,
+    protectedTags,
+    originalContentLayout,
+    compression,
+    encryption,
     debug,
     logger,
   });
@@ -0,0 +1,111 @@
+import { styleText } from "node:util";
+import { CommandLogger, LOG_COLORS } from "@/ui";
+import type { PushMetadata } from "@/ethoko-artifacts/v0";
+
+/**
+ * Creates a colored table header row with fixed column widths
+ */
+export function colorTableHeaders(
+  logger: CommandLogger,
+  data: Record<string, unknown>[],
+  headers: string[],
+): void {
+  if (data.length === 0) {
+    return;
+  }
+
+  // Calculate the maximum width for each column
+  const columnWidths: Record<string, number> = {};
+  for (const header of headers) {
+    // Start with header length
+    columnWidths[header] = header.length;
+
+    // Check all data rows for maximum width
+    for (const row of data) {
+      const value = row[header];
+      const valueLength = String(value).length;
+      if (valueLength > columnWidths[header]) {
+        columnWidths[header] = valueLength;
+      }
+    }
+  }
+
+  // Pad a string to a specific width
+  const pad = (str: string, width: number): string => {
+    return str + " ".repeat(Math.max(0, width - str.length));
+  };
+
+  // Create header row with fixed widths
+  const headerRow = headers
+    .map((h) => styleText(["bold", LOG_COLORS.log], pad(h, columnWidths[h]!)))
+    .join(" │ ");
+
+  // Create separator row
+  const separatorRow = headers
+    .map((h) => "─".repeat(columnWidths[h]!))
+    .join("─┼─");
+
+  // Print data rows with fixed widths
+  const displayedRows = [];
+  for (const row of data) {
+    const values = headers.map((h) => {
+      const value = row[h];
+      const strValue = String(value);
+      const paddedValue = pad(strValue, columnWidths[h]!);
+
+      // Color the padded value
+      if (typeof value === "string") {
+        // Color tags (strings that look like versions)
+        if ((h === "Tag" || h === "Tags") && value) {
+          return styleText(LOG_COLORS.success, paddedValue);
+        }
+        // Color IDs
+        if (h === "ID" && value) {
+          return styleText(LOG_COLORS.warn, paddedValue);
+        }
+        // Color projects
+        if (h === "Project" && value) {
+          return styleText("magenta", paddedValue);
+        }
+      }
+      return paddedValue;
+    });
+    displayedRows.push(` ${values.join(" │ ")}`);
+  }
+
+  logger.message(
+    `\n ${headerRow}\n ${separatorRow}\n${displayedRows.join("\n")}`,
+  );
+  logger.outro(undefined);
+}
+
+export function deriveTimeAgo(time: string): string {
+  const now = new Date();
+  const then = new Date(time);
+  const diff = now.getTime() - then.getTime();
+  const seconds = Math.floor(diff / 1000);
+  const minutes = Math.floor(seconds / 60);
+  const hours = Math.floor(minutes / 60);
+  const days = Math.floor(hours / 24);
+
+  if (days > 0) {
+    return `${days}d ago`;
+  }
+  if (hours > 0) {
+    return `${hours}h ago`;
+  }
+  if (minutes > 0) {
+    return `${minutes}m ago`;
+  }
+  return `Less than a minute ago`;
+}
+
+/**
+ * Short commit of the push metadata, e.g. "1a2b3c4 (dirty)", empty if unknown
+ */
+export function deriveCommitLabel(metadata: PushMetadata | null): string {
+  if (!metadata?.git) {
+    return "";
+  }
+  return `${metadata.git.commit.slice(0, 7)}${metadata.git.dirty ? " (dirty)" : ""}`;
+}
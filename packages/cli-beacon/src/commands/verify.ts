@@ -0,0 +1,231 @@
+import { styleText } from "node:util";
+import { Command } from "commander";
+import { z } from "zod";
+import { LOG_COLORS, CommandLogger } from "@/ui";
+import { CliError, verifyArtifact, VerifyResult } from "@/client";
+import { LocalArtifactStore } from "@/local-artifact-store";
+import type { EthokoCliConfig } from "@/config";
+import { toAsyncResult } from "@/utils/result";
+import { ProjectOrArtifactReferenceSchema } from "./utils/parse-project-or-artifact-ref";
+import { createStorageProvider } from "./utils/storage-provider";
+import { ArtifactReference } from "@/utils/artifact-reference";
+import { StorageProvider } from "@/storage-provider";
+
+type GetConfig = (configPath?: string) => Promise<EthokoCliConfig>;
+
+export function registerVerifyCommand(
+  program: Command,
+  getConfig: GetConfig,
+): void {
+  program
+    .command("verify")
+    .description(
+      "Verify the integrity of an artifact against the checksums recorded at push time",
+    )
+    .argument(
+      "<PROJECT[:TAG|@ID]>",
+      "Target project and artifact identifier (tag or ID)",
+    )
+    .option(
+      "--remote",
+      "Verify the copy on the storage instead of the Local Artifact Store",
+      false,
+    )
+    .option("--json", "Output JSON", false)
+    .option("--debug", "Enable debug logging", false)
+    .option("--silent", "Suppress output", false)
+    .action(async (projectArg, options) => {
+      const logger = new CommandLogger(options.silent);
+
+      const configResult = await toAsyncResult(getConfig());
+      if (!configResult.success) {
+        logger.error(
+          configResult.error instanceof Error
+            ? configResult.error.message
+            : String(configResult.error),
+        );
+        process.exitCode = 1;
+        return;
+      }
+      const config = configResult.value;
+
+      const artifactRefParsingResult =
+        ProjectOrArtifactReferenceSchema.transform((projectOrArtifactRef) => {
+          if (projectOrArtifactRef.type === "project") {
+            return z.NEVER;
+          }
+          return projectOrArtifactRef;
+        }).safeParse(projectArg);
+      if (!artifactRefParsingResult.success) {
+        logger.error(
+          `Invalid artifact argument:\nThe artifact argument must be a string in the format PROJECT[:TAG|@ID]`,
+        );
+        process.exitCode = 1;
+        return;
+      }
+      const projectConfig = config.getProjectConfig(
+        artifactRefParsingResult.data.project,
+      );
+      if (!projectConfig) {
+        logger.error(
+          `Project "${artifactRefParsingResult.data.project}" not found in configuration`,
+        );
+        process.exitCode = 1;
+        return;
+      }
+
+      const optsParsingResult = z
+        .object({
+          remote: z
+            .boolean('The "remote" option must be a boolean')
+            .default(false),
+          json: z.boolean('The "json" option must be a boolean').default(false),
+          debug: z
+            .boolean('The "debug" option must be a boolean')
+            .default(config.debug),
+        })
+        .safeParse(options);
+      if (!optsParsingResult.success) {
+        logger.error(
+          `Invalid command arguments:\n${z.prettifyError(optsParsingResult.error)}`,
+        );
+        process.exitCode = 1;
+        return;
+      }
+
+      if (!optsParsingResult.data.json) {
+        logger.intro(
+          `Verifying artifact "${projectConfig.name}${artifactRefParsingResult.data.type === "tag" ? `:${artifactRefParsingResult.data.tag}` : `@${artifactRefParsingResult.data.id}`}"`,
+        );
+      }
+
+      await runVerifyCommand(
+        artifactRefParsingResult.data,
+        {
+          storageProvider: createStorageProvider(
+            projectConfig,
+            logger.toDebugLogger(),
+            optsParsingResult.data.debug,
+          ),
+          localArtifactStore: new LocalArtifactStore(
+            config.localArtifactStorePath,
+          ),
+          logger,
+        },
+        {
+          remote: optsParsingResult.data.remote,
+          json: optsParsingResult.data.json,
+          debug: optsParsingResult.data.debug,
+        },
+      )
+        .then((result) => {
+          if (!result.valid) {
+            process.exitCode = 1;
+          }
+        })
+        .catch((err) => {
+          if (err instanceof CliError) {
+            logger.error(err.message);
+          } else {
+            logger.error(
+              "An unexpected error occurred, please fill an issue with the error details if the problem persists",
+            );
+            console.error(err);
+          }
+          process.exitCode = 1;
+        });
+    });
+}
+
+export async function runVerifyCommand(
+  artifactRef: ArtifactReference,
+  dependencies: {
+    storageProvider: StorageProvider;
+    localArtifactStore: LocalArtifactStore;
+    logger: CommandLogger;
+  },
+  opts: { remote: boolean; debug: boolean; json?: boolean },
+): Promise<VerifyResult> {
+  const spinner = dependencies.logger.createSpinner(
+    opts.remote
+      ? "Verifying the artifact on the storage..."
+      : "Verifying the artifact in the Local Artifact Store...",
+  );
+  const result = await verifyArtifact(
+    artifactRef,
+    {
+      storageProvider: dependencies.storageProvider,
+      localArtifactStore: dependencies.localArtifactStore,
+      logger: dependencies.logger.toDebugLogger(),
+    },
+    { remote: opts.remote, debug: opts.debug },
+  ).catch((err) => {
+    spinner.fail("Failed to verify the artifact");
+    throw err;
+  });
+  if (result.valid) {
+    spinner.succeed(`${result.checkedFiles} files verified`);
+  } else {
+    spinner.fail("Integrity check failed");
+  }
+
+  if (opts.json && !dependencies.logger.silent) {
+    console.log(JSON.stringify(result, null, 2));
+  } else {
+    displayVerifyResult(dependencies.logger, result);
+  }
+
+  return result;
+}
+
+function displayVerifyResult(
+  logger: CommandLogger,
+  result: VerifyResult,
+): void {
+  const artifactLabel = result.tag
+    ? `${result.project}:${result.tag}`
+    : `${result.project}@${result.id}`;
+  const location =
+    result.location === "remote"
+      ? "on the storage"
+      : "in the Local Artifact Store";
+
+  if (!result.hasChecksumManifest) {
+    logger.warn(
+      `The artifact "${artifactLabel}" has no checksum manifest, it was pushed before checksums were recorded. Only its ID was verified.`,
+    );
+  } else if (result.location === "local") {
+    logger.info(
+      "The original content is not kept in the Local Artifact Store, use --remote to verify it on the storage.",
+    );
+  }
+
+  if (result.valid) {
+    logger.success(
+      `Artifact "${artifactLabel}" (ID: ${result.id}) is intact ${location}`,
+    );
+    logger.outro();
+    return;
+  }
+
+  const lines: string[] = [];
+  if (result.derivedId !== result.id) {
+    lines.push(
+      styleText(
+        LOG_COLORS.error,
+        result.derivedId
+          ? `  • input.json: compilation input derives the ID ${result.derivedId}`
+          : "  • input.json: invalid input artifact, the ID can not be derived",
+      ),
+    );
+  }
+  for (const mismatch of result.mismatches) {
+    lines.push(
+      styleText(LOG_COLORS.error, `  • ${mismatch.file}: ${mismatch.reason}`),
+    );
+  }
+  logger.note(lines.join("\n"), "Integrity issues");
+  logger.error(
+    `Artifact "${artifactLabel}" (ID: ${result.id}) failed the integrity check ${location}, it may have been tampered with`,
+  );
+}
@@ -42,6 +42,13 @@ describe('"loadGlobalConfig" must parse accordingly to rules', () => {
       },
       /"localArtifactStorePath" cannot be equal to "config.json"/,
     ],
+    [
+      "Solc cache path intentionally empty",
+      {
+        solcCachePath: "",
+      },
+      /"solcCachePath" cannot be an empty string/,
+    ],
     [
       '"projects" field is not an array',
       {
@@ -130,6 +137,7 @@ describe('"loadGlobalConfig" must parse accordingly to rules', () => {
     ["Empty config (should use defaults)", {}],
     ["Relative path", { localArtifactStorePath: "relative/path" }],
     ["Absolute path", { localArtifactStorePath: "/absolute/path" }],
+    ["Solc cache path", { solcCachePath: "solc-binaries" }],
   ] as const;
 
   describe.for(validCases)("%s", ([description, configToTest]) => {
@@ -212,6 +220,7 @@ describe('"loadGlobalConfig" must parse accordingly to rules', () => {
         ".ethoko",
         "local-artifact-store",
       ),
+      solcCachePath: new AbsolutePath(os.homedir(), ".ethoko", "compilers"),
       projects: [],
     });
   });
@@ -27,6 +27,15 @@ const GlobalEthokoConfigSchema = z
       )
       .default("local-artifact-store")
       .pipe(generateAbsolutePathSchema(getEthokoGlobalPath)),
+    // Cache directory of the solc binaries used to recompile artifacts, binaries are downloaded once then used offline
+    solcCachePath: z
+      .string('"solcCachePath" field must be a string or left empty')
+      .min(
+        1,
+        '"solcCachePath" cannot be an empty string. Provide a valid relative path to "~/.ethoko" or leave it empty to use the default path.',
+      )
+      .default("compilers")
+      .pipe(generateAbsolutePathSchema(getEthokoGlobalPath)),
     projects: z
       .array(
         generateProjectConfigSchema(getEthokoGlobalPath),
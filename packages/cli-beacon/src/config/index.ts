@@ -10,6 +10,7 @@ export class EthokoCliConfig {
   public localArtifactStorePath: AbsolutePath;
   public localArtifactStorePathSource: "local" | "global";
   public typingsPath: AbsolutePath;
+  public solcCachePath: AbsolutePath;
   public compilationOutputPath: AbsolutePath | undefined;
   public projects: ProjectConfig[];
   public localConfigPath: AbsolutePath | undefined;
@@ -22,6 +23,7 @@ export class EthokoCliConfig {
     this.localArtifactStorePath = config.localArtifactStorePath;
     this.localArtifactStorePathSource = config.localArtifactStorePathSource;
     this.typingsPath = config.typingsPath;
+    this.solcCachePath = config.solcCachePath;
     this.compilationOutputPath = config.compilationOutputPath;
     this.debug = config.debug;
     this.projects = config.projects;
@@ -39,6 +41,7 @@ interface EthokoConfig {
   localArtifactStorePath: AbsolutePath;
   localArtifactStorePathSource: "local" | "global";
   typingsPath: AbsolutePath;
+  solcCachePath: AbsolutePath;
   compilationOutputPath: AbsolutePath | undefined;
   projects: ProjectConfig[];
   debug: boolean;
@@ -98,6 +101,7 @@ function mergeConfigs(
       ? "local"
       : "global",
     typingsPath: localConfig.typingsPath,
+    solcCachePath: globalConfig.solcCachePath,
     compilationOutputPath: localConfig.compilationOutputPath,
     projects: mergedProjects,
     debug: localConfig.debug,
@@ -112,6 +112,193 @@ describe("Project configuration validation", () => {
       },
       /When "awsRoleArn" is not provided, role configuration fields \("awsRoleExternalId", "awsRoleSessionName", "awsRoleDurationSeconds"\) must be empty/,
     ],
+    // GCS storage specific cases
+    [
+      'Missing "gcsBucketName" field for "gcs" storage',
+      { name: "dummy", storage: { type: "gcs" } },
+      /The "gcsBucketName" field must be a string when "type" is "gcs"/,
+    ],
+    [
+      'Empty "gcsKeyFilename" field for "gcs" storage',
+      {
+        name: "dummy",
+        storage: {
+          type: "gcs",
+          gcsBucketName: "my-bucket",
+          gcsKeyFilename: "",
+        },
+      },
+      /If provided, the "gcsKeyFilename" field must not be an empty string when "type" is "gcs"/,
+    ],
+    // Azure storage specific cases
+    [
+      'Missing "azureContainerName" field for "azure" storage',
+      {
+        name: "dummy",
+        storage: {
+          type: "azure",
+          azureConnectionString: "UseDevelopmentStorage=true",
+        },
+      },
+      /The "azureContainerName" field must be a string when "type" is "azure"/,
+    ],
+    [
+      'Missing credentials for "azure" storage',
+      {
+        name: "dummy",
+        storage: { type: "azure", azureContainerName: "artifacts" },
+      },
+      /Either "azureConnectionString" or "azureAccountName" must be provided when "type" is "azure"/,
+    ],
+    [
+      '"azureAccountName" cannot be provided if "azureConnectionString" filled',
+      {
+        name: "dummy",
+        storage: {
+          type: "azure",
+          azureContainerName: "artifacts",
+          azureConnectionString: "UseDevelopmentStorage=true",
+          azureAccountName: "account",
+        },
+      },
+      /When "azureConnectionString" is provided, account fields \("azureAccountName", "azureAccountKey", "azureSasToken"\) must be empty/,
+    ],
+    [
+      '"azureAccountKey" and "azureSasToken" both provided for "azure" storage',
+      {
+        name: "dummy",
+        storage: {
+          type: "azure",
+          azureContainerName: "artifacts",
+          azureAccountName: "account",
+          azureAccountKey: "key",
+          azureSasToken: "sv=2022-11-02&sig=signature",
+        },
+      },
+      /Only one of "azureAccountKey" or "azureSasToken" can be provided when "type" is "azure"/,
+    ],
+    [
+      '"azureAccountName" without key or SAS token for "azure" storage',
+      {
+        name: "dummy",
+        storage: {
+          type: "azure",
+          azureContainerName: "artifacts",
+          azureAccountName: "account",
+        },
+      },
+      /When "azureAccountName" is provided, one of "azureAccountKey" or "azureSasToken" must be provided as well/,
+    ],
+    // HTTP storage specific cases
+    [
+      'Missing "httpUrl" field for "http" storage',
+      { name: "dummy", storage: { type: "http" } },
+      /The "httpUrl" field must be a string when "type" is "http"/,
+    ],
+    [
+      'Invalid "httpUrl" field for "http" storage',
+      {
+        name: "dummy",
+        storage: { type: "http", httpUrl: "ftp://example.com" },
+      },
+      /The "httpUrl" field must be a valid "http" or "https" URL when "type" is "http"/,
+    ],
+    // Namespaced project names
+    [
+      "Namespaced project name with non-http storage",
+      { name: "vincent/dummy", storage: defaultStorageConfig },
+      /namespaced project names \("namespace\/project"\) are only supported when the storage "type" is "http"/,
+    ],
+    [
+      "Namespaced project name with too many segments",
+      {
+        name: "vincent/dummy/other",
+        storage: { type: "http", httpUrl: "https://central.example.com" },
+      },
+      /a namespaced project name must have the format "namespace\/project"/,
+    ],
+    // Protected tags
+    [
+      "Protected tags is not an array",
+      { name: "dummy", storage: defaultStorageConfig, protectedTags: "v*" },
+      /"protectedTags" field must be an array of tag patterns/,
+    ],
+    [
+      "Protected tags with an empty pattern",
+      { name: "dummy", storage: defaultStorageConfig, protectedTags: [""] },
+      /Each "protectedTags" pattern must be a non-empty string/,
+    ],
+    // Original content layout
+    [
+      "Unknown original content layout",
+      {
+        name: "dummy",
+        storage: defaultStorageConfig,
+        originalContentLayout: "blobs",
+      },
+      /"originalContentLayout" field must be either "files" or "content-addressed"/,
+    ],
+    [
+      "Content-addressed original content layout with http storage",
+      {
+        name: "dummy",
+        storage: { type: "http", httpUrl: "https://central.example.com" },
+        originalContentLayout: "content-addressed",
+      },
+      /the "content-addressed" original content layout is not supported when the storage "type" is "http"/,
+    ],
+    // Compression
+    [
+      "Unknown compression",
+      { name: "dummy", storage: defaultStorageConfig, compression: "brotli" },
+      /"compression" field must be either "gzip" or "zstd"/,
+    ],
+    [
+      "Compression with http storage",
+      {
+        name: "dummy",
+        storage: { type: "http", httpUrl: "https://central.example.com" },
+        compression: "gzip",
+      },
+      /the "compression" field is only supported when the storage "type" is "filesystem" or "aws"/,
+    ],
+    // Encryption
+    [
+      "Unknown encryption type",
+      {
+        name: "dummy",
+        storage: defaultStorageConfig,
+        encryption: { type: "vault" },
+      },
+      /"encryption" field must be a valid encryption configuration object/,
+    ],
+    [
+      "Environment variable encryption without variable name",
+      {
+        name: "dummy",
+        storage: defaultStorageConfig,
+        encryption: { type: "env", envVariable: "" },
+      },
+      /The "envVariable" field is required when the encryption "type" is "env"/,
+    ],
+    [
+      "AWS KMS encryption without key ID",
+      {
+        name: "dummy",
+        storage: defaultStorageConfig,
+        encryption: { type: "aws-kms" },
+      },
+      /The "awsKmsKeyId" field must be a string when the encryption "type" is "aws-kms"/,
+    ],
+    [
+      "Encryption with http storage",
+      {
+        name: "dummy",
+        storage: { type: "http", httpUrl: "https://central.example.com" },
+        encryption: { type: "env", envVariable: "ETHOKO_KEY" },
+      },
+      /the "encryption" field is only supported when the storage "type" is "filesystem" or "aws"/,
+    ],
   ] as const;
 
   test.for(invalidCases)(
@@ -146,6 +333,50 @@ describe("Project configuration validation", () => {
         storage: { type: "filesystem", path: "path/to/storage" },
       },
     ],
+    [
+      "Valid config with protected tags",
+      {
+        name: "dummy",
+        storage: { type: "filesystem" },
+        protectedTags: ["v*", "release-?"],
+      },
+    ],
+    [
+      "Valid config with the content-addressed original content layout",
+      {
+        name: "dummy",
+        storage: { type: "filesystem" },
+        originalContentLayout: "content-addressed",
+      },
+    ],
+    [
+      "Valid config with the zstd compression",
+      { name: "dummy", storage: { type: "filesystem" }, compression: "zstd" },
+    ],
+    [
+      "Valid config with a key file encryption",
+      {
+        name: "dummy",
+        storage: { type: "filesystem" },
+        encryption: { type: "file", keyFile: "secrets/ethoko.key" },
+      },
+    ],
+    [
+      "Valid config with AWS KMS encryption",
+      {
+        name: "dummy",
+        storage: {
+          type: "aws",
+          awsRegion: "us-east-1",
+          awsBucketName: "my-bucket",
+        },
+        encryption: {
+          type: "aws-kms",
+          awsKmsKeyId: "alias/ethoko",
+          awsRegion: "us-east-1",
+        },
+      },
+    ],
     // AWS storage valid cases
     [
       "Minimal valid config with AWS storage and without credentials",
@@ -200,6 +431,84 @@ describe("Project configuration validation", () => {
         },
       },
     ],
+    // GCS storage valid cases
+    [
+      "Minimal valid config with GCS storage and Application Default Credentials",
+      {
+        name: "dummy",
+        storage: { type: "gcs", gcsBucketName: "my-bucket" },
+      },
+    ],
+    [
+      "Valid config with GCS storage and service account key file",
+      {
+        name: "dummy",
+        storage: {
+          type: "gcs",
+          gcsBucketName: "my-bucket",
+          gcsProjectId: "my-project",
+          gcsKeyFilename: "path/to/key.json",
+        },
+      },
+    ],
+    // Azure storage valid cases
+    [
+      "Valid config with Azure storage and connection string",
+      {
+        name: "dummy",
+        storage: {
+          type: "azure",
+          azureContainerName: "artifacts",
+          azureConnectionString: "UseDevelopmentStorage=true",
+        },
+      },
+    ],
+    [
+      "Valid config with Azure storage and account key",
+      {
+        name: "dummy",
+        storage: {
+          type: "azure",
+          azureContainerName: "artifacts",
+          azureAccountName: "account",
+          azureAccountKey: "key",
+        },
+      },
+    ],
+    [
+      "Valid config with Azure storage and SAS token",
+      {
+        name: "dummy",
+        storage: {
+          type: "azure",
+          azureContainerName: "artifacts",
+          azureAccountName: "account",
+          azureSasToken: "sv=2022-11-02&sig=signature",
+        },
+      },
+    ],
+    // HTTP storage valid cases
+    [
+      "Minimal valid config with HTTP storage",
+      {
+        name: "dummy",
+        storage: {
+          type: "http",
+          httpUrl: "https://central.example.com/api/v1",
+        },
+      },
+    ],
+    [
+      "Valid config with HTTP storage, token and namespaced project",
+      {
+        name: "vincent/dummy",
+        storage: {
+          type: "http",
+          httpUrl: "https://central.example.com/api/v1",
+          httpToken: "token",
+        },
+      },
+    ],
   ] as const;
 
   test.for(validCases)(
@@ -241,4 +550,28 @@ describe("Project configuration validation", () => {
       path: new AbsolutePath("/absolute/storage/path"),
     });
   });
+
+  test("for GCS storage, relative key file path is resolved against the specified base path", () => {
+    const basePath = new AbsolutePath("/base/path");
+    const configToTest = {
+      name: "dummy",
+      storage: {
+        type: "gcs",
+        gcsBucketName: "my-bucket",
+        gcsKeyFilename: "keys/service-account.json",
+      },
+    };
+    const parsedConfig = generateProjectConfigSchema(() => basePath).parse(
+      configToTest,
+    );
+    expect(parsedConfig.storage).toEqual({
+      type: "gcs",
+      bucketName: "my-bucket",
+      projectId: undefined,
+      credentials: {
+        type: "keyFile",
+        keyFilename: "/base/path/keys/service-account.json",
+      },
+    });
+  });
 });
@@ -196,6 +196,205 @@ const AwsStorageSchema = z
     };
   });
 
+const AzureStorageSchema = z
+  .object({
+    type: z.literal("azure"),
+    azureContainerName: z
+      .string(
+        'The "azureContainerName" field must be a string when "type" is "azure"',
+      )
+      .min(
+        1,
+        'The "azureContainerName" field is required when "type" is "azure". Provide the name of the Azure Blob Storage container to use for storage.',
+      ),
+    azureConnectionString: z
+      .string(
+        'The "azureConnectionString" field must be a string when "type" is "azure"',
+      )
+      .min(
+        1,
+        'If provided, the "azureConnectionString" field must not be an empty string when "type" is "azure". Provide a valid Azure Storage connection string.',
+      )
+      .optional(),
+    azureAccountName: z
+      .string(
+        'The "azureAccountName" field must be a string when "type" is "azure"',
+      )
+      .min(
+        1,
+        'If provided, the "azureAccountName" field must not be an empty string when "type" is "azure". Provide the name of the Azure Storage account.',
+      )
+      .optional(),
+    azureAccountKey: z
+      .string(
+        'The "azureAccountKey" field must be a string when "type" is "azure"',
+      )
+      .min(
+        1,
+        'If provided, the "azureAccountKey" field must not be an empty string when "type" is "azure". Provide a valid Azure Storage account key.',
+      )
+      .optional(),
+    azureSasToken: z
+      .string(
+        'The "azureSasToken" field must be a string when "type" is "azure"',
+      )
+      .min(
+        1,
+        'If provided, the "azureSasToken" field must not be an empty string when "type" is "azure". Provide a valid SAS token.',
+      )
+      .optional(),
+  })
+  .transform((data, ctx) => {
+    // If a connection string is provided, it carries the account and the credentials
+    if (data.azureConnectionString) {
+      if (data.azureAccountName || data.azureAccountKey || data.azureSasToken) {
+        ctx.addIssue({
+          code: "custom",
+          message:
+            'When "azureConnectionString" is provided, account fields ("azureAccountName", "azureAccountKey", "azureSasToken") must be empty',
+          input: data,
+        });
+        return z.NEVER;
+      }
+      return {
+        type: "azure" as const,
+        containerName: data.azureContainerName,
+        credentials: {
+          type: "connectionString" as const,
+          connectionString: data.azureConnectionString,
+        },
+      };
+    }
+
+    if (!data.azureAccountName) {
+      ctx.addIssue({
+        code: "custom",
+        message:
+          'Either "azureConnectionString" or "azureAccountName" must be provided when "type" is "azure"',
+        input: data,
+      });
+      return z.NEVER;
+    }
+
+    // Account key and SAS token are mutually exclusive ways to authenticate against the account
+    if (data.azureAccountKey && data.azureSasToken) {
+      ctx.addIssue({
+        code: "custom",
+        message:
+          'Only one of "azureAccountKey" or "azureSasToken" can be provided when "type" is "azure"',
+        input: data,
+      });
+      return z.NEVER;
+    }
+    if (data.azureAccountKey) {
+      return {
+        type: "azure" as const,
+        containerName: data.azureContainerName,
+        credentials: {
+          type: "accountKey" as const,
+          accountName: data.azureAccountName,
+          accountKey: data.azureAccountKey,
+        },
+      };
+    }
+    if (data.azureSasToken) {
+      return {
+        type: "azure" as const,
+        containerName: data.azureContainerName,
+        credentials: {
+          type: "sas" as const,
+          accountName: data.azureAccountName,
+          sasToken: data.azureSasToken,
+        },
+      };
+    }
+
+    ctx.addIssue({
+      code: "custom",
+      message:
+        'When "azureAccountName" is provided, one of "azureAccountKey" or "azureSasToken" must be provided as well',
+      input: data,
+    });
+    return z.NEVER;
+  });
+
+const HttpStorageSchema = z
+  .object({
+    type: z.literal("http"),
+    httpUrl: z
+      .string('The "httpUrl" field must be a string when "type" is "http"')
+      .min(
+        1,
+        'The "httpUrl" field is required when "type" is "http". Provide the base URL of the Ethoko Central-compatible API, e.g. "https://central.example.com/api/v1".',
+      )
+      .refine((value) => {
+        try {
+          const url = new URL(value);
+          return url.protocol === "http:" || url.protocol === "https:";
+        } catch {
+          return false;
+        }
+      }, 'The "httpUrl" field must be a valid "http" or "https" URL when "type" is "http"'),
+    httpToken: z
+      .string('The "httpToken" field must be a string when "type" is "http"')
+      .min(
+        1,
+        'If provided, the "httpToken" field must not be an empty string when "type" is "http". Provide the bearer token used to authenticate against the API.',
+      )
+      .optional(),
+  })
+  .transform((data) => ({
+    type: "http" as const,
+    url: data.httpUrl,
+    token: data.httpToken,
+  }));
+
+function generateGcsStorageSchema(basePathResolver: () => AbsolutePath) {
+  return z
+    .object({
+      type: z.literal("gcs"),
+      gcsBucketName: z
+        .string(
+          'The "gcsBucketName" field must be a string when "type" is "gcs"',
+        )
+        .min(
+          1,
+          'The "gcsBucketName" field is required when "type" is "gcs". Provide the name of the Google Cloud Storage bucket to use for storage.',
+        ),
+      gcsProjectId: z
+        .string(
+          'The "gcsProjectId" field must be a string when "type" is "gcs"',
+        )
+        .min(
+          1,
+          'If provided, the "gcsProjectId" field must not be an empty string when "type" is "gcs". Provide the ID of the Google Cloud project owning the bucket.',
+        )
+        .optional(),
+      gcsKeyFilename: z
+        .string(
+          'The "gcsKeyFilename" field must be a string when "type" is "gcs"',
+        )
+        .min(
+          1,
+          'If provided, the "gcsKeyFilename" field must not be an empty string when "type" is "gcs". Provide the path to a service account JSON key file.',
+        )
+        .pipe(generateAbsolutePathSchema(basePathResolver))
+        .optional(),
+    })
+    .transform((data) => ({
+      type: "gcs" as const,
+      bucketName: data.gcsBucketName,
+      projectId: data.gcsProjectId,
+      // Without a key file, Application Default Credentials are used
+      credentials: data.gcsKeyFilename
+        ? {
+            type: "keyFile" as const,
+            keyFilename: data.gcsKeyFilename.resolvedPath,
+          }
+        : undefined,
+    }));
+}
+
 function generateFilesystemStorageSchema(basePathResolver: () => AbsolutePath) {
   return z.object({
     type: z.literal("filesystem"),
@@ -210,19 +409,186 @@ function generateFilesystemStorageSchema(basePathResolver: () => AbsolutePath) {
   });
 }
 
+function generateEncryptionSchema(basePathResolver: () => AbsolutePath) {
+  return z.discriminatedUnion(
+    "type",
+    [
+      z
+        .object({
+          type: z.literal("env"),
+          envVariable: z
+            .string(
+              'The "envVariable" field must be a string when the encryption "type" is "env"',
+            )
+            .min(
+              1,
+              'The "envVariable" field is required when the encryption "type" is "env". Provide the name of the environment variable holding the key.',
+            ),
+        })
+        .transform((data) => ({
+          type: "env" as const,
+          variable: data.envVariable,
+        })),
+      z
+        .object({
+          type: z.literal("file"),
+          keyFile: z
+            .string(
+              'The "keyFile" field must be a string when the encryption "type" is "file"',
+            )
+            .min(
+              1,
+              'The "keyFile" field is required when the encryption "type" is "file". Provide the path to the file holding the key.',
+            )
+            .pipe(generateAbsolutePathSchema(basePathResolver)),
+        })
+        .transform((data) => ({
+          type: "file" as const,
+          path: data.keyFile,
+        })),
+      z
+        .object({
+          type: z.literal("aws-kms"),
+          awsKmsKeyId: z
+            .string(
+              'The "awsKmsKeyId" field must be a string when the encryption "type" is "aws-kms"',
+            )
+            .min(
+              1,
+              'The "awsKmsKeyId" field is required when the encryption "type" is "aws-kms". Provide the ID, ARN or alias of the AWS KMS key.',
+            ),
+          awsRegion: z
+            .string(
+              'The "awsRegion" field must be a string when the encryption "type" is "aws-kms"',
+            )
+            .min(
+              1,
+              'If provided, the "awsRegion" field must not be an empty string when the encryption "type" is "aws-kms"',
+            )
+            .optional(),
+          awsProfile: z
+            .string(
+              'The "awsProfile" field must be a string when the encryption "type" is "aws-kms"',
+            )
+            .min(
+              1,
+              'If provided, the "awsProfile" field must not be an empty string when the encryption "type" is "aws-kms"',
+            )
+            .optional(),
+        })
+        .transform((data) => ({
+          type: "aws-kms" as const,
+          keyId: data.awsKmsKeyId,
+          // Without region or profile, the AWS SDK default providers are used
+          region: data.awsRegion,
+          profile: data.awsProfile,
+        })),
+    ],
+    '"encryption" field must be a valid encryption configuration object. Start with specifying the "type" field as either "env", "file" or "aws-kms" and provide the corresponding key fields.',
+  );
+}
+
 export function generateProjectConfigSchema(
   basePathResolver: () => AbsolutePath,
 ) {
-  return z.object({
-    name: z
-      .string('"name" field must be a string')
-      .min(1, '"name" field must be a non-empty string'),
-    storage: z.discriminatedUnion(
-      "type",
-      [AwsStorageSchema, generateFilesystemStorageSchema(basePathResolver)],
-      '"storage" field must be a valid storage configuration object. Start with specifying the "type" field as either "aws" or "filesystem" and provide the corresponding configuration fields.',
-    ),
-  });
+  return z
+    .object({
+      name: z
+        .string('"name" field must be a string')
+        .min(1, '"name" field must be a non-empty string'),
+      storage: z.discriminatedUnion(
+        "type",
+        [
+          AwsStorageSchema,
+          generateGcsStorageSchema(basePathResolver),
+          AzureStorageSchema,
+          HttpStorageSchema,
+          generateFilesystemStorageSchema(basePathResolver),
+        ],
+        '"storage" field must be a valid storage configuration object. Start with specifying the "type" field as either "aws", "gcs", "azure", "http" or "filesystem" and provide the corresponding configuration fields.',
+      ),
+      // Glob patterns of tags that can never be overwritten, even with `--force`, e.g. `v*`
+      protectedTags: z
+        .array(
+          z
+            .string('Each "protectedTags" pattern must be a string')
+            .min(1, 'Each "protectedTags" pattern must be a non-empty string'),
+          '"protectedTags" field must be an array of tag patterns, e.g. ["v*"]',
+        )
+        .optional(),
+      // Layout of the original content of new pushes, "content-addressed" stores each file once per project under its checksum
+      originalContentLayout: z
+        .enum(
+          ["files", "content-addressed"],
+          '"originalContentLayout" field must be either "files" or "content-addressed"',
+        )
+        .optional(),
+      // Compression of the input and output artifacts of new pushes, artifacts are read whatever their compression
+      compression: z
+        .enum(
+          ["gzip", "zstd"],
+          '"compression" field must be either "gzip" or "zstd"',
+        )
+        .optional(),
+      // Client-side encryption of the input, output and original content artifacts of new pushes
+      encryption: generateEncryptionSchema(basePathResolver).optional(),
+    })
+    .superRefine((data, ctx) => {
+      if (
+        data.compression &&
+        data.storage.type !== "filesystem" &&
+        data.storage.type !== "aws"
+      ) {
+        ctx.addIssue({
+          code: "custom",
+          message: `Project "${data.name}": the "compression" field is only supported when the storage "type" is "filesystem" or "aws"`,
+          path: ["compression"],
+        });
+      }
+      if (
+        data.encryption &&
+        data.storage.type !== "filesystem" &&
+        data.storage.type !== "aws"
+      ) {
+        ctx.addIssue({
+          code: "custom",
+          message: `Project "${data.name}": the "encryption" field is only supported when the storage "type" is "filesystem" or "aws"`,
+          path: ["encryption"],
+        });
+      }
+      // The layout of an Ethoko Central-compatible backend is up to the server
+      if (
+        data.originalContentLayout === "content-addressed" &&
+        data.storage.type === "http"
+      ) {
+        ctx.addIssue({
+          code: "custom",
+          message: `Project "${data.name}": the "content-addressed" original content layout is not supported when the storage "type" is "http", the layout is up to the server`,
+          path: ["originalContentLayout"],
+        });
+      }
+      // Namespaced project names ("namespace/project") only make sense for an Ethoko Central-compatible backend,
+      // other backends carry the namespace implicitly in their bucket, container or path
+      if (!data.name.includes("/")) {
+        return;
+      }
+      if (data.storage.type !== "http") {
+        ctx.addIssue({
+          code: "custom",
+          message: `Project "${data.name}": namespaced project names ("namespace/project") are only supported when the storage "type" is "http"`,
+          path: ["name"],
+        });
+        return;
+      }
+      const segments = data.name.split("/");
+      if (segments.length !== 2 || segments.some((segment) => !segment)) {
+        ctx.addIssue({
+          code: "custom",
+          message: `Project "${data.name}": a namespaced project name must have the format "namespace/project"`,
+          path: ["name"],
+        });
+      }
+    });
 }
 
 export type ProjectConfig = z.infer<
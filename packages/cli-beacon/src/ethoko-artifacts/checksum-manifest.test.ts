@@ -0,0 +1,62 @@
+import { describe, expect, test } from "vitest";
+import { ChecksumManifest } from "./v0";
+import { compareChecksumManifests } from "./checksum-manifest";
+
+const manifest: ChecksumManifest = {
+  _format: "ethoko-checksums-v0",
+  algorithm: "sha256",
+  input: "input-checksum",
+  outputs: [
+    {
+      sourceName: "src/Counter.sol",
+      contractName: "Counter",
+      checksum: "counter-checksum",
+    },
+  ],
+  original: [{ path: "build-info/abc.json", checksum: "build-info-checksum" }],
+};
+
+describe("compareChecksumManifests", () => {
+  test("returns no mismatch for intact files", () => {
+    expect(
+      compareChecksumManifests(manifest, manifest, { original: true }),
+    ).toEqual([]);
+  });
+
+  test("reports modified, missing and unexpected files", () => {
+    const mismatches = compareChecksumManifests(
+      manifest,
+      {
+        input: "tampered",
+        outputs: [
+          {
+            sourceName: "src/Counter.sol",
+            contractName: "Backdoor",
+            checksum: "backdoor-checksum",
+          },
+        ],
+        original: [{ path: "build-info/abc.json", checksum: "tampered" }],
+      },
+      { original: true },
+    );
+    expect(mismatches).toEqual([
+      { file: "input.json", reason: "modified" },
+      { file: "outputs/src/Counter.sol/Counter.json", reason: "missing" },
+      {
+        file: "outputs/src/Counter.sol/Backdoor.json",
+        reason: "unexpected",
+      },
+      { file: "original/build-info/abc.json", reason: "modified" },
+    ]);
+  });
+
+  test("ignores the original content when it is not compared", () => {
+    expect(
+      compareChecksumManifests(
+        manifest,
+        { ...manifest, original: [] },
+        { original: false },
+      ),
+    ).toEqual([]);
+  });
+});
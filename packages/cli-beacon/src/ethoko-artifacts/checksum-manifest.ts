@@ -0,0 +1,147 @@
+import crypto from "crypto";
+import fs from "fs/promises";
+import { Stream } from "stream";
+import {
+  ChecksumManifest,
+  EthokoContractOutputArtifact,
+  EthokoInputArtifact,
+} from "./v0";
+import { AbsolutePath, RelativePath } from "../utils/path";
+
+export type ChecksumMismatch = {
+  // Path of the file relative to the artifact ID folder, e.g. "outputs/src/Counter.sol/Counter.json"
+  file: string;
+  // "modified" if the content differs, "missing" if the file is not stored anymore, "unexpected" if the file is not part of the manifest
+  reason: "modified" | "missing" | "unexpected";
+};
+
+export function computeChecksum(content: string | Buffer): string {
+  return crypto.createHash("sha256").update(content).digest("hex");
+}
+
+export function computeStreamChecksum(stream: Stream): Promise<string> {
+  const hash = crypto.createHash("sha256");
+  return new Promise((resolve, reject) => {
+    stream.on("data", (chunk: Buffer | string) => hash.update(chunk));
+    stream.on("end", () => resolve(hash.digest("hex")));
+    stream.on("error", reject);
+  });
+}
+
+/**
+ * Original content paths are recorded with forward slashes, whatever the platform of the pusher.
+ */
+export function toChecksumPath(relativePath: RelativePath): string {
+  return relativePath.relativePath.replace(/\\/g, "/");
+}
+
+/**
+ * Creates the checksum manifest of an artifact before its upload.
+ *
+ * Input and output artifacts are hashed in their stored form, i.e. serialized with `JSON.stringify`, before any compression.
+ * @param inputArtifact The input artifact
+ * @param contractOutputArtifacts The contract output artifacts
+ * @param originalContent The original compilation content, files are read from the disk
+ */
+export async function createChecksumManifest(
+  inputArtifact: EthokoInputArtifact,
+  contractOutputArtifacts: EthokoContractOutputArtifact[],
+  originalContent: { rootPath: AbsolutePath; paths: RelativePath[] },
+): Promise<ChecksumManifest> {
+  const original: ChecksumManifest["original"] = [];
+  for (const originalContentPath of originalContent.paths) {
+    const content = await fs.readFile(
+      originalContent.rootPath.join(originalContentPath).resolvedPath,
+    );
+    original.push({
+      path: toChecksumPath(originalContentPath),
+      checksum: computeChecksum(content),
+    });
+  }
+  return {
+    _format: "ethoko-checksums-v0",
+    algorithm: "sha256",
+    input: computeChecksum(JSON.stringify(inputArtifact)),
+    outputs: contractOutputArtifacts.map((artifact) => ({
+      sourceName: artifact.sourceName,
+      contractName: artifact.contract,
+      checksum: computeChecksum(JSON.stringify(artifact)),
+    })),
+    original,
+  };
+}
+
+/**
+ * Compares the checksums recorded at push time with the checksums of the stored files.
+ * @param expected The checksum manifest written at push time
+ * @param actual The checksums of the stored files
+ * @param opts.original Whether the original content is compared, the Local Artifact Store does not keep it
+ * @returns The mismatching files, empty if the stored files are intact
+ */
+export function compareChecksumManifests(
+  expected: ChecksumManifest,
+  actual: Pick<ChecksumManifest, "input" | "outputs" | "original">,
+  opts: { original: boolean },
+): ChecksumMismatch[] {
+  const mismatches: ChecksumMismatch[] = [];
+  if (expected.input !== actual.input) {
+    mismatches.push({ file: "input.json", reason: "modified" });
+  }
+  mismatches.push(
+    ...compareFileChecksums(
+      toFileChecksums(expected.outputs),
+      toFileChecksums(actual.outputs),
+    ),
+  );
+  if (opts.original) {
+    mismatches.push(
+      ...compareFileChecksums(
+        new Map(
+          expected.original.map((entry) => [
+            `original/${entry.path}`,
+            entry.checksum,
+          ]),
+        ),
+        new Map(
+          actual.original.map((entry) => [
+            `original/${entry.path}`,
+            entry.checksum,
+          ]),
+        ),
+      ),
+    );
+  }
+  return mismatches;
+}
+
+function toFileChecksums(
+  outputs: ChecksumManifest["outputs"],
+): Map<string, string> {
+  return new Map(
+    outputs.map((entry) => [
+      `outputs/${entry.sourceName}/${entry.contractName}.json`,
+      entry.checksum,
+    ]),
+  );
+}
+
+function compareFileChecksums(
+  expected: Map<string, string>,
+  actual: Map<string, string>,
+): ChecksumMismatch[] {
+  const mismatches: ChecksumMismatch[] = [];
+  for (const [file, checksum] of expected) {
+    const actualChecksum = actual.get(file);
+    if (actualChecksum === undefined) {
+      mismatches.push({ file, reason: "missing" });
+    } else if (actualChecksum !== checksum) {
+      mismatches.push({ file, reason: "modified" });
+    }
+  }
+  for (const file of actual.keys()) {
+    if (!expected.has(file)) {
+      mismatches.push({ file, reason: "unexpected" });
+    }
+  }
+  return mismatches;
+}
@@ -0,0 +1,64 @@
+import z from "zod";
+import { SolcJsonInputSchema } from "../solc-artifacts/v0.8.33/input-json";
+import {
+  EthokoCompilationOrigin,
+  EthokoContractOutputArtifact,
+  EthokoInputArtifact,
+} from "./v0";
+
+export type EthokoCompilation = {
+  // The ID derived from the compilation input, the artifact ID for a single compilation artifact
+  id: string;
+  origin: EthokoCompilationOrigin;
+  solcLongVersion: string;
+  input: z.infer<typeof SolcJsonInputSchema>;
+};
+
+/**
+ * Lists the compilations of an input artifact, a single compilation artifact is its own and only compilation.
+ * @param inputArtifact The input artifact
+ * @throws Error if the input of a compilation is missing
+ * @returns The compilations, in the order of the artifact origin
+ */
+export function listCompilations(
+  inputArtifact: EthokoInputArtifact,
+): EthokoCompilation[] {
+  if (!("inputs" in inputArtifact)) {
+    return [
+      {
+        id: inputArtifact.id,
+        origin: inputArtifact.origin,
+        solcLongVersion: inputArtifact.solcLongVersion,
+        input: inputArtifact.input,
+      },
+    ];
+  }
+  return inputArtifact.origin.compilations.map((compilation) => {
+    const input = inputArtifact.inputs[compilation.id];
+    if (!input) {
+      throw new Error(
+        `The input of the compilation "${compilation.id}" is missing in the artifact "${inputArtifact.id}"`,
+      );
+    }
+    return { ...compilation, input };
+  });
+}
+
+/**
+ * Finds the compilation a contract output artifact comes from.
+ * @param inputArtifact The input artifact
+ * @param contractArtifact The contract output artifact
+ * @returns The compilation, undefined if the compilation referenced by the contract is not in the input artifact
+ */
+export function findContractCompilation(
+  inputArtifact: EthokoInputArtifact,
+  contractArtifact: Pick<EthokoContractOutputArtifact, "compilation">,
+): EthokoCompilation | undefined {
+  const compilations = listCompilations(inputArtifact);
+  if (!contractArtifact.compilation) {
+    return compilations[0];
+  }
+  return compilations.find(
+    (compilation) => compilation.id === contractArtifact.compilation,
+  );
+}
@@ -24,3 +24,19 @@ export function deriveEthokoArtifactId(
   }
   return hash.digest("hex").slice(0, 12);
 }
+
+/**
+ * The ID of a multi-compilation artifact is derived from the IDs of its compilations, regardless of their order.
+ * We update a sha256 hash with each sorted compilation ID and return the first 12 characters of the hex digest.
+ * @param compilationIds The IDs derived from the input of each compilation
+ */
+export function deriveMultiCompilationEthokoArtifactId(
+  compilationIds: string[],
+): string {
+  const hash = crypto.createHash("sha256");
+  hash.update("multi-compilation");
+  for (const compilationId of [...compilationIds].sort()) {
+    hash.update(compilationId);
+  }
+  return hash.digest("hex").slice(0, 12);
+}
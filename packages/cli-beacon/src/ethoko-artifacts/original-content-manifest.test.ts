@@ -0,0 +1,70 @@
+import path from "path";
+import { describe, expect, test } from "vitest";
+import { OriginalContentManifest } from "./v0";
+import {
+  findOriginalContentBlob,
+  listOriginalContentPaths,
+  listUnreferencedBlobs,
+} from "./original-content-manifest";
+import { RelativePath } from "../utils/path";
+
+function createManifest(
+  files: { path: string; checksum: string }[],
+): OriginalContentManifest {
+  return {
+    _format: "ethoko-original-content-v0",
+    algorithm: "sha256",
+    files,
+  };
+}
+
+describe("original content manifest", () => {
+  const manifest = createManifest([
+    { path: "build-info/abc.json", checksum: "build-info-checksum" },
+    {
+      path: "contracts/Counter.sol/Counter.json",
+      checksum: "counter-checksum",
+    },
+  ]);
+
+  test("lists the paths with the separator of the platform", () => {
+    expect(
+      listOriginalContentPaths(manifest).map((p) => p.relativePath),
+    ).toEqual([
+      path.join("build-info", "abc.json"),
+      path.join("contracts", "Counter.sol", "Counter.json"),
+    ]);
+  });
+
+  test("finds the blob of a file", () => {
+    expect(
+      findOriginalContentBlob(
+        manifest,
+        RelativePath.unsafeFrom(path.join("build-info", "abc.json")),
+      ),
+    ).toBe("build-info-checksum");
+    expect(() =>
+      findOriginalContentBlob(
+        manifest,
+        RelativePath.unsafeFrom("missing.json"),
+      ),
+    ).toThrow("is not part of the original content manifest");
+  });
+
+  test("only lists the blobs no remaining artifact references", () => {
+    const otherManifest = createManifest([
+      { path: "build-info/def.json", checksum: "other-build-info-checksum" },
+      {
+        path: "contracts/Counter.sol/Counter.json",
+        checksum: "counter-checksum",
+      },
+    ]);
+    expect(listUnreferencedBlobs(manifest, [otherManifest])).toEqual([
+      "build-info-checksum",
+    ]);
+    expect(listUnreferencedBlobs(manifest, [])).toEqual([
+      "build-info-checksum",
+      "counter-checksum",
+    ]);
+  });
+});
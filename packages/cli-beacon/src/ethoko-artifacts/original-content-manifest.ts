@@ -0,0 +1,67 @@
+import path from "path";
+import { ChecksumManifest, OriginalContentManifest } from "./v0";
+import { RelativePath } from "../utils/path";
+import { toChecksumPath } from "./checksum-manifest";
+
+/**
+ * Creates the original content manifest of an artifact, the checksums of its original content files are the names of their blobs.
+ * @param checksumManifest The checksum manifest of the artifact
+ */
+export function createOriginalContentManifest(
+  checksumManifest: ChecksumManifest,
+): OriginalContentManifest {
+  return {
+    _format: "ethoko-original-content-v0",
+    algorithm: "sha256",
+    files: checksumManifest.original,
+  };
+}
+
+/**
+ * Lists the original content paths of a manifest, with the separator of the platform.
+ */
+export function listOriginalContentPaths(
+  manifest: OriginalContentManifest,
+): RelativePath[] {
+  return manifest.files.map((file) =>
+    RelativePath.unsafeFrom(file.path.replace(/\//g, path.sep)),
+  );
+}
+
+/**
+ * Finds the blob storing an original content file.
+ * @throws Error if the file is not part of the manifest
+ * @returns The checksum of the file, i.e. the name of its blob
+ */
+export function findOriginalContentBlob(
+  manifest: OriginalContentManifest,
+  relativePath: RelativePath,
+): string {
+  const filePath = toChecksumPath(relativePath);
+  const file = manifest.files.find((entry) => entry.path === filePath);
+  if (!file) {
+    throw new Error(
+      `The original content file ${filePath} is not part of the original content manifest`,
+    );
+  }
+  return file.checksum;
+}
+
+/**
+ * Lists the blobs of a deleted artifact that are not referenced by the remaining artifacts of the project, they can be deleted.
+ * @param deletedManifest The original content manifest of the deleted artifact
+ * @param remainingManifests The original content manifests of the other artifacts of the project
+ */
+export function listUnreferencedBlobs(
+  deletedManifest: OriginalContentManifest,
+  remainingManifests: OriginalContentManifest[],
+): string[] {
+  const referencedBlobs = new Set(
+    remainingManifests.flatMap((manifest) =>
+      manifest.files.map((file) => file.checksum),
+    ),
+  );
+  return [
+    ...new Set(deletedManifest.files.map((file) => file.checksum)),
+  ].filter((blob) => !referencedBlobs.has(blob));
+}
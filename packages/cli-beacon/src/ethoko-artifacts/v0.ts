@@ -21,9 +21,12 @@ import {
  * - many output artifacts, one for each contract, which contains the output of the compilation process for that specific contract.
  *   It contains the ID of the input artifact it is linked to, and the output JSON as generated by the Solidity compiler (solc) but only for that specific contract.
  *   Outputs for imported contracts or libraries are not included in this output artifact but will be found in their own output artifacts.
+ *
+ * An Ethoko artifact usually holds a single compilation. A multi-compilation artifact merges several compilations, e.g. for several solc versions or compiler profiles,
+ * its input artifact holds the input of each compilation and each output artifact references the compilation it comes from.
  */
 
-const EthokoArtifactOriginSchema = z.discriminatedUnion("type", [
+const EthokoCompilationOriginSchema = z.discriminatedUnion("type", [
   z.object({
     id: z.string(),
     type: z.literal("forge-v1-default"),
@@ -58,19 +61,84 @@ const EthokoArtifactOriginSchema = z.discriminatedUnion("type", [
   }),
 ]);
 
+const EthokoMultiCompilationOriginSchema = z.object({
+  type: z.literal("multi-compilation"),
+  // Compilations of the artifact, a contract compiled by several of them comes from the first one
+  compilations: z.array(
+    z.object({
+      // The ID derived from the compilation input
+      id: z.string(),
+      solcLongVersion: z.string(),
+      origin: EthokoCompilationOriginSchema,
+    }),
+  ),
+});
+
+const EthokoArtifactOriginSchema = z.discriminatedUnion("type", [
+  ...EthokoCompilationOriginSchema.options,
+  EthokoMultiCompilationOriginSchema,
+]);
+
+export type EthokoCompilationOrigin = z.infer<
+  typeof EthokoCompilationOriginSchema
+>;
 export type EthokoArtifactOrigin = z.infer<typeof EthokoArtifactOriginSchema>;
 
 /**
- * Input artifact schema for Ethoko storage
+ * Push metadata schema, the context of the push of an artifact.
+ * It is stored in the input artifact but is not part of the compilation, the artifact ID does not depend on it
+ */
+export const PushMetadataSchema = z.object({
+  // Git state of the working directory at push time, null if it is not a git repository
+  git: z
+    .object({
+      commit: z.string(),
+      // Null on a detached HEAD
+      branch: z.string().nullable(),
+      // True if the working directory has uncommitted changes
+      dirty: z.boolean(),
+      // URL of the "origin" remote without credentials, null if there is none
+      remoteUrl: z.string().nullable(),
+    })
+    .nullable(),
+  // Labels provided with `--label key=value`
+  labels: z.record(z.string(), z.string()),
+});
+
+/**
+ * Input artifact schema of a single compilation
  */
-export const EthokoInputArtifactSchema = z.object({
+export const EthokoCompilationInputArtifactSchema = z.object({
   id: z.string(),
   _format: z.literal("ethoko-input-v0"),
-  origin: EthokoArtifactOriginSchema,
+  origin: EthokoCompilationOriginSchema,
   solcLongVersion: z.string(),
   input: SolcJsonInputSchema,
+  metadata: PushMetadataSchema.optional(),
+});
+
+/**
+ * Input artifact schema of a multi-compilation artifact
+ */
+export const EthokoMultiCompilationInputArtifactSchema = z.object({
+  id: z.string(),
+  _format: z.literal("ethoko-input-v0"),
+  origin: EthokoMultiCompilationOriginSchema,
+  // The solc versions of the compilations, separated by commas
+  solcLongVersion: z.string(),
+  // The input of each compilation, by compilation ID
+  inputs: z.record(z.string(), SolcJsonInputSchema),
+  metadata: PushMetadataSchema.optional(),
 });
 
+/**
+ * Input artifact schema for Ethoko storage
+ */
+export const EthokoInputArtifactSchema = z.union([
+  EthokoCompilationInputArtifactSchema,
+  EthokoMultiCompilationInputArtifactSchema,
+]);
+
 /**
  * Output artifact schema for Ethoko storage
  */
@@ -81,6 +149,8 @@ export const EthokoContractOutputArtifactSchema = z.object({
   // The name of the contract, e.g. "MyContract"
   contract: z.string(),
   _format: z.literal("ethoko-output-v0"),
+  // The ID of the compilation the contract comes from, only set for multi-compilation artifacts
+  compilation: z.string().optional(),
   output: z.object({
     // The contract output related to the source and contract name of the artifact, as generated by the Solidity compiler (solc).
     contract: SolcContractSchema,
@@ -96,8 +166,119 @@ export const TagManifestSchema = z.object({
   id: z.string(),
 });
 
+/**
+ * Tag history entry schema, an entry is recorded each time a tag manifest is written
+ */
+export const TagHistoryEntrySchema = z.object({
+  // The artifact ID the tag points to after the write, null if the tag was removed
+  id: z.string().nullable(),
+  // The artifact ID the tag pointed to before the write, null if the tag did not exist
+  previousId: z.string().nullable(),
+  // Date of the write, ISO 8601 format
+  timestamp: z.string(),
+  // Identity of the pusher
+  pushedBy: z.object({
+    // Git user of the pusher, e.g. "Vincent <vincent@example.com>"
+    gitUser: z.string().nullable(),
+    // Identity of the caller as known by the storage, e.g. the AWS caller ARN
+    storageIdentity: z.string().nullable(),
+  }),
+  // Version of the Ethoko CLI used for the write
+  cliVersion: z.string(),
+});
+
+/**
+ * Tag history schema, entries are ordered from the oldest to the most recent
+ */
+export const TagHistorySchema = z.object({
+  entries: z.array(TagHistoryEntrySchema),
+});
+
+/**
+ * Artifact summary schema, lightweight metadata of an artifact ID used for listings without downloading the input artifact
+ */
+export const ArtifactSummarySchema = z.object({
+  id: z.string(),
+  origin: EthokoArtifactOriginSchema,
+  solcLongVersion: z.string(),
+  // The contracts of the output artifacts
+  contracts: z.array(
+    z.object({ sourceName: z.string(), contractName: z.string() }),
+  ),
+  // Date of the push, ISO 8601 format, null if unknown
+  pushedAt: z.string().nullable(),
+  // Undefined if the artifact was pushed before push metadata existed
+  metadata: PushMetadataSchema.optional(),
+});
+
+/**
+ * Project index schema, compact summary of the artifacts and tags of a project maintained by the storage providers on every write
+ */
+export const ProjectIndexSchema = z.object({
+  _format: z.literal("ethoko-index-v0"),
+  // Summaries of the artifact IDs, ordered by push
+  artifacts: z.array(ArtifactSummarySchema),
+  // Tag manifests, from tag to artifact ID
+  tags: z.record(z.string(), z.string()),
+});
+
+/**
+ * Checksum manifest schema, sha256 checksums of the stored files of an artifact ID written at push time
+ */
+export const ChecksumManifestSchema = z.object({
+  _format: z.literal("ethoko-checksums-v0"),
+  algorithm: z.literal("sha256"),
+  // Checksum of the input artifact, `input.json`
+  input: z.string(),
+  // Checksums of the contract output artifacts
+  outputs: z.array(
+    z.object({
+      sourceName: z.string(),
+      contractName: z.string(),
+      checksum: z.string(),
+    }),
+  ),
+  // Checksums of the original content files, paths are relative to the original content folder and use forward slashes
+  original: z.array(z.object({ path: z.string(), checksum: z.string() })),
+});
+
+/**
+ * Original content manifest schema, written in place of the original content files with the content-addressed layout.
+ * The files are stored once per project, under their sha256 checksum
+ */
+export const OriginalContentManifestSchema = z.object({
+  _format: z.literal("ethoko-original-content-v0"),
+  algorithm: z.literal("sha256"),
+  // Paths are relative to the original content folder and use forward slashes
+  files: z.array(z.object({ path: z.string(), checksum: z.string() })),
+});
+
+/**
+ * Subset of the input artifact needed to build an artifact summary
+ */
+export const InputArtifactSummarySchema = z.object({
+  origin: EthokoArtifactOriginSchema,
+  solcLongVersion: z.string(),
+  metadata: PushMetadataSchema.optional(),
+});
+
+export type EthokoCompilationInputArtifact = z.infer<
+  typeof EthokoCompilationInputArtifactSchema
+>;
+export type EthokoMultiCompilationInputArtifact = z.infer<
+  typeof EthokoMultiCompilationInputArtifactSchema
+>;
 export type EthokoInputArtifact = z.infer<typeof EthokoInputArtifactSchema>;
+export type PushMetadata = z.infer<typeof PushMetadataSchema>;
 export type EthokoContractOutputArtifact = z.infer<
   typeof EthokoContractOutputArtifactSchema
 >;
 export type TagManifest = z.infer<typeof TagManifestSchema>;
+export type TagHistoryEntry = z.infer<typeof TagHistoryEntrySchema>;
+export type TagHistory = z.infer<typeof TagHistorySchema>;
+export type ArtifactSummary = z.infer<typeof ArtifactSummarySchema>;
+export type ProjectIndex = z.infer<typeof ProjectIndexSchema>;
+export type ChecksumManifest = z.infer<typeof ChecksumManifestSchema>;
+export type OriginalContentManifest = z.infer<
+  typeof OriginalContentManifestSchema
+>;
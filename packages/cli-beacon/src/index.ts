@@ -6,9 +6,14 @@ import { registerDiffCommand } from "./commands/diff.js";
 import { registerExportCommand } from "./commands/export.js";
 import { registerInitCommand } from "./commands/init.js";
 import { registerInspectCommand } from "./commands/inspect.js";
+import { registerVerifyCommand } from "./commands/verify.js";
+import { registerReproduceCommand } from "./commands/reproduce.js";
 import { registerPullCommand } from "./commands/pull.js";
 import { registerPushCommand } from "./commands/push.js";
 import { registerRestoreCommand } from "./commands/restore.js";
+import { registerTagCommand } from "./commands/tag.js";
+import { registerDeleteCommand } from "./commands/delete.js";
+import { registerRemoteCommand } from "./commands/remote.js";
 import { registerTypingsCommand } from "./commands/typings.js";
 import { registerConfigCommand } from "./commands/config.js";
 import { registerPruneCommand } from "./commands/prune.js";
@@ -37,8 +42,13 @@ registerConfigCommand(program, getConfig);
 registerPruneCommand(program, getConfig);
 registerPushCommand(program, getConfig);
 registerPullCommand(program, getConfig);
+registerTagCommand(program, getConfig);
+registerDeleteCommand(program, getConfig);
+registerRemoteCommand(program, getConfig);
 registerDiffCommand(program, getConfig);
 registerInspectCommand(program, getConfig);
+registerVerifyCommand(program, getConfig);
+registerReproduceCommand(program, getConfig);
 registerArtifactsCommand(program, getConfig);
 registerTypingsCommand(program, getConfig);
 registerExportCommand(program, getConfig);
@@ -0,0 +1,53 @@
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, test } from "vitest";
+import { AbsolutePath } from "@/utils/path";
+import { LocalArtifactStore } from "./local-artifact-store";
+
+describe("LocalArtifactStore.listProjects", () => {
+  let rootPath: AbsolutePath;
+
+  beforeEach(async () => {
+    rootPath = new AbsolutePath(
+      await fs.mkdtemp(path.join(os.tmpdir(), "ethoko-local-store-")),
+    );
+  });
+
+  afterEach(async () => {
+    await fs.rm(rootPath.resolvedPath, { recursive: true, force: true });
+  });
+
+  test("lists set up projects without artifacts and namespaced projects", async () => {
+    const store = new LocalArtifactStore(rootPath);
+    await store.ensureProjectSetup("empty");
+    await store.ensureProjectSetup("acme/vault");
+    // A project without any artifact nor tag folder is still a project once set up
+    await fs.rm(rootPath.join("empty", "ids").resolvedPath, {
+      recursive: true,
+    });
+    await fs.rm(rootPath.join("empty", "tags").resolvedPath, {
+      recursive: true,
+    });
+
+    expect((await store.listProjects()).sort()).toEqual([
+      "acme/vault",
+      "empty",
+    ]);
+  });
+
+  test("recognizes the projects set up before the project marker existed", async () => {
+    await fs.mkdir(rootPath.join("legacy", "ids").resolvedPath, {
+      recursive: true,
+    });
+    await fs.mkdir(rootPath.join("acme", "token", "tags").resolvedPath, {
+      recursive: true,
+    });
+
+    const store = new LocalArtifactStore(rootPath);
+    expect((await store.listProjects()).sort()).toEqual([
+      "acme/token",
+      "legacy",
+    ]);
+  });
+});
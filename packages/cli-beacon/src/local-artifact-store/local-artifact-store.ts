@@ -2,16 +2,24 @@ import fs from "fs/promises";
 import path from "path";
 import { Stream } from "stream";
 import {
+  type ChecksumManifest,
+  ChecksumManifestSchema,
   type EthokoContractOutputArtifact,
   EthokoContractOutputArtifactSchema,
   type EthokoInputArtifact,
   EthokoInputArtifactSchema,
+  type PushMetadata,
+  PushMetadataSchema,
   type TagManifest,
   TagManifestSchema,
 } from "../ethoko-artifacts/v0";
-import { Dirent } from "fs";
+import { createReadStream, Dirent } from "fs";
+import { z } from "zod";
 import { AbsolutePath } from "@/utils/path";
 
+// Marker file of a project directory, so that a project without artifacts is not taken for a namespace
+const PROJECT_MARKER_FILE = ".ethoko-project";
+
 /**
  * Local Artifact Store: on-disk store for Ethoko artifacts.
  *
@@ -20,7 +28,9 @@ import { AbsolutePath } from "@/utils/path";
  * Storage layout (relative to rootPath)
  * - {project}/ids/{id}/input.json
  * - {project}/ids/{id}/outputs/{sourceName}/{contractName}.json
+ * - {project}/ids/{id}/checksums.json (checksum manifest of the pushed artifact, if any)
  * - {project}/tags/{tag}.json (manifest: { id })
+ * - {project}/.ethoko-project (marker of a project directory, written when the project is set up)
  */
 export class LocalArtifactStore {
   public readonly rootPath: AbsolutePath;
@@ -51,17 +61,29 @@ export class LocalArtifactStore {
 
   /**
    * Lists all projects in the store.
+   *
+   * Namespaced projects (`namespace/project`) are stored one level deeper, a directory
+   * without project marker is considered as a namespace.
    * @returns The list of project names.
    */
   public async listProjects(): Promise<string[]> {
-    const entries = await fs
-      .readdir(this.rootPath.resolvedPath, {
-        withFileTypes: true,
-      })
-      .catch(() => []);
-    return entries
-      .filter((entry) => entry.isDirectory())
-      .map((entry) => entry.name);
+    const entries = await this.safeReadDir(this.rootPath.resolvedPath);
+    const projects: string[] = [];
+    for (const entry of entries) {
+      if (!entry.isDirectory()) continue;
+      if (await this.isProjectDirectory(this.rootPath.join(entry.name))) {
+        projects.push(entry.name);
+        continue;
+      }
+      const namespaceEntries = await this.safeReadDir(
+        this.rootPath.join(entry.name).resolvedPath,
+      );
+      for (const namespaceEntry of namespaceEntries) {
+        if (!namespaceEntry.isDirectory()) continue;
+        projects.push(`${entry.name}/${namespaceEntry.name}`);
+      }
+    }
+    return projects;
   }
 
   /**
@@ -183,6 +205,7 @@ export class LocalArtifactStore {
    * @param id The artifact ID.
    * @param inputArtifact The input artifact content.
    * @param contractOutputArtifacts The contract output artifacts content.
+   * @param checksums The checksum manifest of the artifact, undefined if the artifact was pushed without checksums.
    */
   public async createArtifact(
     project: string,
@@ -195,6 +218,7 @@ export class LocalArtifactStore {
         contractName: string;
         stream: Stream;
       }[];
+      checksums?: ChecksumManifest;
     },
   ): Promise<void> {
     const idDir = this.idPath(project, id);
@@ -216,6 +240,14 @@ export class LocalArtifactStore {
           .then(() => fs.writeFile(contractPath.resolvedPath, stream));
       }),
     ];
+    if (artifacts.checksums) {
+      promises.push(
+        fs.writeFile(
+          this.checksumsPath(project, id).resolvedPath,
+          JSON.stringify(artifacts.checksums),
+        ),
+      );
+    }
     if (tag) {
       const manifest: TagManifest = { id };
       promises.push(
@@ -260,6 +292,26 @@ export class LocalArtifactStore {
     return EthokoInputArtifactSchema.parse(rawArtifact);
   }
 
+  /**
+   * Retrieves the push metadata of the given ID, without validating the compilation input.
+   * @param project The project name.
+   * @param id The artifact ID.
+   * @returns The push metadata, null if the artifact was pushed before push metadata existed.
+   */
+  public async retrievePushMetadata(
+    project: string,
+    id: string,
+  ): Promise<PushMetadata | null> {
+    const artifactContent = await fs.readFile(
+      this.inputArtifactPath(project, id).resolvedPath,
+      "utf-8",
+    );
+    const { metadata } = z
+      .object({ metadata: PushMetadataSchema.optional() })
+      .parse(JSON.parse(artifactContent));
+    return metadata ?? null;
+  }
+
   /**
    * Retrieves the contract output artifact associated with the given ID, source name and contract name.
    * @param project The project name.
@@ -283,6 +335,60 @@ export class LocalArtifactStore {
     return EthokoContractOutputArtifactSchema.parse(rawArtifact);
   }
 
+  /**
+   * Retrieves the checksum manifest associated with the given ID.
+   * @param project The project name.
+   * @param id The artifact ID.
+   * @returns The checksum manifest, undefined if the artifact was pushed without checksums.
+   */
+  public async retrieveChecksumManifest(
+    project: string,
+    id: string,
+  ): Promise<ChecksumManifest | undefined> {
+    const checksumsPath = this.checksumsPath(project, id);
+    if (!(await this.exists(checksumsPath))) {
+      return undefined;
+    }
+    const manifestContent = await fs.readFile(
+      checksumsPath.resolvedPath,
+      "utf-8",
+    );
+    return ChecksumManifestSchema.parse(JSON.parse(manifestContent));
+  }
+
+  /**
+   * Streams the stored input and contract output artifacts associated with the given ID, as they are on disk.
+   * @param project The project name.
+   * @param id The artifact ID.
+   * @returns The input artifact stream and the contract output artifact streams.
+   */
+  public async streamArtifact(
+    project: string,
+    id: string,
+  ): Promise<{
+    input: Stream;
+    contractOutputArtifacts: {
+      sourceName: string;
+      contractName: string;
+      stream: Stream;
+    }[];
+  }> {
+    const contractArtifacts = await this.listContractArtifacts(project, id);
+    return {
+      input: createReadStream(this.inputArtifactPath(project, id).resolvedPath),
+      contractOutputArtifacts: contractArtifacts.map(
+        ({ sourceName, contractName }) => ({
+          sourceName,
+          contractName,
+          stream: createReadStream(
+            this.contractOutputPath(project, id, sourceName, contractName)
+              .resolvedPath,
+          ),
+        }),
+      ),
+    };
+  }
+
   /**
    * Retrieve the artifact ID from the content of the artifact associated with the given tag.
    * @param project The project name.
@@ -320,6 +426,23 @@ export class LocalArtifactStore {
     });
   }
 
+  /**
+   * Creates or overwrites a tag file pointing to an artifact ID.
+   * @param project The project name.
+   * @param tag The tag name.
+   * @param id The artifact ID.
+   */
+  public async createTag(
+    project: string,
+    tag: string,
+    id: string,
+  ): Promise<void> {
+    const tagPath = this.tagPath(project, tag);
+    await fs.mkdir(tagPath.dirname().resolvedPath, { recursive: true });
+    const manifest: TagManifest = { id };
+    await fs.writeFile(tagPath.resolvedPath, JSON.stringify(manifest));
+  }
+
   /**
    * Deletes a specific tag file.
    */
@@ -354,7 +477,24 @@ export class LocalArtifactStore {
         await fs.mkdir(path.resolvedPath, { recursive: true });
       }
     }
+    const markerPath = this.projectPath(project).join(PROJECT_MARKER_FILE);
+    if (!(await this.exists(markerPath))) {
+      await fs.writeFile(markerPath.resolvedPath, "");
+    }
+  }
+
+  /**
+   * A project directory holds the project marker, or `ids` or `tags` folders for a project set up before the marker existed.
+   */
+  private async isProjectDirectory(directory: AbsolutePath): Promise<boolean> {
+    const [hasMarker, hasIds, hasTags] = await Promise.all([
+      this.exists(directory.join(PROJECT_MARKER_FILE)),
+      this.exists(directory.join("ids")),
+      this.exists(directory.join("tags")),
+    ]);
+    return hasMarker || hasIds || hasTags;
   }
+
   private projectPath(project: string): AbsolutePath {
     return this.rootPath.join(project);
   }
@@ -371,6 +511,10 @@ export class LocalArtifactStore {
     return this.idPath(project, id).join("input.json");
   }
 
+  private checksumsPath(project: string, id: string): AbsolutePath {
+    return this.idPath(project, id).join("checksums.json");
+  }
+
   private outputsPath(project: string, id: string): AbsolutePath {
     return this.idPath(project, id).join("outputs");
   }
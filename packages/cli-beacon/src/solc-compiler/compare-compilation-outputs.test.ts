@@ -0,0 +1,87 @@
+import { describe, expect, test } from "vitest";
+import { z } from "zod";
+import { SolcContractSchema } from "@/solc-artifacts/v0.8.33/output-json";
+import {
+  compareContractOutput,
+  parseRecompiledOutput,
+} from "./compare-compilation-outputs";
+
+const storedContract: z.infer<typeof SolcContractSchema> = {
+  abi: [],
+  metadata: '{"compiler":{"version":"0.8.28+commit.7893614a"}}',
+  evm: {
+    bytecode: { object: "6080ABCD", linkReferences: {} },
+    deployedBytecode: { object: "6080EF", linkReferences: {} },
+  },
+};
+const contract = { sourceName: "src/Counter.sol", contractName: "Counter" };
+
+describe("parseRecompiledOutput", () => {
+  test("keeps the errors with the error severity only", () => {
+    const output = parseRecompiledOutput({
+      errors: [
+        { severity: "warning", message: "unused variable" },
+        {
+          severity: "error",
+          message: "undeclared identifier",
+          formattedMessage: "DeclarationError: undeclared identifier",
+        },
+      ],
+    });
+    expect(output).toEqual({
+      errors: ["DeclarationError: undeclared identifier"],
+      contracts: {},
+    });
+  });
+});
+
+describe("compareContractOutput", () => {
+  test("matches identical outputs regardless of the 0x prefix and case", () => {
+    const output = parseRecompiledOutput({
+      contracts: {
+        "src/Counter.sol": {
+          Counter: {
+            metadata: storedContract.metadata,
+            evm: {
+              bytecode: { object: "0x6080abcd" },
+              deployedBytecode: { object: "6080ef" },
+            },
+          },
+        },
+      },
+    });
+    expect(compareContractOutput(storedContract, output, contract)).toEqual({
+      bytecode: "match",
+      deployedBytecode: "match",
+      metadata: "match",
+    });
+  });
+
+  test("reports mismatching and missing outputs", () => {
+    const output = parseRecompiledOutput({
+      contracts: {
+        "src/Counter.sol": {
+          Counter: {
+            metadata: '{"compiler":{"version":"0.8.29+commit.ab55807c"}}',
+            evm: { bytecode: { object: "6080abce" } },
+          },
+        },
+      },
+    });
+    expect(compareContractOutput(storedContract, output, contract)).toEqual({
+      bytecode: "mismatch",
+      deployedBytecode: "missing",
+      metadata: "mismatch",
+    });
+    expect(
+      compareContractOutput(storedContract, output, {
+        ...contract,
+        contractName: "Other",
+      }),
+    ).toEqual({
+      bytecode: "missing",
+      deployedBytecode: "missing",
+      metadata: "missing",
+    });
+  });
+});
@@ -0,0 +1,112 @@
+import { z } from "zod";
+import { SolcContractSchema } from "@/solc-artifacts/v0.8.33/output-json";
+
+/**
+ * Result of the comparison of a stored contract output with its recompiled output
+ * - `match`: the recompiled output is identical to the stored one,
+ * - `mismatch`: the recompiled output differs from the stored one,
+ * - `missing`: the contract is not in the recompiled output.
+ */
+export type ReproductionStatus = "match" | "mismatch" | "missing";
+
+export type ContractReproduction = {
+  bytecode: ReproductionStatus;
+  deployedBytecode: ReproductionStatus;
+  metadata: ReproductionStatus;
+};
+
+// The recompiled output is parsed leniently, only the compared fields are required to be well formed
+const RecompiledContractSchema = z.object({
+  metadata: z.string().optional(),
+  evm: z
+    .object({
+      bytecode: z.object({ object: z.string() }).optional(),
+      deployedBytecode: z.object({ object: z.string() }).optional(),
+    })
+    .optional(),
+});
+
+const RecompiledOutputSchema = z.object({
+  errors: z
+    .array(
+      z.object({
+        severity: z.string(),
+        message: z.string(),
+        formattedMessage: z.string().optional(),
+      }),
+    )
+    .optional(),
+  contracts: z
+    .record(z.string(), z.record(z.string(), RecompiledContractSchema))
+    .optional(),
+});
+
+export type RecompiledOutput = {
+  // Formatted messages of the errors with the "error" severity, warnings are ignored
+  errors: string[];
+  contracts: Record<
+    string,
+    Record<string, z.infer<typeof RecompiledContractSchema>>
+  >;
+};
+
+/**
+ * Parses the standard JSON output of solc
+ * @param rawOutput The parsed JSON output of solc
+ * @throws Error if the output does not have the standard JSON output format
+ */
+export function parseRecompiledOutput(rawOutput: unknown): RecompiledOutput {
+  const output = RecompiledOutputSchema.parse(rawOutput);
+  return {
+    errors: (output.errors ?? [])
+      .filter((error) => error.severity === "error")
+      .map((error) => error.formattedMessage ?? error.message),
+    contracts: output.contracts ?? {},
+  };
+}
+
+/**
+ * Compares a stored contract output with its recompiled output, bytecodes are compared without the `0x` prefix and case
+ * @param storedContract The contract output of the stored contract output artifact
+ * @param recompiledOutput The recompiled output
+ * @param contract.sourceName The source name of the contract
+ * @param contract.contractName The name of the contract
+ */
+export function compareContractOutput(
+  storedContract: z.infer<typeof SolcContractSchema>,
+  recompiledOutput: RecompiledOutput,
+  contract: { sourceName: string; contractName: string },
+): ContractReproduction {
+  const recompiledContract =
+    recompiledOutput.contracts[contract.sourceName]?.[contract.contractName];
+  return {
+    bytecode: compareValues(
+      normalizeBytecode(storedContract.evm.bytecode.object),
+      recompiledContract?.evm?.bytecode &&
+        normalizeBytecode(recompiledContract.evm.bytecode.object),
+    ),
+    deployedBytecode: compareValues(
+      normalizeBytecode(storedContract.evm.deployedBytecode.object),
+      recompiledContract?.evm?.deployedBytecode &&
+        normalizeBytecode(recompiledContract.evm.deployedBytecode.object),
+    ),
+    metadata: compareValues(
+      storedContract.metadata,
+      recompiledContract?.metadata,
+    ),
+  };
+}
+
+function compareValues(
+  stored: string,
+  recompiled: string | undefined,
+): ReproductionStatus {
+  if (recompiled === undefined) {
+    return "missing";
+  }
+  return stored === recompiled ? "match" : "mismatch";
+}
+
+function normalizeBytecode(bytecode: string): string {
+  return bytecode.replace(/^0x/, "").toLowerCase();
+}
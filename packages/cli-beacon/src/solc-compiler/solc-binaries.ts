@@ -0,0 +1,165 @@
+import crypto from "crypto";
+import fs from "fs/promises";
+import { spawn } from "child_process";
+import { z } from "zod";
+import { AbsolutePath } from "@/utils/path";
+
+const SOLC_BINARIES_URL = "https://binaries.soliditylang.org";
+
+const SolcBuildListSchema = z.object({
+  builds: z.array(
+    z.object({
+      path: z.string(),
+      version: z.string(),
+      longVersion: z.string(),
+      sha256: z.string(),
+    }),
+  ),
+});
+
+/**
+ * Platform folder of the native solc binaries, as published on binaries.soliditylang.org
+ * @throws Error if no native binary is published for the platform
+ */
+export function getSolcPlatform(): string {
+  if (process.platform === "linux" && process.arch === "x64") {
+    return "linux-amd64";
+  }
+  if (process.platform === "linux" && process.arch === "arm64") {
+    return "linux-arm64";
+  }
+  // The macOS binaries are universal binaries since 0.8.24, older ones run through Rosetta on Apple Silicon
+  if (process.platform === "darwin") {
+    return "macosx-amd64";
+  }
+  if (process.platform === "win32" && process.arch === "x64") {
+    return "windows-amd64";
+  }
+  throw new Error(
+    `No native solc binary is published for the platform ${process.platform}-${process.arch}`,
+  );
+}
+
+/**
+ * Path of a solc binary in the cache, `{cachePath}/{platform}/solc-v{version}`
+ * @param cachePath The solc binaries cache directory
+ * @param solcVersion The long version, e.g. `0.8.28+commit.7893614a`, or the short version, e.g. `0.8.28`
+ */
+export function deriveSolcBinaryPath(
+  cachePath: AbsolutePath,
+  solcVersion: string,
+): AbsolutePath {
+  const platform = getSolcPlatform();
+  return cachePath.join(
+    platform,
+    `solc-v${solcVersion}${platform === "windows-amd64" ? ".exe" : ""}`,
+  );
+}
+
+/**
+ * Returns the path of the solc binary of a version, downloaded in the cache if it is not there yet.
+ * A cached binary is used as is, no network is needed.
+ * A downloaded binary is checked against the sha256 checksum of the list of builds before being written in the cache.
+ * @param cachePath The solc binaries cache directory
+ * @param solcVersion The long version, e.g. `0.8.28+commit.7893614a`, or the short version, e.g. `0.8.28`
+ * @returns The path of the binary
+ * @throws Error if the version is not published or if the download fails
+ */
+export async function ensureSolcBinary(
+  cachePath: AbsolutePath,
+  solcVersion: string,
+): Promise<AbsolutePath> {
+  const binaryPath = deriveSolcBinaryPath(cachePath, solcVersion);
+  const isCached = await fs
+    .stat(binaryPath.resolvedPath)
+    .then((stats) => stats.isFile())
+    .catch(() => false);
+  if (isCached) {
+    return binaryPath;
+  }
+
+  const platform = getSolcPlatform();
+  const listResponse = await fetch(
+    `${SOLC_BINARIES_URL}/${platform}/list.json`,
+  );
+  if (!listResponse.ok) {
+    throw new Error(
+      `Failed to fetch the solc builds of ${platform}: ${listResponse.status} ${listResponse.statusText}`,
+    );
+  }
+  const { builds } = SolcBuildListSchema.parse(await listResponse.json());
+  const build = builds.find((b) =>
+    solcVersion.includes("+")
+      ? b.longVersion === solcVersion
+      : b.version === solcVersion,
+  );
+  if (!build) {
+    throw new Error(
+      `No solc ${solcVersion} build is published for ${platform}`,
+    );
+  }
+
+  const binaryResponse = await fetch(
+    `${SOLC_BINARIES_URL}/${platform}/${build.path}`,
+  );
+  if (!binaryResponse.ok) {
+    throw new Error(
+      `Failed to download solc ${solcVersion}: ${binaryResponse.status} ${binaryResponse.statusText}`,
+    );
+  }
+  const binary = Buffer.from(await binaryResponse.arrayBuffer());
+  const checksum = crypto.createHash("sha256").update(binary).digest("hex");
+  if (checksum !== build.sha256.replace(/^0x/, "")) {
+    throw new Error(
+      `The downloaded solc ${solcVersion} binary does not match its published checksum`,
+    );
+  }
+
+  // The binary is written next to its final path then renamed, an interrupted download does not leave a truncated binary in the cache
+  await fs.mkdir(binaryPath.dirname().resolvedPath, { recursive: true });
+  const downloadPath = `${binaryPath.resolvedPath}.${process.pid}.download`;
+  await fs.writeFile(downloadPath, binary, { mode: 0o755 });
+  await fs.rename(downloadPath, binaryPath.resolvedPath);
+  return binaryPath;
+}
+
+/**
+ * Runs a solc binary with the standard JSON interface
+ * @param binaryPath The path of the solc binary
+ * @param input The standard JSON input
+ * @returns The parsed standard JSON output
+ * @throws Error if the binary fails or its output is not JSON
+ */
+export function compileStandardJson(
+  binaryPath: AbsolutePath,
+  input: unknown,
+): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(binaryPath.resolvedPath, ["--standard-json"], {
+      stdio: ["pipe", "pipe", "pipe"],
+    });
+    const stdout: Buffer[] = [];
+    const stderr: Buffer[] = [];
+    child.stdout.on("data", (chunk: Buffer) => stdout.push(chunk));
+    child.stderr.on("data", (chunk: Buffer) => stderr.push(chunk));
+    child.on("error", reject);
+    // A binary exiting before reading its whole input is reported by its exit code, not by the broken pipe
+    child.stdin.on("error", () => {});
+    child.on("close", (code) => {
+      if (code !== 0) {
+        reject(
+          new Error(
+            `solc exited with code ${code}: ${Buffer.concat(stderr).toString("utf-8")}`,
+          ),
+        );
+        return;
+      }
+      try {
+        resolve(JSON.parse(Buffer.concat(stdout).toString("utf-8")));
+      } catch {
+        reject(new Error("The solc output is not valid JSON"));
+      }
+    });
+    child.stdin.end(JSON.stringify(input));
+  });
+}
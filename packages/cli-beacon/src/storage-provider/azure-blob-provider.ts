@@ -0,0 +1,962 @@
+import { Stream } from "stream";
+import {
+  BlobServiceClient,
+  ContainerClient,
+  RestError,
+  StorageSharedKeyCredential,
+} from "@azure/storage-blob";
+import {
+  ArtifactSummary,
+  ChecksumManifest,
+  ChecksumManifestSchema,
+  EthokoContractOutputArtifact,
+  EthokoInputArtifact,
+  InputArtifactSummarySchema,
+  OriginalContentManifest,
+  OriginalContentManifestSchema,
+  ProjectIndex,
+  ProjectIndexSchema,
+  TagHistory,
+  TagHistoryEntry,
+  TagHistorySchema,
+  TagManifest,
+  TagManifestSchema,
+} from "../ethoko-artifacts/v0";
+import {
+  OriginalContentLayout,
+  StorageProvider,
+  StorageUpdateResult,
+} from "./storage-provider.interface";
+import fs from "fs/promises";
+import { AbsolutePath, RelativePath } from "@/utils/path";
+import path from "path";
+import { DebugLogger } from "@/utils/debug-logger";
+import { findMatchingTagPattern } from "@/utils/tag-pattern";
+import {
+  createProjectIndex,
+  indexDeletedArtifact,
+  indexTag,
+  indexUploadedArtifact,
+  ProjectIndexUpdate,
+  summarizeArtifact,
+  updateProjectIndex,
+} from "./project-index";
+import { applyOptimisticUpdate } from "./optimistic-update";
+import { createChecksumManifest } from "../ethoko-artifacts/checksum-manifest";
+import {
+  createOriginalContentManifest,
+  findOriginalContentBlob,
+  listOriginalContentPaths,
+  listUnreferencedBlobs,
+} from "../ethoko-artifacts/original-content-manifest";
+
+type AzureBlobProviderConfig = {
+  containerName: string;
+  credentials:
+    | {
+        type: "connectionString";
+        connectionString: string;
+      }
+    | {
+        type: "accountKey";
+        accountName: string;
+        accountKey: string;
+      }
+    | {
+        type: "sas";
+        accountName: string;
+        sasToken: string;
+      };
+  protectedTags?: string[]; // Glob patterns of tags that can never be overwritten
+  originalContentLayout?: OriginalContentLayout; // Layout of the original content of new uploads, defaults to "files"
+  debug?: boolean;
+  rootPath?: string;
+  logger: DebugLogger;
+};
+
+export class AzureBlobProvider implements StorageProvider {
+  /**
+   * Azure Blob storage layout (prefix under rootPath)
+   * - {project}/ids/{id}/input.json
+   * - {project}/ids/{id}/original/** (original compilation content)
+   * - {project}/ids/{id}/original.json (original content manifest: { files }, content-addressed layout)
+   * - {project}/blobs/{checksum} (original content files, content-addressed layout)
+   * - {project}/tags/{tag}.json (manifest: { id })
+   * - {project}/tag-history/{tag}.json (history: { entries })
+   *
+   * Manifests of protected tags are written with the `If-None-Match: *` condition,
+   * so that the container itself rejects any overwrite.
+   * The index and the tag histories are updated with conditional writes on their ETag, retried on conflicts.
+   */
+  private readonly config: AzureBlobProviderConfig;
+  private containerClient: ContainerClient | undefined;
+  private readonly rootPath: string;
+  private readonly logger: DebugLogger;
+  // Original content manifests by "{project}/{id}", an artifact ID never changes once uploaded
+  private readonly originalContentManifests = new Map<
+    string,
+    OriginalContentManifest | undefined
+  >();
+
+  constructor(config: AzureBlobProviderConfig) {
+    this.config = config;
+    this.rootPath = config.rootPath || "projects";
+    this.logger = config.logger;
+  }
+
+  private getContainerClient(): ContainerClient {
+    if (this.containerClient) {
+      return this.containerClient;
+    }
+
+    const credentialsConfig = this.config.credentials;
+    let serviceClient: BlobServiceClient;
+    if (credentialsConfig.type === "connectionString") {
+      if (this.config.debug) {
+        this.logger.debug(
+          "Azure connection string provided in config, creating client from it",
+        );
+      }
+      serviceClient = BlobServiceClient.fromConnectionString(
+        credentialsConfig.connectionString,
+      );
+    } else if (credentialsConfig.type === "accountKey") {
+      if (this.config.debug) {
+        this.logger.debug(
+          `Azure account key provided in config, using shared key credentials for account "${credentialsConfig.accountName}"`,
+        );
+      }
+      serviceClient = new BlobServiceClient(
+        `https://${credentialsConfig.accountName}.blob.core.windows.net`,
+        new StorageSharedKeyCredential(
+          credentialsConfig.accountName,
+          credentialsConfig.accountKey,
+        ),
+      );
+    } else {
+      if (this.config.debug) {
+        this.logger.debug(
+          `Azure SAS token provided in config, using it for account "${credentialsConfig.accountName}"`,
+        );
+      }
+      const sasToken = credentialsConfig.sasToken.replace(/^\?/, "");
+      serviceClient = new BlobServiceClient(
+        `https://${credentialsConfig.accountName}.blob.core.windows.net?${sasToken}`,
+      );
+    }
+
+    this.containerClient = serviceClient.getContainerClient(
+      this.config.containerName,
+    );
+    return this.containerClient;
+  }
+
+  public async listIds(project: string): Promise<string[]> {
+    const prefix = `${this.rootPath}/${project}/ids/`;
+    const ids: string[] = [];
+    for await (const item of this.getContainerClient().listBlobsByHierarchy(
+      "/",
+      { prefix },
+    )) {
+      if (item.kind === "prefix") {
+        ids.push(item.name.replace(prefix, "").replace("/", ""));
+      }
+    }
+    return ids;
+  }
+
+  public async listArtifactSummaries(
+    project: string,
+  ): Promise<ArtifactSummary[]> {
+    const index = await this.getProjectIndex(project);
+    if (index) {
+      return index.artifacts;
+    }
+    return this.collectArtifactSummaries(project);
+  }
+
+  public async getProjectIndex(
+    project: string,
+  ): Promise<ProjectIndex | undefined> {
+    const indexContent = await this.downloadIfExists(
+      `${this.rootPath}/${project}/index.json`,
+    );
+    if (indexContent === undefined) {
+      return undefined;
+    }
+    return ProjectIndexSchema.parse(JSON.parse(indexContent));
+  }
+
+  public async rebuildProjectIndex(project: string): Promise<ProjectIndex> {
+    const [artifacts, tags] = await Promise.all([
+      this.collectArtifactSummaries(project),
+      this.resolveTags(project),
+    ]);
+    const index = createProjectIndex(
+      artifacts.sort((a, b) =>
+        (a.pushedAt ?? "").localeCompare(b.pushedAt ?? ""),
+      ),
+      tags,
+    );
+    await this.updateIndex(project, () => index);
+    return index;
+  }
+
+  public async listOriginalContent(
+    project: string,
+    id: string,
+  ): Promise<RelativePath[]> {
+    const manifest = await this.getOriginalContentManifest(project, id);
+    if (manifest) {
+      return listOriginalContentPaths(manifest);
+    }
+    const prefix = `${this.rootPath}/${project}/ids/${id}/original/`;
+    const blobNames = await this.listBlobNames(prefix);
+    return blobNames
+      .map((blobName) => blobName.replace(prefix, ""))
+      .filter((relativeName) => relativeName.length > 0)
+      .map((relativeName) => this.fromAzurePath(relativeName));
+  }
+
+  public async listTags(project: string): Promise<string[]> {
+    const prefix = `${this.rootPath}/${project}/tags/`;
+    const blobNames = await this.listBlobNames(prefix);
+    return blobNames.map((blobName) =>
+      blobName.replace(prefix, "").replace(".json", ""),
+    );
+  }
+
+  public async hasArtifactByTag(
+    project: string,
+    tag: string,
+  ): Promise<boolean> {
+    return this.getContainerClient()
+      .getBlobClient(`${this.rootPath}/${project}/tags/${tag}.json`)
+      .exists();
+  }
+
+  public async hasArtifactById(project: string, id: string): Promise<boolean> {
+    const iterator = this.getContainerClient()
+      .listBlobsFlat({ prefix: `${this.rootPath}/${project}/ids/${id}/` })
+      .byPage({ maxPageSize: 1 });
+    const firstPage = await iterator.next();
+    if (firstPage.done) {
+      return false;
+    }
+    return firstPage.value.segment.blobItems.length > 0;
+  }
+
+  public async writeTag(
+    project: string,
+    tag: string,
+    id: string,
+  ): Promise<StorageUpdateResult> {
+    await this.uploadTagManifest(project, tag, id);
+    const indexUpdated = await this.reportIndexUpdate(
+      this.updateIndex(project, indexTag(tag, id)),
+    );
+    return { indexUpdated };
+  }
+
+  public async deleteTag(
+    project: string,
+    tag: string,
+  ): Promise<StorageUpdateResult> {
+    const protectedPattern = findMatchingTagPattern(
+      tag,
+      this.config.protectedTags ?? [],
+    );
+    if (protectedPattern) {
+      throw new Error(
+        `Tag "${tag}" is protected by the pattern "${protectedPattern}", it can not be deleted`,
+      );
+    }
+    await this.getContainerClient()
+      .getBlobClient(`${this.rootPath}/${project}/tags/${tag}.json`)
+      .deleteIfExists();
+    const indexUpdated = await this.reportIndexUpdate(
+      this.updateIndex(project, indexTag(tag, null)),
+    );
+    return { indexUpdated };
+  }
+
+  public async deleteArtifact(
+    project: string,
+    id: string,
+  ): Promise<StorageUpdateResult> {
+    const originalContentManifest = await this.getOriginalContentManifest(
+      project,
+      id,
+    );
+    this.originalContentManifests.delete(`${project}/${id}`);
+    const blobNames = await this.listBlobNames(
+      `${this.rootPath}/${project}/ids/${id}/`,
+    );
+    const containerClient = this.getContainerClient();
+    await Promise.all(
+      blobNames.map((blobName) =>
+        containerClient.getBlobClient(blobName).deleteIfExists(),
+      ),
+    );
+    if (originalContentManifest) {
+      await this.deleteUnreferencedBlobs(project, originalContentManifest);
+    }
+    const indexUpdated = await this.reportIndexUpdate(
+      this.updateIndex(project, indexDeletedArtifact(id)),
+    );
+    if (this.config.debug) {
+      this.logger.debug(
+        `Deleted ${blobNames.length} blob(s) of artifact ${project}@${id} from Azure`,
+      );
+    }
+    return { indexUpdated };
+  }
+
+  public async resolveTagId(
+    project: string,
+    tag: string,
+  ): Promise<string | undefined> {
+    const manifestContent = await this.downloadIfExists(
+      `${this.rootPath}/${project}/tags/${tag}.json`,
+    );
+    if (manifestContent === undefined) {
+      return undefined;
+    }
+    return TagManifestSchema.parse(JSON.parse(manifestContent)).id;
+  }
+
+  public async getTagHistory(
+    project: string,
+    tag: string,
+  ): Promise<TagHistoryEntry[]> {
+    const historyContent = await this.downloadIfExists(
+      `${this.rootPath}/${project}/tag-history/${tag}.json`,
+    );
+    if (historyContent === undefined) {
+      return [];
+    }
+    return TagHistorySchema.parse(JSON.parse(historyContent)).entries;
+  }
+
+  public async appendTagHistory(
+    project: string,
+    tag: string,
+    entry: TagHistoryEntry,
+  ): Promise<void> {
+    const blobName = `${this.rootPath}/${project}/tag-history/${tag}.json`;
+    const blobClient = this.getContainerClient().getBlobClient(blobName);
+    await applyOptimisticUpdate<TagHistory, string | undefined>(
+      {
+        read: async () => {
+          if (!(await blobClient.exists())) {
+            return undefined;
+          }
+          // The ETag is read first, a newer content is then rejected by the conditional write
+          const properties = await blobClient.getProperties();
+          const content = await blobClient.downloadToBuffer();
+          return {
+            value: TagHistorySchema.parse(
+              JSON.parse(content.toString("utf-8")),
+            ),
+            version: properties.etag,
+          };
+        },
+        write: (history, etag) =>
+          this.uploadJsonConditionally(blobName, history, etag),
+      },
+      (history) => ({ entries: [...(history?.entries ?? []), entry] }),
+      "the tag history",
+    );
+  }
+
+  public async getChecksumManifest(
+    project: string,
+    id: string,
+  ): Promise<ChecksumManifest | undefined> {
+    const checksumsContent = await this.downloadIfExists(
+      `${this.rootPath}/${project}/ids/${id}/checksums.json`,
+    );
+    if (checksumsContent === undefined) {
+      return undefined;
+    }
+    return ChecksumManifestSchema.parse(JSON.parse(checksumsContent));
+  }
+
+  public async getCallerIdentity(): Promise<string | undefined> {
+    // Account keys and SAS tokens do not identify a caller, the git user identifies the pusher
+    return undefined;
+  }
+
+  public async uploadArtifact(
+    project: string,
+    inputArtifact: EthokoInputArtifact,
+    contractOutputArtifacts: EthokoContractOutputArtifact[],
+    tag: string | undefined,
+    originalContent: { rootPath: AbsolutePath; paths: RelativePath[] },
+  ): Promise<StorageUpdateResult> {
+    const contractUploads = contractOutputArtifacts.map((contractArtifact) =>
+      this.uploadJson(
+        `${this.rootPath}/${project}/ids/${inputArtifact.id}/outputs/${contractArtifact.sourceName}/${contractArtifact.contract}.json`,
+        contractArtifact,
+      ),
+    );
+    await Promise.all([
+      ...contractUploads,
+      this.uploadJson(
+        `${this.rootPath}/${project}/ids/${inputArtifact.id}/input.json`,
+        inputArtifact,
+      ),
+    ]);
+
+    if (tag) {
+      await this.uploadTagManifest(project, tag, inputArtifact.id);
+    }
+
+    const checksumManifest = await createChecksumManifest(
+      inputArtifact,
+      contractOutputArtifacts,
+      originalContent,
+    );
+    if (this.config.originalContentLayout === "content-addressed") {
+      await this.uploadOriginalContentBlobs(
+        project,
+        inputArtifact.id,
+        originalContent.rootPath,
+        createOriginalContentManifest(checksumManifest),
+      );
+    } else {
+      // Original content files are stored under the artifact ID prefix, see the S3 provider for the rationale
+      const containerClient = this.getContainerClient();
+      for (const originalContentPath of originalContent.paths) {
+        const content = await fs.readFile(
+          originalContent.rootPath.join(originalContentPath).resolvedPath,
+        );
+        await containerClient
+          .getBlockBlobClient(
+            `${this.rootPath}/${project}/ids/${inputArtifact.id}/original/${this.toAzurePath(originalContentPath)}`,
+          )
+          .uploadData(content);
+      }
+    }
+
+    await this.uploadJson(
+      `${this.rootPath}/${project}/ids/${inputArtifact.id}/checksums.json`,
+      checksumManifest,
+    );
+
+    // The artifact and its tag are committed at this point, the index can be rebuilt from the storage so a failed update does not fail the upload
+    const indexUpdated = await this.reportIndexUpdate(
+      this.listIds(project).then((ids) =>
+        this.updateIndex(
+          project,
+          indexUploadedArtifact(
+            summarizeArtifact(
+              inputArtifact,
+              contractOutputArtifacts,
+              new Date(),
+            ),
+            tag,
+            ids,
+          ),
+        ),
+      ),
+    );
+    return { indexUpdated };
+  }
+
+  public async downloadArtifactById(
+    project: string,
+    id: string,
+  ): Promise<{
+    input: Stream;
+    contractOutputArtifacts: {
+      sourceName: string;
+      contractName: string;
+      stream: Stream;
+    }[];
+  }> {
+    const input = await this.downloadBlob(
+      `${this.rootPath}/${project}/ids/${id}/input.json`,
+    );
+    if (!input) {
+      throw new Error(
+        `Artifact corrupted on remote storage for ID ${id}, requires attention`,
+      );
+    }
+    const contractArtifacts = await this.listContractOutputArtifacts(
+      project,
+      id,
+    );
+    const contractOutputArtifacts = await Promise.all(
+      contractArtifacts.map(async ({ sourceName, contractName }) => {
+        const stream = await this.downloadBlob(
+          `${this.rootPath}/${project}/ids/${id}/outputs/${sourceName}/${contractName}.json`,
+        );
+        if (!stream) {
+          throw new Error(
+            `Contract artifact not found for ${sourceName}:${contractName}`,
+          );
+        }
+        return { sourceName, contractName, stream };
+      }),
+    );
+    return {
+      input,
+      contractOutputArtifacts,
+    };
+  }
+
+  public async downloadArtifactByTag(
+    project: string,
+    tag: string,
+  ): Promise<{
+    id: string;
+    input: Stream;
+    contractOutputArtifacts: {
+      sourceName: string;
+      contractName: string;
+      stream: Stream;
+    }[];
+  }> {
+    const manifestContent = await this.getContainerClient()
+      .getBlobClient(`${this.rootPath}/${project}/tags/${tag}.json`)
+      .downloadToBuffer();
+    const manifest = TagManifestSchema.parse(
+      JSON.parse(manifestContent.toString("utf-8")),
+    );
+    const streams = await this.downloadArtifactById(project, manifest.id);
+    return {
+      id: manifest.id,
+      ...streams,
+    };
+  }
+
+  public async downloadOriginalContent(
+    project: string,
+    id: string,
+    relativePath: RelativePath,
+  ): Promise<Stream> {
+    const manifest = await this.getOriginalContentManifest(project, id);
+    const stream = await this.downloadBlob(
+      manifest
+        ? this.blobName(
+            project,
+            findOriginalContentBlob(manifest, relativePath),
+          )
+        : `${this.rootPath}/${project}/ids/${id}/original/${this.toAzurePath(relativePath)}`,
+    );
+    if (!stream) {
+      throw new Error("Error fetching the original content");
+    }
+    return stream;
+  }
+
+  /**
+   * Reads the original content manifest of an artifact ID, undefined if its original content is stored as files.
+   */
+  private async getOriginalContentManifest(
+    project: string,
+    id: string,
+  ): Promise<OriginalContentManifest | undefined> {
+    const cacheKey = `${project}/${id}`;
+    if (this.originalContentManifests.has(cacheKey)) {
+      return this.originalContentManifests.get(cacheKey);
+    }
+    const manifestContent = await this.downloadIfExists(
+      `${this.rootPath}/${project}/ids/${id}/original.json`,
+    );
+    const manifest =
+      manifestContent === undefined
+        ? undefined
+        : OriginalContentManifestSchema.parse(JSON.parse(manifestContent));
+    this.originalContentManifests.set(cacheKey, manifest);
+    return manifest;
+  }
+
+  /**
+   * Uploads the original content with the content-addressed layout.
+   * The manifest is written first, so that the blobs are referenced before they are reused. Blobs that already exist are not written again.
+   */
+  private async uploadOriginalContentBlobs(
+    project: string,
+    id: string,
+    rootPath: AbsolutePath,
+    manifest: OriginalContentManifest,
+  ): Promise<void> {
+    await this.uploadJson(
+      `${this.rootPath}/${project}/ids/${id}/original.json`,
+      manifest,
+    );
+    this.originalContentManifests.set(`${project}/${id}`, manifest);
+    const containerClient = this.getContainerClient();
+    let skippedBlobs = 0;
+    for (const originalContentPath of listOriginalContentPaths(manifest)) {
+      const blobClient = containerClient.getBlockBlobClient(
+        this.blobName(
+          project,
+          findOriginalContentBlob(manifest, originalContentPath),
+        ),
+      );
+      if (await blobClient.exists()) {
+        skippedBlobs++;
+        continue;
+      }
+      const content = await fs.readFile(
+        rootPath.join(originalContentPath).resolvedPath,
+      );
+      await blobClient.uploadData(content);
+    }
+    if (this.config.debug && skippedBlobs > 0) {
+      this.logger.debug(
+        `${skippedBlobs} original content files of ${project}@${id} were already stored as blobs, skipped`,
+      );
+    }
+  }
+
+  /**
+   * Deletes the blobs of a deleted artifact that no other artifact ID of the project references.
+   * An upload in progress may skip a blob that already exists before its manifest can be read here, the blobs are kept if an upload is in progress before or during the clean-up.
+   */
+  private async deleteUnreferencedBlobs(
+    project: string,
+    deletedManifest: OriginalContentManifest,
+  ): Promise<void> {
+    const ids = await this.listIds(project);
+    if (await this.hasUploadsSince(project, ids)) {
+      this.logSkippedBlobsCleanUp(project);
+      return;
+    }
+    const remainingManifests: OriginalContentManifest[] = [];
+    for (const id of ids) {
+      const manifest = await this.getOriginalContentManifest(project, id);
+      if (manifest) {
+        remainingManifests.push(manifest);
+      }
+    }
+    const unreferencedBlobs = listUnreferencedBlobs(
+      deletedManifest,
+      remainingManifests,
+    );
+    if (await this.hasUploadsSince(project, ids)) {
+      this.logSkippedBlobsCleanUp(project);
+      return;
+    }
+    const containerClient = this.getContainerClient();
+    await Promise.all(
+      unreferencedBlobs.map((blob) =>
+        containerClient
+          .getBlobClient(this.blobName(project, blob))
+          .deleteIfExists(),
+      ),
+    );
+    if (this.config.debug) {
+      this.logger.debug(
+        `Deleted ${unreferencedBlobs.length} unreferenced blob(s) of ${project}`,
+      );
+    }
+  }
+
+  /**
+   * Whether an upload is in progress or an artifact ID has been uploaded since the listing of the known IDs.
+   * The checksum manifest is written last, an ID without it is an upload in progress or an interrupted one.
+   */
+  private async hasUploadsSince(
+    project: string,
+    knownIds: string[],
+  ): Promise<boolean> {
+    const ids = await this.listIds(project);
+    if (ids.some((id) => !knownIds.includes(id))) {
+      return true;
+    }
+    const containerClient = this.getContainerClient();
+    for (const id of ids) {
+      const exists = await containerClient
+        .getBlobClient(`${this.rootPath}/${project}/ids/${id}/checksums.json`)
+        .exists();
+      if (!exists) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  private logSkippedBlobsCleanUp(project: string): void {
+    if (this.config.debug) {
+      this.logger.debug(
+        `An upload is in progress on ${project}, the unreferenced blobs are kept`,
+      );
+    }
+  }
+
+  private blobName(project: string, checksum: string): string {
+    return `${this.rootPath}/${project}/blobs/${checksum}`;
+  }
+
+  /**
+   * Settles an update of the project index, a failure is logged and reported instead of thrown since the storage change it follows is already applied.
+   */
+  private async reportIndexUpdate(
+    indexUpdate: Promise<void>,
+  ): Promise<boolean> {
+    return indexUpdate
+      .then(() => true)
+      .catch((err) => {
+        if (this.config.debug) {
+          this.logger.debug(`Failed to update the project index: ${err}`);
+        }
+        return false;
+      });
+  }
+
+  /**
+   * Updates the project index with conditional writes on the ETag of the index blob, retried on conflicts.
+   */
+  private async updateIndex(
+    project: string,
+    update: ProjectIndexUpdate,
+  ): Promise<void> {
+    const blobName = `${this.rootPath}/${project}/index.json`;
+    const blobClient = this.getContainerClient().getBlobClient(blobName);
+    await updateProjectIndex<string | undefined>(
+      {
+        read: async () => {
+          if (!(await blobClient.exists())) {
+            return undefined;
+          }
+          // The ETag is read first, a newer content is then rejected by the conditional write
+          const properties = await blobClient.getProperties();
+          const content = await blobClient.downloadToBuffer();
+          return {
+            index: ProjectIndexSchema.parse(
+              JSON.parse(content.toString("utf-8")),
+            ),
+            version: properties.etag,
+          };
+        },
+        write: (index, etag) =>
+          this.uploadJsonConditionally(blobName, index, etag),
+      },
+      update,
+    );
+  }
+
+  /**
+   * Uploads a JSON blob only if its ETag still matches, or only if it does not exist yet without ETag.
+   * @returns False if the blob changed or a concurrent write is in progress
+   */
+  private async uploadJsonConditionally(
+    blobName: string,
+    content: unknown,
+    etag: string | undefined,
+  ): Promise<boolean> {
+    return this.uploadJson(
+      blobName,
+      content,
+      etag ? { ifMatch: etag } : { createOnly: true },
+    )
+      .then(() => true)
+      .catch((err) => {
+        if (
+          err instanceof RestError &&
+          (err.statusCode === 409 || err.statusCode === 412)
+        ) {
+          return false;
+        }
+        throw err;
+      });
+  }
+
+  private async collectArtifactSummaries(
+    project: string,
+  ): Promise<ArtifactSummary[]> {
+    const ids = await this.listIds(project);
+    return Promise.all(ids.map((id) => this.getArtifactSummary(project, id)));
+  }
+
+  private async resolveTags(project: string): Promise<Record<string, string>> {
+    const tags: Record<string, string> = {};
+    for (const tag of await this.listTags(project)) {
+      const id = await this.resolveTagId(project, tag);
+      if (id) {
+        tags[tag] = id;
+      }
+    }
+    return tags;
+  }
+
+  /**
+   * Builds the summary of an artifact from its input artifact, the push date is the last modification date of the input artifact blob.
+   */
+  private async getArtifactSummary(
+    project: string,
+    id: string,
+  ): Promise<ArtifactSummary> {
+    const inputBlobClient = this.getContainerClient().getBlobClient(
+      `${this.rootPath}/${project}/ids/${id}/input.json`,
+    );
+    const [inputContent, inputProperties, contracts] = await Promise.all([
+      inputBlobClient.downloadToBuffer(),
+      inputBlobClient.getProperties(),
+      this.listContractOutputArtifacts(project, id),
+    ]);
+    const input = InputArtifactSummarySchema.parse(
+      JSON.parse(inputContent.toString("utf-8")),
+    );
+    return {
+      id,
+      origin: input.origin,
+      solcLongVersion: input.solcLongVersion,
+      contracts,
+      pushedAt: inputProperties.lastModified?.toISOString() ?? null,
+      metadata: input.metadata,
+    };
+  }
+
+  private async listContractOutputArtifacts(
+    project: string,
+    id: string,
+  ): Promise<
+    {
+      sourceName: string;
+      contractName: string;
+    }[]
+  > {
+    const prefix = `${this.rootPath}/${project}/ids/${id}/outputs/`;
+    const blobNames = await this.listBlobNames(prefix);
+    const paths: {
+      sourceName: string;
+      contractName: string;
+    }[] = [];
+    for (const blobName of blobNames) {
+      const items = blobName.replace(prefix, "").split("/");
+      const contractNameWithExtension = items.pop();
+      if (!contractNameWithExtension) continue;
+      const contractName = contractNameWithExtension.replace(".json", "");
+      if (items.length === 0) continue;
+      paths.push({ sourceName: items.join("/"), contractName });
+    }
+    return paths;
+  }
+
+  /**
+   * Writes the manifest of a tag.
+   * A protected tag manifest is only created if it does not exist yet, an existing manifest is only accepted if it points to the same ID.
+   */
+  private async uploadTagManifest(
+    project: string,
+    tag: string,
+    id: string,
+  ): Promise<void> {
+    const blobName = `${this.rootPath}/${project}/tags/${tag}.json`;
+    const manifest: TagManifest = { id };
+    const protectedPattern = findMatchingTagPattern(
+      tag,
+      this.config.protectedTags ?? [],
+    );
+    if (!protectedPattern) {
+      await this.uploadJson(blobName, manifest);
+      return;
+    }
+
+    const created = await this.uploadJson(blobName, manifest, {
+      createOnly: true,
+    })
+      .then(() => true)
+      .catch((err) => {
+        // 409 when the blob exists, 412 may be returned by some implementations
+        if (
+          err instanceof RestError &&
+          (err.statusCode === 409 || err.statusCode === 412)
+        ) {
+          return false;
+        }
+        throw err;
+      });
+    if (created) {
+      return;
+    }
+    const existingContent = await this.getContainerClient()
+      .getBlobClient(blobName)
+      .downloadToBuffer();
+    const existingManifest = TagManifestSchema.parse(
+      JSON.parse(existingContent.toString("utf-8")),
+    );
+    if (existingManifest.id !== id) {
+      throw new Error(
+        `Tag "${tag}" is protected by the pattern "${protectedPattern}" and already points to the artifact ID ${existingManifest.id}, it can not be overwritten`,
+      );
+    }
+  }
+
+  private async uploadJson(
+    blobName: string,
+    content: unknown,
+    opts: { createOnly?: boolean; ifMatch?: string } = {},
+  ): Promise<void> {
+    const body = Buffer.from(JSON.stringify(content));
+    await this.getContainerClient()
+      .getBlockBlobClient(blobName)
+      .uploadData(body, {
+        blobHTTPHeaders: { blobContentType: "application/json" },
+        conditions: opts.createOnly
+          ? { ifNoneMatch: "*" }
+          : opts.ifMatch
+            ? { ifMatch: opts.ifMatch }
+            : undefined,
+      });
+  }
+
+  /**
+   * Downloads the content of a blob as a string.
+   * @returns The blob content, or undefined if the blob does not exist
+   */
+  private async downloadIfExists(
+    blobName: string,
+  ): Promise<string | undefined> {
+    const blobClient = this.getContainerClient().getBlobClient(blobName);
+    if (!(await blobClient.exists())) {
+      return undefined;
+    }
+    const content = await blobClient.downloadToBuffer();
+    return content.toString("utf-8");
+  }
+
+  /**
+   * Downloads a blob as a stream.
+   * @returns The blob stream, or undefined if the response has no body
+   */
+  private async downloadBlob(blobName: string): Promise<Stream | undefined> {
+    const response = await this.getContainerClient()
+      .getBlobClient(blobName)
+      .download();
+    return response.readableStreamBody as Stream | undefined;
+  }
+
+  /**
+   * Lists all blob names under a prefix, following pagination.
+   */
+  private async listBlobNames(prefix: string): Promise<string[]> {
+    const blobNames: string[] = [];
+    for await (const blob of this.getContainerClient().listBlobsFlat({
+      prefix,
+    })) {
+      blobNames.push(blob.name);
+    }
+    return blobNames;
+  }
+
+  /**
+   * Converts a RelativePath to an Azure-compatible blob name segment.
+   * Blob names always use forward slashes, regardless of platform.
+   */
+  private toAzurePath(relativePath: RelativePath): string {
+    return relativePath.relativePath.replace(/\\/g, "/");
+  }
+  /**
+   * Converts an Azure blob name segment to a RelativePath.
+   * Normalizes forward slashes to the platform's separator.
+   */
+  private fromAzurePath(azurePath: string): RelativePath {
+    return RelativePath.unsafeFrom(azurePath.replace(/\//g, path.sep));
+  }
+}
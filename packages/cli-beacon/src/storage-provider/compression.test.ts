@@ -0,0 +1,82 @@
+import zlib from "zlib";
+import { Readable } from "stream";
+import { describe, expect, test } from "vitest";
+import { CliError } from "@/client/error";
+import {
+  compressContent,
+  decompressContent,
+  decompressStream,
+  detectCompression,
+  isZstdSupported,
+  parseContentEncoding,
+  ZSTD_UNSUPPORTED_MESSAGE,
+} from "./compression";
+import { ArtifactCompression } from "./storage-provider.interface";
+import { computeStreamChecksum } from "../ethoko-artifacts/checksum-manifest";
+
+const content = JSON.stringify({ id: "abc", input: { sources: {} } });
+// zstd is only available from Node.js 22.15
+const compressions: ArtifactCompression[] =
+  typeof zlib.zstdCompress === "function" ? ["gzip", "zstd"] : ["gzip"];
+
+describe("compression", () => {
+  test.for(compressions)(
+    "%s content is recognized and decompressed",
+    async (compression) => {
+      const compressed = await compressContent(content, compression);
+      expect(detectCompression(compressed)).toBe(compression);
+      expect(
+        (await decompressContent(compressed, compression)).toString("utf-8"),
+      ).toBe(content);
+    },
+  );
+
+  test.for(compressions)("%s streams are decompressed", async (compression) => {
+    const compressed = await compressContent(content, compression);
+    const checksum = await computeStreamChecksum(
+      decompressStream(Readable.from([compressed]), compression),
+    );
+    expect(checksum).toBe(
+      await computeStreamChecksum(Readable.from([Buffer.from(content)])),
+    );
+  });
+
+  test("uncompressed content is left as is", async () => {
+    const buffer = Buffer.from(content);
+    expect(detectCompression(buffer)).toBeUndefined();
+    expect(await decompressContent(buffer, undefined)).toBe(buffer);
+  });
+
+  test("errors of the source stream are forwarded", async () => {
+    const source = new Readable({
+      read() {
+        this.destroy(new Error("boom"));
+      },
+    });
+    await expect(
+      computeStreamChecksum(decompressStream(source, "gzip")),
+    ).rejects.toThrow("boom");
+  });
+
+  test.skipIf(isZstdSupported())(
+    "zstd content is rejected with a CliError on a Node.js version without zstd",
+    async () => {
+      const compressed = Buffer.from([0x28, 0xb5, 0x2f, 0xfd]);
+      await expect(decompressContent(compressed, "zstd")).rejects.toThrow(
+        new CliError(ZSTD_UNSUPPORTED_MESSAGE),
+      );
+      expect(() =>
+        decompressStream(Readable.from([compressed]), "zstd"),
+      ).toThrow(CliError);
+    },
+  );
+
+  test.each([
+    ["gzip", "gzip"],
+    ["zstd", "zstd"],
+    [undefined, undefined],
+    ["identity", undefined],
+  ])("content encoding %s is parsed as %s", (contentEncoding, expected) => {
+    expect(parseContentEncoding(contentEncoding)).toBe(expected);
+  });
+});
@@ -0,0 +1,111 @@
+import { pipeline, Readable, Stream, Transform } from "stream";
+import { promisify } from "util";
+import zlib from "zlib";
+import { CliError } from "@/client/error";
+import { ArtifactCompression } from "./storage-provider.interface";
+
+const gzip = promisify(zlib.gzip);
+const gunzip = promisify(zlib.gunzip);
+
+// Magic numbers of the compressed formats, uncompressed artifacts are JSON and start with "{"
+const GZIP_MAGIC_NUMBER = Buffer.from([0x1f, 0x8b]);
+const ZSTD_MAGIC_NUMBER = Buffer.from([0x28, 0xb5, 0x2f, 0xfd]);
+export const COMPRESSION_HEADER_LENGTH = ZSTD_MAGIC_NUMBER.length;
+
+/**
+ * Compresses the content of an artifact.
+ * @throws CliError if zstd is used with a Node.js version without zstd support
+ */
+export async function compressContent(
+  content: string | Buffer,
+  compression: ArtifactCompression,
+): Promise<Buffer> {
+  if (compression === "gzip") {
+    return gzip(content);
+  }
+  assertZstdSupport();
+  return promisify(zlib.zstdCompress)(content);
+}
+
+/**
+ * Decompresses the content of an artifact, returned as is if it is not compressed.
+ * @throws CliError if zstd is used with a Node.js version without zstd support
+ */
+export async function decompressContent(
+  content: Buffer,
+  compression: ArtifactCompression | undefined,
+): Promise<Buffer> {
+  if (!compression) {
+    return content;
+  }
+  if (compression === "gzip") {
+    return gunzip(content);
+  }
+  assertZstdSupport();
+  return promisify(zlib.zstdDecompress)(content);
+}
+
+/**
+ * Decompresses a stream of artifact content, returned as is if it is not compressed.
+ * Errors of the source stream are forwarded to the returned stream.
+ * @throws CliError if zstd is used with a Node.js version without zstd support
+ */
+export function decompressStream(
+  stream: Stream,
+  compression: ArtifactCompression | undefined,
+): Stream {
+  if (!compression) {
+    return stream;
+  }
+  let decompression: Transform;
+  if (compression === "gzip") {
+    decompression = zlib.createGunzip();
+  } else {
+    assertZstdSupport();
+    decompression = zlib.createZstdDecompress();
+  }
+  // The errors are received by the consumers of the decompression stream
+  return pipeline(stream as Readable, decompression, () => {});
+}
+
+/**
+ * Recognizes the compression of an artifact from its first bytes, undefined if it is not compressed.
+ */
+export function detectCompression(
+  header: Buffer,
+): ArtifactCompression | undefined {
+  if (header.subarray(0, GZIP_MAGIC_NUMBER.length).equals(GZIP_MAGIC_NUMBER)) {
+    return "gzip";
+  }
+  if (header.subarray(0, ZSTD_MAGIC_NUMBER.length).equals(ZSTD_MAGIC_NUMBER)) {
+    return "zstd";
+  }
+  return undefined;
+}
+
+/**
+ * Parses a `Content-Encoding` value, undefined for an uncompressed or unknown encoding.
+ */
+export function parseContentEncoding(
+  contentEncoding: string | undefined,
+): ArtifactCompression | undefined {
+  if (contentEncoding === "gzip" || contentEncoding === "zstd") {
+    return contentEncoding;
+  }
+  return undefined;
+}
+
+export const ZSTD_UNSUPPORTED_MESSAGE = `zstd compression is not supported by Node.js ${process.version}, use Node.js 22.15 or later or the gzip compression`;
+
+/**
+ * Whether the Node.js version supports zstd, available from Node.js 22.15 and 23.8
+ */
+export function isZstdSupported(): boolean {
+  return typeof zlib.zstdCompress === "function";
+}
+
+function assertZstdSupport(): void {
+  if (!isZstdSupported()) {
+    throw new CliError(ZSTD_UNSUPPORTED_MESSAGE);
+  }
+}
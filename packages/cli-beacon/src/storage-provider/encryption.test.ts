@@ -0,0 +1,98 @@
+import crypto from "crypto";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { afterEach, describe, expect, test } from "vitest";
+import { ArtifactCipher, decryptContent, isEncrypted } from "./encryption";
+import { AbsolutePath } from "../utils/path";
+
+const KEY_VARIABLE = "ETHOKO_TEST_ENCRYPTION_KEY";
+const content = JSON.stringify({ id: "abc", input: { sources: {} } });
+
+describe("encryption", () => {
+  afterEach(() => {
+    delete process.env[KEY_VARIABLE];
+  });
+
+  test("content is encrypted with a random IV and decrypted", async () => {
+    process.env[KEY_VARIABLE] = crypto.randomBytes(32).toString("base64");
+    const cipher = new ArtifactCipher({ type: "env", variable: KEY_VARIABLE });
+
+    const encrypted = await cipher.encrypt(content);
+    expect(isEncrypted(encrypted)).toBe(true);
+    expect(encrypted.toString("utf-8")).not.toContain("sources");
+    expect(encrypted.equals(await cipher.encrypt(content))).toBe(false);
+    expect((await cipher.decrypt(encrypted)).toString("utf-8")).toBe(content);
+  });
+
+  test("a hex encoded key is read from a file", async () => {
+    const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "ethoko-key-"));
+    try {
+      const keyFilePath = path.join(tempDir, "ethoko.key");
+      await fs.writeFile(
+        keyFilePath,
+        `${crypto.randomBytes(32).toString("hex")}\n`,
+      );
+      const cipher = new ArtifactCipher({
+        type: "file",
+        path: new AbsolutePath(keyFilePath),
+      });
+      const encrypted = await cipher.encrypt(content);
+      expect((await cipher.decrypt(encrypted)).toString("utf-8")).toBe(content);
+    } finally {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  test("content is not decrypted with another key or once tampered with", async () => {
+    process.env[KEY_VARIABLE] = crypto.randomBytes(32).toString("base64");
+    const encrypted = await new ArtifactCipher({
+      type: "env",
+      variable: KEY_VARIABLE,
+    }).encrypt(content);
+
+    const tampered = Buffer.from(encrypted);
+    tampered.writeUInt8(
+      tampered.readUInt8(tampered.length - 1) ^ 1,
+      tampered.length - 1,
+    );
+    await expect(
+      new ArtifactCipher({ type: "env", variable: KEY_VARIABLE }).decrypt(
+        tampered,
+      ),
+    ).rejects.toThrow("Unable to decrypt the content");
+
+    process.env[KEY_VARIABLE] = crypto.randomBytes(32).toString("base64");
+    await expect(
+      new ArtifactCipher({ type: "env", variable: KEY_VARIABLE }).decrypt(
+        encrypted,
+      ),
+    ).rejects.toThrow("Unable to decrypt the content");
+  });
+
+  test("a missing or invalid key is rejected", async () => {
+    const cipher = new ArtifactCipher({ type: "env", variable: KEY_VARIABLE });
+    await expect(cipher.encrypt(content)).rejects.toThrow(
+      `The encryption key environment variable "${KEY_VARIABLE}" is not set`,
+    );
+
+    process.env[KEY_VARIABLE] = crypto.randomBytes(16).toString("base64");
+    await expect(cipher.encrypt(content)).rejects.toThrow("must be 32 bytes");
+  });
+
+  test("unencrypted content is returned as is, encrypted content requires a cipher", async () => {
+    process.env[KEY_VARIABLE] = crypto.randomBytes(32).toString("base64");
+    const cipher = new ArtifactCipher({ type: "env", variable: KEY_VARIABLE });
+    const encrypted = await cipher.encrypt(content);
+
+    expect(
+      (await decryptContent(Buffer.from(content), undefined)).toString("utf-8"),
+    ).toBe(content);
+    expect((await decryptContent(encrypted, cipher)).toString("utf-8")).toBe(
+      content,
+    );
+    await expect(decryptContent(encrypted, undefined)).rejects.toThrow(
+      'configure the "encryption" field of the project',
+    );
+  });
+});
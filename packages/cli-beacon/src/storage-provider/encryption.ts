@@ -0,0 +1,246 @@
+import crypto from "crypto";
+import fs from "fs/promises";
+import {
+  DecryptCommand,
+  GenerateDataKeyCommand,
+  KMSClient,
+} from "@aws-sdk/client-kms";
+import { ArtifactEncryption } from "./storage-provider.interface";
+
+export const ENCRYPTION_ALGORITHM = "aes-256-gcm";
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const AUTH_TAG_LENGTH = 16;
+// "\0ETKO" followed by the version of the format, the leading NUL byte can not start a JSON or text file
+const ENCRYPTION_MAGIC_NUMBER = Buffer.from([
+  0x00, 0x45, 0x54, 0x4b, 0x4f, 0x01,
+]);
+export const ENCRYPTION_HEADER_LENGTH = ENCRYPTION_MAGIC_NUMBER.length;
+
+/**
+ * Client-side encryption of artifact content with AES-256-GCM.
+ *
+ * Encrypted content is made of the magic number, the length of the wrapped data key (uint16), the wrapped data key, the IV, the authentication tag and the ciphertext.
+ * A key from an environment variable or a file encrypts the content directly, no data key is wrapped.
+ * With AWS KMS, a data key is generated once per cipher and stored wrapped by the KMS key along each content, KMS unwraps it when the content is decrypted.
+ * Keys are only loaded when content is encrypted or decrypted, so that a missing key does not prevent reading the unencrypted files of a storage.
+ */
+export class ArtifactCipher {
+  private dataKey: Promise<{ key: Buffer; wrappedKey: Buffer }> | undefined;
+  // Unwrapped data keys by their wrapped value
+  private readonly unwrappedKeys = new Map<string, Promise<Buffer>>();
+  private kmsClient: KMSClient | undefined;
+
+  constructor(private readonly encryption: ArtifactEncryption) {}
+
+  public async encrypt(content: string | Buffer): Promise<Buffer> {
+    const { key, wrappedKey } = await this.getDataKey();
+    const iv = crypto.randomBytes(IV_LENGTH);
+    const cipher = crypto.createCipheriv(ENCRYPTION_ALGORITHM, key, iv);
+    const ciphertext = Buffer.concat([cipher.update(content), cipher.final()]);
+    const wrappedKeyLength = Buffer.alloc(2);
+    wrappedKeyLength.writeUInt16BE(wrappedKey.length);
+    return Buffer.concat([
+      ENCRYPTION_MAGIC_NUMBER,
+      wrappedKeyLength,
+      wrappedKey,
+      iv,
+      cipher.getAuthTag(),
+      ciphertext,
+    ]);
+  }
+
+  /**
+   * @throws Error if the key does not match the key used to encrypt the content or if the content was tampered with
+   */
+  public async decrypt(content: Buffer): Promise<Buffer> {
+    if (!isEncrypted(content)) {
+      throw new Error("The content is not encrypted");
+    }
+    let offset = ENCRYPTION_HEADER_LENGTH;
+    if (content.length < offset + 2) {
+      throw new Error("The encrypted content is truncated");
+    }
+    const wrappedKeyLength = content.readUInt16BE(offset);
+    offset += 2;
+    if (
+      content.length <
+      offset + wrappedKeyLength + IV_LENGTH + AUTH_TAG_LENGTH
+    ) {
+      throw new Error("The encrypted content is truncated");
+    }
+    const wrappedKey = content.subarray(offset, offset + wrappedKeyLength);
+    offset += wrappedKeyLength;
+    const iv = content.subarray(offset, offset + IV_LENGTH);
+    offset += IV_LENGTH;
+    const authTag = content.subarray(offset, offset + AUTH_TAG_LENGTH);
+    offset += AUTH_TAG_LENGTH;
+
+    const key = await this.unwrapKey(wrappedKey);
+    const decipher = crypto.createDecipheriv(ENCRYPTION_ALGORITHM, key, iv);
+    decipher.setAuthTag(authTag);
+    try {
+      return Buffer.concat([
+        decipher.update(content.subarray(offset)),
+        decipher.final(),
+      ]);
+    } catch {
+      throw new Error(
+        "Unable to decrypt the content, the encryption key differs from the key used at push time or the content was tampered with",
+      );
+    }
+  }
+
+  private getDataKey(): Promise<{ key: Buffer; wrappedKey: Buffer }> {
+    if (!this.dataKey) {
+      this.dataKey =
+        this.encryption.type === "aws-kms"
+          ? this.generateKmsDataKey(this.encryption.keyId)
+          : this.loadStaticKey().then((key) => ({
+              key,
+              wrappedKey: Buffer.alloc(0),
+            }));
+      // A failed attempt, e.g. an unset environment variable, is not cached
+      this.dataKey.catch(() => {
+        this.dataKey = undefined;
+      });
+    }
+    return this.dataKey;
+  }
+
+  private unwrapKey(wrappedKey: Buffer): Promise<Buffer> {
+    if (this.encryption.type !== "aws-kms") {
+      if (wrappedKey.length > 0) {
+        throw new Error(
+          'The content is encrypted with an AWS KMS key, configure the "aws-kms" encryption of the project to decrypt it',
+        );
+      }
+      return this.getDataKey().then(({ key }) => key);
+    }
+    if (wrappedKey.length === 0) {
+      throw new Error(
+        "The content is encrypted with a key from an environment variable or a file, configure this key as the encryption of the project to decrypt it",
+      );
+    }
+    const cacheKey = wrappedKey.toString("base64");
+    let key = this.unwrappedKeys.get(cacheKey);
+    if (!key) {
+      key = this.decryptKmsDataKey(wrappedKey);
+      this.unwrappedKeys.set(cacheKey, key);
+      key.catch(() => this.unwrappedKeys.delete(cacheKey));
+    }
+    return key;
+  }
+
+  private async loadStaticKey(): Promise<Buffer> {
+    if (this.encryption.type === "env") {
+      const value = process.env[this.encryption.variable];
+      if (!value) {
+        throw new Error(
+          `The encryption key environment variable "${this.encryption.variable}" is not set`,
+        );
+      }
+      return parseKey(
+        value,
+        `environment variable "${this.encryption.variable}"`,
+      );
+    }
+    if (this.encryption.type === "file") {
+      const keyFilePath = this.encryption.path.resolvedPath;
+      const value = await fs.readFile(keyFilePath, "utf-8").catch(() => {
+        throw new Error(
+          `Unable to read the encryption key file ${keyFilePath}`,
+        );
+      });
+      return parseKey(value, `file ${keyFilePath}`);
+    }
+    throw new Error("An AWS KMS encryption has no static key");
+  }
+
+  private async generateKmsDataKey(
+    keyId: string,
+  ): Promise<{ key: Buffer; wrappedKey: Buffer }> {
+    const result = await this.getKmsClient().send(
+      new GenerateDataKeyCommand({ KeyId: keyId, KeySpec: "AES_256" }),
+    );
+    if (!result.Plaintext || !result.CiphertextBlob) {
+      throw new Error(`AWS KMS did not return a data key for the key ${keyId}`);
+    }
+    return {
+      key: Buffer.from(result.Plaintext),
+      wrappedKey: Buffer.from(result.CiphertextBlob),
+    };
+  }
+
+  private async decryptKmsDataKey(wrappedKey: Buffer): Promise<Buffer> {
+    if (this.encryption.type !== "aws-kms") {
+      throw new Error("Only AWS KMS data keys can be decrypted");
+    }
+    const result = await this.getKmsClient().send(
+      new DecryptCommand({
+        CiphertextBlob: wrappedKey,
+        KeyId: this.encryption.keyId,
+      }),
+    );
+    if (!result.Plaintext) {
+      throw new Error(
+        `AWS KMS did not decrypt the data key with the key ${this.encryption.keyId}`,
+      );
+    }
+    return Buffer.from(result.Plaintext);
+  }
+
+  private getKmsClient(): KMSClient {
+    if (this.encryption.type !== "aws-kms") {
+      throw new Error("An AWS KMS client requires an AWS KMS encryption");
+    }
+    if (!this.kmsClient) {
+      this.kmsClient = new KMSClient({
+        region: this.encryption.region,
+        profile: this.encryption.profile,
+      });
+    }
+    return this.kmsClient;
+  }
+}
+
+/**
+ * Recognizes encrypted content from its first bytes.
+ */
+export function isEncrypted(header: Buffer): boolean {
+  return header
+    .subarray(0, ENCRYPTION_HEADER_LENGTH)
+    .equals(ENCRYPTION_MAGIC_NUMBER);
+}
+
+/**
+ * Decrypts the content if it is encrypted, returned as is otherwise.
+ * @throws Error if the content is encrypted and no cipher is configured
+ */
+export async function decryptContent(
+  content: Buffer,
+  cipher: ArtifactCipher | undefined,
+): Promise<Buffer> {
+  if (!isEncrypted(content)) {
+    return content;
+  }
+  if (!cipher) {
+    throw new Error(
+      'The content is encrypted, configure the "encryption" field of the project to decrypt it',
+    );
+  }
+  return cipher.decrypt(content);
+}
+
+function parseKey(value: string, source: string): Buffer {
+  const trimmedValue = value.trim();
+  const key = /^[0-9a-fA-F]{64}$/.test(trimmedValue)
+    ? Buffer.from(trimmedValue, "hex")
+    : Buffer.from(trimmedValue, "base64");
+  if (key.length !== KEY_LENGTH) {
+    throw new Error(
+      `The encryption key from the ${source} must be 32 bytes, encoded as 64 hexadecimal characters or in base64, e.g. generated with "openssl rand -base64 32"`,
+    );
+  }
+  return key;
+}
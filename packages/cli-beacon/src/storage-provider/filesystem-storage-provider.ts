@@ -1,19 +1,75 @@
 import fs from "fs/promises";
 import path from "path";
 import { createReadStream, Dirent } from "fs";
-import { Stream } from "stream";
+import { Readable, Stream } from "stream";
 import {
+  ArtifactSummary,
+  ChecksumManifest,
+  ChecksumManifestSchema,
   EthokoContractOutputArtifact,
   EthokoInputArtifact,
+  InputArtifactSummarySchema,
+  OriginalContentManifest,
+  OriginalContentManifestSchema,
+  ProjectIndex,
+  ProjectIndexSchema,
+  TagHistory,
+  TagHistoryEntry,
+  TagHistorySchema,
   TagManifest,
   TagManifestSchema,
 } from "../ethoko-artifacts/v0";
-import { StorageProvider } from "./storage-provider.interface";
+import {
+  ArtifactCompression,
+  ArtifactEncryption,
+  OriginalContentLayout,
+  StorageProvider,
+  StorageUpdateResult,
+} from "./storage-provider.interface";
 import { AbsolutePath, RelativePath } from "@/utils/path";
 import { DebugLogger } from "@/utils/debug-logger";
+import { findMatchingTagPattern } from "@/utils/tag-pattern";
+import {
+  createProjectIndex,
+  indexDeletedArtifact,
+  indexTag,
+  indexUploadedArtifact,
+  ProjectIndexUpdate,
+  summarizeArtifact,
+  updateProjectIndex,
+} from "./project-index";
+import { createChecksumManifest } from "../ethoko-artifacts/checksum-manifest";
+import {
+  createOriginalContentManifest,
+  findOriginalContentBlob,
+  listOriginalContentPaths,
+  listUnreferencedBlobs,
+} from "../ethoko-artifacts/original-content-manifest";
+import {
+  COMPRESSION_HEADER_LENGTH,
+  compressContent,
+  decompressContent,
+  decompressStream,
+  detectCompression,
+} from "./compression";
+import {
+  ArtifactCipher,
+  decryptContent,
+  ENCRYPTION_HEADER_LENGTH,
+  isEncrypted,
+} from "./encryption";
+
+// A lock older than this is considered left over by a crashed process
+const LOCK_STALE_MS = 30_000;
+const LOCK_RETRY_DELAY_MS = 50;
+const LOCK_MAX_ATTEMPTS = 200;
 
 type FilesystemStorageProviderConfig = {
   path: AbsolutePath;
+  protectedTags?: string[]; // Glob patterns of tags that can never be overwritten
+  originalContentLayout?: OriginalContentLayout; // Layout of the original content of new uploads, defaults to "files"
+  compression?: ArtifactCompression; // Compression of the input and output artifacts of new uploads, uncompressed by default
+  encryption?: ArtifactEncryption; // Key of the client-side encryption of the input, output and original content artifacts of new uploads
   debug?: boolean;
   logger: DebugLogger;
 };
@@ -22,17 +78,42 @@ type FilesystemStorageProviderConfig = {
  * Filesystem storage provider.
  *
  * Storage layout (relative to storagePath)
+ * - {project}/index.json (index: { artifacts, tags })
  * - {project}/ids/{id}/input.json
+ * - {project}/ids/{id}/checksums.json (checksum manifest: { input, outputs, original })
  * - {project}/ids/{id}/original/** (original compilation content)
+ * - {project}/ids/{id}/original.json (original content manifest: { files }, content-addressed layout)
+ * - {project}/blobs/{checksum} (original content files, content-addressed layout)
  * - {project}/tags/{tag}.json (manifest: { id })
+ * - {project}/tag-history/{tag}.json (history: { entries })
+ * - {project}/uploads/{id}.json (marker of an upload in progress: { startedAt })
+ *
+ * Uploads are committed by removing their marker, once every file is written. IDs with a marker are ignored,
+ * the tag manifest of an upload is only written once committed.
+ * Input and output artifacts are compressed with the configured compression, the compression of a stored artifact is recognized from its magic number.
+ * With an encryption key, input, output and original content artifacts are encrypted after their compression, encrypted files are recognized from their magic number as well.
+ * Manifests, checksums and the index are never encrypted.
+ * Blobs are written to a temporary file then renamed, an existing blob is always complete and is not written again, unless it is unencrypted while an encryption key is configured.
+ * Manifests of protected tags are created with an exclusive write, they are never overwritten.
+ * The project index and the tag histories are updated under an exclusive lock file, `{project}/index.json.lock` and `{project}/tag-history/{tag}.json.lock`.
  */
 export class FilesystemStorageProvider implements StorageProvider {
   private readonly storagePath: AbsolutePath;
+  private readonly protectedTags: string[];
+  private readonly originalContentLayout: OriginalContentLayout;
+  private readonly compression: ArtifactCompression | undefined;
+  private readonly cipher: ArtifactCipher | undefined;
   private readonly debug: boolean;
   private readonly logger: DebugLogger;
 
   constructor(config: FilesystemStorageProviderConfig) {
     this.storagePath = config.path;
+    this.protectedTags = config.protectedTags ?? [];
+    this.originalContentLayout = config.originalContentLayout ?? "files";
+    this.compression = config.compression;
+    this.cipher = config.encryption
+      ? new ArtifactCipher(config.encryption)
+      : undefined;
     this.debug = config.debug ?? false;
     this.logger = config.logger;
   }
@@ -51,16 +132,60 @@ export class FilesystemStorageProvider implements StorageProvider {
 
   public async listIds(project: string): Promise<string[]> {
     const idsPath = this.idsPath(project);
-    const entries = await this.safeReadDir(idsPath);
+    const [entries, pendingUploads] = await Promise.all([
+      this.safeReadDir(idsPath),
+      this.listPendingUploads(project),
+    ]);
     return entries
       .filter((entry) => entry.isDirectory())
-      .map((entry) => entry.name);
+      .map((entry) => entry.name)
+      .filter((id) => !pendingUploads.includes(id));
+  }
+
+  public async listArtifactSummaries(
+    project: string,
+  ): Promise<ArtifactSummary[]> {
+    const index = await this.getProjectIndex(project);
+    if (index) {
+      return index.artifacts;
+    }
+    return this.collectArtifactSummaries(project);
+  }
+
+  public async getProjectIndex(
+    project: string,
+  ): Promise<ProjectIndex | undefined> {
+    const indexFilePath = this.projectIndexFilePath(project);
+    if (!(await this.exists(indexFilePath))) {
+      return undefined;
+    }
+    const indexContent = await fs.readFile(indexFilePath.resolvedPath, "utf-8");
+    return ProjectIndexSchema.parse(JSON.parse(indexContent));
+  }
+
+  public async rebuildProjectIndex(project: string): Promise<ProjectIndex> {
+    const [artifacts, tags] = await Promise.all([
+      this.collectArtifactSummaries(project),
+      this.resolveTags(project),
+    ]);
+    const index = createProjectIndex(
+      artifacts.sort((a, b) =>
+        (a.pushedAt ?? "").localeCompare(b.pushedAt ?? ""),
+      ),
+      tags,
+    );
+    await this.updateIndex(project, () => index);
+    return index;
   }
 
   public async listOriginalContent(
     project: string,
     id: string,
   ): Promise<RelativePath[]> {
+    const manifest = await this.getOriginalContentManifest(project, id);
+    if (manifest) {
+      return listOriginalContentPaths(manifest);
+    }
     const originalContentRoot = this.originalContentRootPath(project, id);
     const rootExists = await this.exists(originalContentRoot);
     if (!rootExists) {
@@ -101,7 +226,140 @@ export class FilesystemStorageProvider implements StorageProvider {
   }
 
   public async hasArtifactById(project: string, id: string): Promise<boolean> {
-    return this.exists(this.idDirPath(project, id));
+    const [idExists, uploadPending] = await Promise.all([
+      this.exists(this.idDirPath(project, id)),
+      this.exists(this.pendingUploadFilePath(project, id)),
+    ]);
+    return idExists && !uploadPending;
+  }
+
+  public async writeTag(
+    project: string,
+    tag: string,
+    id: string,
+  ): Promise<StorageUpdateResult> {
+    await fs.mkdir(this.tagsPath(project).resolvedPath, { recursive: true });
+    await this.writeTagManifest(project, tag, id);
+    const indexUpdated = await this.reportIndexUpdate(
+      this.updateIndex(project, indexTag(tag, id)),
+    );
+    return { indexUpdated };
+  }
+
+  public async deleteTag(
+    project: string,
+    tag: string,
+  ): Promise<StorageUpdateResult> {
+    const protectedPattern = findMatchingTagPattern(tag, this.protectedTags);
+    if (protectedPattern) {
+      throw new Error(
+        `Tag "${tag}" is protected by the pattern "${protectedPattern}", it can not be deleted`,
+      );
+    }
+    await fs.rm(this.tagFilePath(project, tag).resolvedPath, { force: true });
+    const indexUpdated = await this.reportIndexUpdate(
+      this.updateIndex(project, indexTag(tag, null)),
+    );
+    return { indexUpdated };
+  }
+
+  public async deleteArtifact(
+    project: string,
+    id: string,
+  ): Promise<StorageUpdateResult> {
+    const originalContentManifest = await this.getOriginalContentManifest(
+      project,
+      id,
+    );
+    await fs.rm(this.idDirPath(project, id).resolvedPath, {
+      recursive: true,
+      force: true,
+    });
+    // Leftover of an interrupted upload, removed first as a pending upload keeps the blobs
+    await fs.rm(this.pendingUploadFilePath(project, id).resolvedPath, {
+      force: true,
+    });
+    if (originalContentManifest) {
+      await this.deleteUnreferencedBlobs(project, originalContentManifest);
+    }
+    const indexUpdated = await this.reportIndexUpdate(
+      this.updateIndex(project, indexDeletedArtifact(id)),
+    );
+    if (this.debug) {
+      this.logger.debug(
+        `Deleted artifact ${project}@${id} from ${this.storagePath}`,
+      );
+    }
+    return { indexUpdated };
+  }
+
+  public async resolveTagId(
+    project: string,
+    tag: string,
+  ): Promise<string | undefined> {
+    const tagFilePath = this.tagFilePath(project, tag);
+    if (!(await this.exists(tagFilePath))) {
+      return undefined;
+    }
+    const manifestContent = await fs.readFile(
+      tagFilePath.resolvedPath,
+      "utf-8",
+    );
+    return TagManifestSchema.parse(JSON.parse(manifestContent)).id;
+  }
+
+  public async getTagHistory(
+    project: string,
+    tag: string,
+  ): Promise<TagHistoryEntry[]> {
+    const historyFilePath = this.tagHistoryFilePath(project, tag);
+    if (!(await this.exists(historyFilePath))) {
+      return [];
+    }
+    const historyContent = await fs.readFile(
+      historyFilePath.resolvedPath,
+      "utf-8",
+    );
+    return TagHistorySchema.parse(JSON.parse(historyContent)).entries;
+  }
+
+  public async appendTagHistory(
+    project: string,
+    tag: string,
+    entry: TagHistoryEntry,
+  ): Promise<void> {
+    const historyFilePath = this.tagHistoryFilePath(project, tag);
+    await fs.mkdir(historyFilePath.dirname().resolvedPath, {
+      recursive: true,
+    });
+    await this.withLock(`${historyFilePath.resolvedPath}.lock`, async () => {
+      const entries = await this.getTagHistory(project, tag);
+      const history: TagHistory = { entries: [...entries, entry] };
+      await this.writeFileAtomically(
+        historyFilePath.resolvedPath,
+        JSON.stringify(history),
+      );
+    });
+  }
+
+  public async getChecksumManifest(
+    project: string,
+    id: string,
+  ): Promise<ChecksumManifest | undefined> {
+    const checksumsFilePath = this.checksumsFilePath(project, id);
+    if (!(await this.exists(checksumsFilePath))) {
+      return undefined;
+    }
+    const checksumsContent = await fs.readFile(
+      checksumsFilePath.resolvedPath,
+      "utf-8",
+    );
+    return ChecksumManifestSchema.parse(JSON.parse(checksumsContent));
+  }
+
+  public async getCallerIdentity(): Promise<string | undefined> {
+    // The filesystem has no notion of caller identity
+    return undefined;
   }
 
   public async uploadArtifact(
@@ -110,9 +368,22 @@ export class FilesystemStorageProvider implements StorageProvider {
     outputContractArtifacts: EthokoContractOutputArtifact[],
     tag: string | undefined,
     originalContent: { rootPath: AbsolutePath; paths: RelativePath[] },
-  ): Promise<void> {
+  ): Promise<StorageUpdateResult> {
     await this.ensureProjectSetup(project);
 
+    // A retry of an interrupted upload overwrites its files, the marker stays until the new upload is committed
+    const pendingUploadFilePath = this.pendingUploadFilePath(
+      project,
+      inputArtifact.id,
+    );
+    await fs.mkdir(pendingUploadFilePath.dirname().resolvedPath, {
+      recursive: true,
+    });
+    await fs.writeFile(
+      pendingUploadFilePath.resolvedPath,
+      JSON.stringify({ startedAt: new Date().toISOString() }),
+    );
+
     await fs.mkdir(this.idDirPath(project, inputArtifact.id).resolvedPath, {
       recursive: true,
     });
@@ -126,39 +397,77 @@ export class FilesystemStorageProvider implements StorageProvider {
         );
         return fs
           .mkdir(contractPath.dirname().resolvedPath, { recursive: true })
-          .then(() =>
-            fs.writeFile(contractPath.resolvedPath, JSON.stringify(artifact)),
-          );
+          .then(() => this.writeArtifactFile(contractPath, artifact));
       }),
-      fs.writeFile(
-        this.inputFilePath(project, inputArtifact.id).resolvedPath,
-        JSON.stringify(inputArtifact),
+      this.writeArtifactFile(
+        this.inputFilePath(project, inputArtifact.id),
+        inputArtifact,
       ),
     ]);
 
-    if (tag) {
-      const tagFilePath = this.tagFilePath(project, tag);
-      const manifest: TagManifest = { id: inputArtifact.id };
-      await fs.writeFile(tagFilePath.resolvedPath, JSON.stringify(manifest));
-    }
-
-    for (const originalContentPath of originalContent.paths) {
-      const targetPath = this.originalContentPath(
+    const checksumManifest = await createChecksumManifest(
+      inputArtifact,
+      outputContractArtifacts,
+      originalContent,
+    );
+    if (this.originalContentLayout === "content-addressed") {
+      await this.storeOriginalContentBlobs(
         project,
         inputArtifact.id,
-        originalContentPath,
-      );
-      await this.copyOriginalContent(
-        originalContent.rootPath.join(originalContentPath),
-        targetPath,
+        originalContent.rootPath,
+        createOriginalContentManifest(checksumManifest),
       );
+    } else {
+      for (const originalContentPath of originalContent.paths) {
+        const targetPath = this.originalContentPath(
+          project,
+          inputArtifact.id,
+          originalContentPath,
+        );
+        await this.copyOriginalContent(
+          originalContent.rootPath.join(originalContentPath),
+          targetPath,
+        );
+      }
     }
 
+    await fs.writeFile(
+      this.checksumsFilePath(project, inputArtifact.id).resolvedPath,
+      JSON.stringify(checksumManifest),
+    );
+
+    // Commit of the upload
+    await fs.rm(pendingUploadFilePath.resolvedPath, { force: true });
+
+    if (tag) {
+      await this.writeTagManifest(project, tag, inputArtifact.id);
+    }
+
+    // The artifact and its tag are committed at this point, the index can be rebuilt from the storage so a failed update does not fail the upload
+    const indexUpdated = await this.reportIndexUpdate(
+      this.listIds(project).then((ids) =>
+        this.updateIndex(
+          project,
+          indexUploadedArtifact(
+            summarizeArtifact(
+              inputArtifact,
+              outputContractArtifacts,
+              new Date(),
+            ),
+            tag,
+            ids,
+          ),
+        ),
+      ),
+    );
+
     if (this.debug) {
       this.logger.debug(
         `Stored artifact ${project}:${tag || inputArtifact.id} in ${this.storagePath}`,
       );
     }
+
+    return { indexUpdated };
   }
 
   public async downloadArtifactById(
@@ -172,24 +481,31 @@ export class FilesystemStorageProvider implements StorageProvider {
       stream: Stream;
     }[];
   }> {
+    if (await this.exists(this.pendingUploadFilePath(project, id))) {
+      throw new Error(
+        `Artifact ${project}@${id} is not committed, its upload is in progress or was interrupted`,
+      );
+    }
     const contractOutputArtifacts = await this.listContractOutputArtifacts(
       project,
       id,
     );
     return {
-      input: createReadStream(this.inputFilePath(project, id).resolvedPath),
-      contractOutputArtifacts: contractOutputArtifacts.map((artifact) => ({
-        sourceName: artifact.sourceName,
-        contractName: artifact.contractName,
-        stream: createReadStream(
-          this.contractOutputFilePath(
-            project,
-            id,
-            artifact.sourceName,
-            artifact.contractName,
-          ).resolvedPath,
-        ),
-      })),
+      input: await this.openArtifactFile(this.inputFilePath(project, id)),
+      contractOutputArtifacts: await Promise.all(
+        contractOutputArtifacts.map(async (artifact) => ({
+          sourceName: artifact.sourceName,
+          contractName: artifact.contractName,
+          stream: await this.openArtifactFile(
+            this.contractOutputFilePath(
+              project,
+              id,
+              artifact.sourceName,
+              artifact.contractName,
+            ),
+          ),
+        })),
+      ),
     };
   }
 
@@ -223,10 +539,346 @@ export class FilesystemStorageProvider implements StorageProvider {
     id: string,
     relativePath: RelativePath,
   ): Promise<Stream> {
-    const filePath = this.originalContentRootPath(project, id).join(
-      relativePath,
+    const manifest = await this.getOriginalContentManifest(project, id);
+    if (manifest) {
+      return this.openOriginalContentFile(
+        this.blobFilePath(
+          project,
+          findOriginalContentBlob(manifest, relativePath),
+        ),
+      );
+    }
+    return this.openOriginalContentFile(
+      this.originalContentRootPath(project, id).join(relativePath),
+    );
+  }
+
+  /**
+   * Reads the original content manifest of an artifact ID, undefined if its original content is stored as files.
+   */
+  private async getOriginalContentManifest(
+    project: string,
+    id: string,
+  ): Promise<OriginalContentManifest | undefined> {
+    const manifestFilePath = this.originalContentManifestFilePath(project, id);
+    if (!(await this.exists(manifestFilePath))) {
+      return undefined;
+    }
+    const manifestContent = await fs.readFile(
+      manifestFilePath.resolvedPath,
+      "utf-8",
     );
-    return createReadStream(filePath.resolvedPath);
+    return OriginalContentManifestSchema.parse(JSON.parse(manifestContent));
+  }
+
+  /**
+   * Stores the original content with the content-addressed layout.
+   * The manifest is written first, so that the blobs are referenced before they are reused. Blobs that already exist are not written again,
+   * unless an encryption key is configured and the existing blob is not encrypted.
+   */
+  private async storeOriginalContentBlobs(
+    project: string,
+    id: string,
+    rootPath: AbsolutePath,
+    manifest: OriginalContentManifest,
+  ): Promise<void> {
+    await fs.writeFile(
+      this.originalContentManifestFilePath(project, id).resolvedPath,
+      JSON.stringify(manifest),
+    );
+    await fs.mkdir(this.blobsPath(project).resolvedPath, { recursive: true });
+    let skippedBlobs = 0;
+    for (const originalContentPath of listOriginalContentPaths(manifest)) {
+      const blobFilePath = this.blobFilePath(
+        project,
+        findOriginalContentBlob(manifest, originalContentPath),
+      );
+      if (await this.isBlobReusable(blobFilePath)) {
+        skippedBlobs++;
+        continue;
+      }
+      const temporaryPath = new AbsolutePath(
+        `${blobFilePath.resolvedPath}.${process.pid}.tmp`,
+      );
+      await this.copyOriginalContent(
+        rootPath.join(originalContentPath),
+        temporaryPath,
+      );
+      await fs.rename(temporaryPath.resolvedPath, blobFilePath.resolvedPath);
+    }
+    if (this.debug && skippedBlobs > 0) {
+      this.logger.debug(
+        `${skippedBlobs} original content files of ${project}@${id} were already stored as blobs, skipped`,
+      );
+    }
+  }
+
+  /**
+   * A stored blob is reused if it matches the encryption of new uploads, an unencrypted blob is written again encrypted once an encryption key is configured.
+   */
+  private async isBlobReusable(blobFilePath: AbsolutePath): Promise<boolean> {
+    if (!(await this.exists(blobFilePath))) {
+      return false;
+    }
+    return !this.cipher || isEncrypted(await this.readFileHeader(blobFilePath));
+  }
+
+  /**
+   * Deletes the blobs of a deleted artifact that no other artifact ID of the project references.
+   * An upload in progress may skip a blob that already exists before its manifest can be read here, the blobs are kept if an upload is pending before or during the clean-up.
+   */
+  private async deleteUnreferencedBlobs(
+    project: string,
+    deletedManifest: OriginalContentManifest,
+  ): Promise<void> {
+    const ids = await this.listIds(project);
+    if (await this.hasUploadsSince(project, ids)) {
+      this.logSkippedBlobsCleanUp(project);
+      return;
+    }
+    const remainingManifests: OriginalContentManifest[] = [];
+    for (const id of ids) {
+      const manifest = await this.getOriginalContentManifest(project, id);
+      if (manifest) {
+        remainingManifests.push(manifest);
+      }
+    }
+    const unreferencedBlobs = listUnreferencedBlobs(
+      deletedManifest,
+      remainingManifests,
+    );
+    if (await this.hasUploadsSince(project, ids)) {
+      this.logSkippedBlobsCleanUp(project);
+      return;
+    }
+    for (const blob of unreferencedBlobs) {
+      await fs.rm(this.blobFilePath(project, blob).resolvedPath, {
+        force: true,
+      });
+    }
+    if (this.debug) {
+      this.logger.debug(
+        `Deleted ${unreferencedBlobs.length} unreferenced blob(s) of ${project}`,
+      );
+    }
+  }
+
+  /**
+   * Whether an upload is pending or an artifact ID has been committed since the listing of the known IDs.
+   */
+  private async hasUploadsSince(
+    project: string,
+    knownIds: string[],
+  ): Promise<boolean> {
+    const [ids, pendingUploads] = await Promise.all([
+      this.listIds(project),
+      this.listPendingUploads(project),
+    ]);
+    return (
+      pendingUploads.length > 0 || ids.some((id) => !knownIds.includes(id))
+    );
+  }
+
+  private logSkippedBlobsCleanUp(project: string): void {
+    if (this.debug) {
+      this.logger.debug(
+        `An upload is in progress on ${project}, the unreferenced blobs are kept`,
+      );
+    }
+  }
+
+  /**
+   * Writes the manifest of a tag.
+   * A protected tag manifest is written with the exclusive flag, an existing manifest is only accepted if it points to the same ID.
+   */
+  private async writeTagManifest(
+    project: string,
+    tag: string,
+    id: string,
+  ): Promise<void> {
+    const tagFilePath = this.tagFilePath(project, tag);
+    const manifest: TagManifest = { id };
+    const protectedPattern = findMatchingTagPattern(tag, this.protectedTags);
+    if (!protectedPattern) {
+      await fs.writeFile(tagFilePath.resolvedPath, JSON.stringify(manifest));
+      return;
+    }
+
+    const created = await fs
+      .writeFile(tagFilePath.resolvedPath, JSON.stringify(manifest), {
+        flag: "wx",
+      })
+      .then(() => true)
+      .catch((err: NodeJS.ErrnoException) => {
+        if (err.code === "EEXIST") {
+          return false;
+        }
+        throw err;
+      });
+    if (created) {
+      return;
+    }
+    const existingManifest = TagManifestSchema.parse(
+      JSON.parse(await fs.readFile(tagFilePath.resolvedPath, "utf-8")),
+    );
+    if (existingManifest.id !== id) {
+      throw new Error(
+        `Tag "${tag}" is protected by the pattern "${protectedPattern}" and already points to the artifact ID ${existingManifest.id}, it can not be overwritten`,
+      );
+    }
+  }
+
+  /**
+   * Settles an update of the project index, a failure is logged and reported instead of thrown since the storage change it follows is already applied.
+   */
+  private async reportIndexUpdate(
+    indexUpdate: Promise<void>,
+  ): Promise<boolean> {
+    return indexUpdate
+      .then(() => true)
+      .catch((err) => {
+        if (this.debug) {
+          this.logger.debug(`Failed to update the project index: ${err}`);
+        }
+        return false;
+      });
+  }
+
+  /**
+   * Updates the project index under an exclusive lock file.
+   */
+  private async updateIndex(
+    project: string,
+    update: ProjectIndexUpdate,
+  ): Promise<void> {
+    const indexFilePath = this.projectIndexFilePath(project);
+    await fs.mkdir(indexFilePath.dirname().resolvedPath, { recursive: true });
+    await this.withLock(`${indexFilePath.resolvedPath}.lock`, () =>
+      updateProjectIndex(
+        {
+          read: async () => {
+            const index = await this.getProjectIndex(project);
+            return index ? { index, version: undefined } : undefined;
+          },
+          write: async (index) => {
+            await this.writeFileAtomically(
+              indexFilePath.resolvedPath,
+              JSON.stringify(index),
+            );
+            return true;
+          },
+        },
+        update,
+      ),
+    );
+  }
+
+  /**
+   * Written to a temporary file first, so that readers never see a partial content.
+   */
+  private async writeFileAtomically(
+    filePath: string,
+    content: string,
+  ): Promise<void> {
+    const temporaryPath = `${filePath}.tmp`;
+    await fs.writeFile(temporaryPath, content);
+    await fs.rename(temporaryPath, filePath);
+  }
+
+  /**
+   * Runs a read-modify-write under an exclusive lock file.
+   * A lock left over by a crashed process is removed once stale.
+   */
+  private async withLock<T>(
+    lockPath: string,
+    fn: () => Promise<T>,
+  ): Promise<T> {
+    await this.acquireLock(lockPath);
+    try {
+      return await fn();
+    } finally {
+      await fs.rm(lockPath, { force: true });
+    }
+  }
+
+  private async acquireLock(lockPath: string): Promise<void> {
+    for (let attempt = 0; attempt < LOCK_MAX_ATTEMPTS; attempt++) {
+      const acquired = await fs
+        .writeFile(lockPath, String(process.pid), { flag: "wx" })
+        .then(() => true)
+        .catch((err: NodeJS.ErrnoException) => {
+          if (err.code === "EEXIST") {
+            return false;
+          }
+          throw err;
+        });
+      if (acquired) {
+        return;
+      }
+      const lockStats = await fs.stat(lockPath).catch(() => undefined);
+      if (lockStats && Date.now() - lockStats.mtimeMs > LOCK_STALE_MS) {
+        if (this.debug) {
+          this.logger.debug(`Removing stale lock ${lockPath}`);
+        }
+        await fs.rm(lockPath, { force: true });
+        continue;
+      }
+      await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_DELAY_MS));
+    }
+    throw new Error(`Failed to acquire the lock ${lockPath}`);
+  }
+
+  private async collectArtifactSummaries(
+    project: string,
+  ): Promise<ArtifactSummary[]> {
+    const ids = await this.listIds(project);
+    return Promise.all(ids.map((id) => this.getArtifactSummary(project, id)));
+  }
+
+  private async resolveTags(project: string): Promise<Record<string, string>> {
+    const tags: Record<string, string> = {};
+    for (const tag of await this.listTags(project)) {
+      const id = await this.resolveTagId(project, tag);
+      if (id) {
+        tags[tag] = id;
+      }
+    }
+    return tags;
+  }
+
+  private async listPendingUploads(project: string): Promise<string[]> {
+    const entries = await this.safeReadDir(this.pendingUploadsPath(project));
+    return entries
+      .filter((entry) => entry.isFile() && entry.name.endsWith(".json"))
+      .map((entry) => entry.name.replace(".json", ""));
+  }
+
+  /**
+   * Builds the summary of an artifact from its input artifact, the push date is the modification date of the input artifact.
+   */
+  private async getArtifactSummary(
+    project: string,
+    id: string,
+  ): Promise<ArtifactSummary> {
+    const inputFilePath = this.inputFilePath(project, id);
+    const [inputContent, inputStats, contracts] = await Promise.all([
+      fs.readFile(inputFilePath.resolvedPath),
+      fs.stat(inputFilePath.resolvedPath),
+      this.listContractOutputArtifacts(project, id),
+    ]);
+    const input = InputArtifactSummarySchema.parse(
+      JSON.parse(
+        (await this.decodeArtifactContent(inputContent)).toString("utf-8"),
+      ),
+    );
+    return {
+      id,
+      origin: input.origin,
+      solcLongVersion: input.solcLongVersion,
+      contracts,
+      pushedAt: inputStats.mtime.toISOString(),
+      metadata: input.metadata,
+    };
   }
 
   private idsPath(project: string): AbsolutePath {
@@ -245,10 +897,26 @@ export class FilesystemStorageProvider implements StorageProvider {
     return this.idsPath(project).join(id);
   }
 
+  private pendingUploadsPath(project: string): AbsolutePath {
+    return this.storagePath.join(project, "uploads");
+  }
+
+  private pendingUploadFilePath(project: string, id: string): AbsolutePath {
+    return this.pendingUploadsPath(project).join(`${id}.json`);
+  }
+
   private tagFilePath(project: string, tag: string): AbsolutePath {
     return this.tagsPath(project).join(`${tag}.json`);
   }
 
+  private projectIndexFilePath(project: string): AbsolutePath {
+    return this.storagePath.join(project, "index.json");
+  }
+
+  private tagHistoryFilePath(project: string, tag: string): AbsolutePath {
+    return this.storagePath.join(project, "tag-history", `${tag}.json`);
+  }
+
   private originalContentPath(
     project: string,
     id: string,
@@ -257,6 +925,25 @@ export class FilesystemStorageProvider implements StorageProvider {
     return this.idDirPath(project, id).join("original", sourcePath);
   }
 
+  private originalContentManifestFilePath(
+    project: string,
+    id: string,
+  ): AbsolutePath {
+    return this.idDirPath(project, id).join("original.json");
+  }
+
+  private blobsPath(project: string): AbsolutePath {
+    return this.storagePath.join(project, "blobs");
+  }
+
+  private blobFilePath(project: string, checksum: string): AbsolutePath {
+    return this.blobsPath(project).join(checksum);
+  }
+
+  private checksumsFilePath(project: string, id: string): AbsolutePath {
+    return this.idDirPath(project, id).join("checksums.json");
+  }
+
   private inputFilePath(project: string, id: string): AbsolutePath {
     return this.idDirPath(project, id).join("input.json");
   }
@@ -277,12 +964,99 @@ export class FilesystemStorageProvider implements StorageProvider {
     );
   }
 
+  /**
+   * Writes an input or output artifact, compressed with the configured compression then encrypted with the configured key.
+   */
+  private async writeArtifactFile(
+    filePath: AbsolutePath,
+    artifact: EthokoInputArtifact | EthokoContractOutputArtifact,
+  ): Promise<void> {
+    let content: string | Buffer = JSON.stringify(artifact);
+    if (this.compression) {
+      content = await compressContent(content, this.compression);
+    }
+    if (this.cipher) {
+      content = await this.cipher.encrypt(content);
+    }
+    await fs.writeFile(filePath.resolvedPath, content);
+  }
+
+  /**
+   * Opens a stream of an input or output artifact, decrypted and decompressed according to the magic number of the file.
+   * Encrypted files are read at once, the others are streamed.
+   */
+  private async openArtifactFile(filePath: AbsolutePath): Promise<Stream> {
+    const header = await this.readFileHeader(filePath);
+    if (isEncrypted(header)) {
+      const content = await this.decodeArtifactContent(
+        await fs.readFile(filePath.resolvedPath),
+      );
+      return Readable.from([content]);
+    }
+    return decompressStream(
+      createReadStream(filePath.resolvedPath),
+      detectCompression(header),
+    );
+  }
+
+  /**
+   * Decrypts then decompresses the content of an input or output artifact.
+   */
+  private async decodeArtifactContent(content: Buffer): Promise<Buffer> {
+    const decryptedContent = await decryptContent(content, this.cipher);
+    return decompressContent(
+      decryptedContent,
+      detectCompression(decryptedContent),
+    );
+  }
+
+  /**
+   * Opens a stream of an original content file, decrypted if it is encrypted. Original content is never compressed.
+   */
+  private async openOriginalContentFile(
+    filePath: AbsolutePath,
+  ): Promise<Stream> {
+    const header = await this.readFileHeader(filePath);
+    if (!isEncrypted(header)) {
+      return createReadStream(filePath.resolvedPath);
+    }
+    return Readable.from([
+      await decryptContent(
+        await fs.readFile(filePath.resolvedPath),
+        this.cipher,
+      ),
+    ]);
+  }
+
+  private async readFileHeader(filePath: AbsolutePath): Promise<Buffer> {
+    const fileHandle = await fs.open(filePath.resolvedPath, "r");
+    const header = Buffer.alloc(
+      Math.max(COMPRESSION_HEADER_LENGTH, ENCRYPTION_HEADER_LENGTH),
+    );
+    try {
+      const { bytesRead } = await fileHandle.read(header, 0, header.length, 0);
+      return header.subarray(0, bytesRead);
+    } finally {
+      await fileHandle.close();
+    }
+  }
+
+  /**
+   * Copies an original content file, encrypted with the configured key.
+   */
   private async copyOriginalContent(
     sourcePath: AbsolutePath,
     targetPath: AbsolutePath,
   ): Promise<void> {
     await fs.mkdir(targetPath.dirname().resolvedPath, { recursive: true });
-    await fs.copyFile(sourcePath.resolvedPath, targetPath.resolvedPath);
+    if (!this.cipher) {
+      await fs.copyFile(sourcePath.resolvedPath, targetPath.resolvedPath);
+      return;
+    }
+    await fs.writeFile(
+      targetPath.resolvedPath,
+      await this.cipher.encrypt(await fs.readFile(sourcePath.resolvedPath)),
+    );
   }
 
   private async ensureProjectSetup(project: string): Promise<void> {
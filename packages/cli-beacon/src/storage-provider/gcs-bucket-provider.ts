@@ -0,0 +1,926 @@
+import { Stream } from "stream";
+import { ApiError, Bucket, File, Storage } from "@google-cloud/storage";
+import {
+  ArtifactSummary,
+  ChecksumManifest,
+  ChecksumManifestSchema,
+  EthokoContractOutputArtifact,
+  EthokoInputArtifact,
+  InputArtifactSummarySchema,
+  OriginalContentManifest,
+  OriginalContentManifestSchema,
+  ProjectIndex,
+  ProjectIndexSchema,
+  TagHistory,
+  TagHistoryEntry,
+  TagHistorySchema,
+  TagManifest,
+  TagManifestSchema,
+} from "../ethoko-artifacts/v0";
+import {
+  OriginalContentLayout,
+  StorageProvider,
+  StorageUpdateResult,
+} from "./storage-provider.interface";
+import fs from "fs/promises";
+import { AbsolutePath, RelativePath } from "@/utils/path";
+import path from "path";
+import { DebugLogger } from "@/utils/debug-logger";
+import { findMatchingTagPattern } from "@/utils/tag-pattern";
+import {
+  createProjectIndex,
+  indexDeletedArtifact,
+  indexTag,
+  indexUploadedArtifact,
+  ProjectIndexUpdate,
+  summarizeArtifact,
+  updateProjectIndex,
+} from "./project-index";
+import { applyOptimisticUpdate } from "./optimistic-update";
+import { createChecksumManifest } from "../ethoko-artifacts/checksum-manifest";
+import {
+  createOriginalContentManifest,
+  findOriginalContentBlob,
+  listOriginalContentPaths,
+  listUnreferencedBlobs,
+} from "../ethoko-artifacts/original-content-manifest";
+
+type GcsBucketProviderConfig = {
+  bucketName: string;
+  projectId?: string;
+  credentials?: {
+    type: "keyFile";
+    keyFilename: string; // Path to a service account JSON key file
+  };
+  apiEndpoint?: string;
+  protectedTags?: string[]; // Glob patterns of tags that can never be overwritten
+  originalContentLayout?: OriginalContentLayout; // Layout of the original content of new uploads, defaults to "files"
+  debug?: boolean;
+  rootPath?: string;
+  logger: DebugLogger;
+};
+
+export class GcsBucketProvider implements StorageProvider {
+  /**
+   * GCS storage layout (prefix under rootPath)
+   * - {project}/ids/{id}/input.json
+   * - {project}/ids/{id}/original/** (original compilation content)
+   * - {project}/ids/{id}/original.json (original content manifest: { files }, content-addressed layout)
+   * - {project}/blobs/{checksum} (original content files, content-addressed layout)
+   * - {project}/tags/{tag}.json (manifest: { id })
+   * - {project}/tag-history/{tag}.json (history: { entries })
+   *
+   * Manifests of protected tags are written with the `ifGenerationMatch: 0` precondition,
+   * so that the bucket itself rejects any overwrite.
+   * The index and the tag histories are updated with conditional writes on their generation, retried on conflicts.
+   */
+  private readonly config: GcsBucketProviderConfig;
+  private bucket: Bucket | undefined;
+  private readonly rootPath: string;
+  private readonly logger: DebugLogger;
+  // Original content manifests by "{project}/{id}", an artifact ID never changes once uploaded
+  private readonly originalContentManifests = new Map<
+    string,
+    OriginalContentManifest | undefined
+  >();
+
+  constructor(config: GcsBucketProviderConfig) {
+    this.config = config;
+    this.rootPath = config.rootPath || "projects";
+    this.logger = config.logger;
+  }
+
+  private getBucket(): Bucket {
+    if (this.bucket) {
+      return this.bucket;
+    }
+
+    const credentialsConfig = this.config.credentials;
+    if (!credentialsConfig) {
+      if (this.config.debug) {
+        this.logger.debug(
+          "No GCS credentials provided in config, using Application Default Credentials",
+        );
+      }
+    } else if (this.config.debug) {
+      this.logger.debug(
+        `GCS key file "${credentialsConfig.keyFilename}" provided in config, loading service account credentials from it`,
+      );
+    }
+
+    const storage = new Storage({
+      projectId: this.config.projectId,
+      keyFilename: credentialsConfig?.keyFilename,
+      apiEndpoint: this.config.apiEndpoint,
+    });
+    this.bucket = storage.bucket(this.config.bucketName);
+    return this.bucket;
+  }
+
+  public async listIds(project: string): Promise<string[]> {
+    const prefix = `${this.rootPath}/${project}/ids/`;
+    const prefixes = await this.listPrefixes(prefix);
+    return prefixes.map((entry) => entry.replace(prefix, "").replace("/", ""));
+  }
+
+  public async listArtifactSummaries(
+    project: string,
+  ): Promise<ArtifactSummary[]> {
+    const index = await this.getProjectIndex(project);
+    if (index) {
+      return index.artifacts;
+    }
+    return this.collectArtifactSummaries(project);
+  }
+
+  public async getProjectIndex(
+    project: string,
+  ): Promise<ProjectIndex | undefined> {
+    const indexContent = await this.downloadIfExists(
+      `${this.rootPath}/${project}/index.json`,
+    );
+    if (indexContent === undefined) {
+      return undefined;
+    }
+    return ProjectIndexSchema.parse(JSON.parse(indexContent));
+  }
+
+  public async rebuildProjectIndex(project: string): Promise<ProjectIndex> {
+    const [artifacts, tags] = await Promise.all([
+      this.collectArtifactSummaries(project),
+      this.resolveTags(project),
+    ]);
+    const index = createProjectIndex(
+      artifacts.sort((a, b) =>
+        (a.pushedAt ?? "").localeCompare(b.pushedAt ?? ""),
+      ),
+      tags,
+    );
+    await this.updateIndex(project, () => index);
+    return index;
+  }
+
+  public async listOriginalContent(
+    project: string,
+    id: string,
+  ): Promise<RelativePath[]> {
+    const manifest = await this.getOriginalContentManifest(project, id);
+    if (manifest) {
+      return listOriginalContentPaths(manifest);
+    }
+    const prefix = `${this.rootPath}/${project}/ids/${id}/original/`;
+    const keys = await this.listKeys(prefix);
+    return keys
+      .map((key) => key.replace(prefix, ""))
+      .filter((relativeKey) => relativeKey.length > 0)
+      .map((relativeKey) => this.fromGcsPath(relativeKey));
+  }
+
+  public async listTags(project: string): Promise<string[]> {
+    const prefix = `${this.rootPath}/${project}/tags/`;
+    const keys = await this.listKeys(prefix);
+    return keys.map((key) => key.replace(prefix, "").replace(".json", ""));
+  }
+
+  public async hasArtifactByTag(
+    project: string,
+    tag: string,
+  ): Promise<boolean> {
+    const [exists] = await this.getBucket()
+      .file(`${this.rootPath}/${project}/tags/${tag}.json`)
+      .exists();
+    return exists;
+  }
+
+  public async hasArtifactById(project: string, id: string): Promise<boolean> {
+    const [files] = await this.getBucket().getFiles({
+      prefix: `${this.rootPath}/${project}/ids/${id}/`,
+      maxResults: 1,
+      autoPaginate: false,
+    });
+    return files.length > 0;
+  }
+
+  public async writeTag(
+    project: string,
+    tag: string,
+    id: string,
+  ): Promise<StorageUpdateResult> {
+    await this.saveTagManifest(project, tag, id);
+    const indexUpdated = await this.reportIndexUpdate(
+      this.updateIndex(project, indexTag(tag, id)),
+    );
+    return { indexUpdated };
+  }
+
+  public async deleteTag(
+    project: string,
+    tag: string,
+  ): Promise<StorageUpdateResult> {
+    const protectedPattern = findMatchingTagPattern(
+      tag,
+      this.config.protectedTags ?? [],
+    );
+    if (protectedPattern) {
+      throw new Error(
+        `Tag "${tag}" is protected by the pattern "${protectedPattern}", it can not be deleted`,
+      );
+    }
+    await this.getBucket()
+      .file(`${this.rootPath}/${project}/tags/${tag}.json`)
+      .delete({ ignoreNotFound: true });
+    const indexUpdated = await this.reportIndexUpdate(
+      this.updateIndex(project, indexTag(tag, null)),
+    );
+    return { indexUpdated };
+  }
+
+  public async deleteArtifact(
+    project: string,
+    id: string,
+  ): Promise<StorageUpdateResult> {
+    const originalContentManifest = await this.getOriginalContentManifest(
+      project,
+      id,
+    );
+    this.originalContentManifests.delete(`${project}/${id}`);
+    const keys = await this.listKeys(`${this.rootPath}/${project}/ids/${id}/`);
+    const bucket = this.getBucket();
+    await Promise.all(
+      keys.map((key) => bucket.file(key).delete({ ignoreNotFound: true })),
+    );
+    if (originalContentManifest) {
+      await this.deleteUnreferencedBlobs(project, originalContentManifest);
+    }
+    const indexUpdated = await this.reportIndexUpdate(
+      this.updateIndex(project, indexDeletedArtifact(id)),
+    );
+    if (this.config.debug) {
+      this.logger.debug(
+        `Deleted ${keys.length} object(s) of artifact ${project}@${id} from GCS`,
+      );
+    }
+    return { indexUpdated };
+  }
+
+  public async resolveTagId(
+    project: string,
+    tag: string,
+  ): Promise<string | undefined> {
+    const manifestContent = await this.downloadIfExists(
+      `${this.rootPath}/${project}/tags/${tag}.json`,
+    );
+    if (manifestContent === undefined) {
+      return undefined;
+    }
+    return TagManifestSchema.parse(JSON.parse(manifestContent)).id;
+  }
+
+  public async getTagHistory(
+    project: string,
+    tag: string,
+  ): Promise<TagHistoryEntry[]> {
+    const historyContent = await this.downloadIfExists(
+      `${this.rootPath}/${project}/tag-history/${tag}.json`,
+    );
+    if (historyContent === undefined) {
+      return [];
+    }
+    return TagHistorySchema.parse(JSON.parse(historyContent)).entries;
+  }
+
+  public async appendTagHistory(
+    project: string,
+    tag: string,
+    entry: TagHistoryEntry,
+  ): Promise<void> {
+    const file = this.getBucket().file(
+      `${this.rootPath}/${project}/tag-history/${tag}.json`,
+    );
+    await applyOptimisticUpdate<TagHistory, number>(
+      {
+        read: async () => {
+          const [exists] = await file.exists();
+          if (!exists) {
+            return undefined;
+          }
+          // The generation is read first, a newer content is then rejected by the conditional write
+          const [metadata] = await file.getMetadata();
+          const [content] = await file.download();
+          return {
+            value: TagHistorySchema.parse(
+              JSON.parse(content.toString("utf-8")),
+            ),
+            version: Number(metadata.generation),
+          };
+        },
+        write: (history, generation) =>
+          this.saveConditionally(file, JSON.stringify(history), generation),
+      },
+      (history) => ({ entries: [...(history?.entries ?? []), entry] }),
+      "the tag history",
+    );
+  }
+
+  public async getChecksumManifest(
+    project: string,
+    id: string,
+  ): Promise<ChecksumManifest | undefined> {
+    const checksumsContent = await this.downloadIfExists(
+      `${this.rootPath}/${project}/ids/${id}/checksums.json`,
+    );
+    if (checksumsContent === undefined) {
+      return undefined;
+    }
+    return ChecksumManifestSchema.parse(JSON.parse(checksumsContent));
+  }
+
+  public async getCallerIdentity(): Promise<string | undefined> {
+    // Service account identities are not resolved, the git user identifies the pusher
+    return undefined;
+  }
+
+  public async uploadArtifact(
+    project: string,
+    inputArtifact: EthokoInputArtifact,
+    contractOutputArtifacts: EthokoContractOutputArtifact[],
+    tag: string | undefined,
+    originalContent: { rootPath: AbsolutePath; paths: RelativePath[] },
+  ): Promise<StorageUpdateResult> {
+    const bucket = this.getBucket();
+    const contractUploads = contractOutputArtifacts.map((contractArtifact) =>
+      bucket
+        .file(
+          `${this.rootPath}/${project}/ids/${inputArtifact.id}/outputs/${contractArtifact.sourceName}/${contractArtifact.contract}.json`,
+        )
+        .save(JSON.stringify(contractArtifact), {
+          contentType: "application/json",
+          resumable: false,
+        }),
+    );
+    await Promise.all([
+      ...contractUploads,
+      bucket
+        .file(`${this.rootPath}/${project}/ids/${inputArtifact.id}/input.json`)
+        .save(JSON.stringify(inputArtifact), {
+          contentType: "application/json",
+          resumable: false,
+        }),
+    ]);
+
+    if (tag) {
+      await this.saveTagManifest(project, tag, inputArtifact.id);
+    }
+
+    const checksumManifest = await createChecksumManifest(
+      inputArtifact,
+      contractOutputArtifacts,
+      originalContent,
+    );
+    if (this.config.originalContentLayout === "content-addressed") {
+      await this.saveOriginalContentBlobs(
+        project,
+        inputArtifact.id,
+        originalContent.rootPath,
+        createOriginalContentManifest(checksumManifest),
+      );
+    } else {
+      // Original content files are stored under the artifact ID prefix, see the S3 provider for the rationale
+      for (const originalContentPath of originalContent.paths) {
+        const content = await fs.readFile(
+          originalContent.rootPath.join(originalContentPath).resolvedPath,
+        );
+        await bucket
+          .file(
+            `${this.rootPath}/${project}/ids/${inputArtifact.id}/original/${this.toGcsPath(originalContentPath)}`,
+          )
+          .save(content, { resumable: false });
+      }
+    }
+
+    await bucket
+      .file(
+        `${this.rootPath}/${project}/ids/${inputArtifact.id}/checksums.json`,
+      )
+      .save(JSON.stringify(checksumManifest), {
+        contentType: "application/json",
+        resumable: false,
+      });
+
+    // The artifact and its tag are committed at this point, the index can be rebuilt from the storage so a failed update does not fail the upload
+    const indexUpdated = await this.reportIndexUpdate(
+      this.listIds(project).then((ids) =>
+        this.updateIndex(
+          project,
+          indexUploadedArtifact(
+            summarizeArtifact(
+              inputArtifact,
+              contractOutputArtifacts,
+              new Date(),
+            ),
+            tag,
+            ids,
+          ),
+        ),
+      ),
+    );
+    return { indexUpdated };
+  }
+
+  public async downloadArtifactById(
+    project: string,
+    id: string,
+  ): Promise<{
+    input: Stream;
+    contractOutputArtifacts: {
+      sourceName: string;
+      contractName: string;
+      stream: Stream;
+    }[];
+  }> {
+    const bucket = this.getBucket();
+    const inputFile = bucket.file(
+      `${this.rootPath}/${project}/ids/${id}/input.json`,
+    );
+    const [inputExists] = await inputFile.exists();
+    if (!inputExists) {
+      throw new Error(
+        `Artifact corrupted on remote storage for ID ${id}, requires attention`,
+      );
+    }
+    const contractArtifacts = await this.listContractOutputArtifacts(
+      project,
+      id,
+    );
+    const contractOutputArtifacts = contractArtifacts.map(
+      ({ sourceName, contractName }) => ({
+        sourceName,
+        contractName,
+        stream: bucket
+          .file(
+            `${this.rootPath}/${project}/ids/${id}/outputs/${sourceName}/${contractName}.json`,
+          )
+          .createReadStream(),
+      }),
+    );
+    return {
+      input: inputFile.createReadStream(),
+      contractOutputArtifacts,
+    };
+  }
+
+  public async downloadArtifactByTag(
+    project: string,
+    tag: string,
+  ): Promise<{
+    id: string;
+    input: Stream;
+    contractOutputArtifacts: {
+      sourceName: string;
+      contractName: string;
+      stream: Stream;
+    }[];
+  }> {
+    const [manifestContent] = await this.getBucket()
+      .file(`${this.rootPath}/${project}/tags/${tag}.json`)
+      .download();
+    const manifest = TagManifestSchema.parse(
+      JSON.parse(manifestContent.toString("utf-8")),
+    );
+    const streams = await this.downloadArtifactById(project, manifest.id);
+    return {
+      id: manifest.id,
+      ...streams,
+    };
+  }
+
+  public async downloadOriginalContent(
+    project: string,
+    id: string,
+    relativePath: RelativePath,
+  ): Promise<Stream> {
+    const manifest = await this.getOriginalContentManifest(project, id);
+    if (manifest) {
+      return this.getBucket()
+        .file(
+          this.blobName(
+            project,
+            findOriginalContentBlob(manifest, relativePath),
+          ),
+        )
+        .createReadStream();
+    }
+    return this.getBucket()
+      .file(
+        `${this.rootPath}/${project}/ids/${id}/original/${this.toGcsPath(relativePath)}`,
+      )
+      .createReadStream();
+  }
+
+  /**
+   * Reads the original content manifest of an artifact ID, undefined if its original content is stored as files.
+   */
+  private async getOriginalContentManifest(
+    project: string,
+    id: string,
+  ): Promise<OriginalContentManifest | undefined> {
+    const cacheKey = `${project}/${id}`;
+    if (this.originalContentManifests.has(cacheKey)) {
+      return this.originalContentManifests.get(cacheKey);
+    }
+    const manifestContent = await this.downloadIfExists(
+      `${this.rootPath}/${project}/ids/${id}/original.json`,
+    );
+    const manifest =
+      manifestContent === undefined
+        ? undefined
+        : OriginalContentManifestSchema.parse(JSON.parse(manifestContent));
+    this.originalContentManifests.set(cacheKey, manifest);
+    return manifest;
+  }
+
+  /**
+   * Saves the original content with the content-addressed layout.
+   * The manifest is written first, so that the blobs are referenced before they are reused. Blobs that already exist are not written again.
+   */
+  private async saveOriginalContentBlobs(
+    project: string,
+    id: string,
+    rootPath: AbsolutePath,
+    manifest: OriginalContentManifest,
+  ): Promise<void> {
+    const bucket = this.getBucket();
+    await bucket
+      .file(`${this.rootPath}/${project}/ids/${id}/original.json`)
+      .save(JSON.stringify(manifest), {
+        contentType: "application/json",
+        resumable: false,
+      });
+    this.originalContentManifests.set(`${project}/${id}`, manifest);
+    let skippedBlobs = 0;
+    for (const originalContentPath of listOriginalContentPaths(manifest)) {
+      const blobFile = bucket.file(
+        this.blobName(
+          project,
+          findOriginalContentBlob(manifest, originalContentPath),
+        ),
+      );
+      const [exists] = await blobFile.exists();
+      if (exists) {
+        skippedBlobs++;
+        continue;
+      }
+      const content = await fs.readFile(
+        rootPath.join(originalContentPath).resolvedPath,
+      );
+      await blobFile.save(content, { resumable: false });
+    }
+    if (this.config.debug && skippedBlobs > 0) {
+      this.logger.debug(
+        `${skippedBlobs} original content files of ${project}@${id} were already stored as blobs, skipped`,
+      );
+    }
+  }
+
+  /**
+   * Deletes the blobs of a deleted artifact that no other artifact ID of the project references.
+   * An upload in progress may skip a blob that already exists before its manifest can be read here, the blobs are kept if an upload is in progress before or during the clean-up.
+   */
+  private async deleteUnreferencedBlobs(
+    project: string,
+    deletedManifest: OriginalContentManifest,
+  ): Promise<void> {
+    const ids = await this.listIds(project);
+    if (await this.hasUploadsSince(project, ids)) {
+      this.logSkippedBlobsCleanUp(project);
+      return;
+    }
+    const remainingManifests: OriginalContentManifest[] = [];
+    for (const id of ids) {
+      const manifest = await this.getOriginalContentManifest(project, id);
+      if (manifest) {
+        remainingManifests.push(manifest);
+      }
+    }
+    const unreferencedBlobs = listUnreferencedBlobs(
+      deletedManifest,
+      remainingManifests,
+    );
+    if (await this.hasUploadsSince(project, ids)) {
+      this.logSkippedBlobsCleanUp(project);
+      return;
+    }
+    const bucket = this.getBucket();
+    await Promise.all(
+      unreferencedBlobs.map((blob) =>
+        bucket
+          .file(this.blobName(project, blob))
+          .delete({ ignoreNotFound: true }),
+      ),
+    );
+    if (this.config.debug) {
+      this.logger.debug(
+        `Deleted ${unreferencedBlobs.length} unreferenced blob(s) of ${project}`,
+      );
+    }
+  }
+
+  /**
+   * Whether an upload is in progress or an artifact ID has been uploaded since the listing of the known IDs.
+   * The checksum manifest is written last, an ID without it is an upload in progress or an interrupted one.
+   */
+  private async hasUploadsSince(
+    project: string,
+    knownIds: string[],
+  ): Promise<boolean> {
+    const ids = await this.listIds(project);
+    if (ids.some((id) => !knownIds.includes(id))) {
+      return true;
+    }
+    const bucket = this.getBucket();
+    for (const id of ids) {
+      const [exists] = await bucket
+        .file(`${this.rootPath}/${project}/ids/${id}/checksums.json`)
+        .exists();
+      if (!exists) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  private logSkippedBlobsCleanUp(project: string): void {
+    if (this.config.debug) {
+      this.logger.debug(
+        `An upload is in progress on ${project}, the unreferenced blobs are kept`,
+      );
+    }
+  }
+
+  private blobName(project: string, checksum: string): string {
+    return `${this.rootPath}/${project}/blobs/${checksum}`;
+  }
+
+  /**
+   * Writes the manifest of a tag.
+   * A protected tag manifest is only created if it does not exist yet, an existing manifest is only accepted if it points to the same ID.
+   */
+  private async saveTagManifest(
+    project: string,
+    tag: string,
+    id: string,
+  ): Promise<void> {
+    const file = this.getBucket().file(
+      `${this.rootPath}/${project}/tags/${tag}.json`,
+    );
+    const manifest: TagManifest = { id };
+    const protectedPattern = findMatchingTagPattern(
+      tag,
+      this.config.protectedTags ?? [],
+    );
+    if (!protectedPattern) {
+      await file.save(JSON.stringify(manifest), {
+        contentType: "application/json",
+        resumable: false,
+      });
+      return;
+    }
+
+    const created = await file
+      .save(JSON.stringify(manifest), {
+        contentType: "application/json",
+        resumable: false,
+        preconditionOpts: { ifGenerationMatch: 0 },
+      })
+      .then(() => true)
+      .catch((err) => {
+        if (err instanceof ApiError && err.code === 412) {
+          return false;
+        }
+        throw err;
+      });
+    if (created) {
+      return;
+    }
+    const [existingContent] = await file.download();
+    const existingManifest = TagManifestSchema.parse(
+      JSON.parse(existingContent.toString("utf-8")),
+    );
+    if (existingManifest.id !== id) {
+      throw new Error(
+        `Tag "${tag}" is protected by the pattern "${protectedPattern}" and already points to the artifact ID ${existingManifest.id}, it can not be overwritten`,
+      );
+    }
+  }
+
+  /**
+   * Settles an update of the project index, a failure is logged and reported instead of thrown since the storage change it follows is already applied.
+   */
+  private async reportIndexUpdate(
+    indexUpdate: Promise<void>,
+  ): Promise<boolean> {
+    return indexUpdate
+      .then(() => true)
+      .catch((err) => {
+        if (this.config.debug) {
+          this.logger.debug(`Failed to update the project index: ${err}`);
+        }
+        return false;
+      });
+  }
+
+  /**
+   * Updates the project index with conditional writes on the generation of the index object, retried on conflicts.
+   */
+  private async updateIndex(
+    project: string,
+    update: ProjectIndexUpdate,
+  ): Promise<void> {
+    const file = this.getBucket().file(
+      `${this.rootPath}/${project}/index.json`,
+    );
+    await updateProjectIndex<number>(
+      {
+        read: async () => {
+          const [exists] = await file.exists();
+          if (!exists) {
+            return undefined;
+          }
+          // The generation is read first, a newer content is then rejected by the conditional write
+          const [metadata] = await file.getMetadata();
+          const [content] = await file.download();
+          return {
+            index: ProjectIndexSchema.parse(
+              JSON.parse(content.toString("utf-8")),
+            ),
+            version: Number(metadata.generation),
+          };
+        },
+        write: (index, generation) =>
+          this.saveConditionally(file, JSON.stringify(index), generation),
+      },
+      update,
+    );
+  }
+
+  /**
+   * Saves an object only if its generation still matches, or only if it does not exist yet without generation.
+   * @returns False if the object changed
+   */
+  private async saveConditionally(
+    file: File,
+    content: string,
+    generation: number | undefined,
+  ): Promise<boolean> {
+    return file
+      .save(content, {
+        contentType: "application/json",
+        resumable: false,
+        preconditionOpts: { ifGenerationMatch: generation ?? 0 },
+      })
+      .then(() => true)
+      .catch((err) => {
+        if (err instanceof ApiError && err.code === 412) {
+          return false;
+        }
+        throw err;
+      });
+  }
+
+  private async collectArtifactSummaries(
+    project: string,
+  ): Promise<ArtifactSummary[]> {
+    const ids = await this.listIds(project);
+    return Promise.all(ids.map((id) => this.getArtifactSummary(project, id)));
+  }
+
+  private async resolveTags(project: string): Promise<Record<string, string>> {
+    const tags: Record<string, string> = {};
+    for (const tag of await this.listTags(project)) {
+      const id = await this.resolveTagId(project, tag);
+      if (id) {
+        tags[tag] = id;
+      }
+    }
+    return tags;
+  }
+
+  /**
+   * Builds the summary of an artifact from its input artifact, the push date is the last update date of the input artifact object.
+   */
+  private async getArtifactSummary(
+    project: string,
+    id: string,
+  ): Promise<ArtifactSummary> {
+    const inputFile = this.getBucket().file(
+      `${this.rootPath}/${project}/ids/${id}/input.json`,
+    );
+    const [[inputContent], [inputMetadata], contracts] = await Promise.all([
+      inputFile.download(),
+      inputFile.getMetadata(),
+      this.listContractOutputArtifacts(project, id),
+    ]);
+    const input = InputArtifactSummarySchema.parse(
+      JSON.parse(inputContent.toString("utf-8")),
+    );
+    return {
+      id,
+      origin: input.origin,
+      solcLongVersion: input.solcLongVersion,
+      contracts,
+      pushedAt: inputMetadata.updated
+        ? new Date(inputMetadata.updated).toISOString()
+        : null,
+      metadata: input.metadata,
+    };
+  }
+
+  private async listContractOutputArtifacts(
+    project: string,
+    id: string,
+  ): Promise<
+    {
+      sourceName: string;
+      contractName: string;
+    }[]
+  > {
+    const prefix = `${this.rootPath}/${project}/ids/${id}/outputs/`;
+    const keys = await this.listKeys(prefix);
+    const paths: {
+      sourceName: string;
+      contractName: string;
+    }[] = [];
+    for (const key of keys) {
+      const items = key.replace(prefix, "").split("/");
+      const contractNameWithExtension = items.pop();
+      if (!contractNameWithExtension) continue;
+      const contractName = contractNameWithExtension.replace(".json", "");
+      if (items.length === 0) continue;
+      paths.push({ sourceName: items.join("/"), contractName });
+    }
+    return paths;
+  }
+
+  /**
+   * Downloads the content of an object as a string.
+   * @returns The object content, or undefined if the object does not exist
+   */
+  private async downloadIfExists(
+    objectName: string,
+  ): Promise<string | undefined> {
+    const file = this.getBucket().file(objectName);
+    const [exists] = await file.exists();
+    if (!exists) {
+      return undefined;
+    }
+    const [content] = await file.download();
+    return content.toString("utf-8");
+  }
+
+  /**
+   * Lists all object keys under a prefix, following pagination.
+   */
+  private async listKeys(prefix: string): Promise<string[]> {
+    const [files] = await this.getBucket().getFiles({ prefix });
+    return files.map((file) => file.name);
+  }
+
+  /**
+   * Lists the "directories" directly under a prefix, following pagination.
+   */
+  private async listPrefixes(prefix: string): Promise<string[]> {
+    const bucket = this.getBucket();
+    const prefixes: string[] = [];
+    let pageToken: string | undefined;
+
+    do {
+      const [, nextQuery, apiResponse] = await bucket.getFiles({
+        prefix,
+        delimiter: "/",
+        autoPaginate: false,
+        pageToken,
+      });
+      const response = apiResponse as { prefixes?: string[] } | undefined;
+      prefixes.push(...(response?.prefixes ?? []));
+      pageToken =
+        nextQuery && "pageToken" in nextQuery ? nextQuery.pageToken : undefined;
+    } while (pageToken);
+
+    return prefixes;
+  }
+
+  /**
+   * Converts a RelativePath to a GCS-compatible object name segment.
+   * Object names always use forward slashes, regardless of platform.
+   */
+  private toGcsPath(relativePath: RelativePath): string {
+    return relativePath.relativePath.replace(/\\/g, "/");
+  }
+  /**
+   * Converts a GCS object name segment to a RelativePath.
+   * Normalizes forward slashes to the platform's separator.
+   */
+  private fromGcsPath(gcsPath: string): RelativePath {
+    return RelativePath.unsafeFrom(gcsPath.replace(/\//g, path.sep));
+  }
+}
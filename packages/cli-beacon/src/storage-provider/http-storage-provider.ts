@@ -0,0 +1,594 @@
+import { Readable, Stream } from "stream";
+import { ReadableStream } from "stream/web";
+import { z } from "zod";
+import {
+  ArtifactSummary,
+  ArtifactSummarySchema,
+  ChecksumManifest,
+  ChecksumManifestSchema,
+  EthokoContractOutputArtifact,
+  EthokoInputArtifact,
+  ProjectIndex,
+  ProjectIndexSchema,
+  TagHistoryEntry,
+  TagHistorySchema,
+  TagManifest,
+  TagManifestSchema,
+} from "../ethoko-artifacts/v0";
+import {
+  StorageProvider,
+  StorageUpdateResult,
+} from "./storage-provider.interface";
+import fs from "fs/promises";
+import { AbsolutePath, RelativePath } from "@/utils/path";
+import path from "path";
+import { DebugLogger } from "@/utils/debug-logger";
+import { findMatchingTagPattern } from "@/utils/tag-pattern";
+import { createChecksumManifest } from "../ethoko-artifacts/checksum-manifest";
+
+type HttpStorageProviderConfig = {
+  baseUrl: string;
+  token?: string;
+  protectedTags?: string[]; // Glob patterns of tags that can never be overwritten
+  debug?: boolean;
+  logger: DebugLogger;
+};
+
+const TagsResponseSchema = z.object({ tags: z.array(z.string()) });
+const IdsResponseSchema = z.object({ ids: z.array(z.string()) });
+const OutputsResponseSchema = z.object({
+  outputs: z.array(
+    z.object({
+      sourceName: z.string(),
+      contractName: z.string(),
+    }),
+  ),
+});
+const ArtifactsResponseSchema = z.object({
+  artifacts: z.array(ArtifactSummarySchema),
+});
+const OriginalContentResponseSchema = z.object({
+  paths: z.array(z.string()),
+});
+
+/**
+ * HTTP storage provider, talking to an Ethoko Central-compatible REST API.
+ *
+ * The REST contract is documented in `docs/external/HTTP-STORAGE-API.md`.
+ * Resources are addressed under `{baseUrl}/projects/{project}` where `project`
+ * is either `name` or `namespace/name`:
+ * - GET  /tags, GET|PUT|DELETE /tags/{tag} (manifest: { id })
+ * - GET  /tags/{tag}/history (history: { entries }), POST /tags/{tag}/history (entry)
+ * - GET  /artifacts (summaries: { artifacts })
+ * - GET  /index (index: { artifacts, tags }), POST /index/rebuild
+ * - GET  /ids, HEAD|DELETE /ids/{id}
+ * - GET|PUT /ids/{id}/input
+ * - GET|PUT /ids/{id}/checksums (checksum manifest: { input, outputs, original })
+ * - GET  /ids/{id}/outputs, GET|PUT /ids/{id}/outputs/content?sourceName=&contractName=
+ * - GET  /ids/{id}/original, GET|PUT /ids/{id}/original/content?path=
+ *
+ * Manifests of protected tags are written with the `If-None-Match: *` header,
+ * the server answers `412` if the tag already exists.
+ * The project index is maintained by the server on every write.
+ */
+export class HttpStorageProvider implements StorageProvider {
+  private readonly config: HttpStorageProviderConfig;
+  private readonly baseUrl: string;
+  private readonly logger: DebugLogger;
+
+  constructor(config: HttpStorageProviderConfig) {
+    this.config = config;
+    this.baseUrl = config.baseUrl.replace(/\/+$/, "");
+    this.logger = config.logger;
+  }
+
+  public async listTags(project: string): Promise<string[]> {
+    const response = await this.request(
+      "GET",
+      this.projectUrl(project, "tags"),
+    );
+    if (response.status === 404) {
+      return [];
+    }
+    const body = await this.parseJson(response, TagsResponseSchema);
+    return body.tags;
+  }
+
+  public async listIds(project: string): Promise<string[]> {
+    const response = await this.request("GET", this.projectUrl(project, "ids"));
+    if (response.status === 404) {
+      return [];
+    }
+    const body = await this.parseJson(response, IdsResponseSchema);
+    return body.ids;
+  }
+
+  public async listArtifactSummaries(
+    project: string,
+  ): Promise<ArtifactSummary[]> {
+    const response = await this.request(
+      "GET",
+      this.projectUrl(project, "artifacts"),
+    );
+    if (response.status === 404) {
+      return [];
+    }
+    const body = await this.parseJson(response, ArtifactsResponseSchema);
+    return body.artifacts;
+  }
+
+  public async getProjectIndex(
+    project: string,
+  ): Promise<ProjectIndex | undefined> {
+    const response = await this.request(
+      "GET",
+      this.projectUrl(project, "index"),
+    );
+    if (response.status === 404) {
+      return undefined;
+    }
+    return this.parseJson(response, ProjectIndexSchema);
+  }
+
+  public async rebuildProjectIndex(project: string): Promise<ProjectIndex> {
+    const response = await this.request(
+      "POST",
+      this.projectUrl(project, "index", "rebuild"),
+    );
+    return this.parseJson(response, ProjectIndexSchema);
+  }
+
+  public async listOriginalContent(
+    project: string,
+    id: string,
+  ): Promise<RelativePath[]> {
+    const response = await this.request(
+      "GET",
+      this.projectUrl(project, "ids", id, "original"),
+    );
+    if (response.status === 404) {
+      return [];
+    }
+    const body = await this.parseJson(response, OriginalContentResponseSchema);
+    return body.paths.map((relativePath) => this.fromUrlPath(relativePath));
+  }
+
+  public async hasArtifactByTag(
+    project: string,
+    tag: string,
+  ): Promise<boolean> {
+    const response = await this.request(
+      "HEAD",
+      this.projectUrl(project, "tags", tag),
+    );
+    if (response.status === 404) {
+      return false;
+    }
+    await this.ensureSuccess(response);
+    return true;
+  }
+
+  public async hasArtifactById(project: string, id: string): Promise<boolean> {
+    const response = await this.request(
+      "HEAD",
+      this.projectUrl(project, "ids", id),
+    );
+    if (response.status === 404) {
+      return false;
+    }
+    await this.ensureSuccess(response);
+    return true;
+  }
+
+  public async writeTag(
+    project: string,
+    tag: string,
+    id: string,
+  ): Promise<StorageUpdateResult> {
+    await this.putTagManifest(project, tag, id);
+    // The index is maintained by the server
+    return { indexUpdated: true };
+  }
+
+  public async deleteTag(
+    project: string,
+    tag: string,
+  ): Promise<StorageUpdateResult> {
+    const protectedPattern = findMatchingTagPattern(
+      tag,
+      this.config.protectedTags ?? [],
+    );
+    if (protectedPattern) {
+      throw new Error(
+        `Tag "${tag}" is protected by the pattern "${protectedPattern}", it can not be deleted`,
+      );
+    }
+    const response = await this.request(
+      "DELETE",
+      this.projectUrl(project, "tags", tag),
+    );
+    if (response.status !== 404) {
+      await this.ensureSuccess(response);
+    }
+    return { indexUpdated: true };
+  }
+
+  public async deleteArtifact(
+    project: string,
+    id: string,
+  ): Promise<StorageUpdateResult> {
+    const response = await this.request(
+      "DELETE",
+      this.projectUrl(project, "ids", id),
+    );
+    if (response.status !== 404) {
+      await this.ensureSuccess(response);
+    }
+    return { indexUpdated: true };
+  }
+
+  public async resolveTagId(
+    project: string,
+    tag: string,
+  ): Promise<string | undefined> {
+    const response = await this.request(
+      "GET",
+      this.projectUrl(project, "tags", tag),
+    );
+    if (response.status === 404) {
+      return undefined;
+    }
+    const manifest = await this.parseJson(response, TagManifestSchema);
+    return manifest.id;
+  }
+
+  public async getTagHistory(
+    project: string,
+    tag: string,
+  ): Promise<TagHistoryEntry[]> {
+    const response = await this.request(
+      "GET",
+      this.projectUrl(project, "tags", tag, "history"),
+    );
+    if (response.status === 404) {
+      return [];
+    }
+    const history = await this.parseJson(response, TagHistorySchema);
+    return history.entries;
+  }
+
+  public async appendTagHistory(
+    project: string,
+    tag: string,
+    entry: TagHistoryEntry,
+  ): Promise<void> {
+    // The server appends the entry, so that concurrent writes do not lose entries
+    const response = await this.request(
+      "POST",
+      this.projectUrl(project, "tags", tag, "history"),
+      { body: JSON.stringify(entry), contentType: "application/json" },
+    );
+    await this.ensureSuccess(response);
+  }
+
+  public async getChecksumManifest(
+    project: string,
+    id: string,
+  ): Promise<ChecksumManifest | undefined> {
+    const response = await this.request(
+      "GET",
+      this.projectUrl(project, "ids", id, "checksums"),
+    );
+    if (response.status === 404) {
+      return undefined;
+    }
+    return this.parseJson(response, ChecksumManifestSchema);
+  }
+
+  public async getCallerIdentity(): Promise<string | undefined> {
+    // The token owner is resolved by the server, the git user identifies the pusher
+    return undefined;
+  }
+
+  public async uploadArtifact(
+    project: string,
+    inputArtifact: EthokoInputArtifact,
+    contractOutputArtifacts: EthokoContractOutputArtifact[],
+    tag: string | undefined,
+    originalContent: { rootPath: AbsolutePath; paths: RelativePath[] },
+  ): Promise<StorageUpdateResult> {
+    const contractUploads = contractOutputArtifacts.map((contractArtifact) => {
+      const url = this.projectUrl(
+        project,
+        "ids",
+        inputArtifact.id,
+        "outputs",
+        "content",
+      );
+      url.searchParams.set("sourceName", contractArtifact.sourceName);
+      url.searchParams.set("contractName", contractArtifact.contract);
+      return this.putJson(url, contractArtifact);
+    });
+    await Promise.all([
+      ...contractUploads,
+      this.putJson(
+        this.projectUrl(project, "ids", inputArtifact.id, "input"),
+        inputArtifact,
+      ),
+    ]);
+
+    if (tag) {
+      await this.putTagManifest(project, tag, inputArtifact.id);
+    }
+
+    for (const originalContentPath of originalContent.paths) {
+      const content = await fs.readFile(
+        originalContent.rootPath.join(originalContentPath).resolvedPath,
+      );
+      const url = this.projectUrl(
+        project,
+        "ids",
+        inputArtifact.id,
+        "original",
+        "content",
+      );
+      url.searchParams.set("path", this.toUrlPath(originalContentPath));
+      const response = await this.request("PUT", url, {
+        body: content,
+        contentType: "application/octet-stream",
+      });
+      await this.ensureSuccess(response);
+    }
+
+    await this.putJson(
+      this.projectUrl(project, "ids", inputArtifact.id, "checksums"),
+      await createChecksumManifest(
+        inputArtifact,
+        contractOutputArtifacts,
+        originalContent,
+      ),
+    );
+    // The index is maintained by the server
+    return { indexUpdated: true };
+  }
+
+  public async downloadArtifactById(
+    project: string,
+    id: string,
+  ): Promise<{
+    input: Stream;
+    contractOutputArtifacts: {
+      sourceName: string;
+      contractName: string;
+      stream: Stream;
+    }[];
+  }> {
+    const inputResponse = await this.request(
+      "GET",
+      this.projectUrl(project, "ids", id, "input"),
+    );
+    if (inputResponse.status === 404) {
+      throw new Error(
+        `Artifact corrupted on remote storage for ID ${id}, requires attention`,
+      );
+    }
+    const input = await this.toStream(inputResponse);
+
+    const outputsResponse = await this.request(
+      "GET",
+      this.projectUrl(project, "ids", id, "outputs"),
+    );
+    const { outputs } = await this.parseJson(
+      outputsResponse,
+      OutputsResponseSchema,
+    );
+    const contractOutputArtifacts = await Promise.all(
+      outputs.map(async ({ sourceName, contractName }) => {
+        const url = this.projectUrl(project, "ids", id, "outputs", "content");
+        url.searchParams.set("sourceName", sourceName);
+        url.searchParams.set("contractName", contractName);
+        const response = await this.request("GET", url);
+        if (response.status === 404) {
+          throw new Error(
+            `Contract artifact not found for ${sourceName}:${contractName}`,
+          );
+        }
+        return {
+          sourceName,
+          contractName,
+          stream: await this.toStream(response),
+        };
+      }),
+    );
+    return {
+      input,
+      contractOutputArtifacts,
+    };
+  }
+
+  public async downloadArtifactByTag(
+    project: string,
+    tag: string,
+  ): Promise<{
+    id: string;
+    input: Stream;
+    contractOutputArtifacts: {
+      sourceName: string;
+      contractName: string;
+      stream: Stream;
+    }[];
+  }> {
+    const response = await this.request(
+      "GET",
+      this.projectUrl(project, "tags", tag),
+    );
+    if (response.status === 404) {
+      throw new Error(
+        `Tag manifest not found on remote storage for tag ${tag}`,
+      );
+    }
+    const manifest = await this.parseJson(response, TagManifestSchema);
+    const streams = await this.downloadArtifactById(project, manifest.id);
+    return {
+      id: manifest.id,
+      ...streams,
+    };
+  }
+
+  public async downloadOriginalContent(
+    project: string,
+    id: string,
+    relativePath: RelativePath,
+  ): Promise<Stream> {
+    const url = this.projectUrl(project, "ids", id, "original", "content");
+    url.searchParams.set("path", this.toUrlPath(relativePath));
+    const response = await this.request("GET", url);
+    if (response.status === 404) {
+      throw new Error("Error fetching the original content");
+    }
+    return this.toStream(response);
+  }
+
+  /**
+   * Writes the manifest of a tag.
+   * A protected tag manifest is only created if it does not exist yet, an existing manifest is only accepted if it points to the same ID.
+   */
+  private async putTagManifest(
+    project: string,
+    tag: string,
+    id: string,
+  ): Promise<void> {
+    const url = this.projectUrl(project, "tags", tag);
+    const manifest: TagManifest = { id };
+    const protectedPattern = findMatchingTagPattern(
+      tag,
+      this.config.protectedTags ?? [],
+    );
+    if (!protectedPattern) {
+      await this.putJson(url, manifest);
+      return;
+    }
+
+    const response = await this.request("PUT", url, {
+      body: JSON.stringify(manifest),
+      contentType: "application/json",
+      ifNoneMatch: "*",
+    });
+    if (response.status !== 412) {
+      await this.ensureSuccess(response);
+      return;
+    }
+    const existingManifest = await this.parseJson(
+      await this.request("GET", url),
+      TagManifestSchema,
+    );
+    if (existingManifest.id !== id) {
+      throw new Error(
+        `Tag "${tag}" is protected by the pattern "${protectedPattern}" and already points to the artifact ID ${existingManifest.id}, it can not be overwritten`,
+      );
+    }
+  }
+
+  /**
+   * Builds the URL of a project resource.
+   * Each segment is URL encoded, a namespaced project `namespace/name` maps to two segments.
+   */
+  private projectUrl(project: string, ...segments: string[]): URL {
+    const encodedSegments = [...project.split("/"), ...segments].map(
+      (segment) => encodeURIComponent(segment),
+    );
+    return new URL(`${this.baseUrl}/projects/${encodedSegments.join("/")}`);
+  }
+
+  private async request(
+    method: "GET" | "HEAD" | "PUT" | "POST" | "DELETE",
+    url: URL,
+    opts: {
+      body?: Buffer | string;
+      contentType?: string;
+      ifNoneMatch?: string;
+    } = {},
+  ): Promise<Response> {
+    const headers: Record<string, string> = {};
+    if (this.config.token) {
+      headers["Authorization"] = `Bearer ${this.config.token}`;
+    }
+    if (opts.contentType) {
+      headers["Content-Type"] = opts.contentType;
+    }
+    if (opts.ifNoneMatch) {
+      headers["If-None-Match"] = opts.ifNoneMatch;
+    }
+    if (this.config.debug) {
+      this.logger.debug(`HTTP storage request: ${method} ${url.toString()}`);
+    }
+    const response = await fetch(url, {
+      method,
+      headers,
+      body: opts.body,
+    });
+    if (response.status === 401 || response.status === 403) {
+      throw new Error(
+        `HTTP storage rejected the request ${method} ${url.pathname} with status ${response.status}. Check the "httpToken" field of the project storage configuration.`,
+      );
+    }
+    return response;
+  }
+
+  private async putJson(url: URL, content: unknown): Promise<void> {
+    const response = await this.request("PUT", url, {
+      body: JSON.stringify(content),
+      contentType: "application/json",
+    });
+    await this.ensureSuccess(response);
+  }
+
+  private async parseJson<T>(
+    response: Response,
+    schema: z.ZodType<T>,
+  ): Promise<T> {
+    await this.ensureSuccess(response);
+    const parsingResult = schema.safeParse(await response.json());
+    if (!parsingResult.success) {
+      throw new Error(
+        `Unexpected response body from HTTP storage for ${response.url}: ${z.prettifyError(parsingResult.error)}`,
+      );
+    }
+    return parsingResult.data;
+  }
+
+  private async toStream(response: Response): Promise<Stream> {
+    await this.ensureSuccess(response);
+    if (!response.body) {
+      throw new Error(
+        `Empty response body from HTTP storage for ${response.url}`,
+      );
+    }
+    return Readable.fromWeb(response.body as ReadableStream<Uint8Array>);
+  }
+
+  private async ensureSuccess(response: Response): Promise<void> {
+    if (response.ok) {
+      return;
+    }
+    const details = await response.text().catch(() => "");
+    throw new Error(
+      `HTTP storage request to ${response.url} failed with status ${response.status}${details ? `: ${details}` : ""}`,
+    );
+  }
+
+  /**
+   * Converts a RelativePath to a URL-compatible path.
+   * URL paths always use forward slashes, regardless of platform.
+   */
+  private toUrlPath(relativePath: RelativePath): string {
+    return relativePath.relativePath.replace(/\\/g, "/");
+  }
+  /**
+   * Converts a URL path to a RelativePath.
+   * Normalizes forward slashes to the platform's separator.
+   */
+  private fromUrlPath(urlPath: string): RelativePath {
+    return RelativePath.unsafeFrom(urlPath.replace(/\//g, path.sep));
+  }
+}
@@ -1,3 +1,13 @@
+export { AzureBlobProvider } from "./azure-blob-provider";
 export { FilesystemStorageProvider } from "./filesystem-storage-provider";
+export { GcsBucketProvider } from "./gcs-bucket-provider";
+export { HttpStorageProvider } from "./http-storage-provider";
 export { S3BucketProvider } from "./s3-bucket-provider";
-export type { StorageProvider } from "./storage-provider.interface";
+export type {
+  ArtifactCompression,
+  ArtifactEncryption,
+  OriginalContentLayout,
+  StorageProvider,
+  StorageUpdateResult,
+  UploadProgress,
+} from "./storage-provider.interface";
@@ -0,0 +1,35 @@
+/**
+ * Maximum number of read-modify-write attempts of an update before giving up on concurrent writes
+ */
+const MAX_UPDATE_ATTEMPTS = 5;
+
+/**
+ * Applies an update to a stored value with optimistic concurrency: the value is read with a version, and written only if the version did not change in the meantime.
+ * The update is retried on conflicts, so that concurrent writes are never lost.
+ * @param storage.read Reads the value and its version, undefined if the value does not exist
+ * @param storage.write Writes the value if the stored version still matches, `undefined` meaning that the value must not exist. Returns false on conflict.
+ * @param update The update to apply, `undefined` as input if the value does not exist. Returning `undefined` leaves the value untouched.
+ * @param description The description of the value in the error message, e.g. "the project index"
+ */
+export async function applyOptimisticUpdate<TValue, TVersion>(
+  storage: {
+    read: () => Promise<{ value: TValue; version: TVersion } | undefined>;
+    write: (value: TValue, version: TVersion | undefined) => Promise<boolean>;
+  },
+  update: (value: TValue | undefined) => TValue | undefined,
+  description: string,
+): Promise<void> {
+  for (let attempt = 0; attempt < MAX_UPDATE_ATTEMPTS; attempt++) {
+    const current = await storage.read();
+    const updatedValue = update(current?.value);
+    if (updatedValue === undefined) {
+      return;
+    }
+    if (await storage.write(updatedValue, current?.version)) {
+      return;
+    }
+  }
+  throw new Error(
+    `Failed to update ${description} after ${MAX_UPDATE_ATTEMPTS} attempts, it is concurrently updated`,
+  );
+}
@@ -0,0 +1,118 @@
+import { describe, expect, test } from "vitest";
+import { ArtifactSummary, ProjectIndex } from "../ethoko-artifacts/v0";
+import {
+  createProjectIndex,
+  indexDeletedArtifact,
+  indexTag,
+  indexUploadedArtifact,
+  updateProjectIndex,
+} from "./project-index";
+
+function summary(id: string): ArtifactSummary {
+  return {
+    id,
+    origin: { type: "forge-v1-default", id: `build-${id}` },
+    solcLongVersion: "0.8.28+commit.7893614a",
+    contracts: [{ sourceName: "src/Counter.sol", contractName: "Counter" }],
+    pushedAt: "2026-02-02T10:00:00.000Z",
+  };
+}
+
+describe("indexUploadedArtifact", () => {
+  test("creates the index of a project without other artifacts", () => {
+    const index = indexUploadedArtifact(summary("a"), "v1", ["a"])(undefined);
+    expect(index).toEqual(createProjectIndex([summary("a")], { v1: "a" }));
+  });
+
+  test("does not create the index of a project pushed before the index existed", () => {
+    expect(
+      indexUploadedArtifact(summary("b"), "v2", ["a", "b"])(undefined),
+    ).toBeUndefined();
+  });
+
+  test("appends the artifact and moves a re-pushed artifact at the end", () => {
+    const index = createProjectIndex([summary("a"), summary("b")], {
+      v1: "a",
+    });
+    const updatedIndex = indexUploadedArtifact(
+      summary("a"),
+      "latest",
+      [],
+    )(index);
+    expect(updatedIndex?.artifacts.map(({ id }) => id)).toEqual(["b", "a"]);
+    expect(updatedIndex?.tags).toEqual({ v1: "a", latest: "a" });
+  });
+});
+
+describe("indexTag and indexDeletedArtifact", () => {
+  const index = createProjectIndex([summary("a"), summary("b")], {
+    v1: "a",
+    latest: "b",
+  });
+
+  test("moves and removes tags", () => {
+    expect(indexTag("latest", "a")(index)?.tags).toEqual({
+      v1: "a",
+      latest: "a",
+    });
+    expect(indexTag("latest", null)(index)?.tags).toEqual({ v1: "a" });
+  });
+
+  test("removes deleted artifacts", () => {
+    expect(
+      indexDeletedArtifact("a")(index)?.artifacts.map(({ id }) => id),
+    ).toEqual(["b"]);
+  });
+
+  test("leaves a missing index untouched", () => {
+    expect(indexTag("latest", "a")(undefined)).toBeUndefined();
+    expect(indexDeletedArtifact("a")(undefined)).toBeUndefined();
+  });
+});
+
+describe("updateProjectIndex", () => {
+  test("retries the update when the index changed concurrently", async () => {
+    let stored = {
+      index: createProjectIndex([summary("a")], {}),
+      version: 1,
+    };
+    let conflicts = 1;
+    await updateProjectIndex<number>(
+      {
+        read: async () => stored,
+        write: async (index: ProjectIndex, version) => {
+          if (conflicts > 0) {
+            conflicts--;
+            // A concurrent push lands between the read and the write
+            stored = {
+              index: indexUploadedArtifact(
+                summary("b"),
+                undefined,
+                [],
+              )(stored.index)!,
+              version: stored.version + 1,
+            };
+            return false;
+          }
+          expect(version).toBe(stored.version);
+          stored = { index, version: stored.version + 1 };
+          return true;
+        },
+      },
+      indexUploadedArtifact(summary("c"), undefined, []),
+    );
+    expect(stored.index.artifacts.map(({ id }) => id)).toEqual(["a", "b", "c"]);
+  });
+
+  test("gives up after repeated conflicts", async () => {
+    await expect(
+      updateProjectIndex(
+        {
+          read: async () => undefined,
+          write: async () => false,
+        },
+        indexUploadedArtifact(summary("a"), undefined, []),
+      ),
+    ).rejects.toThrow(/concurrently updated/);
+  });
+});
@@ -0,0 +1,135 @@
+import {
+  ArtifactSummary,
+  EthokoContractOutputArtifact,
+  EthokoInputArtifact,
+  ProjectIndex,
+} from "../ethoko-artifacts/v0";
+import { applyOptimisticUpdate } from "./optimistic-update";
+
+/**
+ * A project index update, `undefined` as input if the project has no index.
+ * Returning `undefined` leaves the index untouched.
+ */
+export type ProjectIndexUpdate = (
+  index: ProjectIndex | undefined,
+) => ProjectIndex | undefined;
+
+export function createProjectIndex(
+  artifacts: ArtifactSummary[],
+  tags: Record<string, string>,
+): ProjectIndex {
+  return { _format: "ethoko-index-v0", artifacts, tags };
+}
+
+export function summarizeArtifact(
+  inputArtifact: EthokoInputArtifact,
+  contractOutputArtifacts: EthokoContractOutputArtifact[],
+  pushedAt: Date,
+): ArtifactSummary {
+  return {
+    id: inputArtifact.id,
+    origin: inputArtifact.origin,
+    solcLongVersion: inputArtifact.solcLongVersion,
+    contracts: contractOutputArtifacts.map((artifact) => ({
+      sourceName: artifact.sourceName,
+      contractName: artifact.contract,
+    })),
+    pushedAt: pushedAt.toISOString(),
+    metadata: inputArtifact.metadata,
+  };
+}
+
+/**
+ * Index update of an uploaded artifact.
+ *
+ * The index is only created for a project without any other artifact, the index of a project pushed before the index existed must be rebuilt first.
+ * @param summary The summary of the uploaded artifact
+ * @param tag The tag of the uploaded artifact, if any
+ * @param otherIds The IDs of the project stored before the upload, only evaluated if the project has no index
+ */
+export function indexUploadedArtifact(
+  summary: ArtifactSummary,
+  tag: string | undefined,
+  otherIds: string[],
+): ProjectIndexUpdate {
+  return (index) => {
+    if (!index && otherIds.some((id) => id !== summary.id)) {
+      return undefined;
+    }
+    const base = index ?? createProjectIndex([], {});
+    return {
+      ...base,
+      // A re-pushed artifact is moved at the end, as the most recent push
+      artifacts: [
+        ...base.artifacts.filter((artifact) => artifact.id !== summary.id),
+        summary,
+      ],
+      tags: tag ? { ...base.tags, [tag]: summary.id } : base.tags,
+    };
+  };
+}
+
+/**
+ * Index update of a written tag, or of a deleted tag if `id` is null.
+ */
+export function indexTag(tag: string, id: string | null): ProjectIndexUpdate {
+  return (index) => {
+    if (!index) {
+      return undefined;
+    }
+    const tags = { ...index.tags };
+    if (id) {
+      tags[tag] = id;
+    } else {
+      delete tags[tag];
+    }
+    return { ...index, tags };
+  };
+}
+
+/**
+ * Index update of a deleted artifact, tags are left untouched as the tag manifests on the storage.
+ */
+export function indexDeletedArtifact(id: string): ProjectIndexUpdate {
+  return (index) => {
+    if (!index) {
+      return undefined;
+    }
+    return {
+      ...index,
+      artifacts: index.artifacts.filter((artifact) => artifact.id !== id),
+    };
+  };
+}
+
+/**
+ * Applies an update to a project index with optimistic concurrency: the index is read with a version, and written only if the version did not change in the meantime.
+ * The update is retried on conflicts, so that concurrent writes are never lost.
+ * @param storage.read Reads the index and its version, undefined if the project has no index
+ * @param storage.write Writes the index if the stored version still matches, `undefined` meaning that the index must not exist. Returns false on conflict.
+ * @param update The update to apply
+ */
+export async function updateProjectIndex<TVersion>(
+  storage: {
+    read: () => Promise<{ index: ProjectIndex; version: TVersion } | undefined>;
+    write: (
+      index: ProjectIndex,
+      version: TVersion | undefined,
+    ) => Promise<boolean>;
+  },
+  update: ProjectIndexUpdate,
+): Promise<void> {
+  await applyOptimisticUpdate<ProjectIndex, TVersion>(
+    {
+      read: async () => {
+        const current = await storage.read();
+        return current
+          ? { value: current.index, version: current.version }
+          : undefined;
+      },
+      write: storage.write,
+    },
+    update,
+    "the project index",
+  );
+}
@@ -1,24 +1,95 @@
-import { Stream } from "stream";
+import { Readable, Stream } from "stream";
 import {
+  AbortMultipartUploadCommand,
+  CompletedPart,
+  CompleteMultipartUploadCommand,
+  CreateMultipartUploadCommand,
+  DeleteObjectCommand,
+  DeleteObjectsCommand,
   GetObjectCommand,
+  HeadObjectCommand,
   ListObjectsV2Command,
   NoSuchKey,
+  NotFound,
   PutObjectCommand,
   S3Client,
+  UploadPartCommand,
+  S3ServiceException,
 } from "@aws-sdk/client-s3";
-import { AssumeRoleCommand, STSClient } from "@aws-sdk/client-sts";
+import {
+  AssumeRoleCommand,
+  GetCallerIdentityCommand,
+  STSClient,
+} from "@aws-sdk/client-sts";
 import { NodeJsClient } from "@smithy/types";
 import {
+  ArtifactSummary,
+  ChecksumManifest,
+  ChecksumManifestSchema,
   EthokoContractOutputArtifact,
   EthokoInputArtifact,
+  InputArtifactSummarySchema,
+  OriginalContentManifest,
+  OriginalContentManifestSchema,
+  ProjectIndex,
+  ProjectIndexSchema,
+  TagHistory,
+  TagHistoryEntry,
+  TagHistorySchema,
   TagManifest,
   TagManifestSchema,
 } from "../ethoko-artifacts/v0";
-import { StorageProvider } from "./storage-provider.interface";
+import {
+  ArtifactCompression,
+  ArtifactEncryption,
+  OriginalContentLayout,
+  StorageProvider,
+  UploadProgress,
+  StorageUpdateResult,
+} from "./storage-provider.interface";
 import fs from "fs/promises";
 import { AbsolutePath, RelativePath } from "@/utils/path";
 import path from "path";
 import { DebugLogger } from "@/utils/debug-logger";
+import { findMatchingTagPattern } from "@/utils/tag-pattern";
+import {
+  createProjectIndex,
+  indexDeletedArtifact,
+  indexTag,
+  indexUploadedArtifact,
+  ProjectIndexUpdate,
+  summarizeArtifact,
+  updateProjectIndex,
+} from "./project-index";
+import { applyOptimisticUpdate } from "./optimistic-update";
+import { createChecksumManifest } from "../ethoko-artifacts/checksum-manifest";
+import {
+  createOriginalContentManifest,
+  findOriginalContentBlob,
+  listOriginalContentPaths,
+  listUnreferencedBlobs,
+} from "../ethoko-artifacts/original-content-manifest";
+import { mapWithConcurrency } from "@/utils/concurrency";
+import {
+  compressContent,
+  decompressContent,
+  decompressStream,
+  detectCompression,
+  parseContentEncoding,
+} from "./compression";
+import {
+  ArtifactCipher,
+  decryptContent,
+  ENCRYPTION_ALGORITHM,
+} from "./encryption";
+
+// Number of original content files uploaded in parallel
+const ORIGINAL_CONTENT_UPLOAD_CONCURRENCY = 8;
+// Number of input artifacts read in parallel when the summaries are collected, a project may hold thousands of IDs
+const ARTIFACT_SUMMARY_CONCURRENCY = 16;
+// Original content files from this size are uploaded in parts, S3 requires parts of at least 5 MiB except the last one
+const MULTIPART_UPLOAD_THRESHOLD = 16 * 1024 * 1024;
+const MULTIPART_UPLOAD_PART_SIZE = 8 * 1024 * 1024;
 
 type S3BucketProviderConfig = {
   bucketName: string;
@@ -41,6 +112,10 @@ type S3BucketProviderConfig = {
       };
   endpoint?: string;
   forcePathStyle?: boolean;
+  protectedTags?: string[]; // Glob patterns of tags that can never be overwritten
+  originalContentLayout?: OriginalContentLayout; // Layout of the original content of new uploads, defaults to "files"
+  compression?: ArtifactCompression; // Compression of the input and output artifacts of new uploads, uncompressed by default
+  encryption?: ArtifactEncryption; // Key of the client-side encryption of the input, output and original content artifacts of new uploads
   debug?: boolean;
   rootPath?: string;
   logger: DebugLogger;
@@ -56,18 +131,43 @@ export class S3BucketProvider implements StorageProvider {
   /**
    * S3 storage layout (prefix under rootPath)
    * - {project}/ids/{id}/input.json
+   * - {project}/ids/{id}/checksums.json (checksum manifest: { input, outputs, original })
    * - {project}/ids/{id}/original/** (original compilation content)
+   * - {project}/ids/{id}/original.json (original content manifest: { files }, content-addressed layout)
+   * - {project}/blobs/{checksum} (original content files, content-addressed layout)
    * - {project}/tags/{tag}.json (manifest: { id })
+   * - {project}/tag-history/{tag}.json (history: { entries })
+   * - {project}/uploads/{id}.json (marker of an upload in progress: { startedAt })
+   *
+   * Uploads are committed by deleting their marker, once every object is written. IDs with a marker are ignored,
+   * the tag manifest of an upload is only written once committed.
+   * Original content objects carry the SHA-256 of their content as `sha256` metadata, a retried upload skips the objects already stored
+   * with the expected checksum, with the content-addressed layout the blobs that already exist are skipped unless they are unencrypted while an encryption key is configured. Large files are uploaded with multipart uploads.
+   * Compressed input and output artifacts are stored with their `Content-Encoding`, which is used to decompress them when read.
+   * With an encryption key, input, output and original content objects are encrypted after their compression and carry `encryption` metadata,
+   * encrypted objects are read at once then decrypted. Manifests, checksums and the index are never encrypted.
+   * Manifests of protected tags are written with a conditional write (`If-None-Match: *`),
+   * so that the bucket itself rejects any overwrite.
+   * The index and the tag histories are updated with conditional writes on their ETag, retried on conflicts.
    */
   private readonly config: S3BucketProviderConfig;
   private client: NodeJsClient<S3Client> | undefined;
   private readonly rootPath: string;
   private readonly logger: DebugLogger;
+  private readonly cipher: ArtifactCipher | undefined;
+  // Original content manifests by "{project}/{id}", an artifact ID never changes once committed
+  private readonly originalContentManifests = new Map<
+    string,
+    OriginalContentManifest | undefined
+  >();
 
   constructor(config: S3BucketProviderConfig) {
     this.config = config;
     this.rootPath = config.rootPath || "projects";
     this.logger = config.logger;
+    this.cipher = config.encryption
+      ? new ArtifactCipher(config.encryption)
+      : undefined;
   }
 
   private async getClient(): Promise<NodeJsClient<S3Client>> {
@@ -205,76 +305,86 @@ export class S3BucketProvider implements StorageProvider {
   }
 
   public async listIds(project: string): Promise<string[]> {
-    const client = await this.getClient();
     const prefix = `${this.rootPath}/${project}/ids/`;
-    const listCommand = new ListObjectsV2Command({
-      Bucket: this.config.bucketName,
-      Prefix: prefix,
-      Delimiter: "/",
-    });
-    const listResult = await client.send(listCommand);
-    const commonPrefixes = listResult.CommonPrefixes || [];
-    return commonPrefixes
-      .map((entry) => entry.Prefix)
-      .filter((entry): entry is string => entry !== undefined)
-      .map((entry) => entry.replace(prefix, "").replace("/", ""));
+    const [prefixes, pendingUploads] = await Promise.all([
+      this.listPrefixes(prefix),
+      this.listPendingUploads(project),
+    ]);
+    return prefixes
+      .map((entry) => entry.replace(prefix, "").replace("/", ""))
+      .filter((id) => !pendingUploads.includes(id));
+  }
+
+  public async listArtifactSummaries(
+    project: string,
+  ): Promise<ArtifactSummary[]> {
+    const index = await this.getProjectIndex(project);
+    if (index) {
+      return index.artifacts;
+    }
+    return this.collectArtifactSummaries(project);
+  }
+
+  public async getProjectIndex(
+    project: string,
+  ): Promise<ProjectIndex | undefined> {
+    const indexContent = await this.getObjectContent(
+      `${this.rootPath}/${project}/index.json`,
+    );
+    if (indexContent === undefined) {
+      return undefined;
+    }
+    return ProjectIndexSchema.parse(JSON.parse(indexContent));
+  }
+
+  public async rebuildProjectIndex(project: string): Promise<ProjectIndex> {
+    const [artifacts, tags] = await Promise.all([
+      this.collectArtifactSummaries(project),
+      this.resolveTags(project),
+    ]);
+    const index = createProjectIndex(
+      artifacts.sort((a, b) =>
+        (a.pushedAt ?? "").localeCompare(b.pushedAt ?? ""),
+      ),
+      tags,
+    );
+    await this.updateIndex(project, () => index);
+    return index;
   }
 
   public async listOriginalContent(
     project: string,
     id: string,
   ): Promise<RelativePath[]> {
+    const manifest = await this.getOriginalContentManifest(project, id);
+    if (manifest) {
+      return listOriginalContentPaths(manifest);
+    }
+    return this.listOriginalContentFiles(project, id);
+  }
+
+  public async listTags(project: string): Promise<string[]> {
     const client = await this.getClient();
-    const prefix = `${this.rootPath}/${project}/ids/${id}/original/`;
-    const paths: string[] = [];
+    const prefix = `${this.rootPath}/${project}/tags/`;
+    const tags: string[] = [];
     let continuationToken: string | undefined;
-
     do {
-      const listCommand = new ListObjectsV2Command({
-        Bucket: this.config.bucketName,
-        Prefix: prefix,
-        ContinuationToken: continuationToken,
-      });
-      const listResult = await client.send(listCommand);
-      const contents = listResult.Contents;
-      if (contents) {
-        for (const content of contents) {
-          const key = content.Key;
-          if (!key) continue;
-          const relativeKey = key.replace(prefix, "");
-          if (relativeKey.length > 0) {
-            paths.push(relativeKey);
-          }
-        }
+      const listResult = await client.send(
+        new ListObjectsV2Command({
+          Bucket: this.config.bucketName,
+          Prefix: prefix,
+          ContinuationToken: continuationToken,
+        }),
+      );
+      for (const content of listResult.Contents ?? []) {
+        const key = content.Key;
+        if (!key) continue;
+        tags.push(key.replace(prefix, "").replace(".json", ""));
       }
       continuationToken = listResult.IsTruncated
         ? listResult.NextContinuationToken
         : undefined;
     } while (continuationToken);
-
-    return paths.map((relativePath) => this.fromS3Path(relativePath));
-  }
-
-  public async listTags(project: string): Promise<string[]> {
-    const client = await this.getClient();
-    const listCommand = new ListObjectsV2Command({
-      Bucket: this.config.bucketName,
-      Prefix: `${this.rootPath}/${project}/tags/`,
-    });
-    const listResult = await client.send(listCommand);
-    const contents = listResult.Contents;
-    if (!contents) {
-      return [];
-    }
-    const tags = [];
-    for (const content of contents) {
-      const key = content.Key;
-      if (!key) continue;
-      const tag = key
-        .replace(`${this.rootPath}/${project}/tags/`, "")
-        .replace(".json", "");
-      tags.push(tag);
-    }
     return tags;
   }
 
@@ -303,8 +413,207 @@ export class S3BucketProvider implements StorageProvider {
       Prefix: `${this.rootPath}/${project}/ids/${id}/`,
       MaxKeys: 1,
     });
-    const listResult = await client.send(listCommand);
-    return (listResult.Contents?.length ?? 0) > 0;
+    const [listResult, uploadPending] = await Promise.all([
+      client.send(listCommand),
+      this.isUploadPending(project, id),
+    ]);
+    return (listResult.Contents?.length ?? 0) > 0 && !uploadPending;
+  }
+
+  public async writeTag(
+    project: string,
+    tag: string,
+    id: string,
+  ): Promise<StorageUpdateResult> {
+    await this.putTagManifest(project, tag, id);
+    const indexUpdated = await this.reportIndexUpdate(
+      this.updateIndex(project, indexTag(tag, id)),
+    );
+    return { indexUpdated };
+  }
+
+  public async deleteTag(
+    project: string,
+    tag: string,
+  ): Promise<StorageUpdateResult> {
+    const protectedPattern = findMatchingTagPattern(
+      tag,
+      this.config.protectedTags ?? [],
+    );
+    if (protectedPattern) {
+      throw new Error(
+        `Tag "${tag}" is protected by the pattern "${protectedPattern}", it can not be deleted`,
+      );
+    }
+    const client = await this.getClient();
+    await client.send(
+      new DeleteObjectCommand({
+        Bucket: this.config.bucketName,
+        Key: `${this.rootPath}/${project}/tags/${tag}.json`,
+      }),
+    );
+    const indexUpdated = await this.reportIndexUpdate(
+      this.updateIndex(project, indexTag(tag, null)),
+    );
+    return { indexUpdated };
+  }
+
+  public async deleteArtifact(
+    project: string,
+    id: string,
+  ): Promise<StorageUpdateResult> {
+    const client = await this.getClient();
+    const originalContentManifest = await this.getOriginalContentManifest(
+      project,
+      id,
+    );
+    this.originalContentManifests.delete(`${project}/${id}`);
+    const prefix = `${this.rootPath}/${project}/ids/${id}/`;
+    let continuationToken: string | undefined;
+
+    // Each listing page holds at most 1000 keys, the limit of a DeleteObjects request
+    do {
+      const listResult = await client.send(
+        new ListObjectsV2Command({
+          Bucket: this.config.bucketName,
+          Prefix: prefix,
+          ContinuationToken: continuationToken,
+        }),
+      );
+      const keys = (listResult.Contents ?? [])
+        .map((content) => content.Key)
+        .filter((key): key is string => Boolean(key));
+      if (keys.length > 0) {
+        const deleteResult = await client.send(
+          new DeleteObjectsCommand({
+            Bucket: this.config.bucketName,
+            Delete: { Objects: keys.map((key) => ({ Key: key })), Quiet: true },
+          }),
+        );
+        const failedKeys = (deleteResult.Errors ?? []).map(
+          (error) => error.Key,
+        );
+        if (failedKeys.length > 0) {
+          throw new Error(
+            `Failed to delete ${failedKeys.length} object(s) of artifact ${project}@${id}: ${failedKeys.join(", ")}`,
+          );
+        }
+      }
+      continuationToken = listResult.IsTruncated
+        ? listResult.NextContinuationToken
+        : undefined;
+    } while (continuationToken);
+
+    // Leftover of an interrupted upload
+    await client.send(
+      new DeleteObjectCommand({
+        Bucket: this.config.bucketName,
+        Key: this.pendingUploadKey(project, id),
+      }),
+    );
+
+    if (originalContentManifest) {
+      await this.deleteUnreferencedBlobs(project, originalContentManifest);
+    }
+
+    const indexUpdated = await this.reportIndexUpdate(
+      this.updateIndex(project, indexDeletedArtifact(id)),
+    );
+    if (this.config.debug) {
+      this.logger.debug(`Deleted artifact ${project}@${id} from S3`);
+    }
+    return { indexUpdated };
+  }
+
+  public async resolveTagId(
+    project: string,
+    tag: string,
+  ): Promise<string | undefined> {
+    const manifestContent = await this.getObjectContent(
+      `${this.rootPath}/${project}/tags/${tag}.json`,
+    );
+    if (manifestContent === undefined) {
+      return undefined;
+    }
+    return TagManifestSchema.parse(JSON.parse(manifestContent)).id;
+  }
+
+  public async getTagHistory(
+    project: string,
+    tag: string,
+  ): Promise<TagHistoryEntry[]> {
+    const historyContent = await this.getObjectContent(
+      `${this.rootPath}/${project}/tag-history/${tag}.json`,
+    );
+    if (historyContent === undefined) {
+      return [];
+    }
+    return TagHistorySchema.parse(JSON.parse(historyContent)).entries;
+  }
+
+  public async appendTagHistory(
+    project: string,
+    tag: string,
+    entry: TagHistoryEntry,
+  ): Promise<void> {
+    const client = await this.getClient();
+    const key = `${this.rootPath}/${project}/tag-history/${tag}.json`;
+    await applyOptimisticUpdate<TagHistory, string | undefined>(
+      {
+        read: async () => {
+          const result = await client
+            .send(
+              new GetObjectCommand({
+                Bucket: this.config.bucketName,
+                Key: key,
+              }),
+            )
+            .catch((err) => {
+              if (err instanceof NoSuchKey) {
+                return null;
+              }
+              throw err;
+            });
+          if (!result?.Body) {
+            return undefined;
+          }
+          return {
+            value: TagHistorySchema.parse(
+              JSON.parse(await result.Body.transformToString()),
+            ),
+            version: result.ETag,
+          };
+        },
+        write: (history, etag) =>
+          this.putObjectConditionally(key, JSON.stringify(history), etag),
+      },
+      (history) => ({ entries: [...(history?.entries ?? []), entry] }),
+      "the tag history",
+    );
+  }
+
+  public async getChecksumManifest(
+    project: string,
+    id: string,
+  ): Promise<ChecksumManifest | undefined> {
+    const checksumsContent = await this.getObjectContent(
+      `${this.rootPath}/${project}/ids/${id}/checksums.json`,
+    );
+    if (checksumsContent === undefined) {
+      return undefined;
+    }
+    return ChecksumManifestSchema.parse(JSON.parse(checksumsContent));
+  }
+
+  public async getCallerIdentity(): Promise<string | undefined> {
+    const client = await this.getClient();
+    const stsClient = new STSClient({
+      region: this.config.bucketRegion,
+      endpoint: this.config.endpoint,
+      credentials: client.config.credentials,
+    });
+    const response = await stsClient.send(new GetCallerIdentityCommand({}));
+    return response.Arn;
   }
 
   public async uploadArtifact(
@@ -313,53 +622,138 @@ export class S3BucketProvider implements StorageProvider {
     contractOutputArtifacts: EthokoContractOutputArtifact[],
     tag: string | undefined,
     originalContent: { rootPath: AbsolutePath; paths: RelativePath[] },
-  ): Promise<void> {
+    opts?: { onProgress?: (progress: UploadProgress) => void },
+  ): Promise<StorageUpdateResult> {
     const client = await this.getClient();
+
+    // A retry of an interrupted upload overwrites its artifacts, the marker stays until the new upload is committed
+    const pendingUploadKey = this.pendingUploadKey(project, inputArtifact.id);
+    await client.send(
+      new PutObjectCommand({
+        Bucket: this.config.bucketName,
+        Key: pendingUploadKey,
+        Body: JSON.stringify({ startedAt: new Date().toISOString() }),
+      }),
+    );
+
     const inputKey = `${this.rootPath}/${project}/ids/${inputArtifact.id}/input.json`;
     const contractUploads = contractOutputArtifacts.map((contractArtifact) => {
       const contractKey = `${this.rootPath}/${project}/ids/${inputArtifact.id}/outputs/${contractArtifact.sourceName}/${contractArtifact.contract}.json`;
-      return client.send(
-        new PutObjectCommand({
-          Bucket: this.config.bucketName,
-          Key: contractKey,
-          Body: JSON.stringify(contractArtifact),
-        }),
-      );
+      return this.putArtifactObject(contractKey, contractArtifact);
     });
     await Promise.all([
       ...contractUploads,
-      client.send(
+      this.putArtifactObject(inputKey, inputArtifact),
+    ]);
+
+    // The checksums of the original content are known before its upload, they are used to skip the objects already stored
+    const checksumManifest = await createChecksumManifest(
+      inputArtifact,
+      contractOutputArtifacts,
+      originalContent,
+    );
+    let originalContentManifest: OriginalContentManifest | undefined;
+    let storedChecksums = new Map<string, string>();
+    if (this.config.originalContentLayout === "content-addressed") {
+      // The manifest is written first, so that the blobs are referenced before they are reused
+      originalContentManifest = createOriginalContentManifest(checksumManifest);
+      await client.send(
         new PutObjectCommand({
           Bucket: this.config.bucketName,
-          Key: inputKey,
-          Body: JSON.stringify(inputArtifact),
+          Key: this.originalContentManifestKey(project, inputArtifact.id),
+          Body: JSON.stringify(originalContentManifest),
         }),
-      ),
-    ]);
-
-    if (tag) {
-      const manifest: TagManifest = { id: inputArtifact.id };
-      const putTagCommand = new PutObjectCommand({
-        Bucket: this.config.bucketName,
-        Key: `${this.rootPath}/${project}/tags/${tag}.json`,
-        Body: JSON.stringify(manifest),
-      });
-      await client.send(putTagCommand);
+      );
+      this.originalContentManifests.set(
+        `${project}/${inputArtifact.id}`,
+        originalContentManifest,
+      );
+    } else {
+      storedChecksums = await this.listOriginalContentChecksums(
+        project,
+        inputArtifact.id,
+      );
     }
 
     // Upload original content files as well, using the artifact ID as reference
     // These files are stored under `${this.rootPath}/${project}/ids/${inputArtifact.id}/original/` prefix, so they don't interfere with the main artifact JSON file and can be easily retrieved when downloading the artifact
-    for (const originalContentPath of originalContent.paths) {
-      const content = await fs.readFile(
-        originalContent.rootPath.join(originalContentPath).resolvedPath,
+    const progress: UploadProgress = {
+      totalFiles: originalContent.paths.length,
+      completedFiles: 0,
+      skippedFiles: 0,
+    };
+    await mapWithConcurrency(
+      originalContent.paths,
+      ORIGINAL_CONTENT_UPLOAD_CONCURRENCY,
+      async (originalContentPath, index) => {
+        const s3Path = this.toS3Path(originalContentPath);
+        const checksum = checksumManifest.original[index]?.checksum;
+        if (!checksum) {
+          throw new Error(`Missing checksum of the original file ${s3Path}`);
+        }
+        const key = originalContentManifest
+          ? this.blobKey(project, checksum)
+          : `${this.rootPath}/${project}/ids/${inputArtifact.id}/original/${s3Path}`;
+        const alreadyStored = originalContentManifest
+          ? await this.isBlobReusable(key)
+          : storedChecksums.get(s3Path) === checksum;
+        if (alreadyStored) {
+          progress.skippedFiles++;
+        } else {
+          await this.putOriginalContentFile(
+            key,
+            originalContent.rootPath.join(originalContentPath),
+            checksum,
+          );
+        }
+        progress.completedFiles++;
+        opts?.onProgress?.({ ...progress });
+      },
+    );
+    if (this.config.debug && progress.skippedFiles > 0) {
+      this.logger.debug(
+        `${progress.skippedFiles} original content files of ${project}@${inputArtifact.id} were already stored, skipped`,
       );
-      const putCommand = new PutObjectCommand({
+    }
+
+    await client.send(
+      new PutObjectCommand({
         Bucket: this.config.bucketName,
-        Key: `${this.rootPath}/${project}/ids/${inputArtifact.id}/original/${this.toS3Path(originalContentPath)}`,
-        Body: content,
-      });
-      await client.send(putCommand);
+        Key: `${this.rootPath}/${project}/ids/${inputArtifact.id}/checksums.json`,
+        Body: JSON.stringify(checksumManifest),
+      }),
+    );
+
+    // Commit of the upload
+    await client.send(
+      new DeleteObjectCommand({
+        Bucket: this.config.bucketName,
+        Key: pendingUploadKey,
+      }),
+    );
+
+    if (tag) {
+      await this.putTagManifest(project, tag, inputArtifact.id);
     }
+
+    // The artifact and its tag are committed at this point, the index can be rebuilt from the storage so a failed update does not fail the upload
+    const indexUpdated = await this.reportIndexUpdate(
+      this.listIds(project).then((ids) =>
+        this.updateIndex(
+          project,
+          indexUploadedArtifact(
+            summarizeArtifact(
+              inputArtifact,
+              contractOutputArtifacts,
+              new Date(),
+            ),
+            tag,
+            ids,
+          ),
+        ),
+      ),
+    );
+    return { indexUpdated };
   }
 
   public async downloadArtifactById(
@@ -373,6 +767,11 @@ export class S3BucketProvider implements StorageProvider {
       stream: Stream;
     }[];
   }> {
+    if (await this.isUploadPending(project, id)) {
+      throw new Error(
+        `Artifact ${project}@${id} is not committed, its upload is in progress or was interrupted`,
+      );
+    }
     const client = await this.getClient();
     const inputCommand = new GetObjectCommand({
       Bucket: this.config.bucketName,
@@ -403,7 +802,17 @@ export class S3BucketProvider implements StorageProvider {
       ),
     );
     return {
-      input: inputResult.Body as Stream,
+      input: inputResult.Metadata?.encryption
+        ? Readable.from([
+            await this.decodeArtifactContent(
+              Buffer.from(await inputResult.Body.transformToByteArray()),
+              inputResult.ContentEncoding,
+            ),
+          ])
+        : decompressStream(
+            inputResult.Body,
+            parseContentEncoding(inputResult.ContentEncoding),
+          ),
       contractOutputArtifacts,
     };
   }
@@ -446,18 +855,675 @@ export class S3BucketProvider implements StorageProvider {
     relativePath: RelativePath,
   ): Promise<Stream> {
     const client = await this.getClient();
+    const manifest = await this.getOriginalContentManifest(project, id);
     const getObjectCommand = new GetObjectCommand({
       Bucket: this.config.bucketName,
-      Key: `${this.rootPath}/${project}/ids/${id}/original/${this.toS3Path(relativePath)}`,
+      Key: manifest
+        ? this.blobKey(project, findOriginalContentBlob(manifest, relativePath))
+        : `${this.rootPath}/${project}/ids/${id}/original/${this.toS3Path(relativePath)}`,
     });
     const getObjectResult = await client.send(getObjectCommand);
     if (!getObjectResult.Body) {
       throw new Error("Error fetching the original content");
     }
+    if (getObjectResult.Metadata?.encryption) {
+      return Readable.from([
+        await decryptContent(
+          Buffer.from(await getObjectResult.Body.transformToByteArray()),
+          this.cipher,
+        ),
+      ]);
+    }
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     return getObjectResult.Body.transformToWebStream() as any;
   }
 
+  /**
+   * Writes the manifest of a tag.
+   * A protected tag manifest is only created if it does not exist yet, an existing manifest is only accepted if it points to the same ID.
+   */
+  private async putTagManifest(
+    project: string,
+    tag: string,
+    id: string,
+  ): Promise<void> {
+    const client = await this.getClient();
+    const key = `${this.rootPath}/${project}/tags/${tag}.json`;
+    const manifest: TagManifest = { id };
+    const protectedPattern = findMatchingTagPattern(
+      tag,
+      this.config.protectedTags ?? [],
+    );
+    if (!protectedPattern) {
+      await client.send(
+        new PutObjectCommand({
+          Bucket: this.config.bucketName,
+          Key: key,
+          Body: JSON.stringify(manifest),
+        }),
+      );
+      return;
+    }
+
+    const created = await client
+      .send(
+        new PutObjectCommand({
+          Bucket: this.config.bucketName,
+          Key: key,
+          Body: JSON.stringify(manifest),
+          IfNoneMatch: "*",
+        }),
+      )
+      .then(() => true)
+      .catch((err) => {
+        // 412 when the object exists, 409 when a concurrent write is in progress
+        if (
+          err instanceof S3ServiceException &&
+          (err.$metadata.httpStatusCode === 412 ||
+            err.$metadata.httpStatusCode === 409)
+        ) {
+          return false;
+        }
+        throw err;
+      });
+    if (created) {
+      return;
+    }
+    if (this.config.debug) {
+      this.logger.debug(
+        `Conditional write rejected for protected tag "${tag}", comparing with the existing manifest`,
+      );
+    }
+    const existingManifest = await client.send(
+      new GetObjectCommand({ Bucket: this.config.bucketName, Key: key }),
+    );
+    const existingId = existingManifest.Body
+      ? TagManifestSchema.parse(
+          JSON.parse(await existingManifest.Body.transformToString()),
+        ).id
+      : undefined;
+    if (existingId !== id) {
+      throw new Error(
+        `Tag "${tag}" is protected by the pattern "${protectedPattern}" and already points to the artifact ID ${existingId}, it can not be overwritten`,
+      );
+    }
+  }
+
+  /**
+   * Settles an update of the project index, a failure is logged and reported instead of thrown since the storage change it follows is already applied.
+   */
+  private async reportIndexUpdate(
+    indexUpdate: Promise<void>,
+  ): Promise<boolean> {
+    return indexUpdate
+      .then(() => true)
+      .catch((err) => {
+        if (this.config.debug) {
+          this.logger.debug(`Failed to update the project index: ${err}`);
+        }
+        return false;
+      });
+  }
+
+  /**
+   * Updates the project index with conditional writes on the ETag of the index object, retried on conflicts.
+   */
+  private async updateIndex(
+    project: string,
+    update: ProjectIndexUpdate,
+  ): Promise<void> {
+    const client = await this.getClient();
+    const key = `${this.rootPath}/${project}/index.json`;
+    await updateProjectIndex<string | undefined>(
+      {
+        read: async () => {
+          const result = await client
+            .send(
+              new GetObjectCommand({
+                Bucket: this.config.bucketName,
+                Key: key,
+              }),
+            )
+            .catch((err) => {
+              if (err instanceof NoSuchKey) {
+                return null;
+              }
+              throw err;
+            });
+          if (!result?.Body) {
+            return undefined;
+          }
+          return {
+            index: ProjectIndexSchema.parse(
+              JSON.parse(await result.Body.transformToString()),
+            ),
+            version: result.ETag,
+          };
+        },
+        write: (index, etag) =>
+          this.putObjectConditionally(key, JSON.stringify(index), etag),
+      },
+      update,
+    );
+  }
+
+  /**
+   * Writes an object only if its ETag still matches, or only if it does not exist yet without ETag.
+   * @returns False if the object changed or a concurrent write is in progress
+   */
+  private async putObjectConditionally(
+    key: string,
+    body: string,
+    etag: string | undefined,
+  ): Promise<boolean> {
+    const client = await this.getClient();
+    return client
+      .send(
+        new PutObjectCommand({
+          Bucket: this.config.bucketName,
+          Key: key,
+          Body: body,
+          ...(etag ? { IfMatch: etag } : { IfNoneMatch: "*" }),
+        }),
+      )
+      .then(() => true)
+      .catch((err) => {
+        // 412 when the object changed, 409 when a concurrent write is in progress
+        if (
+          err instanceof S3ServiceException &&
+          (err.$metadata.httpStatusCode === 412 ||
+            err.$metadata.httpStatusCode === 409)
+        ) {
+          return false;
+        }
+        throw err;
+      });
+  }
+
+  private async collectArtifactSummaries(
+    project: string,
+  ): Promise<ArtifactSummary[]> {
+    const ids = await this.listIds(project);
+    return mapWithConcurrency(ids, ARTIFACT_SUMMARY_CONCURRENCY, (id) =>
+      this.getArtifactSummary(project, id),
+    );
+  }
+
+  private async resolveTags(project: string): Promise<Record<string, string>> {
+    const tags: Record<string, string> = {};
+    for (const tag of await this.listTags(project)) {
+      const id = await this.resolveTagId(project, tag);
+      if (id) {
+        tags[tag] = id;
+      }
+    }
+    return tags;
+  }
+
+  /**
+   * Builds the summary of an artifact from its input artifact, the push date is the last modification date of the input artifact object.
+   */
+  private async getArtifactSummary(
+    project: string,
+    id: string,
+  ): Promise<ArtifactSummary> {
+    const client = await this.getClient();
+    const [inputResult, contracts] = await Promise.all([
+      client.send(
+        new GetObjectCommand({
+          Bucket: this.config.bucketName,
+          Key: `${this.rootPath}/${project}/ids/${id}/input.json`,
+        }),
+      ),
+      this.listContractOutputArtifacts(project, id),
+    ]);
+    if (!inputResult.Body) {
+      throw new Error(`Input artifact not found for ${project}@${id}`);
+    }
+    const inputContent = await this.decodeArtifactContent(
+      Buffer.from(await inputResult.Body.transformToByteArray()),
+      inputResult.ContentEncoding,
+    );
+    const input = InputArtifactSummarySchema.parse(
+      JSON.parse(inputContent.toString("utf-8")),
+    );
+    return {
+      id,
+      origin: input.origin,
+      solcLongVersion: input.solcLongVersion,
+      contracts,
+      pushedAt: inputResult.LastModified?.toISOString() ?? null,
+      metadata: input.metadata,
+    };
+  }
+
+  /**
+   * Lists the original content files stored under the artifact ID, i.e. with the "files" layout.
+   */
+  private async listOriginalContentFiles(
+    project: string,
+    id: string,
+  ): Promise<RelativePath[]> {
+    const client = await this.getClient();
+    const prefix = `${this.rootPath}/${project}/ids/${id}/original/`;
+    const paths: string[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const listCommand = new ListObjectsV2Command({
+        Bucket: this.config.bucketName,
+        Prefix: prefix,
+        ContinuationToken: continuationToken,
+      });
+      const listResult = await client.send(listCommand);
+      const contents = listResult.Contents;
+      if (contents) {
+        for (const content of contents) {
+          const key = content.Key;
+          if (!key) continue;
+          const relativeKey = key.replace(prefix, "");
+          if (relativeKey.length > 0) {
+            paths.push(relativeKey);
+          }
+        }
+      }
+      continuationToken = listResult.IsTruncated
+        ? listResult.NextContinuationToken
+        : undefined;
+    } while (continuationToken);
+
+    return paths.map((relativePath) => this.fromS3Path(relativePath));
+  }
+
+  /**
+   * Reads the `sha256` metadata of the original content objects already stored for an ID, keyed by their S3 path.
+   * Objects written before the metadata existed are left out, they are uploaded again.
+   */
+  private async listOriginalContentChecksums(
+    project: string,
+    id: string,
+  ): Promise<Map<string, string>> {
+    const client = await this.getClient();
+    const storedPaths = await this.listOriginalContentFiles(project, id);
+    const checksums = new Map<string, string>();
+    await mapWithConcurrency(
+      storedPaths,
+      ORIGINAL_CONTENT_UPLOAD_CONCURRENCY,
+      async (storedPath) => {
+        const s3Path = this.toS3Path(storedPath);
+        const headResult = await client.send(
+          new HeadObjectCommand({
+            Bucket: this.config.bucketName,
+            Key: `${this.rootPath}/${project}/ids/${id}/original/${s3Path}`,
+          }),
+        );
+        const checksum = headResult.Metadata?.sha256;
+        // An unencrypted object of a retried upload is uploaded again once an encryption key is configured
+        if (checksum && (!this.cipher || headResult.Metadata?.encryption)) {
+          checksums.set(s3Path, checksum);
+        }
+      },
+    );
+    return checksums;
+  }
+
+  /**
+   * Uploads an original content file with its checksum as metadata, in parts from `MULTIPART_UPLOAD_THRESHOLD`.
+   * Only one part of a file is held in memory at a time, except with an encryption key as the whole file is encrypted at once.
+   * A failed multipart upload is aborted, so that its parts are not left on the bucket.
+   */
+  private async putOriginalContentFile(
+    key: string,
+    filePath: AbsolutePath,
+    checksum: string,
+  ): Promise<void> {
+    const client = await this.getClient();
+    // The checksum is the one of the original file, before its encryption
+    const metadata: Record<string, string> = this.cipher
+      ? { sha256: checksum, encryption: ENCRYPTION_ALGORITHM }
+      : { sha256: checksum };
+
+    if (this.cipher) {
+      const content = await this.cipher.encrypt(
+        await fs.readFile(filePath.resolvedPath),
+      );
+      if (content.length < MULTIPART_UPLOAD_THRESHOLD) {
+        await client.send(
+          new PutObjectCommand({
+            Bucket: this.config.bucketName,
+            Key: key,
+            Body: content,
+            Metadata: metadata,
+          }),
+        );
+        return;
+      }
+      await this.putMultipartObject(
+        key,
+        metadata,
+        content.length,
+        async (part, offset) => {
+          content.copy(part, 0, offset, offset + part.length);
+        },
+      );
+      return;
+    }
+
+    const { size } = await fs.stat(filePath.resolvedPath);
+    if (size < MULTIPART_UPLOAD_THRESHOLD) {
+      await client.send(
+        new PutObjectCommand({
+          Bucket: this.config.bucketName,
+          Key: key,
+          Body: await fs.readFile(filePath.resolvedPath),
+          Metadata: metadata,
+        }),
+      );
+      return;
+    }
+    const fileHandle = await fs.open(filePath.resolvedPath, "r");
+    try {
+      await this.putMultipartObject(
+        key,
+        metadata,
+        size,
+        async (part, offset) => {
+          await fileHandle.read(part, 0, part.length, offset);
+        },
+      );
+    } finally {
+      await fileHandle.close();
+    }
+  }
+
+  /**
+   * Writes an object with a multipart upload, the upload is aborted on failure.
+   * @param readPart Fills a part with the content of the object from an offset
+   */
+  private async putMultipartObject(
+    key: string,
+    metadata: Record<string, string>,
+    size: number,
+    readPart: (part: Buffer, offset: number) => Promise<void>,
+  ): Promise<void> {
+    const client = await this.getClient();
+    const { UploadId: uploadId } = await client.send(
+      new CreateMultipartUploadCommand({
+        Bucket: this.config.bucketName,
+        Key: key,
+        Metadata: metadata,
+      }),
+    );
+    if (!uploadId) {
+      throw new Error(`Failed to start the multipart upload of ${key}`);
+    }
+    try {
+      const parts: CompletedPart[] = [];
+      for (
+        let offset = 0, partNumber = 1;
+        offset < size;
+        offset += MULTIPART_UPLOAD_PART_SIZE, partNumber++
+      ) {
+        const part = Buffer.alloc(
+          Math.min(MULTIPART_UPLOAD_PART_SIZE, size - offset),
+        );
+        await readPart(part, offset);
+        const { ETag: eTag } = await client.send(
+          new UploadPartCommand({
+            Bucket: this.config.bucketName,
+            Key: key,
+            UploadId: uploadId,
+            PartNumber: partNumber,
+            Body: part,
+          }),
+        );
+        parts.push({ ETag: eTag, PartNumber: partNumber });
+      }
+      await client.send(
+        new CompleteMultipartUploadCommand({
+          Bucket: this.config.bucketName,
+          Key: key,
+          UploadId: uploadId,
+          MultipartUpload: { Parts: parts },
+        }),
+      );
+    } catch (err) {
+      await client
+        .send(
+          new AbortMultipartUploadCommand({
+            Bucket: this.config.bucketName,
+            Key: key,
+            UploadId: uploadId,
+          }),
+        )
+        .catch((abortErr) => {
+          if (this.config.debug) {
+            this.logger.debug(
+              `Failed to abort the multipart upload of ${key}: ${abortErr}`,
+            );
+          }
+        });
+      throw err;
+    }
+  }
+
+  /**
+   * Reads the original content manifest of an artifact ID, undefined if its original content is stored as files.
+   */
+  private async getOriginalContentManifest(
+    project: string,
+    id: string,
+  ): Promise<OriginalContentManifest | undefined> {
+    const cacheKey = `${project}/${id}`;
+    if (this.originalContentManifests.has(cacheKey)) {
+      return this.originalContentManifests.get(cacheKey);
+    }
+    const manifestContent = await this.getObjectContent(
+      this.originalContentManifestKey(project, id),
+    );
+    const manifest =
+      manifestContent === undefined
+        ? undefined
+        : OriginalContentManifestSchema.parse(JSON.parse(manifestContent));
+    this.originalContentManifests.set(cacheKey, manifest);
+    return manifest;
+  }
+
+  /**
+   * Deletes the blobs of a deleted artifact that no other artifact ID of the project references.
+   * An upload in progress may skip a blob that already exists before its manifest can be read here, the blobs are kept if an upload is pending before or during the clean-up.
+   */
+  private async deleteUnreferencedBlobs(
+    project: string,
+    deletedManifest: OriginalContentManifest,
+  ): Promise<void> {
+    const client = await this.getClient();
+    const ids = await this.listIds(project);
+    if (await this.hasUploadsSince(project, ids)) {
+      this.logSkippedBlobsCleanUp(project);
+      return;
+    }
+    const remainingManifests = await mapWithConcurrency(
+      ids,
+      ORIGINAL_CONTENT_UPLOAD_CONCURRENCY,
+      (id) => this.getOriginalContentManifest(project, id),
+    );
+    const unreferencedBlobs = listUnreferencedBlobs(
+      deletedManifest,
+      remainingManifests.filter(
+        (manifest): manifest is OriginalContentManifest =>
+          manifest !== undefined,
+      ),
+    );
+    if (await this.hasUploadsSince(project, ids)) {
+      this.logSkippedBlobsCleanUp(project);
+      return;
+    }
+    // A DeleteObjects request holds at most 1000 keys
+    for (let i = 0; i < unreferencedBlobs.length; i += 1000) {
+      const keys = unreferencedBlobs
+        .slice(i, i + 1000)
+        .map((blob) => this.blobKey(project, blob));
+      const deleteResult = await client.send(
+        new DeleteObjectsCommand({
+          Bucket: this.config.bucketName,
+          Delete: { Objects: keys.map((key) => ({ Key: key })), Quiet: true },
+        }),
+      );
+      if ((deleteResult.Errors ?? []).length > 0) {
+        throw new Error(
+          `Failed to delete ${deleteResult.Errors?.length} unreferenced blob(s) of ${project}`,
+        );
+      }
+    }
+    if (this.config.debug) {
+      this.logger.debug(
+        `Deleted ${unreferencedBlobs.length} unreferenced blob(s) of ${project}`,
+      );
+    }
+  }
+
+  /**
+   * Whether an upload is pending or an artifact ID has been committed since the listing of the known IDs.
+   */
+  private async hasUploadsSince(
+    project: string,
+    knownIds: string[],
+  ): Promise<boolean> {
+    const [ids, pendingUploads] = await Promise.all([
+      this.listIds(project),
+      this.listPendingUploads(project),
+    ]);
+    return (
+      pendingUploads.length > 0 || ids.some((id) => !knownIds.includes(id))
+    );
+  }
+
+  private logSkippedBlobsCleanUp(project: string): void {
+    if (this.config.debug) {
+      this.logger.debug(
+        `An upload is in progress on ${project}, the unreferenced blobs are kept`,
+      );
+    }
+  }
+
+  private originalContentManifestKey(project: string, id: string): string {
+    return `${this.rootPath}/${project}/ids/${id}/original.json`;
+  }
+
+  /**
+   * A stored blob is reused if it matches the encryption of new uploads, an unencrypted blob is uploaded again encrypted once an encryption key is configured.
+   */
+  private async isBlobReusable(key: string): Promise<boolean> {
+    const client = await this.getClient();
+    return client
+      .send(
+        new HeadObjectCommand({
+          Bucket: this.config.bucketName,
+          Key: key,
+        }),
+      )
+      .then(
+        (headResult) =>
+          !this.cipher || Boolean(headResult.Metadata?.encryption),
+      )
+      .catch((err) => {
+        if (err instanceof NotFound) {
+          return false;
+        }
+        throw err;
+      });
+  }
+
+  private blobKey(project: string, checksum: string): string {
+    return `${this.rootPath}/${project}/blobs/${checksum}`;
+  }
+
+  private pendingUploadKey(project: string, id: string): string {
+    return `${this.rootPath}/${project}/uploads/${id}.json`;
+  }
+
+  private async isUploadPending(project: string, id: string): Promise<boolean> {
+    const marker = await this.getObjectContent(
+      this.pendingUploadKey(project, id),
+    );
+    return marker !== undefined;
+  }
+
+  private async listPendingUploads(project: string): Promise<string[]> {
+    const client = await this.getClient();
+    const prefix = `${this.rootPath}/${project}/uploads/`;
+    const ids: string[] = [];
+    let continuationToken: string | undefined;
+    do {
+      const listResult = await client.send(
+        new ListObjectsV2Command({
+          Bucket: this.config.bucketName,
+          Prefix: prefix,
+          ContinuationToken: continuationToken,
+        }),
+      );
+      for (const content of listResult.Contents ?? []) {
+        if (content.Key?.endsWith(".json")) {
+          ids.push(content.Key.replace(prefix, "").replace(".json", ""));
+        }
+      }
+      continuationToken = listResult.IsTruncated
+        ? listResult.NextContinuationToken
+        : undefined;
+    } while (continuationToken);
+    return ids;
+  }
+
+  /**
+   * Lists the "directories" directly under a prefix, following pagination.
+   */
+  private async listPrefixes(prefix: string): Promise<string[]> {
+    const client = await this.getClient();
+    const prefixes: string[] = [];
+    let continuationToken: string | undefined;
+    do {
+      const listResult = await client.send(
+        new ListObjectsV2Command({
+          Bucket: this.config.bucketName,
+          Prefix: prefix,
+          Delimiter: "/",
+          ContinuationToken: continuationToken,
+        }),
+      );
+      for (const entry of listResult.CommonPrefixes ?? []) {
+        if (entry.Prefix) {
+          prefixes.push(entry.Prefix);
+        }
+      }
+      continuationToken = listResult.IsTruncated
+        ? listResult.NextContinuationToken
+        : undefined;
+    } while (continuationToken);
+    return prefixes;
+  }
+
+  private async getObjectContent(key: string): Promise<string | undefined> {
+    const client = await this.getClient();
+    const result = await client
+      .send(
+        new GetObjectCommand({
+          Bucket: this.config.bucketName,
+          Key: key,
+        }),
+      )
+      .catch((err) => {
+        if (err instanceof NoSuchKey) {
+          return null;
+        }
+        throw err;
+      });
+    if (!result?.Body) {
+      return undefined;
+    }
+    return result.Body.transformToString();
+  }
+
   private async downloadContractOutputArtifact(
     project: string,
     id: string,
@@ -475,10 +1541,84 @@ export class S3BucketProvider implements StorageProvider {
         `Contract artifact not found for ${sourceName}:${contractName}`,
       );
     }
+    if (getObjectResult.Metadata?.encryption) {
+      return Readable.from([
+        await this.decodeArtifactContent(
+          Buffer.from(await getObjectResult.Body.transformToByteArray()),
+          getObjectResult.ContentEncoding,
+        ),
+      ]);
+    }
+    const compression = parseContentEncoding(getObjectResult.ContentEncoding);
+    if (compression) {
+      return decompressStream(getObjectResult.Body as Readable, compression);
+    }
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     return getObjectResult.Body.transformToWebStream() as any;
   }
 
+  /**
+   * Writes an input or output artifact, compressed with the configured compression then encrypted with the configured key.
+   */
+  private async putArtifactObject(
+    key: string,
+    artifact: EthokoInputArtifact | EthokoContractOutputArtifact,
+  ): Promise<void> {
+    const client = await this.getClient();
+    const content = JSON.stringify(artifact);
+    if (this.cipher) {
+      // The compression is recognized from the decrypted content, the encrypted object has no `Content-Encoding`
+      await client.send(
+        new PutObjectCommand({
+          Bucket: this.config.bucketName,
+          Key: key,
+          Body: await this.cipher.encrypt(
+            this.config.compression
+              ? await compressContent(content, this.config.compression)
+              : content,
+          ),
+          ContentType: "application/octet-stream",
+          Metadata: { encryption: ENCRYPTION_ALGORITHM },
+        }),
+      );
+      return;
+    }
+    if (!this.config.compression) {
+      await client.send(
+        new PutObjectCommand({
+          Bucket: this.config.bucketName,
+          Key: key,
+          Body: content,
+        }),
+      );
+      return;
+    }
+    await client.send(
+      new PutObjectCommand({
+        Bucket: this.config.bucketName,
+        Key: key,
+        Body: await compressContent(content, this.config.compression),
+        ContentType: "application/json",
+        ContentEncoding: this.config.compression,
+      }),
+    );
+  }
+
+  /**
+   * Decrypts then decompresses the content of an input or output artifact.
+   */
+  private async decodeArtifactContent(
+    content: Buffer,
+    contentEncoding: string | undefined,
+  ): Promise<Buffer> {
+    const decryptedContent = await decryptContent(content, this.cipher);
+    return decompressContent(
+      decryptedContent,
+      parseContentEncoding(contentEncoding) ??
+        detectCompression(decryptedContent),
+    );
+  }
+
   private async listContractOutputArtifacts(
     project: string,
     id: string,
@@ -1,7 +1,11 @@
 import { Stream } from "stream";
 import {
+  ArtifactSummary,
+  ChecksumManifest,
+  ProjectIndex,
   EthokoContractOutputArtifact,
   EthokoInputArtifact,
+  TagHistoryEntry,
 } from "../ethoko-artifacts/v0";
 import { AbsolutePath, RelativePath } from "@/utils/path";
 
@@ -10,33 +14,123 @@ import { AbsolutePath, RelativePath } from "@/utils/path";
  *
  * Responsibilities
  * - Store input/output artifacts and tag manifests
+ * - Store the checksum manifest of the artifacts, written at push time
+ * - Write and delete tag manifests of existing artifacts
+ * - Delete artifacts, including their original content
  * - Expose list and existence checks for tags/ids
+ * - Summarize the artifacts of a project (origin, compiler version, contracts, push date)
+ * - Maintain the project index on every write, so that listings do not download the artifacts
  * - Stream artifacts and original content on demand
+ * - Store the history of the tag manifest writes
  *
  * Storage layout (logical)
+ * - {project}/index.json (index: { artifacts, tags })
  * - {project}/ids/{id}/input.json
+ * - {project}/ids/{id}/checksums.json (checksum manifest: { input, outputs, original })
  * - {project}/ids/{id}/original/** (original compilation content)
+ * - {project}/ids/{id}/original.json (original content manifest: { files }, content-addressed layout)
+ * - {project}/blobs/{checksum} (original content files, content-addressed layout)
  * - {project}/tags/{tag}.json (manifest: { id })
+ * - {project}/tag-history/{tag}.json (history: { entries })
+ *
+ * Artifacts are read the same way whatever the layout of their original content, the layout only applies to new uploads.
+ */
+
+/**
+ * Layout of the original content of the uploaded artifacts
+ * - "files": the files are stored under the artifact ID, `{project}/ids/{id}/original/**`
+ * - "content-addressed": the files are stored once per project under their sha256 checksum, `{project}/blobs/{checksum}`, and the artifact ID holds their manifest, `{project}/ids/{id}/original.json`
  */
+export type OriginalContentLayout = "files" | "content-addressed";
+
+/**
+ * Compression of the input and output artifacts of new uploads, artifacts are read whatever their compression
+ */
+export type ArtifactCompression = "gzip" | "zstd";
+
+/**
+ * Key of the client-side encryption of the input, output and original content artifacts of new uploads
+ * - "env": 32 bytes key, hex or base64 encoded, read from an environment variable
+ * - "file": 32 bytes key, hex or base64 encoded, read from a file
+ * - "aws-kms": data keys generated and decrypted by an AWS KMS key
+ */
+export type ArtifactEncryption =
+  | { type: "env"; variable: string }
+  | { type: "file"; path: AbsolutePath }
+  | { type: "aws-kms"; keyId: string; region?: string; profile?: string };
+
+/** Progress of the upload of the original content files, reported each time a file is done. */
+export type UploadProgress = {
+  totalFiles: number;
+  // Uploaded or skipped files
+  completedFiles: number;
+  // Files already stored with the same checksum, e.g. by an interrupted push
+  skippedFiles: number;
+};
+
+/** Result of a change of the stored artifacts or tags, the project index is updated after the change. */
+export type StorageUpdateResult = {
+  // False if the change is stored but the project index could not be updated, the index can be rebuilt with `ethoko remote reindex`
+  indexUpdated: boolean;
+};
+
 export interface StorageProvider {
   /** List available tags for a project. */
   listTags(project: string): Promise<string[]>;
   /** List available artifact IDs for a project. */
   listIds(project: string): Promise<string[]>;
-  /** List paths under the original content folder for an artifact ID. */
+  /** List the summaries of the artifact IDs of a project, from the project index if it exists. */
+  listArtifactSummaries(project: string): Promise<ArtifactSummary[]>;
+  /** Read the index of a project, undefined if the project has no index, e.g. pushed before the index existed. */
+  getProjectIndex(project: string): Promise<ProjectIndex | undefined>;
+  /** Rebuild the index of a project from the stored artifacts and tags. */
+  rebuildProjectIndex(project: string): Promise<ProjectIndex>;
+  /** List paths of the original content files of an artifact ID, relative to the original content folder. */
   listOriginalContent(project: string, id: string): Promise<RelativePath[]>;
   /** Check if a tag manifest exists for a project. */
   hasArtifactByTag(project: string, tag: string): Promise<boolean>;
   /** Check if an artifact ID exists for a project. */
   hasArtifactById(project: string, id: string): Promise<boolean>;
-  /** Upload input/output artifacts, plus optional tag manifest and originals. */
+  /** Write a tag manifest pointing to an artifact ID, protected tags can not be overwritten. A failed update of the project index is reported in the result. */
+  writeTag(
+    project: string,
+    tag: string,
+    id: string,
+  ): Promise<StorageUpdateResult>;
+  /** Delete a tag manifest, protected tags can not be deleted. A failed update of the project index is reported in the result. */
+  deleteTag(project: string, tag: string): Promise<StorageUpdateResult>;
+  /** Delete an artifact ID: input, outputs and original content, shared blobs are kept while referenced. Tag manifests pointing to it are left untouched. A failed update of the project index is reported in the result. */
+  deleteArtifact(project: string, id: string): Promise<StorageUpdateResult>;
+  /** Resolve the artifact ID a tag points to, undefined if the tag does not exist. */
+  resolveTagId(project: string, tag: string): Promise<string | undefined>;
+  /** List the recorded history entries of a tag, oldest first. */
+  getTagHistory(project: string, tag: string): Promise<TagHistoryEntry[]>;
+  /** Append an entry to the history of a tag. */
+  appendTagHistory(
+    project: string,
+    tag: string,
+    entry: TagHistoryEntry,
+  ): Promise<void>;
+  /** Read the checksum manifest of an artifact ID, undefined if the artifact was pushed before checksums existed. */
+  getChecksumManifest(
+    project: string,
+    id: string,
+  ): Promise<ChecksumManifest | undefined>;
+  /** Identity of the caller as known by the storage, undefined if the storage has no such notion. */
+  getCallerIdentity(): Promise<string | undefined>;
+  /**
+   * Upload input/output artifacts, plus optional tag manifest and originals, then their checksum manifest.
+   * Providers able to report the progress of the original content upload call `opts.onProgress`.
+   * A failed update of the project index does not fail the upload, it is reported in the result.
+   */
   uploadArtifact(
     project: string,
     inputArtifact: EthokoInputArtifact,
     contractOutputArtifacts: EthokoContractOutputArtifact[],
     tag: string | undefined,
     originalContent: { rootPath: AbsolutePath; paths: RelativePath[] },
-  ): Promise<void>;
+    opts?: { onProgress?: (progress: UploadProgress) => void },
+  ): Promise<StorageUpdateResult>;
   /** Download input/output artifact streams by ID. */
   downloadArtifactById(
     project: string,
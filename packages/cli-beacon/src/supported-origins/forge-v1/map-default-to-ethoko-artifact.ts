@@ -2,8 +2,8 @@ import fs from "fs/promises";
 import { deriveEthokoArtifactId } from "@/ethoko-artifacts/derive-ethoko-artifact-id";
 import {
   EthokoContractOutputArtifact,
-  EthokoInputArtifact,
-  EthokoInputArtifactSchema,
+  EthokoCompilationInputArtifact,
+  EthokoCompilationInputArtifactSchema,
 } from "@/ethoko-artifacts/v0";
 import { ForgeCompilerDefaultOutputSchema } from "./schemas";
 import z from "zod";
@@ -46,7 +46,7 @@ export async function mapForgeV1DefaultArtifactToEthokoArtifact(
   dependencies: { logger: DebugLogger },
   opts: { debug: boolean },
 ): Promise<{
-  inputArtifact: EthokoInputArtifact;
+  inputArtifact: EthokoCompilationInputArtifact;
   outputContractArtifacts: EthokoContractOutputArtifact[];
   originalContent: { rootPath: AbsolutePath; paths: RelativePath[] };
 }> {
@@ -238,10 +238,10 @@ export async function mapForgeV1DefaultArtifactToEthokoArtifact(
       id: forgeBuildInfo.id,
     },
     input: inputParsingResult.data,
-  } satisfies EthokoInputArtifact;
+  } satisfies EthokoCompilationInputArtifact;
 
   const inputArtifactResult =
-    EthokoInputArtifactSchema.safeParse(inputArtifact);
+    EthokoCompilationInputArtifactSchema.safeParse(inputArtifact);
   if (!inputArtifactResult.success) {
     throw new Error(
       `Failed to parse the reconstructed Ethoko input artifact from the Forge build info default format. Error: ${inputArtifactResult.error}`,
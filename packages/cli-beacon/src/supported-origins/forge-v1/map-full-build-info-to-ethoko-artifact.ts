@@ -2,7 +2,7 @@ import fs from "fs/promises";
 import { deriveEthokoArtifactId } from "@/ethoko-artifacts/derive-ethoko-artifact-id";
 import {
   EthokoContractOutputArtifact,
-  EthokoInputArtifact,
+  EthokoCompilationInputArtifact,
 } from "@/ethoko-artifacts/v0";
 import { ForgeCompilerOutputWithBuildInfoOptionSchema } from "./schemas";
 import { lookForForgeContractArtifactPath } from "./look-for-forge-contract-artifact-paths";
@@ -34,7 +34,7 @@ export async function mapForgeV1FullBuildInfoToEthokoArtifact(
   dependencies: { logger: DebugLogger },
   opts: { debug: boolean },
 ): Promise<{
-  inputArtifact: EthokoInputArtifact;
+  inputArtifact: EthokoCompilationInputArtifact;
   outputContractArtifacts: EthokoContractOutputArtifact[];
   originalContent: { rootPath: AbsolutePath; paths: RelativePath[] };
 }> {
@@ -78,7 +78,7 @@ export async function mapForgeV1FullBuildInfoToEthokoArtifact(
   });
 
   const id = deriveEthokoArtifactId(forgeBuildInfo.input);
-  const inputArtifact: EthokoInputArtifact = {
+  const inputArtifact: EthokoCompilationInputArtifact = {
     id,
     _format: "ethoko-input-v0",
     origin: {
@@ -3,7 +3,7 @@ import { HardhatV2CompilerOutputSchema } from "./schemas";
 import { deriveEthokoArtifactId } from "@/ethoko-artifacts/derive-ethoko-artifact-id";
 import {
   EthokoContractOutputArtifact,
-  EthokoInputArtifact,
+  EthokoCompilationInputArtifact,
 } from "@/ethoko-artifacts/v0";
 import { AbsolutePath, RelativePath } from "@/utils/path";
 import { DebugLogger } from "@/utils/debug-logger";
@@ -13,7 +13,7 @@ export async function mapHardhatV2ArtifactToEthokoArtifact(
   dependencies: { logger: DebugLogger },
   opts: { debug: boolean },
 ): Promise<{
-  inputArtifact: EthokoInputArtifact;
+  inputArtifact: EthokoCompilationInputArtifact;
   outputContractArtifacts: EthokoContractOutputArtifact[];
   originalContent: {
     rootPath: AbsolutePath;
@@ -43,7 +43,7 @@ export async function mapHardhatV2ArtifactToEthokoArtifact(
   }
 
   const id = deriveEthokoArtifactId(parsingResult.data.input);
-  const inputArtifact: EthokoInputArtifact = {
+  const inputArtifact: EthokoCompilationInputArtifact = {
     id,
     _format: "ethoko-input-v0",
     origin: {
@@ -1,7 +1,7 @@
 import {
   EthokoArtifactOrigin,
   EthokoContractOutputArtifact,
-  EthokoInputArtifact,
+  EthokoCompilationInputArtifact,
 } from "@/ethoko-artifacts/v0";
 import { deriveEthokoArtifactId } from "@/ethoko-artifacts/derive-ethoko-artifact-id";
 import {
@@ -36,7 +36,7 @@ export async function mapHardhatV3ArtifactsToEthokoArtifact(
   dependencies: { logger: DebugLogger },
   opts: { debug: boolean },
 ): Promise<{
-  inputArtifact: EthokoInputArtifact;
+  inputArtifact: EthokoCompilationInputArtifact;
   outputContractArtifacts: EthokoContractOutputArtifact[];
   originalContent: {
     rootPath: AbsolutePath;
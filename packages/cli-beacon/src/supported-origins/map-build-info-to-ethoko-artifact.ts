@@ -1,6 +1,6 @@
 import { AbsolutePath, RelativePath } from "@/utils/path";
 import {
-  EthokoInputArtifact,
+  EthokoCompilationInputArtifact,
   EthokoContractOutputArtifact,
 } from "../ethoko-artifacts/v0";
 import { mapForgeV1DefaultArtifactToEthokoArtifact } from "./forge-v1/map-default-to-ethoko-artifact";
@@ -45,7 +45,7 @@ export function mapBuildInfoToEthokoArtifact(
   dependencies: { logger: DebugLogger },
   opts: { debug: boolean },
 ): Promise<{
-  inputArtifact: EthokoInputArtifact;
+  inputArtifact: EthokoCompilationInputArtifact;
   outputContractArtifacts: EthokoContractOutputArtifact[];
   originalContent: {
     rootPath: AbsolutePath;
@@ -0,0 +1,165 @@
+import {
+  EthokoCompilationInputArtifact,
+  EthokoContractOutputArtifact,
+  EthokoInputArtifact,
+  EthokoMultiCompilationInputArtifact,
+} from "@/ethoko-artifacts/v0";
+import { deriveMultiCompilationEthokoArtifactId } from "@/ethoko-artifacts/derive-ethoko-artifact-id";
+import { AbsolutePath, RelativePath } from "@/utils/path";
+
+type MappedEthokoArtifact<TInputArtifact> = {
+  inputArtifact: TInputArtifact;
+  outputContractArtifacts: EthokoContractOutputArtifact[];
+  originalContent: {
+    rootPath: AbsolutePath;
+    paths: RelativePath[];
+  };
+};
+
+/**
+ * Merges the Ethoko artifacts of several compilations, e.g. for several solc versions or compiler profiles, into a single multi-compilation artifact.
+ *
+ * The compilations are ordered from the most recent solc version, then by ID, the order does not depend on the order of the artifacts.
+ * A contract compiled by several compilations is kept from the first one, its output artifact references the compilation it comes from.
+ * The original content of the artifacts is gathered under their common root folder.
+ * Artifacts of the same compilation are only kept once, a single compilation is returned as is.
+ *
+ * @param artifacts The Ethoko artifacts of each compilation
+ * @returns The merged Ethoko artifact
+ */
+export function mergeEthokoArtifacts(
+  artifacts: MappedEthokoArtifact<EthokoCompilationInputArtifact>[],
+): MappedEthokoArtifact<EthokoInputArtifact> {
+  const artifactsById = new Map<
+    string,
+    MappedEthokoArtifact<EthokoCompilationInputArtifact>
+  >();
+  for (const artifact of artifacts) {
+    if (!artifactsById.has(artifact.inputArtifact.id)) {
+      artifactsById.set(artifact.inputArtifact.id, artifact);
+    }
+  }
+  const compilationArtifacts = Array.from(artifactsById.values()).sort(
+    (a, b) =>
+      compareSolcVersions(
+        b.inputArtifact.solcLongVersion,
+        a.inputArtifact.solcLongVersion,
+      ) || a.inputArtifact.id.localeCompare(b.inputArtifact.id),
+  );
+  const firstArtifact = compilationArtifacts[0];
+  if (!firstArtifact) {
+    throw new Error("No artifact to merge");
+  }
+  if (compilationArtifacts.length === 1) {
+    return firstArtifact;
+  }
+
+  const compilationIds = compilationArtifacts.map(
+    (artifact) => artifact.inputArtifact.id,
+  );
+  const ethokoArtifactId =
+    deriveMultiCompilationEthokoArtifactId(compilationIds);
+
+  const inputArtifact: EthokoMultiCompilationInputArtifact = {
+    id: ethokoArtifactId,
+    _format: "ethoko-input-v0",
+    origin: {
+      type: "multi-compilation",
+      compilations: compilationArtifacts.map(({ inputArtifact }) => ({
+        id: inputArtifact.id,
+        solcLongVersion: inputArtifact.solcLongVersion,
+        origin: inputArtifact.origin,
+      })),
+    },
+    solcLongVersion: Array.from(
+      new Set(
+        compilationArtifacts.map(
+          ({ inputArtifact }) => inputArtifact.solcLongVersion,
+        ),
+      ),
+    ).join(", "),
+    inputs: Object.fromEntries(
+      compilationArtifacts.map(({ inputArtifact }) => [
+        inputArtifact.id,
+        inputArtifact.input,
+      ]),
+    ),
+  };
+
+  const outputContractArtifacts: EthokoContractOutputArtifact[] = [];
+  const contractKeys = new Set<string>();
+  for (const artifact of compilationArtifacts) {
+    for (const outputArtifact of artifact.outputContractArtifacts) {
+      const contractKey = `${outputArtifact.sourceName}:${outputArtifact.contract}`;
+      if (contractKeys.has(contractKey)) {
+        continue;
+      }
+      contractKeys.add(contractKey);
+      outputContractArtifacts.push({
+        ...outputArtifact,
+        id: ethokoArtifactId,
+        compilation: artifact.inputArtifact.id,
+      });
+    }
+  }
+
+  const rootPath = findCommonRootPath(
+    compilationArtifacts.map((artifact) => artifact.originalContent.rootPath),
+  );
+  const originalContentPaths = new Map<string, RelativePath>();
+  for (const artifact of compilationArtifacts) {
+    for (const relativePath of artifact.originalContent.paths) {
+      const originalContentPath = artifact.originalContent.rootPath
+        .join(relativePath)
+        .relativeTo(rootPath);
+      originalContentPaths.set(
+        originalContentPath.relativePath,
+        originalContentPath,
+      );
+    }
+  }
+
+  return {
+    inputArtifact,
+    outputContractArtifacts,
+    originalContent: {
+      rootPath,
+      paths: Array.from(originalContentPaths.values()),
+    },
+  };
+}
+
+/**
+ * Compares two solc versions, e.g. `0.8.28+commit.7893614a` and `0.8.33`, the commit part is ignored
+ * @returns A negative number if `a` is older than `b`, a positive number if it is more recent, 0 if they are equal
+ */
+function compareSolcVersions(a: string, b: string): number {
+  const toParts = (version: string) =>
+    (version.split("+")[0] ?? version)
+      .split(".")
+      .map((part) => Number.parseInt(part, 10) || 0);
+  const aParts = toParts(a);
+  const bParts = toParts(b);
+  for (let i = 0; i < Math.max(aParts.length, bParts.length); i++) {
+    const difference = (aParts[i] ?? 0) - (bParts[i] ?? 0);
+    if (difference !== 0) {
+      return difference;
+    }
+  }
+  return 0;
+}
+
+function findCommonRootPath(paths: AbsolutePath[]): AbsolutePath {
+  const [firstPath, ...otherPaths] = paths;
+  if (!firstPath) {
+    throw new Error("No path to find a common root for");
+  }
+  let rootPath = firstPath;
+  while (
+    !otherPaths.every((p) => p.eq(rootPath) || p.isChildOf(rootPath)) &&
+    !rootPath.dirname().eq(rootPath)
+  ) {
+    rootPath = rootPath.dirname();
+  }
+  return rootPath;
+}
@@ -20,6 +20,8 @@ interface Spinner {
   warn: (message: string) => void;
   // Displays an error message and stops the spinner
   fail: (message: string) => void;
+  // Updates the message of the running spinner
+  update: (message: string) => void;
   // Stops the spinner without displaying a message, can be used with {succeed, warn, fail} afterwards to display a message
   stop: () => void;
 }
@@ -47,6 +49,7 @@ export class CommandLogger {
         succeed: () => {},
         warn: () => {},
         fail: () => {},
+        update: () => {},
         stop: () => {},
       };
     }
@@ -56,6 +59,7 @@ export class CommandLogger {
       succeed: (msg: string) => spinner.stop(msg),
       warn: (msg: string) => spinner.error(msg),
       fail: (msg: string) => spinner.cancel(msg),
+      update: (msg: string) => spinner.message(msg),
       stop: () => spinner.clear(),
     };
   }
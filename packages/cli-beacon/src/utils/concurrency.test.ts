@@ -0,0 +1,45 @@
+import { describe, expect, test } from "vitest";
+import { mapWithConcurrency } from "./concurrency";
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+describe("mapWithConcurrency", () => {
+  test("keeps the order of the items", async () => {
+    const results = await mapWithConcurrency([30, 10, 20], 2, async (ms) => {
+      await delay(ms);
+      return ms * 2;
+    });
+    expect(results).toEqual([60, 20, 40]);
+  });
+
+  test("never exceeds the concurrency", async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    await mapWithConcurrency(Array.from({ length: 10 }), 3, async () => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await delay(5);
+      inFlight--;
+    });
+    expect(maxInFlight).toBe(3);
+  });
+
+  test("stops starting calls after a failure and throws the error", async () => {
+    const started: number[] = [];
+    await expect(
+      mapWithConcurrency([1, 2, 3, 4, 5], 1, async (item) => {
+        started.push(item);
+        if (item === 2) {
+          throw new Error("boom");
+        }
+      }),
+    ).rejects.toThrow("boom");
+    expect(started).toEqual([1, 2]);
+  });
+
+  test("handles an empty list", async () => {
+    expect(await mapWithConcurrency([], 4, async () => 1)).toEqual([]);
+  });
+});
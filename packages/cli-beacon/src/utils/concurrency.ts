@@ -0,0 +1,43 @@
+/**
+ * Maps the items with at most `concurrency` calls of the mapper in flight, the results keep the order of the items.
+ *
+ * No new call is started once a call has failed, the first error is thrown once the calls in flight are settled.
+ * @param items The items to map
+ * @param concurrency Maximum number of calls in flight, at least 1
+ * @param mapper The async mapper
+ * @returns The mapped items
+ */
+export async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  concurrency: number,
+  mapper: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let nextIndex = 0;
+  let failed = false;
+
+  const worker = async (): Promise<void> => {
+    while (!failed && nextIndex < items.length) {
+      const index = nextIndex++;
+      try {
+        results[index] = await mapper(items[index] as T, index);
+      } catch (err) {
+        failed = true;
+        throw err;
+      }
+    }
+  };
+
+  const settledWorkers = await Promise.allSettled(
+    Array.from(
+      { length: Math.max(1, Math.min(concurrency, items.length)) },
+      worker,
+    ),
+  );
+  for (const settledWorker of settledWorkers) {
+    if (settledWorker.status === "rejected") {
+      throw settledWorker.reason;
+    }
+  }
+  return results;
+}
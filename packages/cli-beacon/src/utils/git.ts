@@ -0,0 +1,73 @@
+import { execFile } from "node:child_process";
+import { promisify } from "node:util";
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Reads the git user configured for the current working directory.
+ * @returns The git user as "name <email>", or null if git is not available or no user is configured
+ */
+export async function getGitUser(): Promise<string | null> {
+  const [name, email] = await Promise.all([
+    readGitConfig("user.name"),
+    readGitConfig("user.email"),
+  ]);
+  if (name && email) {
+    return `${name} <${email}>`;
+  }
+  return name || email || null;
+}
+
+/**
+ * Reads the git state of the current working directory: HEAD commit, branch, uncommitted changes and URL of the "origin" remote.
+ * Credentials are removed from the remote URL, e.g. a token in an HTTPS URL.
+ * @returns The git state, or null if git is not available or the working directory is not a git repository
+ */
+export async function getGitMetadata(): Promise<{
+  commit: string;
+  branch: string | null;
+  dirty: boolean;
+  remoteUrl: string | null;
+} | null> {
+  const commit = await runGit(["rev-parse", "HEAD"]);
+  if (!commit) {
+    return null;
+  }
+  const [branch, status, remoteUrl] = await Promise.all([
+    runGit(["rev-parse", "--abbrev-ref", "HEAD"]),
+    runGit(["status", "--porcelain"]),
+    runGit(["remote", "get-url", "origin"]),
+  ]);
+  return {
+    commit,
+    // "HEAD" is returned on a detached HEAD, e.g. when a CI checks out a commit
+    branch: branch && branch !== "HEAD" ? branch : null,
+    dirty: Boolean(status),
+    remoteUrl: remoteUrl ? removeUrlCredentials(remoteUrl) : null,
+  };
+}
+
+function removeUrlCredentials(url: string): string {
+  try {
+    const parsedUrl = new URL(url);
+    if (!parsedUrl.username && !parsedUrl.password) {
+      return url;
+    }
+    parsedUrl.username = "";
+    parsedUrl.password = "";
+    return parsedUrl.toString();
+  } catch {
+    // SCP-like URLs, e.g. git@github.com:org/repo.git, are not URLs and hold no secret
+    return url;
+  }
+}
+
+async function runGit(args: string[]): Promise<string | null> {
+  return execFileAsync("git", args, { timeout: 5_000 })
+    .then(({ stdout }) => stdout.trim() || null)
+    .catch(() => null);
+}
+
+async function readGitConfig(key: string): Promise<string | null> {
+  return runGit(["config", "--get", key]);
+}
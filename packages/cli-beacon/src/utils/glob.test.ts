@@ -0,0 +1,73 @@
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { afterAll, beforeAll, describe, expect, test } from "vitest";
+import { findFilesMatchingGlob } from "./glob";
+import { AbsolutePath } from "./path";
+
+describe("findFilesMatchingGlob", () => {
+  let rootPath: AbsolutePath;
+
+  beforeAll(async () => {
+    rootPath = new AbsolutePath(
+      await fs.mkdtemp(path.join(os.tmpdir(), "ethoko-glob-")),
+    );
+    for (const filePath of [
+      "out/build-info/a.json",
+      "out/build-info/b.json",
+      "out/build-info/notes.txt",
+      "artifacts/v1/build-info/c.json",
+      "artifacts/v2/nested/build-info/d.json",
+    ]) {
+      await fs.mkdir(path.dirname(rootPath.join(filePath).resolvedPath), {
+        recursive: true,
+      });
+      await fs.writeFile(rootPath.join(filePath).resolvedPath, "{}");
+    }
+  });
+
+  afterAll(async () => {
+    await fs.rm(rootPath.resolvedPath, { recursive: true, force: true });
+  });
+
+  const relativeMatches = async (pattern: string) =>
+    (await findFilesMatchingGlob(pattern, rootPath)).map((filePath) =>
+      path
+        .relative(rootPath.resolvedPath, filePath.resolvedPath)
+        .split(path.sep)
+        .join("/"),
+    );
+
+  test.each([
+    [
+      "out/build-info/*.json",
+      ["out/build-info/a.json", "out/build-info/b.json"],
+    ],
+    [
+      "out/build-info/?.json",
+      ["out/build-info/a.json", "out/build-info/b.json"],
+    ],
+    ["artifacts/*/build-info/*.json", ["artifacts/v1/build-info/c.json"]],
+    [
+      "artifacts/**/build-info/*.json",
+      [
+        "artifacts/v1/build-info/c.json",
+        "artifacts/v2/nested/build-info/d.json",
+      ],
+    ],
+    ["out/build-info/a.json", ["out/build-info/a.json"]],
+    ["out/*.json", []],
+    ["missing/*.json", []],
+  ])("pattern %s matches %j", async (pattern, expected) => {
+    expect(await relativeMatches(pattern)).toEqual(expected);
+  });
+
+  test("an absolute pattern is not resolved from the working directory", async () => {
+    expect(
+      await findFilesMatchingGlob(
+        rootPath.join("out/build-info/b.json").resolvedPath,
+        new AbsolutePath("/"),
+      ),
+    ).toEqual([rootPath.join("out/build-info/b.json")]);
+  });
+});
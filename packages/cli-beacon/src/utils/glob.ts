@@ -0,0 +1,71 @@
+import fs from "fs/promises";
+import path from "path";
+import { AbsolutePath } from "./path";
+
+/**
+ * Lists the files matching a glob pattern.
+ *
+ * `*` matches any sequence of characters within a path segment, `?` matches a single character and `**` matches any number of directories,
+ * e.g. `out/build-info/*.json`.
+ * Only the directories below the part of the pattern without wildcards are read.
+ * @param pattern Glob pattern, absolute or relative to `cwd`
+ * @param cwd Directory the relative patterns are resolved from
+ * @returns The matching files, sorted by path
+ */
+export async function findFilesMatchingGlob(
+  pattern: string,
+  cwd: AbsolutePath,
+): Promise<AbsolutePath[]> {
+  const absolutePattern = path
+    .resolve(cwd.resolvedPath, pattern)
+    .split(path.sep)
+    .join("/");
+  const segments = absolutePattern.split("/");
+  const firstWildcardIndex = segments.findIndex(hasWildcard);
+  if (firstWildcardIndex === -1) {
+    const stats = await fs.stat(absolutePattern).catch(() => undefined);
+    return stats?.isFile() ? [new AbsolutePath(absolutePattern)] : [];
+  }
+
+  const baseDirectory = segments.slice(0, firstWildcardIndex).join("/") || "/";
+  const regExp = globToRegExp(absolutePattern);
+  const entries = await fs
+    .readdir(baseDirectory, { recursive: true, withFileTypes: true })
+    .catch(() => []);
+  return entries
+    .filter((entry) => entry.isFile())
+    .map((entry) =>
+      path.join(entry.parentPath, entry.name).split(path.sep).join("/"),
+    )
+    .filter((filePath) => regExp.test(filePath))
+    .sort()
+    .map((filePath) => new AbsolutePath(filePath));
+}
+
+function hasWildcard(segment: string): boolean {
+  return segment.includes("*") || segment.includes("?");
+}
+
+function globToRegExp(pattern: string): RegExp {
+  let source = "";
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === "*" && pattern[i + 1] === "*") {
+      // `**/` matches zero or more directories, a trailing `**` matches everything below
+      if (pattern[i + 2] === "/") {
+        source += "(?:.*/)?";
+        i += 2;
+      } else {
+        source += ".*";
+        i += 1;
+      }
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else {
+      source += (char ?? "").replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
@@ -0,0 +1,17 @@
+import { Stream } from "stream";
+
+/**
+ * Reads a stream until its end
+ * @param stream The stream to read
+ * @returns The content of the stream
+ */
+export function readStream(stream: Stream): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  return new Promise((resolve, reject) => {
+    stream.on("data", (chunk: Buffer | string) =>
+      chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk)),
+    );
+    stream.on("end", () => resolve(Buffer.concat(chunks)));
+    stream.on("error", reject);
+  });
+}
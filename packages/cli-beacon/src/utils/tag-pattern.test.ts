@@ -0,0 +1,25 @@
+import { describe, expect, test } from "vitest";
+import { findMatchingTagPattern } from "./tag-pattern";
+
+describe("findMatchingTagPattern", () => {
+  test.each([
+    ["v1.2.3", ["v*"], "v*"],
+    ["v1.2.3", ["latest", "v*"], "v*"],
+    ["release-1", ["release-?"], "release-?"],
+    ["latest", ["latest"], "latest"],
+    ["v1.2.3", ["*"], "*"],
+    ["v1.2.3", ["v1.*.3"], "v1.*.3"],
+  ])("tag %s should match %j", (tag, patterns, expected) => {
+    expect(findMatchingTagPattern(tag, patterns)).toBe(expected);
+  });
+
+  test.each([
+    ["latest", ["v*"]],
+    ["release-10", ["release-?"]],
+    ["v1x2", ["v1.2"]],
+    ["my-v1", ["v*"]],
+    ["v1.2.3", []],
+  ])("tag %s should not match %j", (tag, patterns) => {
+    expect(findMatchingTagPattern(tag, patterns)).toBeUndefined();
+  });
+});
@@ -0,0 +1,27 @@
+/**
+ * Finds the first pattern matching a tag.
+ *
+ * Patterns are globs where `*` matches any sequence of characters and `?` matches a single character,
+ * e.g. `v*` matches `v1.2.3` and `release-?` matches `release-1`.
+ * @param tag Tag to match
+ * @param patterns Glob patterns
+ * @returns The first matching pattern, or undefined if no pattern matches
+ */
+export function findMatchingTagPattern(
+  tag: string,
+  patterns: string[],
+): string | undefined {
+  return patterns.find((pattern) => tagPatternToRegExp(pattern).test(tag));
+}
+
+function tagPatternToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split("")
+    .map((char) => {
+      if (char === "*") return ".*";
+      if (char === "?") return ".";
+      return char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    })
+    .join("");
+  return new RegExp(`^${source}$`);
+}
@@ -0,0 +1,38 @@
+import { describe, expect, test } from "vitest";
+import { resolveTagTemplate } from "./tag-template";
+
+const artifact = {
+  solcLongVersion: "0.8.28+commit.7893614a",
+  id: "963d2d0b62f9",
+};
+
+describe("resolveTagTemplate", () => {
+  test.each([
+    ["v1.2.3-{solc}", "v1.2.3-0.8.28"],
+    ["{solc}-{id}", "0.8.28-963d2d0b62f9"],
+    ["v1.2.3", "v1.2.3"],
+  ])("template %s resolves to %s", (template, expected) => {
+    expect(resolveTagTemplate(template, artifact)).toBe(expected);
+  });
+
+  test("a Solc version without commit hash is kept as is", () => {
+    expect(
+      resolveTagTemplate("v1-{solc}", { solcLongVersion: "0.8.33", id: "a" }),
+    ).toBe("v1-0.8.33");
+  });
+
+  test("the Solc versions of a multi-compilation artifact are joined", () => {
+    expect(
+      resolveTagTemplate("v2-{solc}", {
+        solcLongVersion: "0.8.33+commit.64118f21, 0.8.28+commit.7893614a",
+        id: "a",
+      }),
+    ).toBe("v2-0.8.33_0.8.28");
+  });
+
+  test("an unknown placeholder is rejected", () => {
+    expect(() => resolveTagTemplate("v1-{version}", artifact)).toThrow(
+      'Unknown placeholder "{version}"',
+    );
+  });
+});
@@ -0,0 +1,45 @@
+const TAG_TEMPLATE_PLACEHOLDERS = ["solc", "id"] as const;
+
+type TagTemplateValues = Record<
+  (typeof TAG_TEMPLATE_PLACEHOLDERS)[number],
+  string
+>;
+
+/**
+ * Resolves the placeholders of a tag template for an artifact.
+ *
+ * Supported placeholders are `{solc}`, the Solc version without its commit hash, and `{id}`, the artifact ID,
+ * e.g. `v1.2.3-{solc}` resolves to `v1.2.3-0.8.28`, or `v1.2.3-0.8.33_0.8.28` for an artifact merging two compilations. A tag without placeholders is returned as is.
+ * @param template Tag template
+ * @param artifact.solcLongVersion Solc long version of the artifact, e.g. `0.8.28+commit.7893614a`
+ * @param artifact.id ID of the artifact
+ * @throws Error if the template contains an unknown placeholder
+ * @returns The resolved tag
+ */
+export function resolveTagTemplate(
+  template: string,
+  artifact: { solcLongVersion: string; id: string },
+): string {
+  const values: TagTemplateValues = {
+    // A multi-compilation artifact has several comma separated versions
+    solc: artifact.solcLongVersion
+      .split(", ")
+      .map((solcLongVersion) => solcLongVersion.split("+")[0])
+      .join("_"),
+    id: artifact.id,
+  };
+  return template.replace(/\{([^{}]*)\}/g, (_, placeholder: string) => {
+    if (!isTagTemplatePlaceholder(placeholder)) {
+      throw new Error(
+        `Unknown placeholder "{${placeholder}}" in the tag "${template}", supported placeholders are ${TAG_TEMPLATE_PLACEHOLDERS.map((p) => `{${p}}`).join(", ")}`,
+      );
+    }
+    return values[placeholder];
+  });
+}
+
+function isTagTemplatePlaceholder(
+  placeholder: string,
+): placeholder is keyof TagTemplateValues {
+  return (TAG_TEMPLATE_PLACEHOLDERS as readonly string[]).includes(placeholder);
+}
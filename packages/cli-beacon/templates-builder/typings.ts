@@ -260,10 +260,13 @@ async function getArtifact<TAbi extends unknown[] = unknown[]>(
     if (!inputArtifactResult.success) {
       throw inputArtifactResult.error;
     }
-    const inputArtifact = inputArtifactResult.value;
+    const compilationInput = getContractCompilationInput(
+      inputArtifactResult.value,
+      contractArtifactResult.value,
+    );
 
     for (const sourcePath of sourcesWithMissingContent) {
-      const inputSource = inputArtifact.input.sources[sourcePath];
+      const inputSource = compilationInput?.sources[sourcePath];
       if (inputSource && inputSource.content) {
         if (!expandedMetadata.sources[sourcePath]) {
           // Unreachable in practice
@@ -311,10 +314,13 @@ function getArtifactSync<TAbi extends unknown[] = unknown[]>(
     .map(([sourcePath]) => sourcePath);
 
   if (sourcesWithMissingContent.length > 0) {
-    const inputArtifact = getInputCompilationArtifactSync(project, tag);
+    const compilationInput = getContractCompilationInput(
+      getInputCompilationArtifactSync(project, tag),
+      contractArtifact,
+    );
 
     for (const sourcePath of sourcesWithMissingContent) {
-      const inputSource = inputArtifact.input.sources[sourcePath];
+      const inputSource = compilationInput?.sources[sourcePath];
       if (inputSource && inputSource.content) {
         if (!expandedMetadata.sources[sourcePath]) {
           // Unreachable in practice
@@ -519,13 +525,7 @@ async function getInputCompilationArtifact(
     throw inputResult.error;
   }
 
-  return {
-    id: manifest.id,
-    _format: inputResult.value._format,
-    solcLongVersion: inputResult.value.solcLongVersion,
-    origin: inputResult.value.origin,
-    input: inputResult.value.input,
-  };
+  return toInputArtifact(manifest.id, inputResult.value);
 }
 
 /**
@@ -552,19 +552,60 @@ function getInputCompilationArtifactSync(
     const inputPath = `${ETHOKO_PATH}/${project}/ids/${manifest.id}/input.json`;
     const inputContent = fsSync.readFileSync(inputPath, "utf-8");
     const input = JSON.parse(inputContent);
-    return {
-      id: manifest.id,
-      _format: input._format,
-      solcLongVersion: input.solcLongVersion,
-      origin: input.origin,
-      input: input.input,
-    };
+    return toInputArtifact(manifest.id, input);
   } catch (e) {
     console.error(e);
     throw e;
   }
 }
 
+/**
+ * Keep the fields of a parsed input artifact, a multi-compilation artifact holds the input of each compilation
+ * @param id ID of the artifact
+ * @param rawInputArtifact The parsed content of the input artifact file
+ * @returns The compilation artifact input
+ */
+function toInputArtifact(
+  id: string,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  rawInputArtifact: any,
+): EthokoInputArtifact {
+  if (rawInputArtifact.origin.type === "multi-compilation") {
+    return {
+      id,
+      _format: rawInputArtifact._format,
+      solcLongVersion: rawInputArtifact.solcLongVersion,
+      origin: rawInputArtifact.origin,
+      inputs: rawInputArtifact.inputs,
+    };
+  }
+  return {
+    id,
+    _format: rawInputArtifact._format,
+    solcLongVersion: rawInputArtifact.solcLongVersion,
+    origin: rawInputArtifact.origin,
+    input: rawInputArtifact.input,
+  };
+}
+
+/**
+ * Get the input of the compilation a contract comes from
+ * @param inputArtifact The compilation artifact input
+ * @param contractArtifact The contract output artifact
+ * @returns The compilation input, undefined if the compilation is not found
+ */
+function getContractCompilationInput(
+  inputArtifact: EthokoInputArtifact,
+  contractArtifact: EthokoOutputContractArtifact,
+): CompilerInput | undefined {
+  if ("input" in inputArtifact) {
+    return inputArtifact.input;
+  }
+  return contractArtifact.compilation
+    ? inputArtifact.inputs[contractArtifact.compilation]
+    : undefined;
+}
+
 function toAsyncResult<T, TError = Error>(
   promise: Promise<T>,
   opts: {
@@ -596,7 +637,7 @@ function toResult<T>(
 // ##################### Compilation types #####################
 // #############################################################
 
-type EthokoArtifactOrigin =
+type EthokoCompilationOrigin =
   | {
       type: "forge-v1-default";
       id: string;
@@ -627,18 +668,37 @@ type EthokoArtifactOrigin =
         outputFormat: string;
       }>;
     };
-export interface EthokoInputArtifact {
-  id: string;
-  _format: "ethoko-input-v0";
-  solcLongVersion: string;
-  origin: EthokoArtifactOrigin;
-  input: CompilerInput;
-}
+type EthokoMultiCompilationOrigin = {
+  type: "multi-compilation";
+  compilations: Array<{
+    id: string;
+    solcLongVersion: string;
+    origin: EthokoCompilationOrigin;
+  }>;
+};
+export type EthokoInputArtifact =
+  | {
+      id: string;
+      _format: "ethoko-input-v0";
+      solcLongVersion: string;
+      origin: EthokoCompilationOrigin;
+      input: CompilerInput;
+    }
+  | {
+      id: string;
+      _format: "ethoko-input-v0";
+      solcLongVersion: string;
+      origin: EthokoMultiCompilationOrigin;
+      // The input of each compilation, by compilation ID
+      inputs: Record<string, CompilerInput>;
+    };
 export interface EthokoOutputContractArtifact {
   id: string;
   _format: "ethoko-output-v0";
   sourceName: string;
   contract: string;
+  // The ID of the compilation the contract comes from, only set for multi-compilation artifacts
+  compilation?: string;
   output: {
     contract: CompilerOutputContract;
     source?: CompilerOutputSource;
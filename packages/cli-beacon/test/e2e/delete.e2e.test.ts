@@ -0,0 +1,249 @@
+import fs from "fs/promises";
+import { describe, expect } from "vitest";
+import { TEST_CONSTANTS } from "@test/helpers/test-constants";
+import { createTestProjectName } from "@test/helpers/test-utils";
+import {
+  STORAGE_PROVIDER_STRATEGIES,
+  storageProviderTest,
+} from "@test/helpers/storage-provider-test";
+import { CommandLogger } from "@/ui";
+import { runPushCommand } from "@/commands/push";
+import { runPullCommand } from "@/commands/pull";
+import { runDeleteCommand } from "@/commands/delete";
+import { runTagAddCommand, runTagHistoryCommand } from "@/commands/tag";
+import { FilesystemStorageProvider } from "@/storage-provider";
+
+describe.for(STORAGE_PROVIDER_STRATEGIES)(
+  "Delete E2E Tests (%s)",
+  ([, storageProviderFactory]) => {
+    const logger = new CommandLogger(true);
+    storageProviderTest.scoped({ storageProviderFactory });
+
+    storageProviderTest(
+      "dry run previews the deletion without deleting anything",
+      async ({ storageProvider, localArtifactStore }) => {
+        const project = createTestProjectName(TEST_CONSTANTS.PROJECTS.DEFAULT);
+        const tag = TEST_CONSTANTS.TAGS.V1;
+        const id = await runPushCommand(
+          TEST_CONSTANTS.ARTIFACTS_FIXTURES.COUNTER.TARGETS.HARDHAT_V3
+            .folderPath,
+          { project, tag },
+          { storageProvider, logger },
+          { force: false, debug: false },
+        );
+        const originalContent = await storageProvider.listOriginalContent(
+          project,
+          id,
+        );
+
+        const result = await runDeleteCommand(
+          { type: "tag", project, tag },
+          { storageProvider, localArtifactStore, logger },
+          { dryRun: true, removeTags: false, debug: false },
+        );
+
+        expect(result).toMatchObject({
+          id,
+          tags: [tag],
+          originalContentFiles: originalContent.length,
+          dryRun: true,
+        });
+        expect(await storageProvider.hasArtifactById(project, id)).toBe(true);
+        expect(await storageProvider.resolveTagId(project, tag)).toBe(id);
+      },
+    );
+
+    storageProviderTest(
+      "deleting by tag removes the tag, the artifact and its original content",
+      async ({ storageProvider, localArtifactStore }) => {
+        const project = createTestProjectName(TEST_CONSTANTS.PROJECTS.DEFAULT);
+        const tag = TEST_CONSTANTS.TAGS.V1;
+        const id = await runPushCommand(
+          TEST_CONSTANTS.ARTIFACTS_FIXTURES.COUNTER.TARGETS.HARDHAT_V3
+            .folderPath,
+          { project, tag },
+          { storageProvider, logger },
+          { force: false, debug: false },
+        );
+        await runPullCommand(
+          { type: "tag", project, tag },
+          { storageProvider, localArtifactStore, logger },
+          { force: false, debug: false },
+        );
+
+        await runDeleteCommand(
+          { type: "tag", project, tag },
+          { storageProvider, localArtifactStore, logger },
+          { dryRun: false, removeTags: false, debug: false },
+        );
+
+        expect(await storageProvider.hasArtifactById(project, id)).toBe(false);
+        expect(await storageProvider.listOriginalContent(project, id)).toEqual(
+          [],
+        );
+        expect(await storageProvider.listIds(project)).not.toContain(id);
+        expect(
+          await storageProvider.resolveTagId(project, tag),
+        ).toBeUndefined();
+        expect(await localArtifactStore.hasTag(project, tag)).toBe(false);
+        const history = await runTagHistoryCommand(
+          { project, tag },
+          { storageProvider, logger },
+          { debug: false },
+        );
+        expect(history.entries.at(-1)).toMatchObject({
+          id: null,
+          previousId: id,
+        });
+      },
+    );
+
+    storageProviderTest(
+      "refuses to delete an artifact ID still referenced by tags unless they are removed too",
+      async ({ storageProvider, localArtifactStore }) => {
+        const project = createTestProjectName(TEST_CONSTANTS.PROJECTS.DEFAULT);
+        const id = await runPushCommand(
+          TEST_CONSTANTS.ARTIFACTS_FIXTURES.COUNTER.TARGETS.HARDHAT_V3
+            .folderPath,
+          { project, tag: TEST_CONSTANTS.TAGS.V1 },
+          { storageProvider, logger },
+          { force: false, debug: false },
+        );
+        await runTagAddCommand(
+          { project, id, tag: TEST_CONSTANTS.TAGS.LATEST },
+          { storageProvider, localArtifactStore, logger },
+          { debug: false },
+        );
+
+        await expect(
+          runDeleteCommand(
+            { type: "id", project, id },
+            { storageProvider, localArtifactStore, logger },
+            { dryRun: false, removeTags: false, debug: false },
+          ),
+        ).rejects.toThrow(
+          /still referenced by the tag\(s\) "latest", "v1.0.0"/,
+        );
+        await expect(
+          runDeleteCommand(
+            { type: "tag", project, tag: TEST_CONSTANTS.TAGS.V1 },
+            { storageProvider, localArtifactStore, logger },
+            { dryRun: false, removeTags: false, debug: false },
+          ),
+        ).rejects.toThrow(/still referenced by the tag\(s\) "latest"/);
+        expect(await storageProvider.hasArtifactById(project, id)).toBe(true);
+
+        const result = await runDeleteCommand(
+          { type: "id", project, id },
+          { storageProvider, localArtifactStore, logger },
+          { dryRun: false, removeTags: true, debug: false },
+        );
+
+        expect(result.tags).toEqual([
+          TEST_CONSTANTS.TAGS.LATEST,
+          TEST_CONSTANTS.TAGS.V1,
+        ]);
+        expect(await storageProvider.hasArtifactById(project, id)).toBe(false);
+        expect(await storageProvider.listTags(project)).toEqual([]);
+      },
+    );
+
+    storageProviderTest(
+      "refuses to delete an artifact referenced by a protected tag",
+      async ({ storageProviderFactory, localArtifactStore }) => {
+        const { storageProvider, cleanup } =
+          await storageProviderFactory.create({ protectedTags: ["v*"] });
+        const project = createTestProjectName(TEST_CONSTANTS.PROJECTS.DEFAULT);
+        const tag = TEST_CONSTANTS.TAGS.V1;
+
+        try {
+          const id = await runPushCommand(
+            TEST_CONSTANTS.ARTIFACTS_FIXTURES.COUNTER.TARGETS.HARDHAT_V3
+              .folderPath,
+            { project, tag },
+            { storageProvider, logger },
+            { force: false, debug: false, protectedTags: ["v*"] },
+          );
+
+          await expect(
+            runDeleteCommand(
+              { type: "tag", project, tag },
+              { storageProvider, localArtifactStore, logger },
+              {
+                dryRun: false,
+                removeTags: true,
+                protectedTags: ["v*"],
+                debug: false,
+              },
+            ),
+          ).rejects.toThrow(/protected by the "v\*" pattern/);
+          expect(await storageProvider.hasArtifactById(project, id)).toBe(true);
+        } finally {
+          await cleanup();
+        }
+      },
+    );
+
+    storageProviderTest(
+      "fails for an unknown artifact ID",
+      async ({ storageProvider, localArtifactStore }) => {
+        const project = createTestProjectName(TEST_CONSTANTS.PROJECTS.DEFAULT);
+
+        await expect(
+          runDeleteCommand(
+            { type: "id", project, id: "unknown-id" },
+            { storageProvider, localArtifactStore, logger },
+            { dryRun: false, removeTags: false, debug: false },
+          ),
+        ).rejects.toThrow(/does not exist/);
+      },
+    );
+  },
+);
+
+storageProviderTest(
+  "a failed update of the project index does not fail the tag changes and the deletion",
+  async ({ storageProvider, localArtifactStore }) => {
+    const logger = new CommandLogger(true);
+    const project = createTestProjectName(TEST_CONSTANTS.PROJECTS.DEFAULT);
+    if (!(storageProvider instanceof FilesystemStorageProvider)) {
+      throw new Error("Expected the default filesystem storage provider");
+    }
+    const id = await runPushCommand(
+      TEST_CONSTANTS.ARTIFACTS_FIXTURES.COUNTER.TARGETS.HARDHAT_V3.folderPath,
+      { project, tag: TEST_CONSTANTS.TAGS.V1 },
+      { storageProvider, logger },
+      { force: false, debug: false },
+    );
+    // A directory in place of the index makes its updates fail once the changes are stored
+    const indexPath = storageProvider
+      .getStoragePath()
+      .join(project, "index.json").resolvedPath;
+    await fs.rm(indexPath, { force: true });
+    await fs.mkdir(indexPath, { recursive: true });
+
+    const addResult = await runTagAddCommand(
+      { project, id, tag: TEST_CONSTANTS.TAGS.LATEST },
+      { storageProvider, localArtifactStore, logger },
+      { debug: false },
+    );
+    expect(addResult).toMatchObject({ id, indexUpdated: false });
+
+    const deleteResult = await runDeleteCommand(
+      { type: "id", project, id },
+      { storageProvider, localArtifactStore, logger },
+      { dryRun: false, removeTags: true, debug: false },
+    );
+    expect(deleteResult).toMatchObject({
+      historyRecorded: true,
+      indexUpdated: false,
+    });
+    expect(await storageProvider.hasArtifactById(project, id)).toBe(false);
+    expect(await storageProvider.listTags(project)).toEqual([]);
+    const history = await storageProvider.getTagHistory(
+      project,
+      TEST_CONSTANTS.TAGS.LATEST,
+    );
+    expect(history.at(-1)).toMatchObject({ id: null, previousId: id });
+  },
+);
@@ -0,0 +1,270 @@
+import { describe, expect } from "vitest";
+import { TEST_CONSTANTS } from "@test/helpers/test-constants";
+import { createTestProjectName } from "@test/helpers/test-utils";
+import {
+  STORAGE_PROVIDER_STRATEGIES,
+  storageProviderTest,
+} from "@test/helpers/storage-provider-test";
+import { CommandLogger } from "@/ui";
+import { runPushCommand } from "@/commands/push";
+import { runPullCommand } from "@/commands/pull";
+import { runDiffArtifactsCommand } from "@/commands/diff";
+
+describe.for(STORAGE_PROVIDER_STRATEGIES)(
+  "Diff E2E Tests (%s)",
+  ([, storageProviderFactory]) => {
+    const logger = new CommandLogger(true);
+    storageProviderTest.scoped({ storageProviderFactory });
+
+    storageProviderTest(
+      "two tags of the storage are compared, the missing artifacts are pulled",
+      async ({ storageProvider, localArtifactStore }) => {
+        const project = createTestProjectName(TEST_CONSTANTS.PROJECTS.DEFAULT);
+        await runPushCommand(
+          TEST_CONSTANTS.ARTIFACTS_FIXTURES.COUNTER.TARGETS.HARDHAT_V2
+            .folderPath,
+          { project, tag: TEST_CONSTANTS.TAGS.V1 },
+          { storageProvider, logger },
+          { force: false, debug: false },
+        );
+        await runPushCommand(
+          TEST_CONSTANTS.ARTIFACTS_FIXTURES.MIX.TARGETS.HARDHAT_V2.folderPath,
+          { project, tag: TEST_CONSTANTS.TAGS.V2 },
+          { storageProvider, logger },
+          { force: false, debug: false },
+        );
+        // Only the first artifact is in the Local Artifact Store, the second one is pulled by the diff
+        await runPullCommand(
+          { type: "tag", project, tag: TEST_CONSTANTS.TAGS.V1 },
+          { storageProvider, localArtifactStore, logger },
+          { force: false, debug: false },
+        );
+
+        const { differences } = await runDiffArtifactsCommand(
+          { type: "tag", project, tag: TEST_CONSTANTS.TAGS.V1 },
+          { type: "tag", project, tag: TEST_CONSTANTS.TAGS.V2 },
+          {
+            localArtifactStore,
+            storageProviders: { from: storageProvider, to: storageProvider },
+            logger,
+          },
+          { debug: false },
+        );
+
+        expect(differences).toHaveLength(6);
+        expect(differences).toEqual(
+          expect.arrayContaining([
+            expect.objectContaining({
+              path: "src/Counter.sol",
+              name: "Counter",
+              status: "changed",
+              breaking: true,
+            }),
+            expect.objectContaining({
+              path: "src/Oracle.sol",
+              name: "Oracle",
+              status: "added",
+              breaking: false,
+            }),
+            expect.objectContaining({
+              path: "@openzeppelin/contracts/access/Ownable.sol",
+              name: "Ownable",
+              status: "added",
+              breaking: false,
+            }),
+          ]),
+        );
+        const counterDifference = differences.find((d) => d.name === "Counter");
+        expect(counterDifference?.abiChanges).toEqual(
+          expect.arrayContaining([
+            expect.objectContaining({
+              kind: "function",
+              signature: "increment()",
+              change: "removed",
+              breaking: true,
+            }),
+            expect.objectContaining({
+              kind: "function",
+              signature: "inc()",
+              change: "added",
+              breaking: false,
+            }),
+            expect.objectContaining({
+              kind: "constructor",
+              change: "inputs-changed",
+              detail: "constructor() → constructor(address)",
+            }),
+          ]),
+        );
+        expect(
+          await localArtifactStore.hasTag(project, TEST_CONSTANTS.TAGS.V2),
+        ).toBe(true);
+
+        const { differences: reversedDifferences } =
+          await runDiffArtifactsCommand(
+            { type: "tag", project, tag: TEST_CONSTANTS.TAGS.V2 },
+            { type: "tag", project, tag: TEST_CONSTANTS.TAGS.V1 },
+            {
+              localArtifactStore,
+              storageProviders: { from: storageProvider, to: storageProvider },
+              logger,
+            },
+            { debug: false },
+          );
+        const removedDifferences = reversedDifferences.filter(
+          (d) => d.status === "removed",
+        );
+        expect(removedDifferences).toHaveLength(5);
+        expect(removedDifferences.every((d) => d.breaking)).toBe(true);
+      },
+    );
+
+    storageProviderTest(
+      "the storage layouts and the bytecodes of the changed contracts are compared",
+      async ({ storageProvider, localArtifactStore }) => {
+        const project = createTestProjectName(TEST_CONSTANTS.PROJECTS.DEFAULT);
+        await runPushCommand(
+          TEST_CONSTANTS.ARTIFACTS_FIXTURES.COUNTER.TARGETS.HARDHAT_V2
+            .folderPath,
+          { project, tag: TEST_CONSTANTS.TAGS.V1 },
+          { storageProvider, logger },
+          { force: false, debug: false },
+        );
+        await runPushCommand(
+          TEST_CONSTANTS.ARTIFACTS_FIXTURES.MIX.TARGETS.HARDHAT_V2.folderPath,
+          { project, tag: TEST_CONSTANTS.TAGS.V2 },
+          { storageProvider, logger },
+          { force: false, debug: false },
+        );
+
+        const { differences } = await runDiffArtifactsCommand(
+          { type: "tag", project, tag: TEST_CONSTANTS.TAGS.V1 },
+          { type: "tag", project, tag: TEST_CONSTANTS.TAGS.V2 },
+          {
+            localArtifactStore,
+            storageProviders: { from: storageProvider, to: storageProvider },
+            logger,
+          },
+          { debug: false, storageLayout: true, bytecode: true },
+        );
+
+        const counterDifference = differences.find((d) => d.name === "Counter");
+        expect(counterDifference?.bytecodeChange).toBe("code-changed");
+        expect(counterDifference?.storageLayout).toEqual({
+          verdict: "safe",
+          missingLayouts: [],
+          namespacesChecked: true,
+          changes: [
+            {
+              variable: "counter",
+              change: "renamed",
+              detail: "counter → x",
+              safe: true,
+            },
+            {
+              variable: "oracle",
+              change: "added",
+              detail: "slot 1",
+              safe: true,
+            },
+          ],
+        });
+        expect(
+          differences
+            .filter((d) => d.status === "added")
+            .every(
+              (d) => d.storageLayout === null && d.bytecodeChange === null,
+            ),
+        ).toBe(true);
+      },
+    );
+
+    storageProviderTest(
+      "the sources of the changed contracts and of their dependencies are diffed",
+      async ({ storageProvider, localArtifactStore }) => {
+        const project = createTestProjectName(TEST_CONSTANTS.PROJECTS.DEFAULT);
+        await runPushCommand(
+          TEST_CONSTANTS.ARTIFACTS_FIXTURES.COUNTER.TARGETS.HARDHAT_V2
+            .folderPath,
+          { project, tag: TEST_CONSTANTS.TAGS.V1 },
+          { storageProvider, logger },
+          { force: false, debug: false },
+        );
+        await runPushCommand(
+          TEST_CONSTANTS.ARTIFACTS_FIXTURES.MIX.TARGETS.HARDHAT_V2.folderPath,
+          { project, tag: TEST_CONSTANTS.TAGS.V2 },
+          { storageProvider, logger },
+          { force: false, debug: false },
+        );
+
+        const { sourceDiffs } = await runDiffArtifactsCommand(
+          { type: "tag", project, tag: TEST_CONSTANTS.TAGS.V1 },
+          { type: "tag", project, tag: TEST_CONSTANTS.TAGS.V2 },
+          {
+            localArtifactStore,
+            storageProviders: { from: storageProvider, to: storageProvider },
+            logger,
+          },
+          { debug: false, sources: true },
+        );
+
+        expect(
+          sourceDiffs?.map(({ path, status }) => ({ path, status })),
+        ).toEqual([
+          {
+            path: "@openzeppelin/contracts/access/Ownable.sol",
+            status: "added",
+          },
+          {
+            path: "@openzeppelin/contracts/utils/Context.sol",
+            status: "added",
+          },
+          { path: "src/Counter.sol", status: "changed" },
+          { path: "src/ExternalMath.sol", status: "added" },
+          { path: "src/InternalMath.sol", status: "added" },
+          { path: "src/Oracle.sol", status: "added" },
+        ]);
+        const counterPatch = sourceDiffs?.find(
+          (sourceDiff) => sourceDiff.path === "src/Counter.sol",
+        )?.patch;
+        expect(counterPatch).toContain(
+          "--- a/src/Counter.sol\n+++ b/src/Counter.sol\n@@ -1,10 +1,",
+        );
+        expect(counterPatch).toContain("-    uint256 public counter;");
+        expect(counterPatch).toContain("+    uint public x;");
+      },
+    );
+
+    storageProviderTest(
+      "artifacts of different projects are compared",
+      async ({ storageProvider, localArtifactStore }) => {
+        const project = createTestProjectName(TEST_CONSTANTS.PROJECTS.DEFAULT);
+        const otherProject = createTestProjectName(
+          TEST_CONSTANTS.PROJECTS.DEFAULT,
+        );
+        for (const p of [project, otherProject]) {
+          await runPushCommand(
+            TEST_CONSTANTS.ARTIFACTS_FIXTURES.COUNTER.TARGETS.HARDHAT_V2
+              .folderPath,
+            { project: p, tag: TEST_CONSTANTS.TAGS.V1 },
+            { storageProvider, logger },
+            { force: false, debug: false },
+          );
+        }
+
+        const { differences } = await runDiffArtifactsCommand(
+          { type: "tag", project, tag: TEST_CONSTANTS.TAGS.V1 },
+          { type: "tag", project: otherProject, tag: TEST_CONSTANTS.TAGS.V1 },
+          {
+            localArtifactStore,
+            storageProviders: { from: storageProvider, to: storageProvider },
+            logger,
+          },
+          { debug: false },
+        );
+
+        expect(differences).toEqual([]);
+      },
+    );
+  },
+);
@@ -1,6 +1,10 @@
+import crypto from "crypto";
 import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import zlib from "zlib";
 import { describe, expect } from "vitest";
-import { listLocalArtifacts } from "@/client/index";
+import { listLocalArtifacts, listRemoteArtifacts } from "@/client/index";
 import { TEST_CONSTANTS } from "@test/helpers/test-constants";
 import { createTestProjectName } from "@test/helpers/test-utils";
 import {
@@ -10,8 +14,16 @@ import {
 import { ARTIFACTS_STRATEGIES } from "@test/helpers/artifacts-strategy";
 import { deriveAllAbsolutePathsInDirectory } from "@test/helpers/derive-all-paths-in-directory";
 import { CommandLogger } from "@/ui";
-import { runPushCommand } from "@/commands/push";
+import { runPushAllCommand, runPushCommand } from "@/commands/push";
 import { runPullCommand } from "@/commands/pull";
+import { runInspectCommand } from "@/commands/inspect";
+import { runExportCommand } from "@/commands/export";
+import { runVerifyCommand } from "@/commands/verify";
+import { FilesystemStorageProvider, UploadProgress } from "@/storage-provider";
+import { TestS3StorageProviderFactory } from "@test/helpers/storage-provider-factory";
+import { TestLogger } from "@test/helpers/test-logger";
+import { AbsolutePath } from "@/utils/path";
+import { getGitMetadata } from "@/utils/git";
 
 describe.for(STORAGE_PROVIDER_STRATEGIES)(
   "Push-Pull E2E Tests (%s)",
@@ -85,7 +97,9 @@ describe.for(STORAGE_PROVIDER_STRATEGIES)(
         const originalIdsInArtifact =
           localArtifact.origin.type === "hardhat-v3"
             ? localArtifact.origin.pairs.map((p) => p.id)
-            : [localArtifact.origin.id];
+            : "id" in localArtifact.origin
+              ? [localArtifact.origin.id]
+              : [];
         expect(originalIdsInArtifact.toSorted()).toEqual(
           Array.from(new Set(expectedOriginalIds)).toSorted(),
         );
@@ -241,6 +255,57 @@ describe.for(STORAGE_PROVIDER_STRATEGIES)(
       },
     );
 
+    storageProviderTest(
+      "force push can not overwrite a protected tag",
+      async ({ storageProviderFactory }) => {
+        const { storageProvider, cleanup } =
+          await storageProviderFactory.create({ protectedTags: ["v*"] });
+        const project = createTestProjectName(
+          TEST_CONSTANTS.PROJECTS.FORCE_TEST,
+        );
+        const tag = TEST_CONSTANTS.TAGS.V1;
+
+        try {
+          const id1 = await runPushCommand(
+            TEST_CONSTANTS.ARTIFACTS_FIXTURES.COUNTER.TARGETS.HARDHAT_V3
+              .folderPath,
+            { project, tag },
+            { storageProvider, logger },
+            { force: false, debug: false, protectedTags: ["v*"] },
+          );
+
+          await expect(
+            runPushCommand(
+              TEST_CONSTANTS.ARTIFACTS_FIXTURES.COUNTER.TARGETS.HARDHAT_V2
+                .folderPath,
+              { project, tag },
+              { storageProvider, logger },
+              { force: true, debug: false, protectedTags: ["v*"] },
+            ),
+          ).rejects.toThrow(/is protected by the "v\*" pattern/);
+
+          // The storage provider rejects the overwrite even if the client side check is skipped
+          await expect(
+            runPushCommand(
+              TEST_CONSTANTS.ARTIFACTS_FIXTURES.COUNTER.TARGETS.HARDHAT_V2
+                .folderPath,
+              { project, tag },
+              { storageProvider, logger },
+              { force: true, debug: false },
+            ),
+          ).rejects.toThrow(/Error pushing the artifact/);
+
+          const { id } = await storageProvider.downloadArtifactByTag(
+            project,
+            tag,
+          );
+          expect(id).toBe(id1);
+        } finally {
+          await cleanup();
+        }
+      },
+    );
+
     storageProviderTest(
       "pull with force re-downloads existing artifacts",
       async ({ storageProvider, localArtifactStore }) => {
@@ -308,5 +373,875 @@ describe.for(STORAGE_PROVIDER_STRATEGIES)(
         ).rejects.toThrow();
       },
     );
+
+    storageProviderTest(
+      "push all the Build Infos of a directory with a tag template → each is pulled by its tag, an existing tag fails alone",
+      async ({ storageProvider, localArtifactStore }) => {
+        const project = createTestProjectName(TEST_CONSTANTS.PROJECTS.DEFAULT);
+        const tagTemplate = `${TEST_CONSTANTS.TAGS.V1}-{id}`;
+        const buildInfosPath = await copyHardhatV2BuildInfos();
+
+        try {
+          await localArtifactStore.ensureProjectSetup(project);
+
+          const counterReport = await runPushAllCommand(
+            {
+              type: "glob",
+              pattern: "build-info/7096*.json",
+              cwd: buildInfosPath,
+            },
+            { project, tag: tagTemplate },
+            { storageProvider, logger },
+            { force: false, debug: false },
+          );
+          expect(counterReport.pushedCount).toBe(1);
+          const counterId = counterReport.artifacts[0]?.id;
+
+          const report = await runPushAllCommand(
+            { type: "path", path: buildInfosPath },
+            { project, tag: tagTemplate },
+            { storageProvider, logger },
+            { force: false, debug: false },
+          );
+
+          expect(report.pushedCount).toBe(1);
+          expect(report.failedCount).toBe(1);
+          expect(report.artifacts).toHaveLength(2);
+          for (const item of report.artifacts) {
+            expect(item.origin).toBe("hardhat-v2");
+            expect(item.solcLongVersion).toBe("0.8.28+commit.7893614a");
+            expect(item.tag).toBe(`${TEST_CONSTANTS.TAGS.V1}-${item.id}`);
+            expect(await storageProvider.resolveTagId(project, item.tag!)).toBe(
+              item.id,
+            );
+          }
+          const failedItem = report.artifacts.find(
+            (item) => item.status === "failed",
+          );
+          expect(failedItem?.id).toBe(counterId);
+          expect(failedItem?.error).toContain("already exists");
+
+          for (const item of report.artifacts) {
+            const pullResult = await runPullCommand(
+              { project, type: "tag", tag: item.tag! },
+              { storageProvider, localArtifactStore, logger },
+              { force: false, debug: false },
+            );
+            expect(pullResult.pulledIds).toEqual([item.id]);
+          }
+        } finally {
+          await fs.rm(buildInfosPath.resolvedPath, {
+            recursive: true,
+            force: true,
+          });
+        }
+      },
+    );
+
+    storageProviderTest(
+      "push Build Infos matching a glob with a tag resolving to the same tag for several artifacts → nothing is pushed",
+      async ({ storageProvider }) => {
+        const project = createTestProjectName(TEST_CONSTANTS.PROJECTS.DEFAULT);
+        const buildInfosPath = await copyHardhatV2BuildInfos();
+
+        try {
+          // Both Build Infos are compiled with the same Solc version
+          await expect(
+            runPushAllCommand(
+              {
+                type: "glob",
+                pattern: "build-info/*.json",
+                cwd: buildInfosPath,
+              },
+              { project, tag: `${TEST_CONSTANTS.TAGS.V1}-{solc}` },
+              { storageProvider, logger },
+              { force: false, debug: false },
+            ),
+          ).rejects.toThrow(
+            `The tag "${TEST_CONSTANTS.TAGS.V1}-0.8.28" would be associated with 2 different artifacts`,
+          );
+          await expect(
+            runPushAllCommand(
+              {
+                type: "glob",
+                pattern: "build-info/*.json",
+                cwd: buildInfosPath,
+              },
+              { project, tag: `${TEST_CONSTANTS.TAGS.V1}-{compiler}` },
+              { storageProvider, logger },
+              { force: false, debug: false },
+            ),
+          ).rejects.toThrow('Unknown placeholder "{compiler}"');
+          expect(await storageProvider.listIds(project)).toEqual([]);
+        } finally {
+          await fs.rm(buildInfosPath.resolvedPath, {
+            recursive: true,
+            force: true,
+          });
+        }
+      },
+    );
+
+    storageProviderTest(
+      "push with labels → git metadata and labels in inspect and listings, the ID is unchanged",
+      async ({ storageProvider, localArtifactStore }) => {
+        const project = createTestProjectName(TEST_CONSTANTS.PROJECTS.DEFAULT);
+        const tag = TEST_CONSTANTS.TAGS.V1;
+        const artifactPath =
+          TEST_CONSTANTS.ARTIFACTS_FIXTURES.COUNTER.TARGETS.HARDHAT_V2
+            .folderPath;
+        await localArtifactStore.ensureProjectSetup(project);
+
+        // Pushed in another project, an already stored artifact is not uploaded again
+        const unlabeledId = await runPushCommand(
+          artifactPath,
+          {
+            project: createTestProjectName(TEST_CONSTANTS.PROJECTS.DEFAULT),
+            tag: undefined,
+          },
+          { storageProvider, logger },
+          { force: false, debug: false },
+        );
+        const id = await runPushCommand(
+          artifactPath,
+          { project, tag },
+          { storageProvider, logger },
+          {
+            force: false,
+            debug: false,
+            labels: { release: "v1", pipeline: "42" },
+          },
+        );
+        expect(id).toBe(unlabeledId);
+
+        const expectedMetadata = {
+          git: await getGitMetadata(),
+          labels: { release: "v1", pipeline: "42" },
+        };
+        const remoteResult = await listRemoteArtifacts(
+          project,
+          { storageProvider, logger: logger.toDebugLogger() },
+          { debug: false },
+        );
+        expect(remoteResult.artifacts[0]?.metadata).toEqual(expectedMetadata);
+
+        await runPullCommand(
+          { project, type: "tag", tag },
+          { storageProvider, localArtifactStore, logger },
+          { force: false, debug: false },
+        );
+        const inspectResult = await runInspectCommand(
+          { project, type: "tag", tag },
+          { storageProvider, localArtifactStore, logger },
+          { debug: false },
+        );
+        expect(inspectResult.metadata).toEqual(expectedMetadata);
+        const localArtifacts = await listLocalArtifacts(
+          { localArtifactStore, logger: logger.toDebugLogger() },
+          { debug: false },
+        );
+        expect(
+          localArtifacts.find((item) => item.project === project)?.metadata,
+        ).toEqual(expectedMetadata);
+      },
+    );
+
+    storageProviderTest(
+      "push in non-interactive mode with several Build Infos → fails with the list, selects the latest or by ID",
+      async ({ storageProvider, localArtifactStore }) => {
+        const project = createTestProjectName(TEST_CONSTANTS.PROJECTS.DEFAULT);
+        const buildInfosPath = await copyHardhatV2BuildInfos();
+        const counterBuildInfoId = "7096258467d93d9b25952a52f5cd299c";
+        const mixBuildInfoId = "963d2d0b62f97ac589d652e367f38cfe";
+
+        try {
+          await localArtifactStore.ensureProjectSetup(project);
+          // The Counter Build Info is the most recent one
+          const now = new Date();
+          await fs.utimes(
+            buildInfosPath.join("build-info", `${mixBuildInfoId}.json`)
+              .resolvedPath,
+            new Date(now.getTime() - 60_000),
+            new Date(now.getTime() - 60_000),
+          );
+
+          await expect(
+            runPushCommand(
+              buildInfosPath,
+              { project, tag: TEST_CONSTANTS.TAGS.V1 },
+              { storageProvider, logger },
+              { force: false, debug: false, nonInteractive: true },
+            ),
+          ).rejects.toThrow(
+            expect.objectContaining({
+              message: expect.stringContaining(`- ${mixBuildInfoId} (`),
+            }),
+          );
+
+          const latestId = await runPushCommand(
+            buildInfosPath,
+            { project, tag: TEST_CONSTANTS.TAGS.V1 },
+            { storageProvider, logger },
+            {
+              force: false,
+              debug: false,
+              nonInteractive: true,
+              selection: { type: "latest" },
+            },
+          );
+          const mixId = await runPushCommand(
+            buildInfosPath,
+            { project, tag: TEST_CONSTANTS.TAGS.V2 },
+            { storageProvider, logger },
+            {
+              force: false,
+              debug: false,
+              nonInteractive: true,
+              selection: { type: "id", id: mixBuildInfoId },
+            },
+          );
+          expect(mixId).not.toBe(latestId);
+
+          const counterId = await runPushCommand(
+            TEST_CONSTANTS.ARTIFACTS_FIXTURES.COUNTER.TARGETS.HARDHAT_V2
+              .folderPath,
+            // The Counter artifact is already stored as the latest Build Info, only the tag is written
+            { project, tag: TEST_CONSTANTS.TAGS.LATEST },
+            { storageProvider, logger },
+            {
+              force: false,
+              debug: false,
+              selection: { type: "id", id: counterBuildInfoId },
+            },
+          );
+          expect(latestId).toBe(counterId);
+        } finally {
+          await fs.rm(buildInfosPath.resolvedPath, {
+            recursive: true,
+            force: true,
+          });
+        }
+      },
+    );
+
+    storageProviderTest(
+      "push failures carry a distinct code for an existing artifact, a tag conflict and a missing Build Info",
+      async ({ storageProvider }) => {
+        const project = createTestProjectName(TEST_CONSTANTS.PROJECTS.DEFAULT);
+        const tag = TEST_CONSTANTS.TAGS.V1;
+        const counterPath =
+          TEST_CONSTANTS.ARTIFACTS_FIXTURES.COUNTER.TARGETS.HARDHAT_V2
+            .folderPath;
+        await runPushCommand(
+          counterPath,
+          { project, tag },
+          { storageProvider, logger },
+          { force: false, debug: false },
+        );
+
+        await expect(
+          runPushCommand(
+            counterPath,
+            { project, tag },
+            { storageProvider, logger },
+            { force: false, debug: false },
+          ),
+        ).rejects.toMatchObject({ code: "ARTIFACT_ALREADY_EXISTS" });
+        await expect(
+          runPushCommand(
+            counterPath,
+            { project, tag: undefined },
+            { storageProvider, logger },
+            { force: false, debug: false },
+          ),
+        ).rejects.toMatchObject({ code: "ARTIFACT_ALREADY_EXISTS" });
+        await expect(
+          runPushCommand(
+            counterPath,
+            { project, tag: undefined },
+            { storageProvider, logger },
+            { force: true, debug: false },
+          ),
+        ).rejects.toMatchObject({ code: "ARTIFACT_ALREADY_EXISTS" });
+        // A new tag of a stored artifact is written without uploading it again
+        const id = await runPushCommand(
+          counterPath,
+          { project, tag: TEST_CONSTANTS.TAGS.V2 },
+          { storageProvider, logger },
+          { force: false, debug: false },
+        );
+        expect(
+          await storageProvider.resolveTagId(project, TEST_CONSTANTS.TAGS.V2),
+        ).toBe(id);
+        await expect(
+          runPushCommand(
+            TEST_CONSTANTS.ARTIFACTS_FIXTURES.MIX.TARGETS.HARDHAT_V2.folderPath,
+            { project, tag },
+            { storageProvider, logger },
+            { force: false, debug: false },
+          ),
+        ).rejects.toMatchObject({ code: "TAG_CONFLICT" });
+        await expect(
+          runPushCommand(
+            counterPath,
+            { project, tag: TEST_CONSTANTS.TAGS.V2 },
+            { storageProvider, logger },
+            {
+              force: false,
+              debug: false,
+              selection: { type: "id", id: "unknown" },
+            },
+          ),
+        ).rejects.toMatchObject({ code: "NO_BUILD_INFO" });
+      },
+    );
+
+    storageProviderTest(
+      "push Build Infos merged in a single artifact → pulled, inspected and exported per compilation",
+      async ({ storageProvider, localArtifactStore }) => {
+        const project = createTestProjectName(TEST_CONSTANTS.PROJECTS.DEFAULT);
+        const tag = TEST_CONSTANTS.TAGS.V1;
+        const buildInfosPath = await copyHardhatV2BuildInfos();
+
+        try {
+          await localArtifactStore.ensureProjectSetup(project);
+
+          const report = await runPushAllCommand(
+            { type: "path", path: buildInfosPath },
+            { project, tag },
+            { storageProvider, logger },
+            { force: false, debug: false, merge: true },
+          );
+          expect(report.pushedCount).toBe(1);
+          expect(report.artifacts).toHaveLength(1);
+          expect(report.artifacts[0]?.origin).toBe("multi-compilation");
+          const artifactId = report.artifacts[0]?.id;
+
+          const pullResult = await runPullCommand(
+            { project, type: "tag", tag },
+            { storageProvider, localArtifactStore, logger },
+            { force: false, debug: false },
+          );
+          expect(pullResult.pulledIds).toEqual([artifactId]);
+
+          const inspectResult = await runInspectCommand(
+            { project, type: "tag", tag },
+            { storageProvider, localArtifactStore, logger },
+            { debug: false },
+          );
+          expect(inspectResult.origin.kind).toBe("multi-compilation");
+          expect(inspectResult.compilations).toHaveLength(2);
+          // The Counter contract of both fixtures is only kept once
+          expect(
+            new Set(
+              inspectResult.contractsBySource.flatMap((c) =>
+                c.contracts.map((contract) => `${c.sourcePath}:${contract}`),
+              ),
+            ),
+          ).toEqual(
+            new Set(
+              TEST_CONSTANTS.ARTIFACTS_FIXTURES.MIX.TARGETS.HARDHAT_V2
+                .fullyQualifiedContractPaths,
+            ),
+          );
+
+          const exportResult = await runExportCommand(
+            { project, type: "tag", tag },
+            "Oracle",
+            { storageProvider, localArtifactStore, logger },
+            { debug: false },
+          );
+          expect(exportResult.id).toBe(artifactId);
+          expect(exportResult.sourceName).toBe("src/Oracle.sol");
+          expect(exportResult.bytecode.startsWith("0x")).toBe(true);
+
+          const verifyResult = await runVerifyCommand(
+            { project, type: "tag", tag },
+            { storageProvider, localArtifactStore, logger },
+            { remote: true, debug: false },
+          );
+          expect(verifyResult.valid).toBe(true);
+        } finally {
+          await fs.rm(buildInfosPath.resolvedPath, {
+            recursive: true,
+            force: true,
+          });
+        }
+      },
+    );
+  },
+);
+
+/**
+ * Copies the Hardhat v2 Build Infos of the Counter and Mix fixtures in the same `build-info` directory of a temporary folder
+ */
+async function copyHardhatV2BuildInfos(): Promise<AbsolutePath> {
+  const buildInfosPath = new AbsolutePath(
+    await fs.mkdtemp(
+      path.join(os.tmpdir(), TEST_CONSTANTS.PATHS.TEMP_DIR_PREFIX),
+    ),
+  );
+  for (const fixture of [
+    TEST_CONSTANTS.ARTIFACTS_FIXTURES.COUNTER.TARGETS.HARDHAT_V2,
+    TEST_CONSTANTS.ARTIFACTS_FIXTURES.MIX.TARGETS.HARDHAT_V2,
+  ]) {
+    await fs.cp(
+      fixture.folderPath.join("build-info").resolvedPath,
+      buildInfosPath.join("build-info").resolvedPath,
+      { recursive: true },
+    );
+  }
+  return buildInfosPath;
+}
+
+storageProviderTest(
+  "an interrupted push is ignored until a retry commits it",
+  async ({ storageProvider, localArtifactStore }) => {
+    const logger = new CommandLogger(true);
+    const artifactPath =
+      TEST_CONSTANTS.ARTIFACTS_FIXTURES.COUNTER.TARGETS.HARDHAT_V3.folderPath;
+    const tag = TEST_CONSTANTS.TAGS.V1;
+    if (!(storageProvider instanceof FilesystemStorageProvider)) {
+      throw new Error("Expected the default filesystem storage provider");
+    }
+
+    // IDs are derived from the content, a push to another project gives the ID and the original content paths
+    const probeProject = createTestProjectName(TEST_CONSTANTS.PROJECTS.DEFAULT);
+    const id = await runPushCommand(
+      artifactPath,
+      { project: probeProject, tag: undefined },
+      { storageProvider, logger },
+      { force: false, debug: false },
+    );
+    const [originalContentPath] = await storageProvider.listOriginalContent(
+      probeProject,
+      id,
+    );
+    if (!originalContentPath) {
+      throw new Error("Expected at least one original content file");
+    }
+
+    // A directory in place of an original content file makes the upload fail after the input and outputs are written
+    const project = createTestProjectName(TEST_CONSTANTS.PROJECTS.DEFAULT);
+    const blockingPath = storageProvider
+      .getStoragePath()
+      .join(project, "ids", id, "original")
+      .join(originalContentPath);
+    await fs.mkdir(blockingPath.resolvedPath, { recursive: true });
+    await expect(
+      runPushCommand(
+        artifactPath,
+        { project, tag },
+        { storageProvider, logger },
+        { force: false, debug: false },
+      ),
+    ).rejects.toThrow();
+
+    expect(await storageProvider.hasArtifactById(project, id)).toBe(false);
+    expect(await storageProvider.listIds(project)).not.toContain(id);
+    expect(await storageProvider.resolveTagId(project, tag)).toBeUndefined();
+    await expect(
+      storageProvider.downloadArtifactById(project, id),
+    ).rejects.toThrow("is not committed");
+    await expect(
+      runPullCommand(
+        { project, type: "id", id },
+        { storageProvider, localArtifactStore, logger },
+        { force: false, debug: false },
+      ),
+    ).rejects.toThrow();
+
+    await fs.rm(blockingPath.resolvedPath, { recursive: true });
+    await runPushCommand(
+      artifactPath,
+      { project, tag },
+      { storageProvider, logger },
+      { force: false, debug: false },
+    );
+
+    expect(await storageProvider.hasArtifactById(project, id)).toBe(true);
+    expect(await storageProvider.listIds(project)).toEqual([id]);
+    expect(await storageProvider.resolveTagId(project, tag)).toBe(id);
+    const pullResult = await runPullCommand(
+      { project, type: "tag", tag },
+      { storageProvider, localArtifactStore, logger },
+      { force: false, debug: false },
+    );
+    expect(pullResult.pulledIds).toEqual([id]);
+  },
+);
+
+storageProviderTest(
+  "a failed update of the project index does not fail the push",
+  async ({ storageProvider }) => {
+    const logger = new CommandLogger(true);
+    const project = createTestProjectName(TEST_CONSTANTS.PROJECTS.DEFAULT);
+    const tag = TEST_CONSTANTS.TAGS.V1;
+    if (!(storageProvider instanceof FilesystemStorageProvider)) {
+      throw new Error("Expected the default filesystem storage provider");
+    }
+    // A directory in place of the index makes its update fail once the artifact is committed
+    await fs.mkdir(
+      storageProvider.getStoragePath().join(project, "index.json").resolvedPath,
+      { recursive: true },
+    );
+
+    const id = await runPushCommand(
+      TEST_CONSTANTS.ARTIFACTS_FIXTURES.COUNTER.TARGETS.HARDHAT_V3.folderPath,
+      { project, tag },
+      { storageProvider, logger },
+      { force: false, debug: false },
+    );
+
+    expect(await storageProvider.hasArtifactById(project, id)).toBe(true);
+    expect(await storageProvider.resolveTagId(project, tag)).toBe(id);
+  },
+);
+
+storageProviderTest(
+  "compressed and uncompressed artifacts coexist on the storage and are pulled decompressed",
+  async ({ storageProvider, localArtifactStore }) => {
+    const logger = new CommandLogger(true);
+    const project = createTestProjectName(TEST_CONSTANTS.PROJECTS.DEFAULT);
+    if (!(storageProvider instanceof FilesystemStorageProvider)) {
+      throw new Error("Expected the default filesystem storage provider");
+    }
+    // Same storage, configured with the gzip compression
+    const compressedStorageProvider = new FilesystemStorageProvider({
+      path: storageProvider.getStoragePath(),
+      compression: "gzip",
+      logger: new TestLogger(),
+    });
+
+    const uncompressedId = await runPushCommand(
+      TEST_CONSTANTS.ARTIFACTS_FIXTURES.COUNTER.TARGETS.HARDHAT_V2.folderPath,
+      { project, tag: undefined },
+      { storageProvider, logger },
+      { force: false, debug: false },
+    );
+    const compressedId = await runPushCommand(
+      TEST_CONSTANTS.ARTIFACTS_FIXTURES.COUNTER.TARGETS.HARDHAT_V3.folderPath,
+      { project, tag: TEST_CONSTANTS.TAGS.V1 },
+      { storageProvider: compressedStorageProvider, logger },
+      { force: false, debug: false },
+    );
+
+    const readInputHeader = (id: string) =>
+      fs
+        .readFile(
+          storageProvider
+            .getStoragePath()
+            .join(project, "ids", id, "input.json").resolvedPath,
+        )
+        .then((content) => content.subarray(0, 2));
+    expect(await readInputHeader(compressedId)).toEqual(
+      Buffer.from([0x1f, 0x8b]),
+    );
+    expect((await readInputHeader(uncompressedId)).toString("utf-8")).toBe(
+      '{"',
+    );
+
+    // Artifacts are read whatever their compression, by both providers
+    for (const provider of [storageProvider, compressedStorageProvider]) {
+      const index = await provider.rebuildProjectIndex(project);
+      expect(index.artifacts.map((artifact) => artifact.id).sort()).toEqual(
+        [uncompressedId, compressedId].sort(),
+      );
+      for (const id of [uncompressedId, compressedId]) {
+        const result = await runVerifyCommand(
+          { type: "id", project, id },
+          { storageProvider: provider, localArtifactStore, logger },
+          { remote: true, debug: false },
+        );
+        expect(result.valid).toBe(true);
+      }
+    }
+
+    await runPullCommand(
+      { project, type: "id", id: compressedId },
+      { storageProvider, localArtifactStore, logger },
+      { force: false, debug: false },
+    );
+    const result = await runVerifyCommand(
+      { type: "id", project, id: compressedId },
+      { storageProvider, localArtifactStore, logger },
+      { remote: false, debug: false },
+    );
+    expect(result.valid).toBe(true);
+  },
+);
+
+storageProviderTest(
+  "an encrypted push is only readable with its key, its tags and index stay readable without it",
+  async ({ storageProvider, localArtifactStore }) => {
+    const logger = new CommandLogger(true);
+    const project = createTestProjectName(TEST_CONSTANTS.PROJECTS.DEFAULT);
+    const tag = TEST_CONSTANTS.TAGS.V1;
+    const keyVariable = "ETHOKO_TEST_PUSH_PULL_ENCRYPTION_KEY";
+    if (!(storageProvider instanceof FilesystemStorageProvider)) {
+      throw new Error("Expected the default filesystem storage provider");
+    }
+    // Same storage, configured with an encryption key and the gzip compression
+    const encryptedStorageProvider = new FilesystemStorageProvider({
+      path: storageProvider.getStoragePath(),
+      compression: "gzip",
+      encryption: { type: "env", variable: keyVariable },
+      logger: new TestLogger(),
+    });
+    process.env[keyVariable] = crypto.randomBytes(32).toString("base64");
+
+    try {
+      const id = await runPushCommand(
+        TEST_CONSTANTS.ARTIFACTS_FIXTURES.COUNTER.TARGETS.HARDHAT_V3.folderPath,
+        { project, tag },
+        { storageProvider: encryptedStorageProvider, logger },
+        { force: false, debug: false },
+      );
+      const storedInput = await fs.readFile(
+        storageProvider.getStoragePath().join(project, "ids", id, "input.json")
+          .resolvedPath,
+      );
+      expect(storedInput.subarray(0, 5).toString("latin1")).toBe("\0ETKO");
+
+      // Without the key, tags and the index are readable but not the artifact
+      expect(await storageProvider.resolveTagId(project, tag)).toBe(id);
+      const summaries = await storageProvider.listArtifactSummaries(project);
+      expect(summaries.map((summary) => summary.id)).toEqual([id]);
+      await expect(
+        runPullCommand(
+          { project, type: "tag", tag },
+          { storageProvider, localArtifactStore, logger },
+          { force: false, debug: false },
+        ),
+      ).rejects.toThrow();
+
+      const pullResult = await runPullCommand(
+        { project, type: "tag", tag },
+        {
+          storageProvider: encryptedStorageProvider,
+          localArtifactStore,
+          logger,
+        },
+        { force: false, debug: false },
+      );
+      expect(pullResult.pulledIds).toEqual([id]);
+      const localResult = await runVerifyCommand(
+        { type: "tag", project, tag },
+        {
+          storageProvider: encryptedStorageProvider,
+          localArtifactStore,
+          logger,
+        },
+        { remote: false, debug: false },
+      );
+      expect(localResult.valid).toBe(true);
+      const remoteResult = await runVerifyCommand(
+        { type: "tag", project, tag },
+        {
+          storageProvider: encryptedStorageProvider,
+          localArtifactStore,
+          logger,
+        },
+        { remote: true, debug: false },
+      );
+      expect(remoteResult.valid).toBe(true);
+    } finally {
+      delete process.env[keyVariable];
+    }
   },
 );
+
+// zstd is only available from Node.js 22.15
+storageProviderTest.skipIf(typeof zlib.zstdCompress !== "function")(
+  "an artifact compressed with zstd is pulled decompressed",
+  async ({ storageProviderFactory, localArtifactStore }) => {
+    const logger = new CommandLogger(true);
+    const { storageProvider, cleanup } = await storageProviderFactory.create({
+      compression: "zstd",
+    });
+    const project = createTestProjectName(TEST_CONSTANTS.PROJECTS.DEFAULT);
+
+    try {
+      const id = await runPushCommand(
+        TEST_CONSTANTS.ARTIFACTS_FIXTURES.COUNTER.TARGETS.HARDHAT_V3.folderPath,
+        { project, tag: undefined },
+        { storageProvider, logger },
+        { force: false, debug: false },
+      );
+      await runPullCommand(
+        { project, type: "id", id },
+        { storageProvider, localArtifactStore, logger },
+        { force: false, debug: false },
+      );
+      const result = await runVerifyCommand(
+        { type: "id", project, id },
+        { storageProvider, localArtifactStore, logger },
+        { remote: false, debug: false },
+      );
+      expect(result.valid).toBe(true);
+    } finally {
+      await cleanup();
+    }
+  },
+);
+
+describe("Push-Pull E2E Tests (Amazon S3 uploads)", () => {
+  storageProviderTest.scoped({
+    storageProviderFactory: new TestS3StorageProviderFactory(),
+  });
+
+  storageProviderTest(
+    "a second push skips the original content already stored",
+    async ({ storageProvider, localArtifactStore }) => {
+      const logger = new CommandLogger(true);
+      const project = createTestProjectName(TEST_CONSTANTS.PROJECTS.DEFAULT);
+      const artifactPath =
+        TEST_CONSTANTS.ARTIFACTS_FIXTURES.COUNTER.TARGETS.HARDHAT_V3.folderPath;
+
+      const progresses: UploadProgress[] = [];
+      const uploadArtifact =
+        storageProvider.uploadArtifact.bind(storageProvider);
+      storageProvider.uploadArtifact = (...args) =>
+        uploadArtifact(args[0], args[1], args[2], args[3], args[4], {
+          onProgress: (progress) => progresses.push(progress),
+        });
+
+      const id = await runPushCommand(
+        artifactPath,
+        { project, tag: undefined },
+        { storageProvider, logger },
+        { force: false, debug: false },
+      );
+      const firstProgress = progresses.at(-1);
+      expect(firstProgress?.totalFiles).toBeGreaterThan(0);
+      expect(firstProgress).toEqual({
+        totalFiles: firstProgress?.totalFiles,
+        completedFiles: firstProgress?.totalFiles,
+        skippedFiles: 0,
+      });
+
+      await runPushCommand(
+        artifactPath,
+        { project, tag: TEST_CONSTANTS.TAGS.V1 },
+        { storageProvider, logger },
+        { force: false, debug: false },
+      );
+      expect(progresses.at(-1)).toEqual({
+        totalFiles: firstProgress?.totalFiles,
+        completedFiles: firstProgress?.totalFiles,
+        skippedFiles: firstProgress?.totalFiles,
+      });
+
+      const result = await runVerifyCommand(
+        { type: "id", project, id },
+        { storageProvider, localArtifactStore, logger },
+        { remote: true, debug: false },
+      );
+      expect(result.valid).toBe(true);
+    },
+  );
+
+  storageProviderTest(
+    "a compressed push is stored with its content encoding and pulled decompressed",
+    async ({ storageProviderFactory, localArtifactStore }) => {
+      const logger = new CommandLogger(true);
+      const { storageProvider, cleanup } = await storageProviderFactory.create({
+        compression: "gzip",
+      });
+      const project = createTestProjectName(TEST_CONSTANTS.PROJECTS.DEFAULT);
+      const tag = TEST_CONSTANTS.TAGS.V1;
+
+      try {
+        const id = await runPushCommand(
+          TEST_CONSTANTS.ARTIFACTS_FIXTURES.COUNTER.TARGETS.HARDHAT_V3
+            .folderPath,
+          { project, tag },
+          { storageProvider, logger },
+          { force: false, debug: false },
+        );
+        const remoteResult = await runVerifyCommand(
+          { type: "tag", project, tag },
+          { storageProvider, localArtifactStore, logger },
+          { remote: true, debug: false },
+        );
+        expect(remoteResult.valid).toBe(true);
+        const index = await storageProvider.rebuildProjectIndex(project);
+        expect(index.artifacts.map((artifact) => artifact.id)).toEqual([id]);
+
+        const pullResult = await runPullCommand(
+          { project, type: "tag", tag },
+          { storageProvider, localArtifactStore, logger },
+          { force: false, debug: false },
+        );
+        expect(pullResult.pulledIds).toEqual([id]);
+        const localResult = await runVerifyCommand(
+          { type: "tag", project, tag },
+          { storageProvider, localArtifactStore, logger },
+          { remote: false, debug: false },
+        );
+        expect(localResult.valid).toBe(true);
+      } finally {
+        await cleanup();
+      }
+    },
+  );
+
+  storageProviderTest(
+    "an encrypted push is pulled decrypted and is not readable without the key",
+    async ({ storageProviderFactory, storageProvider, localArtifactStore }) => {
+      const logger = new CommandLogger(true);
+      const keyVariable = "ETHOKO_TEST_S3_ENCRYPTION_KEY";
+      process.env[keyVariable] = crypto.randomBytes(32).toString("base64");
+      const { storageProvider: encryptedStorageProvider, cleanup } =
+        await storageProviderFactory.create({
+          encryption: { type: "env", variable: keyVariable },
+        });
+      const project = createTestProjectName(TEST_CONSTANTS.PROJECTS.DEFAULT);
+      const tag = TEST_CONSTANTS.TAGS.V1;
+
+      try {
+        const id = await runPushCommand(
+          TEST_CONSTANTS.ARTIFACTS_FIXTURES.COUNTER.TARGETS.HARDHAT_V3
+            .folderPath,
+          { project, tag },
+          { storageProvider: encryptedStorageProvider, logger },
+          { force: false, debug: false },
+        );
+
+        // The default provider of the test shares the bucket, without the key
+        expect(await storageProvider.resolveTagId(project, tag)).toBe(id);
+        await expect(
+          runPullCommand(
+            { project, type: "tag", tag },
+            { storageProvider, localArtifactStore, logger },
+            { force: false, debug: false },
+          ),
+        ).rejects.toThrow();
+
+        const pullResult = await runPullCommand(
+          { project, type: "tag", tag },
+          {
+            storageProvider: encryptedStorageProvider,
+            localArtifactStore,
+            logger,
+          },
+          { force: false, debug: false },
+        );
+        expect(pullResult.pulledIds).toEqual([id]);
+        const remoteResult = await runVerifyCommand(
+          { type: "tag", project, tag },
+          {
+            storageProvider: encryptedStorageProvider,
+            localArtifactStore,
+            logger,
+          },
+          { remote: true, debug: false },
+        );
+        expect(remoteResult.valid).toBe(true);
+      } finally {
+        await cleanup();
+        delete process.env[keyVariable];
+      }
+    },
+  );
+});
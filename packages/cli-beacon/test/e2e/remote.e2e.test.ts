@@ -0,0 +1,196 @@
+import fs from "fs/promises";
+import { describe, expect } from "vitest";
+import { TEST_CONSTANTS } from "@test/helpers/test-constants";
+import { createTestProjectName } from "@test/helpers/test-utils";
+import {
+  STORAGE_PROVIDER_STRATEGIES,
+  storageProviderTest,
+} from "@test/helpers/storage-provider-test";
+import { CommandLogger } from "@/ui";
+import { runPushCommand } from "@/commands/push";
+import { runDeleteCommand } from "@/commands/delete";
+import {
+  runRemoteListCommand,
+  runRemoteReindexCommand,
+} from "@/commands/remote";
+import { runTagAddCommand } from "@/commands/tag";
+import { FilesystemStorageProvider } from "@/storage-provider";
+
+describe.for(STORAGE_PROVIDER_STRATEGIES)(
+  "Remote E2E Tests (%s)",
+  ([, storageProviderFactory]) => {
+    const logger = new CommandLogger(true);
+    storageProviderTest.scoped({ storageProviderFactory });
+
+    storageProviderTest(
+      "lists the pushed artifacts with their tags and metadata",
+      async ({ storageProvider }) => {
+        const project = createTestProjectName(TEST_CONSTANTS.PROJECTS.DEFAULT);
+        const taggedId = await runPushCommand(
+          TEST_CONSTANTS.ARTIFACTS_FIXTURES.COUNTER.TARGETS.HARDHAT_V3
+            .folderPath,
+          { project, tag: TEST_CONSTANTS.TAGS.V1 },
+          { storageProvider, logger },
+          { force: false, debug: false },
+        );
+        const untaggedId = await runPushCommand(
+          TEST_CONSTANTS.ARTIFACTS_FIXTURES.COUNTER.TARGETS.HARDHAT_V2
+            .folderPath,
+          { project, tag: undefined },
+          { storageProvider, logger },
+          { force: false, debug: false },
+        );
+
+        const result = await runRemoteListCommand(
+          project,
+          { storageProvider, logger },
+          { debug: false },
+        );
+
+        expect(result.project).toBe(project);
+        expect(result.artifacts).toHaveLength(2);
+        const tagged = result.artifacts.find((item) => item.id === taggedId);
+        const untagged = result.artifacts.find(
+          (item) => item.id === untaggedId,
+        );
+        expect(tagged).toMatchObject({
+          tags: [TEST_CONSTANTS.TAGS.V1],
+          origin: "hardhat-v3",
+        });
+        expect(untagged).toMatchObject({ tags: [], origin: "hardhat-v2" });
+        for (const item of result.artifacts) {
+          expect(item.solcLongVersion).toBeTruthy();
+          expect(item.contractCount).toBeGreaterThan(0);
+          expect(Date.parse(item.pushedAt ?? "")).not.toBeNaN();
+        }
+      },
+    );
+
+    storageProviderTest(
+      "lists no artifacts for an empty project",
+      async ({ storageProvider }) => {
+        const project = createTestProjectName(TEST_CONSTANTS.PROJECTS.DEFAULT);
+
+        const result = await runRemoteListCommand(
+          project,
+          { storageProvider, logger },
+          { debug: false },
+        );
+
+        expect(result.artifacts).toEqual([]);
+      },
+    );
+
+    storageProviderTest(
+      "the project index is maintained by pushes, tag changes and deletions",
+      async ({ storageProvider, localArtifactStore }) => {
+        const project = createTestProjectName(TEST_CONSTANTS.PROJECTS.DEFAULT);
+        const id1 = await runPushCommand(
+          TEST_CONSTANTS.ARTIFACTS_FIXTURES.COUNTER.TARGETS.HARDHAT_V3
+            .folderPath,
+          { project, tag: TEST_CONSTANTS.TAGS.V1 },
+          { storageProvider, logger },
+          { force: false, debug: false },
+        );
+        const id2 = await runPushCommand(
+          TEST_CONSTANTS.ARTIFACTS_FIXTURES.COUNTER.TARGETS.HARDHAT_V2
+            .folderPath,
+          { project, tag: undefined },
+          { storageProvider, logger },
+          { force: false, debug: false },
+        );
+        await runTagAddCommand(
+          { project, id: id2, tag: TEST_CONSTANTS.TAGS.LATEST },
+          { storageProvider, localArtifactStore, logger },
+          { debug: false },
+        );
+
+        const index = await storageProvider.getProjectIndex(project);
+        expect(index?.artifacts.map(({ id }) => id)).toEqual([id1, id2]);
+        expect(index?.tags).toEqual({
+          [TEST_CONSTANTS.TAGS.V1]: id1,
+          [TEST_CONSTANTS.TAGS.LATEST]: id2,
+        });
+
+        await runDeleteCommand(
+          { type: "id", project, id: id1 },
+          { storageProvider, localArtifactStore, logger },
+          { dryRun: false, removeTags: true, debug: false },
+        );
+
+        const updatedIndex = await storageProvider.getProjectIndex(project);
+        expect(updatedIndex?.artifacts.map(({ id }) => id)).toEqual([id2]);
+        expect(updatedIndex?.tags).toEqual({
+          [TEST_CONSTANTS.TAGS.LATEST]: id2,
+        });
+
+        const rebuilt = await runRemoteReindexCommand(
+          project,
+          { storageProvider, logger },
+          { debug: false },
+        );
+        expect(rebuilt).toEqual({
+          project,
+          artifactCount: 1,
+          tagCount: 1,
+          previousArtifactCount: 1,
+        });
+      },
+    );
+  },
+);
+
+storageProviderTest(
+  "reindex creates the index of a project pushed before the index existed",
+  async ({ storageProvider }) => {
+    const logger = new CommandLogger(true);
+    const project = createTestProjectName(TEST_CONSTANTS.PROJECTS.DEFAULT);
+    const id1 = await runPushCommand(
+      TEST_CONSTANTS.ARTIFACTS_FIXTURES.COUNTER.TARGETS.HARDHAT_V3.folderPath,
+      { project, tag: TEST_CONSTANTS.TAGS.V1 },
+      { storageProvider, logger },
+      { force: false, debug: false },
+    );
+    if (!(storageProvider instanceof FilesystemStorageProvider)) {
+      throw new Error("Expected the default filesystem storage provider");
+    }
+    await fs.rm(
+      storageProvider.getStoragePath().join(project, "index.json").resolvedPath,
+    );
+
+    // Without index, new pushes do not create a partial index
+    const id2 = await runPushCommand(
+      TEST_CONSTANTS.ARTIFACTS_FIXTURES.COUNTER.TARGETS.HARDHAT_V2.folderPath,
+      { project, tag: undefined },
+      { storageProvider, logger },
+      { force: false, debug: false },
+    );
+    expect(await storageProvider.getProjectIndex(project)).toBeUndefined();
+    const listing = await runRemoteListCommand(
+      project,
+      { storageProvider, logger },
+      { debug: false },
+    );
+    expect(listing.artifacts.map(({ id }) => id).sort()).toEqual(
+      [id1, id2].sort(),
+    );
+
+    const result = await runRemoteReindexCommand(
+      project,
+      { storageProvider, logger },
+      { debug: false },
+    );
+
+    expect(result).toEqual({
+      project,
+      artifactCount: 2,
+      tagCount: 1,
+      previousArtifactCount: null,
+    });
+    const index = await storageProvider.getProjectIndex(project);
+    expect(index?.artifacts.map(({ id }) => id).sort()).toEqual(
+      [id1, id2].sort(),
+    );
+    expect(index?.tags).toEqual({ [TEST_CONSTANTS.TAGS.V1]: id1 });
+  },
+);
@@ -0,0 +1,196 @@
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { beforeEach, describe, expect } from "vitest";
+import { TEST_CONSTANTS } from "@test/helpers/test-constants";
+import { createTestProjectName } from "@test/helpers/test-utils";
+import {
+  STORAGE_PROVIDER_STRATEGIES,
+  storageProviderTest,
+} from "@test/helpers/storage-provider-test";
+import { CommandLogger } from "@/ui";
+import { runPushCommand } from "@/commands/push";
+import { runReproduceCommand } from "@/commands/reproduce";
+import { deriveSolcBinaryPath } from "@/solc-compiler/solc-binaries";
+import { AbsolutePath } from "@/utils/path";
+
+const SOLC_LONG_VERSION = "0.8.28+commit.7893614a";
+
+/**
+ * Installs a fake solc binary in a solc cache, it prints the output of the Counter Hardhat v2 Build Info, optionally modified, whatever the input
+ */
+async function installFakeSolc(
+  cachePath: AbsolutePath,
+  modifyOutput: (output: {
+    contracts: Record<
+      string,
+      Record<string, { evm: { deployedBytecode: { object: string } } }>
+    >;
+  }) => void = () => {},
+): Promise<void> {
+  const buildInfosPath =
+    TEST_CONSTANTS.ARTIFACTS_FIXTURES.COUNTER.TARGETS.HARDHAT_V2.folderPath.join(
+      "build-info",
+    );
+  const [buildInfoFile] = await fs.readdir(buildInfosPath.resolvedPath);
+  if (!buildInfoFile) {
+    throw new Error("Expected the Counter Hardhat v2 Build Info");
+  }
+  const buildInfo = JSON.parse(
+    await fs.readFile(buildInfosPath.join(buildInfoFile).resolvedPath, "utf-8"),
+  );
+  modifyOutput(buildInfo.output);
+
+  const outputPath = cachePath.join("output.json");
+  await fs.writeFile(outputPath.resolvedPath, JSON.stringify(buildInfo.output));
+  const binaryPath = deriveSolcBinaryPath(cachePath, SOLC_LONG_VERSION);
+  await fs.mkdir(binaryPath.dirname().resolvedPath, { recursive: true });
+  await fs.writeFile(
+    binaryPath.resolvedPath,
+    `#!/bin/sh\ncat > /dev/null\ncat "${outputPath.resolvedPath}"\n`,
+    { mode: 0o755 },
+  );
+}
+
+describe.for(STORAGE_PROVIDER_STRATEGIES)(
+  "Reproduce E2E Tests (%s)",
+  ([, storageProviderFactory]) => {
+    const logger = new CommandLogger(true);
+    storageProviderTest.scoped({ storageProviderFactory });
+
+    let solcCachePath: AbsolutePath;
+
+    beforeEach(async () => {
+      solcCachePath = new AbsolutePath(
+        await fs.mkdtemp(
+          path.join(os.tmpdir(), TEST_CONSTANTS.PATHS.TEMP_DIR_PREFIX),
+        ),
+      );
+
+      return async () => {
+        await fs.rm(solcCachePath.resolvedPath, {
+          recursive: true,
+          force: true,
+        });
+      };
+    });
+
+    storageProviderTest(
+      "an artifact pushed with a verified compilation is reproduced with the cached solc binary",
+      async ({ storageProvider }) => {
+        await installFakeSolc(solcCachePath);
+        const project = createTestProjectName(TEST_CONSTANTS.PROJECTS.DEFAULT);
+        const tag = TEST_CONSTANTS.TAGS.V1;
+        const id = await runPushCommand(
+          TEST_CONSTANTS.ARTIFACTS_FIXTURES.COUNTER.TARGETS.HARDHAT_V2
+            .folderPath,
+          { project, tag },
+          { storageProvider, logger },
+          {
+            force: false,
+            debug: false,
+            verifyCompilation: { solcCachePath },
+          },
+        );
+
+        const result = await runReproduceCommand(
+          { type: "tag", project, tag },
+          { storageProvider, logger },
+          { solcCachePath, debug: false },
+        );
+
+        expect(result).toEqual({
+          project,
+          tag,
+          id,
+          reproducible: true,
+          compilations: [
+            { id, solcLongVersion: SOLC_LONG_VERSION, error: null },
+          ],
+          contracts: [
+            {
+              sourceName: "src/Counter.sol",
+              contractName: "Counter",
+              compilation: id,
+              bytecode: "match",
+              deployedBytecode: "match",
+              metadata: "match",
+            },
+          ],
+        });
+      },
+    );
+
+    storageProviderTest(
+      "reports the contracts whose recompiled outputs differ",
+      async ({ storageProvider }) => {
+        const project = createTestProjectName(TEST_CONSTANTS.PROJECTS.DEFAULT);
+        const id = await runPushCommand(
+          TEST_CONSTANTS.ARTIFACTS_FIXTURES.COUNTER.TARGETS.HARDHAT_V2
+            .folderPath,
+          { project, tag: undefined },
+          { storageProvider, logger },
+          { force: false, debug: false },
+        );
+        await installFakeSolc(solcCachePath, (output) => {
+          const counter = output.contracts["src/Counter.sol"]?.["Counter"];
+          if (!counter) {
+            throw new Error("Expected the Counter contract in the output");
+          }
+          counter.evm.deployedBytecode.object += "00";
+        });
+
+        const result = await runReproduceCommand(
+          { type: "id", project, id },
+          { storageProvider, logger },
+          { solcCachePath, debug: false },
+        );
+
+        expect(result.reproducible).toBe(false);
+        expect(result.contracts).toEqual([
+          expect.objectContaining({
+            contractName: "Counter",
+            bytecode: "match",
+            deployedBytecode: "mismatch",
+            metadata: "match",
+          }),
+        ]);
+      },
+    );
+  },
+);
+
+storageProviderTest(
+  "push with a verified compilation fails without pushing when the outputs are not reproduced",
+  async ({ storageProvider }) => {
+    const logger = new CommandLogger(true);
+    const solcCachePath = new AbsolutePath(
+      await fs.mkdtemp(
+        path.join(os.tmpdir(), TEST_CONSTANTS.PATHS.TEMP_DIR_PREFIX),
+      ),
+    );
+    try {
+      await installFakeSolc(solcCachePath, (output) => {
+        delete output.contracts["src/Counter.sol"];
+      });
+      const project = createTestProjectName(TEST_CONSTANTS.PROJECTS.DEFAULT);
+
+      await expect(
+        runPushCommand(
+          TEST_CONSTANTS.ARTIFACTS_FIXTURES.COUNTER.TARGETS.HARDHAT_V2
+            .folderPath,
+          { project, tag: TEST_CONSTANTS.TAGS.V1 },
+          { storageProvider, logger },
+          {
+            force: false,
+            debug: false,
+            verifyCompilation: { solcCachePath },
+          },
+        ),
+      ).rejects.toMatchObject({ code: "NOT_REPRODUCIBLE" });
+      expect(await storageProvider.listIds(project)).toEqual([]);
+    } finally {
+      await fs.rm(solcCachePath.resolvedPath, { recursive: true, force: true });
+    }
+  },
+);
@@ -1,3 +1,4 @@
+import crypto from "crypto";
 import fs from "fs/promises";
 import os from "node:os";
 import path from "node:path";
@@ -15,6 +16,9 @@ import { AbsolutePath } from "@/utils/path";
 import { runPushCommand } from "@/commands/push";
 import { runRestoreCommand } from "@/commands/restore";
 import { runPullCommand } from "@/commands/pull";
+import { runVerifyCommand } from "@/commands/verify";
+import { FilesystemStorageProvider } from "@/storage-provider";
+import { TestLogger } from "@test/helpers/test-logger";
 
 describe.for(STORAGE_PROVIDER_STRATEGIES)(
   "Restore E2E Tests (%s)",
@@ -344,5 +348,400 @@ describe.for(STORAGE_PROVIDER_STRATEGIES)(
         );
       },
     );
+
+    storageProviderTest(
+      "restore an artifact pushed with the content-addressed layout",
+      async ({ storageProviderFactory, localArtifactStore }) => {
+        const { storageProvider, cleanup } =
+          await storageProviderFactory.create({
+            originalContentLayout: "content-addressed",
+          });
+        const project = createTestProjectName(TEST_CONSTANTS.PROJECTS.DEFAULT);
+        const tag = TEST_CONSTANTS.TAGS.V1;
+        const artifactFixture =
+          TEST_CONSTANTS.ARTIFACTS_FIXTURES.COUNTER.TARGETS.HARDHAT_V3;
+
+        try {
+          const id = await runPushCommand(
+            artifactFixture.folderPath,
+            { project, tag },
+            { storageProvider, logger },
+            { force: false, debug: false },
+          );
+
+          const expectedRelativePaths = (
+            await deriveAllAbsolutePathsInDirectory(artifactFixture.folderPath)
+          ).map((p) => p.relativeTo(artifactFixture.folderPath).relativePath);
+          const originalContent = await storageProvider.listOriginalContent(
+            project,
+            id,
+          );
+          expect(originalContent.map((p) => p.relativePath).sort()).toEqual(
+            expectedRelativePaths.sort(),
+          );
+
+          const outputPath = tempOutputDir.join("content-addressed");
+          const result = await runRestoreCommand(
+            { project, type: "tag", tag },
+            outputPath,
+            { storageProvider, localArtifactStore, logger },
+            { force: false, debug: false },
+          );
+          expect(result.filesRestored.length).toBe(
+            expectedRelativePaths.length,
+          );
+          for (const expectedRelativePath of expectedRelativePaths) {
+            const [restoredContent, originalFileContent] = await Promise.all([
+              fs.readFile(outputPath.join(expectedRelativePath).resolvedPath),
+              fs.readFile(
+                artifactFixture.folderPath.join(expectedRelativePath)
+                  .resolvedPath,
+              ),
+            ]);
+            expect(restoredContent.equals(originalFileContent)).toBe(true);
+          }
+
+          const verifyResult = await runVerifyCommand(
+            { type: "tag", project, tag },
+            { storageProvider, localArtifactStore, logger },
+            { remote: true, debug: false },
+          );
+          expect(verifyResult.valid).toBe(true);
+        } finally {
+          await cleanup();
+        }
+      },
+    );
+  },
+);
+
+storageProviderTest(
+  "the content-addressed layout stores the original files shared by artifact IDs once",
+  async ({ storageProviderFactory }) => {
+    const logger = new CommandLogger(true);
+    const { storageProvider, cleanup } = await storageProviderFactory.create({
+      originalContentLayout: "content-addressed",
+    });
+    const project = createTestProjectName(TEST_CONSTANTS.PROJECTS.DEFAULT);
+    const artifactFixture =
+      TEST_CONSTANTS.ARTIFACTS_FIXTURES.COUNTER.TARGETS.HARDHAT_V3;
+    // A copy of the fixture compiled with other settings, only its build info input differs
+    const modifiedFixturePath = new AbsolutePath(
+      await fs.mkdtemp(
+        path.join(os.tmpdir(), TEST_CONSTANTS.PATHS.TEMP_DIR_PREFIX),
+      ),
+    );
+
+    try {
+      if (!(storageProvider instanceof FilesystemStorageProvider)) {
+        throw new Error("Expected the default filesystem storage provider");
+      }
+      await fs.cp(
+        artifactFixture.folderPath.resolvedPath,
+        modifiedFixturePath.resolvedPath,
+        { recursive: true },
+      );
+      const buildInfoPath = (
+        await deriveAllAbsolutePathsInDirectory(modifiedFixturePath)
+      ).find(
+        (p) =>
+          p.resolvedPath.includes("build-info") &&
+          !p.resolvedPath.endsWith(".output.json"),
+      );
+      if (!buildInfoPath) {
+        throw new Error("Expected a build info input file");
+      }
+      const buildInfo = JSON.parse(
+        await fs.readFile(buildInfoPath.resolvedPath, "utf-8"),
+      );
+      buildInfo.input.settings.optimizer = { enabled: true, runs: 1 };
+      await fs.writeFile(buildInfoPath.resolvedPath, JSON.stringify(buildInfo));
+
+      const id1 = await runPushCommand(
+        artifactFixture.folderPath,
+        { project, tag: undefined },
+        { storageProvider, logger },
+        { force: false, debug: false },
+      );
+      const id2 = await runPushCommand(
+        modifiedFixturePath,
+        { project, tag: undefined },
+        { storageProvider, logger },
+        { force: false, debug: false },
+      );
+      expect(id2).not.toBe(id1);
+
+      const blobsPath = storageProvider.getStoragePath().join(project, "blobs");
+      const originalFileCount = (
+        await storageProvider.listOriginalContent(project, id1)
+      ).length;
+      // Only the modified build info input is stored a second time
+      expect(await fs.readdir(blobsPath.resolvedPath)).toHaveLength(
+        originalFileCount + 1,
+      );
+      expect(
+        await fs.readdir(
+          storageProvider.getStoragePath().join(project, "ids", id2)
+            .resolvedPath,
+        ),
+      ).not.toContain("original");
+
+      // The blobs shared with the remaining artifact are kept
+      await storageProvider.deleteArtifact(project, id1);
+      expect(await fs.readdir(blobsPath.resolvedPath)).toHaveLength(
+        originalFileCount,
+      );
+      const remainingChecksums = await storageProvider.getChecksumManifest(
+        project,
+        id2,
+      );
+      expect((await fs.readdir(blobsPath.resolvedPath)).sort()).toEqual(
+        remainingChecksums?.original.map((file) => file.checksum).sort(),
+      );
+
+      await storageProvider.deleteArtifact(project, id2);
+      expect(await fs.readdir(blobsPath.resolvedPath)).toHaveLength(0);
+    } finally {
+      await fs.rm(modifiedFixturePath.resolvedPath, {
+        recursive: true,
+        force: true,
+      });
+      await cleanup();
+    }
+  },
+);
+
+storageProviderTest(
+  "the blobs of a deleted artifact are kept while an upload is pending",
+  async ({ storageProviderFactory }) => {
+    const logger = new CommandLogger(true);
+    const { storageProvider, cleanup } = await storageProviderFactory.create({
+      originalContentLayout: "content-addressed",
+    });
+    const project = createTestProjectName(TEST_CONSTANTS.PROJECTS.DEFAULT);
+
+    try {
+      if (!(storageProvider instanceof FilesystemStorageProvider)) {
+        throw new Error("Expected the default filesystem storage provider");
+      }
+      const id = await runPushCommand(
+        TEST_CONSTANTS.ARTIFACTS_FIXTURES.COUNTER.TARGETS.HARDHAT_V3.folderPath,
+        { project, tag: undefined },
+        { storageProvider, logger },
+        { force: false, debug: false },
+      );
+      const blobsPath = storageProvider.getStoragePath().join(project, "blobs");
+      const blobs = await fs.readdir(blobsPath.resolvedPath);
+      expect(blobs.length).toBeGreaterThan(0);
+
+      // An upload that has not written its manifest yet may reuse any of the blobs
+      const uploadsPath = storageProvider
+        .getStoragePath()
+        .join(project, "uploads");
+      await fs.mkdir(uploadsPath.resolvedPath, { recursive: true });
+      await fs.writeFile(
+        uploadsPath.join("in-progress.json").resolvedPath,
+        JSON.stringify({ startedAt: new Date().toISOString() }),
+      );
+
+      await storageProvider.deleteArtifact(project, id);
+      expect(await storageProvider.hasArtifactById(project, id)).toBe(false);
+      expect((await fs.readdir(blobsPath.resolvedPath)).sort()).toEqual(
+        blobs.sort(),
+      );
+    } finally {
+      await cleanup();
+    }
+  },
+);
+
+storageProviderTest.for(["files", "content-addressed"] as const)(
+  "restore an artifact encrypted with a key file, with the %s layout",
+  async (
+    originalContentLayout,
+    { storageProviderFactory, localArtifactStore },
+  ) => {
+    const logger = new CommandLogger(true);
+    const tempDir = new AbsolutePath(
+      await fs.mkdtemp(
+        path.join(os.tmpdir(), TEST_CONSTANTS.PATHS.TEMP_DIR_PREFIX),
+      ),
+    );
+    const keyFilePath = tempDir.join("ethoko.key");
+    await fs.writeFile(
+      keyFilePath.resolvedPath,
+      crypto.randomBytes(32).toString("base64"),
+    );
+    const { storageProvider, cleanup } = await storageProviderFactory.create({
+      originalContentLayout,
+      encryption: { type: "file", path: keyFilePath },
+    });
+    const project = createTestProjectName(TEST_CONSTANTS.PROJECTS.DEFAULT);
+    const tag = TEST_CONSTANTS.TAGS.V1;
+    const artifactFixture =
+      TEST_CONSTANTS.ARTIFACTS_FIXTURES.COUNTER.TARGETS.HARDHAT_V3;
+
+    try {
+      if (!(storageProvider instanceof FilesystemStorageProvider)) {
+        throw new Error("Expected the default filesystem storage provider");
+      }
+      const id = await runPushCommand(
+        artifactFixture.folderPath,
+        { project, tag },
+        { storageProvider, logger },
+        { force: false, debug: false },
+      );
+
+      // The stored original content is not readable
+      const storedOriginalFiles = await deriveAllAbsolutePathsInDirectory(
+        originalContentLayout === "content-addressed"
+          ? storageProvider.getStoragePath().join(project, "blobs")
+          : storageProvider
+              .getStoragePath()
+              .join(project, "ids", id, "original"),
+      );
+      expect(storedOriginalFiles.length).toBeGreaterThan(0);
+      for (const storedOriginalFile of storedOriginalFiles) {
+        const storedContent = await fs.readFile(
+          storedOriginalFile.resolvedPath,
+        );
+        expect(storedContent.subarray(0, 5).toString("latin1")).toBe("\0ETKO");
+      }
+
+      const outputPath = tempDir.join("restored");
+      const result = await runRestoreCommand(
+        { project, type: "tag", tag },
+        outputPath,
+        { storageProvider, localArtifactStore, logger },
+        { force: false, debug: false },
+      );
+      const expectedRelativePaths = (
+        await deriveAllAbsolutePathsInDirectory(artifactFixture.folderPath)
+      ).map((p) => p.relativeTo(artifactFixture.folderPath).relativePath);
+      expect(result.filesRestored.length).toBe(expectedRelativePaths.length);
+      for (const expectedRelativePath of expectedRelativePaths) {
+        const [restoredContent, originalFileContent] = await Promise.all([
+          fs.readFile(outputPath.join(expectedRelativePath).resolvedPath),
+          fs.readFile(
+            artifactFixture.folderPath.join(expectedRelativePath).resolvedPath,
+          ),
+        ]);
+        expect(restoredContent.equals(originalFileContent)).toBe(true);
+      }
+
+      const verifyResult = await runVerifyCommand(
+        { type: "tag", project, tag },
+        { storageProvider, localArtifactStore, logger },
+        { remote: true, debug: false },
+      );
+      expect(verifyResult.valid).toBe(true);
+    } finally {
+      await cleanup();
+      await fs.rm(tempDir.resolvedPath, { recursive: true, force: true });
+    }
+  },
+);
+
+storageProviderTest(
+  "the unencrypted blobs reused by a push are encrypted once an encryption key is configured",
+  async ({ storageProviderFactory, localArtifactStore }) => {
+    const logger = new CommandLogger(true);
+    const { storageProvider, cleanup } = await storageProviderFactory.create({
+      originalContentLayout: "content-addressed",
+    });
+    const project = createTestProjectName(TEST_CONSTANTS.PROJECTS.DEFAULT);
+    const artifactFixture =
+      TEST_CONSTANTS.ARTIFACTS_FIXTURES.COUNTER.TARGETS.HARDHAT_V3;
+    const tempDir = new AbsolutePath(
+      await fs.mkdtemp(
+        path.join(os.tmpdir(), TEST_CONSTANTS.PATHS.TEMP_DIR_PREFIX),
+      ),
+    );
+
+    try {
+      if (!(storageProvider instanceof FilesystemStorageProvider)) {
+        throw new Error("Expected the default filesystem storage provider");
+      }
+      const id1 = await runPushCommand(
+        artifactFixture.folderPath,
+        { project, tag: undefined },
+        { storageProvider, logger },
+        { force: false, debug: false },
+      );
+
+      // A copy of the fixture compiled with other settings, it shares every original file but its build info input
+      const modifiedFixturePath = tempDir.join("modified");
+      await fs.cp(
+        artifactFixture.folderPath.resolvedPath,
+        modifiedFixturePath.resolvedPath,
+        { recursive: true },
+      );
+      const buildInfoPath = (
+        await deriveAllAbsolutePathsInDirectory(modifiedFixturePath)
+      ).find(
+        (p) =>
+          p.resolvedPath.includes("build-info") &&
+          !p.resolvedPath.endsWith(".output.json"),
+      );
+      if (!buildInfoPath) {
+        throw new Error("Expected a build info input file");
+      }
+      const buildInfo = JSON.parse(
+        await fs.readFile(buildInfoPath.resolvedPath, "utf-8"),
+      );
+      buildInfo.input.settings.optimizer = { enabled: true, runs: 1 };
+      await fs.writeFile(buildInfoPath.resolvedPath, JSON.stringify(buildInfo));
+
+      // Same storage, configured with an encryption key
+      const keyFilePath = tempDir.join("ethoko.key");
+      await fs.writeFile(
+        keyFilePath.resolvedPath,
+        crypto.randomBytes(32).toString("base64"),
+      );
+      const encryptedStorageProvider = new FilesystemStorageProvider({
+        path: storageProvider.getStoragePath(),
+        originalContentLayout: "content-addressed",
+        encryption: { type: "file", path: keyFilePath },
+        logger: new TestLogger(),
+      });
+      const id2 = await runPushCommand(
+        modifiedFixturePath,
+        { project, tag: undefined },
+        { storageProvider: encryptedStorageProvider, logger },
+        { force: false, debug: false },
+      );
+      expect(id2).not.toBe(id1);
+
+      const blobsPath = storageProvider.getStoragePath().join(project, "blobs");
+      const remainingChecksums =
+        await encryptedStorageProvider.getChecksumManifest(project, id2);
+      const id2Blobs = new Set(
+        remainingChecksums?.original.map((file) => file.checksum),
+      );
+      expect(id2Blobs.size).toBeGreaterThan(0);
+      for (const blob of await fs.readdir(blobsPath.resolvedPath)) {
+        if (!id2Blobs.has(blob)) continue;
+        const storedContent = await fs.readFile(
+          blobsPath.join(blob).resolvedPath,
+        );
+        expect(storedContent.subarray(0, 5).toString("latin1")).toBe("\0ETKO");
+      }
+
+      for (const id of [id1, id2]) {
+        const verifyResult = await runVerifyCommand(
+          { type: "id", project, id },
+          {
+            storageProvider: encryptedStorageProvider,
+            localArtifactStore,
+            logger,
+          },
+          { remote: true, debug: false },
+        );
+        expect(verifyResult.valid).toBe(true);
+      }
+    } finally {
+      await cleanup();
+      await fs.rm(tempDir.resolvedPath, { recursive: true, force: true });
+    }
   },
 );
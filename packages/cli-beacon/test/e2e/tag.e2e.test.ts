@@ -0,0 +1,282 @@
+import { describe, expect } from "vitest";
+import { TEST_CONSTANTS } from "@test/helpers/test-constants";
+import { createTestProjectName } from "@test/helpers/test-utils";
+import {
+  STORAGE_PROVIDER_STRATEGIES,
+  storageProviderTest,
+} from "@test/helpers/storage-provider-test";
+import { CommandLogger } from "@/ui";
+import { runPushCommand } from "@/commands/push";
+import { runPullCommand } from "@/commands/pull";
+import {
+  runTagAddCommand,
+  runTagHistoryCommand,
+  runTagListCommand,
+  runTagMoveCommand,
+  runTagRemoveCommand,
+} from "@/commands/tag";
+
+describe.for(STORAGE_PROVIDER_STRATEGIES)(
+  "Tag E2E Tests (%s)",
+  ([, storageProviderFactory]) => {
+    const logger = new CommandLogger(true);
+    storageProviderTest.scoped({ storageProviderFactory });
+
+    storageProviderTest(
+      "tag history records every push of a tag",
+      async ({ storageProvider }) => {
+        const project = createTestProjectName(
+          TEST_CONSTANTS.PROJECTS.FORCE_TEST,
+        );
+        const tag = TEST_CONSTANTS.TAGS.LATEST;
+
+        const id1 = await runPushCommand(
+          TEST_CONSTANTS.ARTIFACTS_FIXTURES.COUNTER.TARGETS.HARDHAT_V3
+            .folderPath,
+          { project, tag },
+          { storageProvider, logger },
+          { force: false, debug: false },
+        );
+        const id2 = await runPushCommand(
+          TEST_CONSTANTS.ARTIFACTS_FIXTURES.COUNTER.TARGETS.HARDHAT_V2
+            .folderPath,
+          { project, tag },
+          { storageProvider, logger },
+          { force: true, debug: false },
+        );
+
+        const result = await runTagHistoryCommand(
+          { project, tag },
+          { storageProvider, logger },
+          { debug: false },
+        );
+
+        expect(result.currentId).toBe(id2);
+        expect(result.entries).toHaveLength(2);
+        expect(result.entries[0]).toMatchObject({
+          id: id1,
+          previousId: null,
+        });
+        expect(result.entries[1]).toMatchObject({
+          id: id2,
+          previousId: id1,
+        });
+        for (const entry of result.entries) {
+          expect(entry.cliVersion).toBeTruthy();
+          expect(Date.parse(entry.timestamp)).not.toBeNaN();
+        }
+      },
+    );
+
+    storageProviderTest(
+      "pushing without tag does not record any history",
+      async ({ storageProvider }) => {
+        const project = createTestProjectName(TEST_CONSTANTS.PROJECTS.DEFAULT);
+
+        await runPushCommand(
+          TEST_CONSTANTS.ARTIFACTS_FIXTURES.COUNTER.TARGETS.HARDHAT_V3
+            .folderPath,
+          { project, tag: undefined },
+          { storageProvider, logger },
+          { force: false, debug: false },
+        );
+
+        await expect(
+          runTagHistoryCommand(
+            { project, tag: TEST_CONSTANTS.TAGS.V1 },
+            { storageProvider, logger },
+            { debug: false },
+          ),
+        ).rejects.toThrow(/does not exist/);
+      },
+    );
+
+    storageProviderTest(
+      "concurrent tag history appends keep every entry",
+      async ({ storageProvider }) => {
+        const project = createTestProjectName(TEST_CONSTANTS.PROJECTS.DEFAULT);
+        const tag = TEST_CONSTANTS.TAGS.LATEST;
+        const entry = (id: string, previousId: string | null) => ({
+          id,
+          previousId,
+          timestamp: new Date().toISOString(),
+          pushedBy: { gitUser: null, storageIdentity: null },
+          cliVersion: "0.0.0",
+        });
+
+        await Promise.all([
+          storageProvider.appendTagHistory(project, tag, entry("a", null)),
+          storageProvider.appendTagHistory(project, tag, entry("b", null)),
+        ]);
+
+        const entries = await storageProvider.getTagHistory(project, tag);
+        expect(entries.map(({ id }) => id).sort()).toEqual(["a", "b"]);
+      },
+    );
+
+    storageProviderTest(
+      "tags can be added, moved, listed and removed without re-pushing",
+      async ({ storageProvider, localArtifactStore }) => {
+        const project = createTestProjectName(TEST_CONSTANTS.PROJECTS.DEFAULT);
+        const tag = TEST_CONSTANTS.TAGS.LATEST;
+
+        const id1 = await runPushCommand(
+          TEST_CONSTANTS.ARTIFACTS_FIXTURES.COUNTER.TARGETS.HARDHAT_V3
+            .folderPath,
+          { project, tag: TEST_CONSTANTS.TAGS.V1 },
+          { storageProvider, logger },
+          { force: false, debug: false },
+        );
+        const id2 = await runPushCommand(
+          TEST_CONSTANTS.ARTIFACTS_FIXTURES.COUNTER.TARGETS.HARDHAT_V2
+            .folderPath,
+          { project, tag: undefined },
+          { storageProvider, logger },
+          { force: false, debug: false },
+        );
+        await runPullCommand(
+          { type: "project", project },
+          { storageProvider, localArtifactStore, logger },
+          { force: false, debug: false },
+        );
+
+        const addResult = await runTagAddCommand(
+          { project, id: id1, tag },
+          { storageProvider, localArtifactStore, logger },
+          { debug: false },
+        );
+        expect(addResult).toMatchObject({
+          id: id1,
+          previousId: null,
+          historyRecorded: true,
+        });
+        expect(await localArtifactStore.retrieveArtifactId(project, tag)).toBe(
+          id1,
+        );
+
+        await expect(
+          runTagAddCommand(
+            { project, id: id2, tag },
+            { storageProvider, localArtifactStore, logger },
+            { debug: false },
+          ),
+        ).rejects.toThrow(/already exists/);
+
+        await runTagMoveCommand(
+          { project, id: id2, tag },
+          { storageProvider, localArtifactStore, logger },
+          { debug: false },
+        );
+        expect(await storageProvider.resolveTagId(project, tag)).toBe(id2);
+        expect(await localArtifactStore.retrieveArtifactId(project, tag)).toBe(
+          id2,
+        );
+
+        const tags = await runTagListCommand(
+          { project },
+          { storageProvider, logger },
+          { debug: false },
+        );
+        expect(tags).toEqual([
+          { tag, id: id2 },
+          { tag: TEST_CONSTANTS.TAGS.V1, id: id1 },
+        ]);
+
+        await runTagRemoveCommand(
+          { project, tag },
+          { storageProvider, localArtifactStore, logger },
+          { debug: false },
+        );
+        expect(
+          await storageProvider.resolveTagId(project, tag),
+        ).toBeUndefined();
+        expect(await localArtifactStore.hasTag(project, tag)).toBe(false);
+        expect(await storageProvider.hasArtifactById(project, id2)).toBe(true);
+
+        const history = await runTagHistoryCommand(
+          { project, tag },
+          { storageProvider, logger },
+          { debug: false },
+        );
+        expect(history.currentId).toBeNull();
+        expect(
+          history.entries.map(({ id, previousId }) => ({ id, previousId })),
+        ).toEqual([
+          { id: id1, previousId: null },
+          { id: id2, previousId: id1 },
+          { id: null, previousId: id2 },
+        ]);
+      },
+    );
+
+    storageProviderTest(
+      "tags can not point to an unknown artifact ID",
+      async ({ storageProvider, localArtifactStore }) => {
+        const project = createTestProjectName(TEST_CONSTANTS.PROJECTS.DEFAULT);
+
+        await expect(
+          runTagAddCommand(
+            { project, id: "unknown-id", tag: TEST_CONSTANTS.TAGS.LATEST },
+            { storageProvider, localArtifactStore, logger },
+            { debug: false },
+          ),
+        ).rejects.toThrow(/does not exist/);
+      },
+    );
+
+    storageProviderTest(
+      "protected tags can not be moved or removed",
+      async ({ storageProviderFactory, localArtifactStore }) => {
+        const { storageProvider, cleanup } =
+          await storageProviderFactory.create({ protectedTags: ["v*"] });
+        const project = createTestProjectName(TEST_CONSTANTS.PROJECTS.DEFAULT);
+        const tag = TEST_CONSTANTS.TAGS.V1;
+
+        try {
+          const id1 = await runPushCommand(
+            TEST_CONSTANTS.ARTIFACTS_FIXTURES.COUNTER.TARGETS.HARDHAT_V3
+              .folderPath,
+            { project, tag },
+            { storageProvider, logger },
+            { force: false, debug: false, protectedTags: ["v*"] },
+          );
+          const id2 = await runPushCommand(
+            TEST_CONSTANTS.ARTIFACTS_FIXTURES.COUNTER.TARGETS.HARDHAT_V2
+              .folderPath,
+            { project, tag: undefined },
+            { storageProvider, logger },
+            { force: false, debug: false },
+          );
+
+          await expect(
+            runTagMoveCommand(
+              { project, id: id2, tag },
+              { storageProvider, localArtifactStore, logger },
+              { debug: false, protectedTags: ["v*"] },
+            ),
+          ).rejects.toThrow(/is protected by the "v\*" pattern/);
+          await expect(
+            runTagRemoveCommand(
+              { project, tag },
+              { storageProvider, localArtifactStore, logger },
+              { debug: false, protectedTags: ["v*"] },
+            ),
+          ).rejects.toThrow(/is protected by the "v\*" pattern/);
+
+          // The storage provider rejects the changes even if the client side check is skipped
+          await expect(
+            runTagRemoveCommand(
+              { project, tag },
+              { storageProvider, localArtifactStore, logger },
+              { debug: false },
+            ),
+          ).rejects.toThrow(/Error removing the tag/);
+
+          expect(await storageProvider.resolveTagId(project, tag)).toBe(id1);
+        } finally {
+          await cleanup();
+        }
+      },
+    );
+  },
+);
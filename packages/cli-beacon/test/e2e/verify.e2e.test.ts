@@ -0,0 +1,287 @@
+import fs from "fs/promises";
+import { describe, expect } from "vitest";
+import { TEST_CONSTANTS } from "@test/helpers/test-constants";
+import { createTestProjectName } from "@test/helpers/test-utils";
+import {
+  STORAGE_PROVIDER_STRATEGIES,
+  storageProviderTest,
+} from "@test/helpers/storage-provider-test";
+import { CommandLogger } from "@/ui";
+import { runPushCommand } from "@/commands/push";
+import { runPullCommand } from "@/commands/pull";
+import { runVerifyCommand } from "@/commands/verify";
+import { FilesystemStorageProvider } from "@/storage-provider";
+
+describe.for(STORAGE_PROVIDER_STRATEGIES)(
+  "Verify E2E Tests (%s)",
+  ([, storageProviderFactory]) => {
+    const logger = new CommandLogger(true);
+    storageProviderTest.scoped({ storageProviderFactory });
+
+    storageProviderTest(
+      "a pushed artifact is intact on the storage, original content included",
+      async ({ storageProvider, localArtifactStore }) => {
+        const project = createTestProjectName(TEST_CONSTANTS.PROJECTS.DEFAULT);
+        const tag = TEST_CONSTANTS.TAGS.V1;
+        const id = await runPushCommand(
+          TEST_CONSTANTS.ARTIFACTS_FIXTURES.COUNTER.TARGETS.HARDHAT_V3
+            .folderPath,
+          { project, tag },
+          { storageProvider, logger },
+          { force: false, debug: false },
+        );
+        const checksums = await storageProvider.getChecksumManifest(
+          project,
+          id,
+        );
+        const originalContent = await storageProvider.listOriginalContent(
+          project,
+          id,
+        );
+        expect(checksums?.original).toHaveLength(originalContent.length);
+
+        const result = await runVerifyCommand(
+          { type: "tag", project, tag },
+          { storageProvider, localArtifactStore, logger },
+          { remote: true, debug: false },
+        );
+
+        expect(result).toEqual({
+          project,
+          tag,
+          id,
+          location: "remote",
+          derivedId: id,
+          hasChecksumManifest: true,
+          checkedFiles:
+            1 + (checksums?.outputs.length ?? 0) + originalContent.length,
+          mismatches: [],
+          valid: true,
+        });
+      },
+    );
+
+    storageProviderTest(
+      "a pulled artifact is intact in the Local Artifact Store",
+      async ({ storageProvider, localArtifactStore }) => {
+        const project = createTestProjectName(TEST_CONSTANTS.PROJECTS.DEFAULT);
+        const id = await runPushCommand(
+          TEST_CONSTANTS.ARTIFACTS_FIXTURES.COUNTER.TARGETS.HARDHAT_V2
+            .folderPath,
+          { project, tag: undefined },
+          { storageProvider, logger },
+          { force: false, debug: false },
+        );
+        await runPullCommand(
+          { type: "id", project, id },
+          { storageProvider, localArtifactStore, logger },
+          { force: false, debug: false },
+        );
+
+        const result = await runVerifyCommand(
+          { type: "id", project, id },
+          { storageProvider, localArtifactStore, logger },
+          { remote: false, debug: false },
+        );
+
+        expect(result).toMatchObject({
+          location: "local",
+          derivedId: id,
+          hasChecksumManifest: true,
+          mismatches: [],
+          valid: true,
+        });
+      },
+    );
+
+    storageProviderTest(
+      "detects a tampered output artifact and a tampered compilation input in the Local Artifact Store",
+      async ({ storageProvider, localArtifactStore }) => {
+        const project = createTestProjectName(TEST_CONSTANTS.PROJECTS.DEFAULT);
+        const tag = TEST_CONSTANTS.TAGS.V1;
+        const id = await runPushCommand(
+          TEST_CONSTANTS.ARTIFACTS_FIXTURES.COUNTER.TARGETS.HARDHAT_V3
+            .folderPath,
+          { project, tag },
+          { storageProvider, logger },
+          { force: false, debug: false },
+        );
+        await runPullCommand(
+          { type: "tag", project, tag },
+          { storageProvider, localArtifactStore, logger },
+          { force: false, debug: false },
+        );
+        const idPath = localArtifactStore.rootPath.join(project, "ids", id);
+
+        const [output] = await localArtifactStore.listContractArtifacts(
+          project,
+          id,
+        );
+        if (!output) {
+          throw new Error("Expected at least one contract output artifact");
+        }
+        const outputPath = idPath.join(
+          "outputs",
+          output.sourceName,
+          `${output.contractName}.json`,
+        );
+        const outputArtifact = JSON.parse(
+          await fs.readFile(outputPath.resolvedPath, "utf-8"),
+        );
+        outputArtifact.output.contract.abi = [];
+        await fs.writeFile(
+          outputPath.resolvedPath,
+          JSON.stringify(outputArtifact),
+        );
+
+        const outputResult = await runVerifyCommand(
+          { type: "tag", project, tag },
+          { storageProvider, localArtifactStore, logger },
+          { remote: false, debug: false },
+        );
+        expect(outputResult).toMatchObject({
+          derivedId: id,
+          mismatches: [
+            {
+              file: `outputs/${output.sourceName}/${output.contractName}.json`,
+              reason: "modified",
+            },
+          ],
+          valid: false,
+        });
+
+        const inputPath = idPath.join("input.json");
+        const inputArtifact = JSON.parse(
+          await fs.readFile(inputPath.resolvedPath, "utf-8"),
+        );
+        inputArtifact.input.settings.optimizer = { enabled: true, runs: 1 };
+        await fs.writeFile(
+          inputPath.resolvedPath,
+          JSON.stringify(inputArtifact),
+        );
+
+        const inputResult = await runVerifyCommand(
+          { type: "tag", project, tag },
+          { storageProvider, localArtifactStore, logger },
+          { remote: false, debug: false },
+        );
+        expect(inputResult.valid).toBe(false);
+        expect(inputResult.derivedId).not.toBe(id);
+        expect(inputResult.mismatches).toContainEqual({
+          file: "input.json",
+          reason: "modified",
+        });
+
+        // The copy on the storage is untouched
+        const remoteResult = await runVerifyCommand(
+          { type: "tag", project, tag },
+          { storageProvider, localArtifactStore, logger },
+          { remote: true, debug: false },
+        );
+        expect(remoteResult.valid).toBe(true);
+      },
+    );
+
+    storageProviderTest(
+      "refuses to verify locally an artifact that is not pulled",
+      async ({ storageProvider, localArtifactStore }) => {
+        const project = createTestProjectName(TEST_CONSTANTS.PROJECTS.DEFAULT);
+        const tag = TEST_CONSTANTS.TAGS.V1;
+        await runPushCommand(
+          TEST_CONSTANTS.ARTIFACTS_FIXTURES.COUNTER.TARGETS.HARDHAT_V3
+            .folderPath,
+          { project, tag },
+          { storageProvider, logger },
+          { force: false, debug: false },
+        );
+
+        await expect(
+          runVerifyCommand(
+            { type: "tag", project, tag },
+            { storageProvider, localArtifactStore, logger },
+            { remote: false, debug: false },
+          ),
+        ).rejects.toThrow("is not in the Local Artifact Store");
+      },
+    );
+  },
+);
+
+storageProviderTest(
+  "detects tampered original content on the storage",
+  async ({ storageProvider, localArtifactStore }) => {
+    const logger = new CommandLogger(true);
+    const project = createTestProjectName(TEST_CONSTANTS.PROJECTS.DEFAULT);
+    const id = await runPushCommand(
+      TEST_CONSTANTS.ARTIFACTS_FIXTURES.COUNTER.TARGETS.HARDHAT_V3.folderPath,
+      { project, tag: undefined },
+      { storageProvider, logger },
+      { force: false, debug: false },
+    );
+    if (!(storageProvider instanceof FilesystemStorageProvider)) {
+      throw new Error("Expected the default filesystem storage provider");
+    }
+    const [originalContentPath] = await storageProvider.listOriginalContent(
+      project,
+      id,
+    );
+    if (!originalContentPath) {
+      throw new Error("Expected at least one original content file");
+    }
+    const idPath = storageProvider.getStoragePath().join(project, "ids", id);
+    await fs.appendFile(
+      idPath.join("original").join(originalContentPath).resolvedPath,
+      "\n",
+    );
+
+    const result = await runVerifyCommand(
+      { type: "id", project, id },
+      { storageProvider, localArtifactStore, logger },
+      { remote: true, debug: false },
+    );
+
+    expect(result.derivedId).toBe(id);
+    expect(result.mismatches).toEqual([
+      {
+        file: `original/${originalContentPath.relativePath}`,
+        reason: "modified",
+      },
+    ]);
+    expect(result.valid).toBe(false);
+  },
+);
+
+storageProviderTest(
+  "only verifies the ID of an artifact pushed before checksums existed",
+  async ({ storageProvider, localArtifactStore }) => {
+    const logger = new CommandLogger(true);
+    const project = createTestProjectName(TEST_CONSTANTS.PROJECTS.DEFAULT);
+    const id = await runPushCommand(
+      TEST_CONSTANTS.ARTIFACTS_FIXTURES.COUNTER.TARGETS.HARDHAT_V2.folderPath,
+      { project, tag: undefined },
+      { storageProvider, logger },
+      { force: false, debug: false },
+    );
+    if (!(storageProvider instanceof FilesystemStorageProvider)) {
+      throw new Error("Expected the default filesystem storage provider");
+    }
+    await fs.rm(
+      storageProvider
+        .getStoragePath()
+        .join(project, "ids", id, "checksums.json").resolvedPath,
+    );
+
+    const result = await runVerifyCommand(
+      { type: "id", project, id },
+      { storageProvider, localArtifactStore, logger },
+      { remote: true, debug: false },
+    );
+
+    expect(result).toMatchObject({
+      derivedId: id,
+      hasChecksumManifest: false,
+      mismatches: [],
+      valid: true,
+    });
+  },
+);
@@ -0,0 +1,82 @@
+import { exec } from "child_process";
+import { promisify } from "util";
+import { BlobServiceClient, ContainerClient } from "@azure/storage-blob";
+import { TEST_CONSTANTS } from "./test-constants";
+import { TestSession } from "./test-session";
+
+const execAsync = promisify(exec);
+
+export class AzuriteHelper {
+  private containerClient: ContainerClient | null = null;
+
+  public async start(): Promise<void> {
+    console.log("🐳 Starting Azurite container...");
+    await execAsync("docker compose -f compose.test.yml up -d azurite");
+
+    const serviceClient = BlobServiceClient.fromConnectionString(
+      TEST_CONSTANTS.AZURITE.CONNECTION_STRING,
+    );
+    await this.waitForHealthy(serviceClient);
+
+    this.containerClient = serviceClient.getContainerClient(
+      TEST_CONSTANTS.BUCKET_NAME,
+    );
+    await this.containerClient.createIfNotExists();
+    console.log(
+      `📦 Created test Azure container: ${TEST_CONSTANTS.BUCKET_NAME}`,
+    );
+  }
+
+  public async stop(): Promise<void> {
+    console.log("🛑 Stopping Azurite container...");
+    await execAsync("docker compose -f compose.test.yml rm -s -f -v azurite");
+  }
+
+  public async cleanupSession(): Promise<void> {
+    if (!this.containerClient) return;
+
+    const sessionId = TestSession.getInstance().getSessionId();
+    console.log(`🧹 Cleaning up Azure session: ${sessionId}`);
+
+    try {
+      let deleteCount = 0;
+      for await (const blob of this.containerClient.listBlobsFlat({
+        prefix: `projects/${sessionId}-`,
+      })) {
+        await this.containerClient.deleteBlob(blob.name);
+        deleteCount += 1;
+      }
+      if (deleteCount > 0) {
+        console.log(`   Deleted ${deleteCount} blobs from session`);
+      } else {
+        console.log("   No blobs to clean up");
+      }
+    } catch (error) {
+      console.error("   Error during cleanup:", error);
+    }
+  }
+
+  private async waitForHealthy(
+    serviceClient: BlobServiceClient,
+    maxRetries = 60,
+  ): Promise<void> {
+    console.log("⏳ Waiting for Azurite to be ready...");
+
+    let lastError: unknown;
+    for (let i = 0; i < maxRetries; i += 1) {
+      try {
+        await serviceClient.getProperties();
+        console.log("✅ Azurite blob endpoint is ready");
+        return;
+      } catch (error) {
+        lastError = error;
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, 1000));
+    }
+
+    throw new Error(
+      `Azurite failed to become ready within timeout: ${String(lastError)}`,
+    );
+  }
+}
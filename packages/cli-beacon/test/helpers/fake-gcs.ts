@@ -0,0 +1,87 @@
+import { exec } from "child_process";
+import { promisify } from "util";
+import { Storage } from "@google-cloud/storage";
+import { TEST_CONSTANTS } from "./test-constants";
+import { TestSession } from "./test-session";
+
+const execAsync = promisify(exec);
+
+export class FakeGcsHelper {
+  private storage: Storage | null = null;
+
+  public async start(): Promise<void> {
+    console.log("🐳 Starting fake GCS server container...");
+    await execAsync("docker compose -f compose.test.yml up -d fake-gcs");
+
+    await this.waitForHealthy();
+
+    this.storage = new Storage({
+      apiEndpoint: TEST_CONSTANTS.FAKE_GCS.ENDPOINT,
+      projectId: TEST_CONSTANTS.FAKE_GCS.PROJECT_ID,
+    });
+
+    await this.createBucket(TEST_CONSTANTS.BUCKET_NAME);
+    console.log(`📦 Created test GCS bucket: ${TEST_CONSTANTS.BUCKET_NAME}`);
+  }
+
+  public async stop(): Promise<void> {
+    console.log("🛑 Stopping fake GCS server container...");
+    await execAsync("docker compose -f compose.test.yml rm -s -f -v fake-gcs");
+  }
+
+  public async cleanupSession(): Promise<void> {
+    if (!this.storage) return;
+
+    const sessionId = TestSession.getInstance().getSessionId();
+    console.log(`🧹 Cleaning up GCS session: ${sessionId}`);
+
+    try {
+      const [files] = await this.storage
+        .bucket(TEST_CONSTANTS.BUCKET_NAME)
+        .getFiles({ prefix: `projects/${sessionId}-` });
+      if (files.length > 0) {
+        await Promise.all(files.map((file) => file.delete()));
+        console.log(`   Deleted ${files.length} objects from session`);
+      } else {
+        console.log("   No objects to clean up");
+      }
+    } catch (error) {
+      console.error("   Error during cleanup:", error);
+    }
+  }
+
+  private async createBucket(bucketName: string): Promise<void> {
+    if (!this.storage) {
+      throw new Error("GCS client not initialized");
+    }
+
+    const [exists] = await this.storage.bucket(bucketName).exists();
+    if (!exists) {
+      await this.storage.createBucket(bucketName);
+    }
+  }
+
+  private async waitForHealthy(maxRetries = 60): Promise<void> {
+    console.log("⏳ Waiting for fake GCS server to be ready...");
+    const bucketsUrl = `${TEST_CONSTANTS.FAKE_GCS.ENDPOINT}/storage/v1/b`;
+
+    let lastError: unknown;
+    for (let i = 0; i < maxRetries; i += 1) {
+      try {
+        const response = await fetch(bucketsUrl);
+        if (response.ok) {
+          console.log("✅ Fake GCS server is ready");
+          return;
+        }
+      } catch (error) {
+        lastError = error;
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, 1000));
+    }
+
+    throw new Error(
+      `Fake GCS server failed to become ready within timeout: ${String(lastError)}`,
+    );
+  }
+}
@@ -0,0 +1,306 @@
+import http from "http";
+import { AddressInfo } from "net";
+
+/**
+ * In-memory implementation of the HTTP storage REST contract, see `docs/external/HTTP-STORAGE-API.md`.
+ *
+ * Objects are kept in a map keyed by their logical storage path, e.g. `{project}/ids/{id}/input.json`.
+ * Requests must carry the configured bearer token.
+ */
+export class MockHttpStorageServer {
+  private readonly objects = new Map<string, Buffer>();
+  // Date of the last write of each object, ISO 8601 format
+  private readonly modifiedAt = new Map<string, string>();
+  private server: http.Server | undefined;
+
+  constructor(private readonly token: string) {}
+
+  /**
+   * Starts the server on an ephemeral port.
+   * @returns The base URL of the API
+   */
+  public async start(): Promise<string> {
+    const server = http.createServer((req, res) => {
+      this.handle(req, res).catch((error) => {
+        res.writeHead(500, { "Content-Type": "text/plain" });
+        res.end(String(error));
+      });
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve),
+    );
+    this.server = server;
+    const { port } = server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}/api/v1`;
+  }
+
+  public async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+    await new Promise<void>((resolve, reject) =>
+      server.close((err) => (err ? reject(err) : resolve())),
+    );
+  }
+
+  private async handle(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+  ): Promise<void> {
+    if (req.headers.authorization !== `Bearer ${this.token}`) {
+      return this.send(res, 401);
+    }
+
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const prefix = "/api/v1/projects/";
+    if (!url.pathname.startsWith(prefix)) {
+      return this.send(res, 404);
+    }
+    const segments = url.pathname
+      .slice(prefix.length)
+      .split("/")
+      .map((segment) => decodeURIComponent(segment));
+
+    // A project is either `name` or `namespace/name`
+    const resourceIndex = ["tags", "ids", "artifacts", "index"].includes(
+      segments[1] ?? "",
+    )
+      ? 1
+      : 2;
+    const project = segments.slice(0, resourceIndex).join("/");
+    const [resource, ...rest] = segments.slice(resourceIndex);
+    const method = req.method ?? "GET";
+
+    if (resource === "tags") {
+      const [tag, sub] = rest;
+      if (!tag) {
+        return this.sendJson(res, {
+          tags: this.listKeys(`${project}/tags/`).map((key) =>
+            key.replace(".json", ""),
+          ),
+        });
+      }
+      if (sub === "history") {
+        return this.handleTagHistory(
+          req,
+          res,
+          `${project}/tag-history/${tag}.json`,
+        );
+      }
+      return this.handleObject(req, res, `${project}/tags/${tag}.json`);
+    }
+
+    if (resource === "artifacts" && rest.length === 0) {
+      return this.sendJson(res, {
+        artifacts: this.summarizeArtifacts(project),
+      });
+    }
+
+    if (resource === "index") {
+      const [sub] = rest;
+      if (
+        (method === "GET" && !sub) ||
+        (method === "POST" && sub === "rebuild")
+      ) {
+        return this.sendJson(res, this.buildIndex(project));
+      }
+      return this.send(res, 404);
+    }
+
+    if (resource === "ids") {
+      const [id, kind, sub] = rest;
+      if (!id) {
+        const ids = new Set(
+          this.listKeys(`${project}/ids/`).map((key) => key.split("/")[0]),
+        );
+        return this.sendJson(res, { ids: [...ids] });
+      }
+      const idPrefix = `${project}/ids/${id}/`;
+      if (!kind) {
+        const keys = this.listKeys(idPrefix);
+        if (keys.length > 0 && method === "DELETE") {
+          for (const key of keys) {
+            this.objects.delete(`${idPrefix}${key}`);
+          }
+          return this.send(res, 204);
+        }
+        return this.send(res, keys.length > 0 ? 200 : 404);
+      }
+      if (kind === "input") {
+        return this.handleObject(req, res, `${idPrefix}input.json`);
+      }
+      if (kind === "checksums") {
+        return this.handleObject(req, res, `${idPrefix}checksums.json`);
+      }
+      if (kind === "outputs" && !sub && method === "GET") {
+        return this.sendJson(res, {
+          outputs: this.listKeys(`${idPrefix}outputs/`).map((key) => {
+            const items = key.split("/");
+            const contractName = (items.pop() ?? "").replace(".json", "");
+            return { sourceName: items.join("/"), contractName };
+          }),
+        });
+      }
+      if (kind === "outputs" && sub === "content") {
+        const sourceName = url.searchParams.get("sourceName");
+        const contractName = url.searchParams.get("contractName");
+        if (!sourceName || !contractName) {
+          return this.send(res, 400);
+        }
+        return this.handleObject(
+          req,
+          res,
+          `${idPrefix}outputs/${sourceName}/${contractName}.json`,
+        );
+      }
+      if (kind === "original" && !sub && method === "GET") {
+        return this.sendJson(res, {
+          paths: this.listKeys(`${idPrefix}original/`),
+        });
+      }
+      if (kind === "original" && sub === "content") {
+        const relativePath = url.searchParams.get("path");
+        if (!relativePath) {
+          return this.send(res, 400);
+        }
+        return this.handleObject(
+          req,
+          res,
+          `${idPrefix}original/${relativePath}`,
+        );
+      }
+    }
+
+    return this.send(res, 404);
+  }
+
+  private async handleObject(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    key: string,
+  ): Promise<void> {
+    if (req.method === "PUT") {
+      if (req.headers["if-none-match"] === "*" && this.objects.has(key)) {
+        return this.send(res, 412);
+      }
+      this.objects.set(key, await this.readBody(req));
+      this.modifiedAt.set(key, new Date().toISOString());
+      return this.send(res, 204);
+    }
+    const content = this.objects.get(key);
+    if (!content) {
+      return this.send(res, 404);
+    }
+    if (req.method === "DELETE") {
+      this.objects.delete(key);
+      return this.send(res, 204);
+    }
+    if (req.method === "HEAD") {
+      return this.send(res, 200);
+    }
+    res.writeHead(200, { "Content-Type": "application/octet-stream" });
+    res.end(content);
+  }
+
+  /**
+   * The history is read as a whole and entries are appended one by one.
+   */
+  private async handleTagHistory(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    key: string,
+  ): Promise<void> {
+    // The body is read before the history, so that concurrent appends do not lose entries
+    const body = req.method === "POST" ? await this.readBody(req) : undefined;
+    const content = this.objects.get(key);
+    const history = content
+      ? (JSON.parse(content.toString("utf-8")) as { entries: unknown[] })
+      : undefined;
+    if (body) {
+      const entry = JSON.parse(body.toString("utf-8"));
+      const entries = [...(history?.entries ?? []), entry];
+      this.objects.set(key, Buffer.from(JSON.stringify({ entries })));
+      return this.send(res, 204);
+    }
+    if (!history) {
+      return this.send(res, 404);
+    }
+    return this.sendJson(res, history);
+  }
+
+  /**
+   * The index is derived from the stored objects, it is always up to date.
+   */
+  private buildIndex(project: string): unknown {
+    const tags: Record<string, string> = {};
+    for (const key of this.listKeys(`${project}/tags/`)) {
+      const manifest = JSON.parse(
+        this.objects.get(`${project}/tags/${key}`)?.toString("utf-8") ?? "{}",
+      );
+      tags[key.replace(".json", "")] = manifest.id;
+    }
+    return {
+      _format: "ethoko-index-v0",
+      artifacts: this.summarizeArtifacts(project),
+      tags,
+    };
+  }
+
+  /**
+   * Summaries are derived from the stored input artifacts, a real server would rather keep them in its database.
+   */
+  private summarizeArtifacts(project: string): unknown[] {
+    const idsPrefix = `${project}/ids/`;
+    return this.listKeys(idsPrefix)
+      .filter(
+        (key) => key.endsWith("/input.json") && key.split("/").length === 2,
+      )
+      .map((key) => {
+        const id = key.split("/")[0] ?? "";
+        const input = JSON.parse(
+          this.objects.get(`${idsPrefix}${key}`)?.toString("utf-8") ?? "{}",
+        );
+        const contracts = this.listKeys(`${idsPrefix}${id}/outputs/`).map(
+          (outputKey) => {
+            const items = outputKey.split("/");
+            const contractName = (items.pop() ?? "").replace(".json", "");
+            return { sourceName: items.join("/"), contractName };
+          },
+        );
+        return {
+          id,
+          origin: input.origin,
+          solcLongVersion: input.solcLongVersion,
+          contracts,
+          pushedAt: this.modifiedAt.get(`${idsPrefix}${key}`) ?? null,
+          metadata: input.metadata,
+        };
+      });
+  }
+
+  private async readBody(req: http.IncomingMessage): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+      chunks.push(chunk as Buffer);
+    }
+    return Buffer.concat(chunks);
+  }
+
+  /**
+   * Lists the keys under a prefix, relative to that prefix.
+   */
+  private listKeys(prefix: string): string[] {
+    return [...this.objects.keys()]
+      .filter((key) => key.startsWith(prefix))
+      .map((key) => key.slice(prefix.length));
+  }
+
+  private sendJson(res: http.ServerResponse, body: unknown): void {
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(body));
+  }
+
+  private send(res: http.ServerResponse, status: number): void {
+    res.writeHead(status);
+    res.end();
+  }
+}
@@ -2,19 +2,36 @@ import fs from "fs/promises";
 import os from "os";
 import path from "path";
 import {
+  ArtifactCompression,
+  ArtifactEncryption,
+  AzureBlobProvider,
   FilesystemStorageProvider,
+  GcsBucketProvider,
+  HttpStorageProvider,
+  OriginalContentLayout,
   StorageProvider,
   S3BucketProvider,
 } from "@/storage-provider";
 import { TEST_CONSTANTS } from "./test-constants";
 import { AbsolutePath } from "@/utils/path";
 import { TestLogger } from "./test-logger";
+import { MockHttpStorageServer } from "./http-storage-server";
 
 export abstract class StorageProviderFactory<
   T extends StorageProvider = StorageProvider,
 > {
-  abstract create(): Promise<TestStorageProvider<T>>;
+  abstract create(
+    opts?: TestStorageProviderOptions,
+  ): Promise<TestStorageProvider<T>>;
 }
+type TestStorageProviderOptions = {
+  protectedTags?: string[];
+  // Ignored by the HTTP storage provider, the layout is up to the server
+  originalContentLayout?: OriginalContentLayout;
+  // Only used by the filesystem and S3 storage providers
+  compression?: ArtifactCompression;
+  encryption?: ArtifactEncryption;
+};
 interface TestStorageProvider<T extends StorageProvider = StorageProvider> {
   storageProvider: T;
   cleanup: () => Promise<void>;
@@ -25,13 +42,19 @@ export class TestFilesystemStorageProviderFactory extends StorageProviderFactory
     super();
   }
 
-  async create(): Promise<TestStorageProvider<FilesystemStorageProvider>> {
+  async create(
+    opts: TestStorageProviderOptions = {},
+  ): Promise<TestStorageProvider<FilesystemStorageProvider>> {
     const tempDir = await fs.mkdtemp(
       path.join(os.tmpdir(), TEST_CONSTANTS.PATHS.TEMP_DIR_PREFIX),
     );
 
     const storageProvider = new FilesystemStorageProvider({
       path: new AbsolutePath(tempDir),
+      protectedTags: opts.protectedTags,
+      originalContentLayout: opts.originalContentLayout,
+      compression: opts.compression,
+      encryption: opts.encryption,
       debug: this.debug,
       logger: new TestLogger(),
     });
@@ -49,7 +72,9 @@ export class TestS3StorageProviderFactory extends StorageProviderFactory<S3Bucke
     super();
   }
 
-  async create(): Promise<TestStorageProvider<S3BucketProvider>> {
+  async create(
+    opts: TestStorageProviderOptions = {},
+  ): Promise<TestStorageProvider<S3BucketProvider>> {
     const storageProvider = new S3BucketProvider({
       bucketName: TEST_CONSTANTS.BUCKET_NAME,
       bucketRegion: TEST_CONSTANTS.LOCALSTACK.REGION,
@@ -60,6 +85,10 @@ export class TestS3StorageProviderFactory extends StorageProviderFactory<S3Bucke
       },
       endpoint: TEST_CONSTANTS.LOCALSTACK.ENDPOINT,
       forcePathStyle: true,
+      protectedTags: opts.protectedTags,
+      originalContentLayout: opts.originalContentLayout,
+      compression: opts.compression,
+      encryption: opts.encryption,
       debug: this.debug,
       rootPath: "projects",
       logger: new TestLogger(),
@@ -72,3 +101,87 @@ export class TestS3StorageProviderFactory extends StorageProviderFactory<S3Bucke
     return { storageProvider, cleanup };
   }
 }
+
+export class TestGcsStorageProviderFactory extends StorageProviderFactory<GcsBucketProvider> {
+  constructor(private debug: boolean = false) {
+    super();
+  }
+
+  async create(
+    opts: TestStorageProviderOptions = {},
+  ): Promise<TestStorageProvider<GcsBucketProvider>> {
+    const storageProvider = new GcsBucketProvider({
+      bucketName: TEST_CONSTANTS.BUCKET_NAME,
+      projectId: TEST_CONSTANTS.FAKE_GCS.PROJECT_ID,
+      apiEndpoint: TEST_CONSTANTS.FAKE_GCS.ENDPOINT,
+      protectedTags: opts.protectedTags,
+      originalContentLayout: opts.originalContentLayout,
+      debug: this.debug,
+      rootPath: "projects",
+      logger: new TestLogger(),
+    });
+
+    const cleanup = async () => {
+      // No cleanup needed for GCS provider in this test setup
+    };
+
+    return { storageProvider, cleanup };
+  }
+}
+
+export class TestAzureStorageProviderFactory extends StorageProviderFactory<AzureBlobProvider> {
+  constructor(private debug: boolean = false) {
+    super();
+  }
+
+  async create(
+    opts: TestStorageProviderOptions = {},
+  ): Promise<TestStorageProvider<AzureBlobProvider>> {
+    const storageProvider = new AzureBlobProvider({
+      containerName: TEST_CONSTANTS.BUCKET_NAME,
+      credentials: {
+        type: "connectionString",
+        connectionString: TEST_CONSTANTS.AZURITE.CONNECTION_STRING,
+      },
+      protectedTags: opts.protectedTags,
+      originalContentLayout: opts.originalContentLayout,
+      debug: this.debug,
+      rootPath: "projects",
+      logger: new TestLogger(),
+    });
+
+    const cleanup = async () => {
+      // No cleanup needed for Azure provider in this test setup
+    };
+
+    return { storageProvider, cleanup };
+  }
+}
+
+export class TestHttpStorageProviderFactory extends StorageProviderFactory<HttpStorageProvider> {
+  constructor(private debug: boolean = false) {
+    super();
+  }
+
+  async create(
+    opts: TestStorageProviderOptions = {},
+  ): Promise<TestStorageProvider<HttpStorageProvider>> {
+    const token = "ethoko-test-token";
+    const server = new MockHttpStorageServer(token);
+    const baseUrl = await server.start();
+
+    const storageProvider = new HttpStorageProvider({
+      baseUrl,
+      token,
+      protectedTags: opts.protectedTags,
+      debug: this.debug,
+      logger: new TestLogger(),
+    });
+
+    const cleanup = async () => {
+      await server.stop();
+    };
+
+    return { storageProvider, cleanup };
+  }
+}
@@ -1,7 +1,10 @@
 import { test } from "vitest";
 import {
   StorageProviderFactory,
+  TestAzureStorageProviderFactory,
   TestFilesystemStorageProviderFactory,
+  TestGcsStorageProviderFactory,
+  TestHttpStorageProviderFactory,
   TestS3StorageProviderFactory,
 } from "./storage-provider-factory";
 import { StorageProvider } from "@/storage-provider/storage-provider.interface";
@@ -15,17 +18,23 @@ import { createTestLocalArtifactStore } from "./local-storage-factory";
  * Strategies:
  * - Filesystem Storage Provider: Uses filesystem-based storage (fast, no external deps)
  * - Amazon S3 Storage Provider: Uses LocalStack S3 mock (realistic, requires LocalStack)
+ * - Google Cloud Storage Provider: Uses fake-gcs-server emulator (realistic, requires the emulator container)
+ * - Azure Blob Storage Provider: Uses Azurite emulator (realistic, requires the emulator container)
+ * - HTTP Storage Provider: Uses an in-memory server implementing the HTTP storage REST contract (fast, no external deps)
  */
 export const STORAGE_PROVIDER_STRATEGIES = [
   ["Filesystem Storage Provider", new TestFilesystemStorageProviderFactory()],
   ["Amazon S3 Storage Provider", new TestS3StorageProviderFactory()],
+  ["Google Cloud Storage Provider", new TestGcsStorageProviderFactory()],
+  ["Azure Blob Storage Provider", new TestAzureStorageProviderFactory()],
+  ["HTTP Storage Provider", new TestHttpStorageProviderFactory()],
 ] as const;
 
 /**
  * Vitest test helper that provides storage provider and local artifact store fixtures.
  *
  * This extends the base `test` function with automatic setup/cleanup for:
- * - `storageProvider`: Storage backend (Filesystem or S3) for remote artifact storage
+ * - `storageProvider`: Storage backend (Filesystem, S3, GCS, Azure or HTTP) for remote artifact storage
  * - `localArtifactStore`: Local Artifact Store on the local filesystem
  * - `storageProviderFactory`: Factory for creating storage providers (can be scoped)
  *
@@ -7,6 +7,15 @@ export const TEST_CONSTANTS = {
     ACCESS_KEY_ID: "test",
     SECRET_ACCESS_KEY: "test",
   },
+  FAKE_GCS: {
+    ENDPOINT: "http://localhost:4443",
+    PROJECT_ID: "ethoko-test",
+  },
+  AZURITE: {
+    // Well-known Azurite development account, see https://learn.microsoft.com/azure/storage/common/storage-use-azurite
+    CONNECTION_STRING:
+      "DefaultEndpointsProtocol=http;AccountName=devstoreaccount1;AccountKey=Eby8vdM02xNOcqFlqUwJPLlmEtlCDXJ1OUzFT50uSRZ6IFsuFq2UVErCz4I6tq/K1SZFPTOtr/KBHBeksoGMGw==;BlobEndpoint=http://127.0.0.1:10000/devstoreaccount1;",
+  },
   BUCKET_NAME: "ethoko-test-bucket",
   PROJECTS: {
     DEFAULT: "default-project",
@@ -1,7 +1,11 @@
+import { AzuriteHelper } from "./helpers/azurite";
+import { FakeGcsHelper } from "./helpers/fake-gcs";
 import { LocalStackHelper } from "./helpers/localstack";
 import { TestSession } from "./helpers/test-session";
 
 let localStackHelper: LocalStackHelper;
+let fakeGcsHelper: FakeGcsHelper;
+let azuriteHelper: AzuriteHelper;
 
 export async function setup(): Promise<void> {
   console.log("\n========================================");
@@ -13,6 +17,12 @@ export async function setup(): Promise<void> {
   localStackHelper = new LocalStackHelper();
   await localStackHelper.start();
 
+  fakeGcsHelper = new FakeGcsHelper();
+  await fakeGcsHelper.start();
+
+  azuriteHelper = new AzuriteHelper();
+  await azuriteHelper.start();
+
   console.log("\n✅ Test infrastructure ready!\n");
 }
 
@@ -21,6 +31,16 @@ export async function teardown(): Promise<void> {
   console.log("🧹 Cleaning Up Test Suite");
   console.log("========================================\n");
 
+  if (azuriteHelper) {
+    await azuriteHelper.cleanupSession();
+    await azuriteHelper.stop();
+  }
+
+  if (fakeGcsHelper) {
+    await fakeGcsHelper.cleanupSession();
+    await fakeGcsHelper.stop();
+  }
+
   if (localStackHelper) {
     await localStackHelper.cleanupSession();
     await localStackHelper.stop();
@@ -1,7 +1,15 @@
+import { readFileSync } from "fs";
 import path from "path";
 import { defineConfig } from "vitest/config";
 
+const packageJson = JSON.parse(
+  readFileSync(path.resolve(__dirname, "./package.json"), "utf8"),
+) as { version: string };
+
 export default defineConfig({
+  define: {
+    __ETHOKO_VERSION__: JSON.stringify(packageJson.version),
+  },
   test: {
     projects: [
       {